@@ -25,15 +25,19 @@ const agentWithTools: AgentConfig = {
       name: 'Web Search',
       description: 'Search the web for current information',
       parameters: {
-        query: {
-          type: 'string',
-          description: 'The search query',
-        },
-        maxResults: {
-          type: 'number',
-          description: 'Maximum number of results to return',
-          default: 5,
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'The search query',
+          },
+          maxResults: {
+            type: 'number',
+            description: 'Maximum number of results to return',
+            default: 5,
+          },
         },
+        required: ['query'],
       },
     },
     {
@@ -41,10 +45,14 @@ const agentWithTools: AgentConfig = {
       name: 'URL Scraper',
       description: 'Extract content from a specific URL',
       parameters: {
-        url: {
-          type: 'string',
-          description: 'The URL to scrape',
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to scrape',
+          },
         },
+        required: ['url'],
       },
       requiresAuth: false,
     },
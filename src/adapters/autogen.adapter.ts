@@ -0,0 +1,1379 @@
+/**
+ * AutoGen Framework Adapter
+ * Converts AI Agent Schema to Microsoft AutoGen (AgentChat) format and back
+ */
+
+import { ToolSchema } from '../schemas/agent.schema.js';
+import { WorkflowConfigSchema } from '../schemas/workflow.schema.js';
+import { slugify, uniqueId } from '../utils/identifiers.js';
+import { getToolSettings } from '../tools/kinds.js';
+import { resolveAgentReferences } from '../agents/references.js';
+import { defaultModelCatalog } from '../models/catalog.js';
+import { toPythonIdentifier } from '../codegen/python.js';
+import { parsePromptTemplate } from '../templates/template.js';
+import { expandRouteLabel, parseCondition } from '../conditions/parser.js';
+import {
+  compileConditionToPython,
+  pythonDictPath,
+} from '../conditions/python.js';
+import {
+  prefixFidelityIssues,
+  recordDefaultedParameters,
+  flattenAgentForExport,
+  recordDroppedFields,
+  recordTemplatedFields,
+} from '../utils/fidelity.js';
+import type { AgentConfig, AIProvider, Tool } from '../types/agent.js';
+import type { ConditionExpression } from '../types/conditions.js';
+import type {
+  WorkflowConfig,
+  WorkflowConnection,
+  WorkflowNode,
+  WorkflowVariable,
+} from '../types/workflow.js';
+import type {
+  AutoGenAssistantAgent,
+  AutoGenGraphEdge,
+  AutoGenModelClient,
+  AutoGenModelContext,
+  AutoGenTeam,
+  AutoGenTeamType,
+  AutoGenTermination,
+  AutoGenTool,
+  AutoGenAdapterOptions,
+  AutoGenImportOptions,
+  AdapterImportIssue,
+  WorkflowImportResult,
+  ConversionResult,
+  FidelityIssue,
+} from '../types/adapters.js';
+
+/**
+ * Model client class for each provider, and the OpenAI-compatible endpoint
+ * of providers AutoGen has no client for
+ */
+const MODEL_CLIENTS: Record<
+  AIProvider,
+  { provider: string; baseUrl?: string }
+> = {
+  openai: { provider: 'OpenAIChatCompletionClient' },
+  'azure-openai': { provider: 'AzureOpenAIChatCompletionClient' },
+  anthropic: { provider: 'AnthropicChatCompletionClient' },
+  bedrock: { provider: 'AnthropicBedrockChatCompletionClient' },
+  google: {
+    provider: 'OpenAIChatCompletionClient',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai/',
+  },
+  mistral: {
+    provider: 'OpenAIChatCompletionClient',
+    baseUrl: 'https://api.mistral.ai/v1',
+  },
+  cohere: {
+    provider: 'OpenAIChatCompletionClient',
+    baseUrl: 'https://api.cohere.ai/compatibility/v1',
+  },
+  custom: { provider: 'OpenAIChatCompletionClient' },
+};
+
+/**
+ * Providers whose models the AutoGen OpenAI client does not know, so the
+ * client needs their `model_info`
+ */
+const MODEL_INFO_PROVIDERS: AIProvider[] = ['mistral', 'cohere', 'custom'];
+
+/**
+ * Messages after which an exported team stops unless configured otherwise
+ */
+const DEFAULT_MAX_MESSAGES = 20;
+
+/**
+ * Maps an AI agent configuration to an AutoGen AssistantAgent configuration
+ *
+ * @param agent - Agent configuration to convert
+ * @param options - Adapter options
+ * @returns AutoGen AssistantAgent configuration
+ *
+ * @example
+ * ```typescript
+ * const assistant = mapAgentToAutoGen({
+ *   id: 'researcher',
+ *   name: 'Researcher',
+ *   provider: 'anthropic',
+ *   model: 'claude-3-5-sonnet',
+ *   systemPrompt: 'You research topics thoroughly',
+ * });
+ * // assistant.modelClient.provider === 'AnthropicChatCompletionClient'
+ * ```
+ */
+export function mapAgentToAutoGen(
+  agent: AgentConfig,
+  options: AutoGenAdapterOptions = {}
+): AutoGenAssistantAgent {
+  return mapAgentToAutoGenWithReport(agent, options).output;
+}
+
+/**
+ * Maps an AI agent configuration to an AutoGen AssistantAgent configuration
+ * and reports every field the conversion dropped, approximated or defaulted
+ *
+ * @param agent - Agent configuration to convert
+ * @param options - Adapter options
+ * @returns AutoGen AssistantAgent configuration and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output, report } = mapAgentToAutoGenWithReport(agent);
+ * report.issues.forEach((i) => console.warn(i.path.join('.'), i.message));
+ * ```
+ */
+export function mapAgentToAutoGenWithReport(
+  agent: AgentConfig,
+  options: AutoGenAdapterOptions = {}
+): ConversionResult<AutoGenAssistantAgent> {
+  // Base agents are merged in before any field is mapped
+  const inherited = flattenAgentForExport(agent, options.agents);
+  agent = inherited.agent;
+  const issues: FidelityIssue[] = [...inherited.issues];
+
+  // AutoGen agent names must be Python identifiers
+  const name = toPythonIdentifier(agent.id, new Set());
+  if (name !== agent.id) {
+    issues.push({
+      path: ['id'],
+      kind: 'approximated',
+      severity: 'info',
+      message: `AutoGen agent names must be Python identifiers; exported as "${name}"`,
+    });
+  }
+
+  const { modelClient, issues: modelIssues } = mapModelClient(agent);
+  issues.push(...modelIssues);
+
+  const tools = agent.tools?.map(mapToolToAutoGen);
+  const modelContext = mapModelContext(agent, issues);
+
+  if (agent.description) {
+    recordDroppedFields(issues, agent, [
+      [
+        'name',
+        'info',
+        'AutoGen agents are identified by name; the display name is dropped',
+      ],
+    ]);
+  } else {
+    issues.push({
+      path: ['name'],
+      kind: 'approximated',
+      severity: 'info',
+      message:
+        'AutoGen agents are identified by name; the display name becomes the description',
+    });
+  }
+
+  recordDroppedFields(issues, agent, [
+    [
+      'connections',
+      'warning',
+      'Agent connections are not exported; use workflow connections',
+    ],
+    ['metadata', 'info', 'AutoGen agents have no metadata'],
+  ]);
+  recordTemplatedFields(
+    issues,
+    agent,
+    'AutoGen system messages and tool descriptions are not templated; placeholders reach the model as written',
+    'warning'
+  );
+
+  agent.tools?.forEach((tool, index) => {
+    const toolPath = ['tools', String(index)];
+    recordDroppedFields(
+      issues,
+      tool,
+      [
+        ['id', 'info', 'AutoGen tools are identified by name'],
+        ['requiresAuth', 'info', 'AutoGen tools carry no auth flag'],
+        [
+          'config',
+          'warning',
+          'AutoGen tool definitions carry no config; configure the tool in code',
+        ],
+      ],
+      toolPath
+    );
+
+    if (tool.kind === 'http') {
+      recordDroppedFields(
+        issues,
+        tool,
+        [
+          [
+            'body',
+            'warning',
+            'AutoGen HttpTool sends the arguments that are not in the path as the body; the body mapping is dropped',
+          ],
+        ],
+        toolPath
+      );
+    } else if (tool.kind === 'mcp') {
+      issues.push({
+        path: [...toolPath, 'toolName'],
+        kind: 'approximated',
+        severity: 'info',
+        message:
+          'McpWorkbench exposes every tool of the server; toolName is passed in init',
+      });
+    } else if (tool.kind === 'code' && tool.code) {
+      issues.push({
+        path: [...toolPath, 'code'],
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          'AutoGen code execution tools run code the agent writes; implement the FunctionTool to run the code from init',
+      });
+    } else if (tool.kind === 'code') {
+      if (tool.language !== 'python') {
+        issues.push({
+          path: [...toolPath, 'language'],
+          kind: 'approximated',
+          severity: 'warning',
+          message: 'PythonCodeExecutionTool runs Python, not JavaScript',
+        });
+      }
+      recordDroppedFields(
+        issues,
+        tool,
+        [
+          [
+            'timeoutMs',
+            'info',
+            'PythonCodeExecutionTool has no timeout; set it on the code executor',
+          ],
+        ],
+        toolPath
+      );
+    } else if (tool.kind === 'retriever') {
+      issues.push({
+        path: toolPath,
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          'AutoGen has no retriever tool; implement the FunctionTool to query the index from init',
+      });
+    }
+  });
+
+  return {
+    output: {
+      name,
+      description: agent.description || agent.name,
+      ...(agent.systemPrompt !== undefined && {
+        systemMessage: agent.systemPrompt,
+      }),
+      modelClient,
+      ...(tools && { tools }),
+      ...(modelContext && { modelContext }),
+      ...(agent.outputSchema && { outputContentType: agent.outputSchema }),
+      ...(options.reflectOnToolUse !== undefined && {
+        reflectOnToolUse: options.reflectOnToolUse,
+      }),
+      ...(options.maxToolIterations !== undefined && {
+        maxToolIterations: options.maxToolIterations,
+      }),
+      ...(options.modelClientStream !== undefined && {
+        modelClientStream: options.modelClientStream,
+      }),
+    },
+    report: { adapter: 'autogen', issues },
+  };
+}
+
+/**
+ * Maps a workflow configuration to an AutoGen team
+ *
+ * Agent nodes become participants. Connections, followed through trigger,
+ * condition and loop nodes, set the speaker order: a linear chain becomes a
+ * RoundRobinGroupChat in chain order, anything else a GraphFlow whose edges
+ * carry the compiled conditions (or, with `teamType: 'selector'`, a
+ * SelectorGroupChat limited to the connected speakers). Agents connected to
+ * an `end` node stop the team through a SourceMatchTermination. Prompt
+ * placeholders are filled with their variable's default value.
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns AutoGen team configuration
+ *
+ * @example
+ * ```typescript
+ * const workflow = {
+ *   id: 'workflow1',
+ *   name: 'Research and Write',
+ *   nodes: [
+ *     { id: 'researcher', type: 'agent', agent: researcherConfig },
+ *     { id: 'writer', type: 'agent', agent: writerConfig },
+ *     { id: 'done', type: 'end' },
+ *   ],
+ *   connections: [
+ *     { id: 'c1', sourceId: 'researcher', targetId: 'writer' },
+ *     { id: 'c2', sourceId: 'writer', targetId: 'done' },
+ *   ],
+ * };
+ *
+ * const team = mapWorkflowToAutoGen(workflow);
+ * // team.type === 'round-robin'
+ * ```
+ */
+export function mapWorkflowToAutoGen(
+  workflow: WorkflowConfig,
+  options: AutoGenAdapterOptions = {}
+): AutoGenTeam {
+  return mapWorkflowToAutoGenWithReport(workflow, options).output;
+}
+
+/**
+ * Maps a workflow configuration to an AutoGen team and reports every node,
+ * connection and field the conversion dropped, approximated or defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns AutoGen team configuration and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output: team, report } = mapWorkflowToAutoGenWithReport(workflow);
+ * if (hasFidelityIssues(report)) {
+ *   throw new Error('AutoGen export would change workflow behaviour');
+ * }
+ * ```
+ */
+export function mapWorkflowToAutoGenWithReport(
+  workflow: WorkflowConfig,
+  options: AutoGenAdapterOptions = {}
+): ConversionResult<AutoGenTeam> {
+  // Nodes that reference an agent by ID get the registered config inlined
+  if (options.agents) {
+    workflow = resolveAgentReferences(workflow, options.agents).workflow;
+  }
+
+  const { maxMessages = DEFAULT_MAX_MESSAGES } = options;
+  const issues: FidelityIssue[] = [];
+  const participants = new Map<string, AutoGenAssistantAgent>();
+  const usedNames = new Set<string>();
+  const variableNames = (workflow.variables || []).map((v) => v.name);
+
+  workflow.nodes.forEach((node, index) => {
+    const path = ['nodes', String(index)];
+    if (node.type === 'agent' && node.agent) {
+      const { output, report } = mapAgentToAutoGenWithReport(
+        fillTemplateDefaults(
+          node.agent,
+          workflow.variables || [],
+          [...path, 'agent'],
+          issues
+        ),
+        options
+      );
+      // Participants are named after their node, which is unique
+      const name = toPythonIdentifier(node.id, usedNames);
+      participants.set(node.id, { ...output, name });
+      issues.push(
+        ...prefixFidelityIssues(
+          report.issues.filter((issue) => issue.path[0] !== 'id'),
+          [...path, 'agent']
+        )
+      );
+      if (name !== node.id) {
+        issues.push({
+          path: [...path, 'id'],
+          kind: 'approximated',
+          severity: 'info',
+          message: `AutoGen agent names must be Python identifiers; exported as "${name}"`,
+        });
+      }
+    } else if (node.type === 'agent') {
+      issues.push({
+        path,
+        kind: 'dropped',
+        severity: 'error',
+        message: options.agents
+          ? `Agent "${node.agentId}" is not in the agent registry; no AutoGen agent is created`
+          : `Agent node references "${node.agentId}" without an inline config; no AutoGen agent is created`,
+      });
+    } else if (node.type === 'end') {
+      issues.push({
+        path,
+        kind: 'approximated',
+        severity: 'info',
+        message:
+          'Exported as a SourceMatchTermination on the agents connected to it',
+      });
+    } else {
+      issues.push({
+        path,
+        kind: 'dropped',
+        severity: node.type === 'loop' ? 'warning' : 'info',
+        message: `AutoGen teams have no ${node.type} nodes; connections through it join the agents around it`,
+      });
+    }
+  });
+
+  const flow = collectAgentFlow(workflow, new Set(participants.keys()));
+  const nameOf = (id: string) => participants.get(id)!.name;
+
+  const teamType = options.teamType ?? determineTeamType(flow, participants);
+  if (!options.teamType) {
+    issues.push({
+      path: ['teamType'],
+      kind: 'defaulted',
+      severity: 'info',
+      message: `Team type not set; inferred "${teamType}" from the workflow shape`,
+    });
+  }
+
+  // Round-robin teams speak in participant order, so follow the chain
+  let order = [...participants.keys()];
+  if (teamType === 'round-robin' && flow.startIds.length > 0) {
+    order = [flow.startIds[0]];
+    let next = flow.edges.find((edge) => edge.sourceId === order[0]);
+    while (next && !order.includes(next.targetId)) {
+      order.push(next.targetId);
+      const current = next.targetId;
+      next = flow.edges.find((edge) => edge.sourceId === current);
+    }
+    order.push(...[...participants.keys()].filter((id) => !order.includes(id)));
+  }
+
+  // Conditions only steer GraphFlow edges
+  if (teamType !== 'graph-flow') {
+    workflow.connections.forEach((conn, index) => {
+      if (conn.condition) {
+        issues.push({
+          path: ['connections', String(index), 'condition'],
+          kind: teamType === 'selector' ? 'approximated' : 'dropped',
+          severity: 'warning',
+          message:
+            teamType === 'selector'
+              ? 'The selector model picks among the connected speakers; condition not enforced'
+              : 'Round-robin teams speak in turn; condition dropped',
+        });
+      }
+    });
+  }
+
+  flow.conditionalEnds.forEach((index) => {
+    issues.push({
+      path: ['connections', String(index)],
+      kind: 'approximated',
+      severity: 'warning',
+      message:
+        teamType === 'graph-flow'
+          ? 'GraphFlow stops when no outgoing edge condition holds; the end condition is not checked'
+          : 'AutoGen group chats cannot stop on a condition; the team runs until the message limit',
+    });
+  });
+
+  // Agents connected to an end node stop the team when they speak
+  const maxMessageTermination: AutoGenTermination = {
+    type: 'max-messages',
+    maxMessages,
+  };
+  const termination: AutoGenTermination =
+    flow.endIds.length > 0
+      ? {
+          type: 'or',
+          conditions: [
+            { type: 'source-match', sources: flow.endIds.map(nameOf) },
+            maxMessageTermination,
+          ],
+        }
+      : maxMessageTermination;
+  if (flow.endIds.length === 0 && options.maxMessages === undefined) {
+    issues.push({
+      path: ['maxMessages'],
+      kind: 'defaulted',
+      severity: 'info',
+      message: `No agent is connected to an end node; the team stops after ${maxMessages} messages`,
+    });
+  }
+
+  const team: AutoGenTeam = {
+    name: workflow.name || workflow.id,
+    type: teamType,
+    participants: order.map((id) => participants.get(id)!),
+    termination,
+  };
+
+  if (teamType === 'selector') {
+    team.allowedTransitions = {};
+    flow.edges.forEach((edge) => {
+      const targets = (team.allowedTransitions![nameOf(edge.sourceId)] ??= []);
+      if (!targets.includes(nameOf(edge.targetId))) {
+        targets.push(nameOf(edge.targetId));
+      }
+    });
+    if (team.participants.length > 0) {
+      team.selectorModelClient = team.participants[0].modelClient;
+      issues.push({
+        path: ['teamType'],
+        kind: 'defaulted',
+        severity: 'info',
+        message: `The selector uses the model client of "${team.participants[0].name}"`,
+      });
+    }
+  } else if (teamType === 'graph-flow') {
+    const edges = flow.edges.map((edge): AutoGenGraphEdge => {
+      const graphEdge: AutoGenGraphEdge = {
+        source: nameOf(edge.sourceId),
+        target: nameOf(edge.targetId),
+      };
+      if (edge.conditions.length > 0) {
+        try {
+          graphEdge.condition = compileConditionToAutoGen(
+            edge.conditions.map((c) => `(${c})`).join(' && '),
+            variableNames
+          );
+        } catch (error) {
+          issues.push({
+            path: ['connections', String(edge.connectionIndex), 'condition'],
+            kind: 'dropped',
+            severity: 'error',
+            message: `Edge condition not compiled: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      }
+      return graphEdge;
+    });
+
+    // A join of alternative branches runs once any branch arrives
+    edges.forEach((edge) => {
+      const incoming = edges.filter((e) => e.target === edge.target);
+      if (incoming.length > 1) {
+        edge.activationCondition = incoming.some((e) => e.condition)
+          ? 'any'
+          : 'all';
+      }
+    });
+
+    team.graph = {
+      edges,
+      ...(flow.startIds.length === 1 && {
+        defaultStartNode: nameOf(flow.startIds[0]),
+      }),
+    };
+  }
+
+  recordDroppedFields(issues, workflow, [
+    [
+      'trigger',
+      'warning',
+      'AutoGen teams are started by the caller with run(task=...); trigger dropped',
+    ],
+    [
+      'variables',
+      'warning',
+      'AutoGen teams have no workflow variables; pass values in the task',
+    ],
+    [
+      'environments',
+      'warning',
+      'AutoGen teams have no environments; the base configuration is exported',
+    ],
+  ]);
+
+  return { output: team, report: { adapter: 'autogen', issues } };
+}
+
+/**
+ * Compiles a workflow condition into an AutoGen GraphFlow edge condition
+ *
+ * GraphFlow passes the source agent's last message to the condition, so
+ * `output` reads its text and variables read keys of its JSON content (the
+ * structured output of agents with an output schema). Outputs of other nodes
+ * (`outputs.<nodeId>`) are not available. The callable needs `import json`.
+ *
+ * @param condition - Condition string or parsed expression
+ * @param variables - Declared workflow variable names (route labels otherwise)
+ * @returns Python lambda source
+ * @throws {Error} If the condition is invalid or reads `outputs`
+ *
+ * @example
+ * ```typescript
+ * compileConditionToAutoGen('approved == true', ['approved']);
+ * // 'lambda message: json.loads(message.to_text()).get("approved") == True'
+ * ```
+ */
+export function compileConditionToAutoGen(
+  condition: string | ConditionExpression,
+  variables: string[] = []
+): string {
+  const parsed =
+    typeof condition === 'string' ? parseCondition(condition) : condition;
+  const expression = expandRouteLabel(parsed, (name) =>
+    variables.includes(name)
+  );
+
+  const test = compileConditionToPython(expression, ([root, ...rest]) => {
+    if (root === 'outputs') {
+      throw new Error(
+        `"outputs.${rest.join('.')}" is not available to AutoGen edge conditions`
+      );
+    }
+    if (root === 'output') {
+      return rest.length === 0
+        ? 'message.to_text()'
+        : pythonDictPath('json.loads(message.to_text())', rest);
+    }
+    return pythonDictPath('json.loads(message.to_text())', [root, ...rest]);
+  });
+
+  return `lambda message: ${test}`;
+}
+
+/**
+ * Maps an AutoGen AssistantAgent configuration back to an AI agent
+ * configuration
+ *
+ * The agent name becomes the ID (as a slug) and the name, the system message
+ * becomes the system prompt, and the model client gives the provider.
+ * AutoGen settings with no schema equivalent are kept in
+ * `metadata.autoGen`.
+ *
+ * @param assistant - AutoGen AssistantAgent configuration to convert
+ * @returns Agent configuration
+ *
+ * @example
+ * ```typescript
+ * const agent = mapAutoGenAgentToAgent({
+ *   name: 'researcher',
+ *   systemMessage: 'You research topics thoroughly',
+ *   modelClient: { provider: 'AnthropicChatCompletionClient', model: 'claude-3-5-sonnet' },
+ * });
+ * // agent.provider === 'anthropic', agent.model === 'claude-3-5-sonnet'
+ * ```
+ */
+export function mapAutoGenAgentToAgent(
+  assistant: AutoGenAssistantAgent
+): AgentConfig {
+  const { modelClient } = assistant;
+
+  const agent: AgentConfig = {
+    id: slugify(assistant.name) || 'agent',
+    name: assistant.name,
+    provider: resolveProvider(modelClient) ?? 'custom',
+    model: modelClient.model,
+  };
+
+  if (assistant.description && assistant.description !== assistant.name) {
+    agent.description = assistant.description;
+  }
+
+  if (assistant.systemMessage !== undefined) {
+    agent.systemPrompt = assistant.systemMessage;
+  }
+
+  // Map model client parameters
+  const parameters: NonNullable<AgentConfig['parameters']> = {
+    ...(modelClient.temperature !== undefined && {
+      temperature: modelClient.temperature,
+    }),
+    ...(modelClient.maxTokens !== undefined && {
+      maxTokens: modelClient.maxTokens,
+    }),
+    ...(modelClient.topP !== undefined && { topP: modelClient.topP }),
+    ...(modelClient.frequencyPenalty !== undefined && {
+      frequencyPenalty: modelClient.frequencyPenalty,
+    }),
+    ...(modelClient.presencePenalty !== undefined && {
+      presencePenalty: modelClient.presencePenalty,
+    }),
+    ...(modelClient.stop !== undefined && { stopSequences: modelClient.stop }),
+  };
+  if (Object.keys(parameters).length > 0) {
+    agent.parameters = parameters;
+  }
+
+  if (assistant.tools && assistant.tools.length > 0) {
+    agent.tools = assistant.tools.map(mapAutoGenToolToTool);
+  }
+
+  if (assistant.modelContext?.type === 'buffered') {
+    agent.memory =
+      assistant.modelContext.bufferSize === 1
+        ? { type: 'none' }
+        : { type: 'buffer', maxMessages: assistant.modelContext.bufferSize };
+  }
+
+  if (assistant.outputContentType) {
+    agent.outputSchema = assistant.outputContentType;
+  }
+
+  // Keep AutoGen-specific settings that have no schema equivalent
+  const autoGenSettings = {
+    ...(assistant.reflectOnToolUse !== undefined && {
+      reflectOnToolUse: assistant.reflectOnToolUse,
+    }),
+    ...(assistant.maxToolIterations !== undefined && {
+      maxToolIterations: assistant.maxToolIterations,
+    }),
+    ...(assistant.modelClientStream !== undefined && {
+      modelClientStream: assistant.modelClientStream,
+    }),
+  };
+  if (Object.keys(autoGenSettings).length > 0) {
+    agent.metadata = { autoGen: autoGenSettings };
+  }
+
+  return agent;
+}
+
+/**
+ * Maps an AutoGen team back to a workflow configuration
+ *
+ * Each participant becomes an agent node. Round-robin teams connect the
+ * participants in speaking order, selector group chats connect each speaker
+ * to its allowed transitions, and GraphFlow edges become connections (text
+ * conditions become `output contains` conditions). Speakers in a
+ * SourceMatchTermination are connected to an end node. The team type and
+ * termination are kept in `metadata.autoGen`.
+ *
+ * @param team - AutoGen team to convert
+ * @param options - Import options
+ * @returns The rebuilt workflow and everything that could not be mapped
+ *
+ * @example
+ * ```typescript
+ * const { workflow, issues } = mapAutoGenTeamToWorkflow(team);
+ *
+ * if (issues.length > 0) {
+ *   console.warn('Imported with issues:', issues);
+ * }
+ * ```
+ */
+export function mapAutoGenTeamToWorkflow(
+  team: AutoGenTeam,
+  options: AutoGenImportOptions = {}
+): WorkflowImportResult {
+  const { workflowId = slugify(team.name) || 'autogen-workflow' } = options;
+
+  const issues: AdapterImportIssue[] = [];
+  const nodes: WorkflowNode[] = [];
+  const connections: WorkflowConnection[] = [];
+  const usedNodeIds = new Set<string>();
+  const usedConnectionIds = new Set<string>();
+  const nodeIds = new Map<string, string>();
+
+  const addConnection = (
+    sourceId: string,
+    targetId: string,
+    condition?: string
+  ) => {
+    connections.push({
+      id: uniqueId(`${sourceId}-${targetId}`, usedConnectionIds),
+      sourceId,
+      targetId,
+      ...(condition && { condition }),
+    });
+  };
+  const resolveName = (name: string, path: string[]) => {
+    const id = nodeIds.get(name);
+    if (!id) {
+      issues.push({
+        path,
+        message: `"${name}" does not match any participant`,
+      });
+    }
+    return id;
+  };
+
+  team.participants.forEach((assistant, index) => {
+    if (!resolveProvider(assistant.modelClient)) {
+      issues.push({
+        path: ['participants', String(index), 'modelClient', 'provider'],
+        message: `Model client "${assistant.modelClient.provider}" has no provider equivalent; imported as custom`,
+      });
+    }
+    const agent = mapAutoGenAgentToAgent(assistant);
+    const id = uniqueId(agent.id, usedNodeIds);
+    nodeIds.set(assistant.name, id);
+    nodes.push({ id, type: 'agent', agent });
+  });
+
+  if (team.type === 'round-robin') {
+    const ids = [...nodeIds.values()];
+    ids.slice(1).forEach((id, index) => addConnection(ids[index], id));
+  } else if (team.type === 'selector') {
+    if (!team.allowedTransitions) {
+      issues.push({
+        path: ['allowedTransitions'],
+        message:
+          'The selector model may pick any speaker; imported without connections',
+      });
+    }
+    Object.entries(team.allowedTransitions ?? {}).forEach(
+      ([source, targets]) => {
+        const path = ['allowedTransitions', source];
+        const sourceId = resolveName(source, path);
+        targets.forEach((target, index) => {
+          const targetId = resolveName(target, [...path, String(index)]);
+          if (sourceId && targetId) {
+            addConnection(sourceId, targetId);
+          }
+        });
+      }
+    );
+  } else {
+    (team.graph?.edges ?? []).forEach((edge, index) => {
+      const path = ['graph', 'edges', String(index)];
+      const sourceId = resolveName(edge.source, [...path, 'source']);
+      const targetId = resolveName(edge.target, [...path, 'target']);
+      if (!sourceId || !targetId) {
+        return;
+      }
+
+      let condition: string | undefined;
+      if (edge.condition?.startsWith('lambda')) {
+        issues.push({
+          path: [...path, 'condition'],
+          message:
+            'Python edge conditions have no workflow equivalent; condition dropped',
+        });
+      } else if (edge.condition) {
+        condition = `output contains ${JSON.stringify(edge.condition)}`;
+      }
+      addConnection(sourceId, targetId, condition);
+    });
+  }
+
+  // Speakers that stop the team lead to an end node
+  const endSources: string[] = [];
+  const collectTermination = (
+    termination: AutoGenTermination,
+    path: string[]
+  ) => {
+    if (termination.type === 'or') {
+      termination.conditions.forEach((nested, index) =>
+        collectTermination(nested, [...path, 'conditions', String(index)])
+      );
+    } else if (termination.type === 'source-match') {
+      termination.sources.forEach((source, index) => {
+        const id = resolveName(source, [...path, 'sources', String(index)]);
+        if (id && !endSources.includes(id)) {
+          endSources.push(id);
+        }
+      });
+    } else if (termination.type === 'text-mention') {
+      issues.push({
+        path,
+        message: `Stopping when "${termination.text}" is mentioned has no workflow equivalent; kept in metadata`,
+      });
+    }
+  };
+  if (team.termination) {
+    collectTermination(team.termination, ['termination']);
+  }
+  if (endSources.length > 0) {
+    const endId = uniqueId('end', usedNodeIds);
+    nodes.push({ id: endId, type: 'end' });
+    endSources.forEach((sourceId) => addConnection(sourceId, endId));
+  }
+
+  const autoGenSettings = {
+    teamType: team.type,
+    ...(team.termination && { termination: team.termination }),
+    ...(team.maxTurns !== undefined && { maxTurns: team.maxTurns }),
+  };
+
+  const workflow: WorkflowConfig = {
+    id: workflowId,
+    name: team.name || workflowId,
+    nodes,
+    connections,
+    metadata: { autoGen: autoGenSettings },
+  };
+
+  // Surface anything that still keeps the result from being a valid workflow
+  const validation = WorkflowConfigSchema.safeParse(workflow);
+  if (!validation.success) {
+    validation.error.errors.forEach((issue) => {
+      issues.push({ path: issue.path.map(String), message: issue.message });
+    });
+  }
+
+  return { workflow, issues };
+}
+
+/**
+ * Helper: Agent-to-agent edges of a workflow, following connections through
+ * trigger, condition and loop nodes
+ */
+function collectAgentFlow(
+  workflow: WorkflowConfig,
+  agentIds: Set<string>
+): {
+  edges: Array<{
+    sourceId: string;
+    targetId: string;
+    conditions: string[];
+    connectionIndex: number;
+  }>;
+  startIds: string[];
+  endIds: string[];
+  conditionalEnds: number[];
+} {
+  const nodesById = new Map(workflow.nodes.map((n) => [n.id, n]));
+  const edges: ReturnType<typeof collectAgentFlow>['edges'] = [];
+  const endIds: string[] = [];
+  const conditionalEnds: number[] = [];
+
+  // Visits the agent and end nodes reachable from a node
+  const follow = (
+    fromId: string,
+    conditions: string[],
+    visited: Set<string>,
+    onAgent: (id: string, conditions: string[], index: number) => void,
+    onEnd: (conditions: string[], index: number) => void
+  ) => {
+    workflow.connections.forEach((conn, index) => {
+      if (conn.sourceId !== fromId) {
+        return;
+      }
+      const next = conn.condition
+        ? [...conditions, conn.condition]
+        : conditions;
+      const target = nodesById.get(conn.targetId);
+      if (!target) {
+        return;
+      }
+      if (agentIds.has(target.id)) {
+        onAgent(target.id, next, index);
+      } else if (target.type === 'end') {
+        onEnd(next, index);
+      } else if (target.type !== 'agent' && !visited.has(target.id)) {
+        follow(
+          target.id,
+          next,
+          new Set([...visited, target.id]),
+          onAgent,
+          onEnd
+        );
+      }
+    });
+  };
+
+  agentIds.forEach((sourceId) => {
+    follow(
+      sourceId,
+      [],
+      new Set(),
+      (targetId, conditions, connectionIndex) => {
+        edges.push({ sourceId, targetId, conditions, connectionIndex });
+      },
+      (conditions, index) => {
+        if (conditions.length > 0) {
+          conditionalEnds.push(index);
+        } else if (!endIds.includes(sourceId)) {
+          endIds.push(sourceId);
+        }
+      }
+    );
+  });
+
+  // Agents reached from triggers start the flow; otherwise agents nothing
+  // leads to, or the first agent if every agent is in a cycle
+  const startIds: string[] = [];
+  workflow.nodes
+    .filter((node) => node.type === 'trigger')
+    .forEach((trigger) =>
+      follow(
+        trigger.id,
+        [],
+        new Set([trigger.id]),
+        (id) => {
+          if (!startIds.includes(id)) {
+            startIds.push(id);
+          }
+        },
+        () => undefined
+      )
+    );
+  if (startIds.length === 0) {
+    startIds.push(
+      ...[...agentIds].filter(
+        (id) => !edges.some((edge) => edge.targetId === id)
+      )
+    );
+  }
+  if (startIds.length === 0 && agentIds.size > 0) {
+    startIds.push([...agentIds][0]);
+  }
+
+  return { edges, startIds, endIds, conditionalEnds };
+}
+
+/**
+ * Helper: Determine the team type from the workflow shape; an unconditional
+ * chain through every agent speaks round-robin, anything else needs a graph
+ */
+function determineTeamType(
+  flow: ReturnType<typeof collectAgentFlow>,
+  participants: Map<string, AutoGenAssistantAgent>
+): AutoGenTeamType {
+  const isChain =
+    flow.startIds.length <= 1 &&
+    flow.edges.length === Math.max(participants.size - 1, 0) &&
+    flow.edges.every(
+      (edge) =>
+        edge.conditions.length === 0 &&
+        flow.edges.filter((e) => e.sourceId === edge.sourceId).length === 1 &&
+        flow.edges.filter((e) => e.targetId === edge.targetId).length === 1 &&
+        !flow.startIds.includes(edge.targetId)
+    );
+
+  return isChain ? 'round-robin' : 'graph-flow';
+}
+
+/**
+ * Helper: Map an agent's provider, model and parameters to a model client
+ */
+function mapModelClient(agent: AgentConfig): {
+  modelClient: AutoGenModelClient;
+  issues: FidelityIssue[];
+} {
+  const issues: FidelityIssue[] = [];
+  const { provider, baseUrl } = MODEL_CLIENTS[agent.provider];
+  const isAnthropic = provider.startsWith('Anthropic');
+
+  const modelClient: AutoGenModelClient = {
+    provider,
+    model: agent.model,
+    ...(agent.provider === 'azure-openai' && { azureDeployment: agent.model }),
+    ...(baseUrl && { baseUrl }),
+    temperature: agent.parameters?.temperature ?? 0.7,
+    maxTokens: agent.parameters?.maxTokens ?? 1000,
+    ...(agent.parameters?.topP !== undefined && {
+      topP: agent.parameters.topP,
+    }),
+    ...(!isAnthropic &&
+      agent.parameters?.frequencyPenalty !== undefined && {
+        frequencyPenalty: agent.parameters.frequencyPenalty,
+      }),
+    ...(!isAnthropic &&
+      agent.parameters?.presencePenalty !== undefined && {
+        presencePenalty: agent.parameters.presencePenalty,
+      }),
+    ...(agent.parameters?.stopSequences !== undefined && {
+      stop: agent.parameters.stopSequences,
+    }),
+  };
+
+  recordDefaultedParameters(issues, agent.parameters, {
+    temperature: modelClient.temperature,
+    maxTokens: modelClient.maxTokens,
+  });
+  if (isAnthropic) {
+    recordDroppedFields(
+      issues,
+      agent.parameters,
+      [
+        ['frequencyPenalty', 'warning', `${provider} has no frequency penalty`],
+        ['presencePenalty', 'warning', `${provider} has no presence penalty`],
+      ],
+      ['parameters']
+    );
+  }
+
+  if (baseUrl) {
+    issues.push({
+      path: ['provider'],
+      kind: 'approximated',
+      severity: 'info',
+      message: `AutoGen has no ${agent.provider} client; the OpenAI client calls its OpenAI-compatible API`,
+    });
+  } else if (agent.provider === 'custom') {
+    issues.push({
+      path: ['provider'],
+      kind: 'approximated',
+      severity: 'warning',
+      message:
+        'Custom models are called through the OpenAI client; set base_url to their OpenAI-compatible endpoint',
+    });
+  } else if (
+    agent.provider === 'bedrock' &&
+    !agent.model.startsWith('anthropic.')
+  ) {
+    issues.push({
+      path: ['model'],
+      kind: 'approximated',
+      severity: 'warning',
+      message:
+        'AutoGen only has a Bedrock client for Anthropic models; the model may not work with it',
+    });
+  }
+
+  // The OpenAI client needs the capabilities of models it does not know
+  if (MODEL_INFO_PROVIDERS.includes(agent.provider)) {
+    const model = defaultModelCatalog.getModel(agent.provider, agent.model);
+    modelClient.modelInfo = {
+      vision: model?.vision ?? false,
+      functionCalling: model?.tools ?? true,
+      jsonOutput: model?.jsonMode ?? false,
+      structuredOutput: model?.jsonMode ?? false,
+      family: 'unknown',
+    };
+    if (!model) {
+      issues.push({
+        path: ['model'],
+        kind: 'defaulted',
+        severity: 'info',
+        message:
+          'Model is not in the model catalog; model_info assumes tool calling without vision or JSON output',
+      });
+    }
+  }
+
+  return { modelClient, issues };
+}
+
+/**
+ * Helper: Map an agent's memory to a model context
+ */
+function mapModelContext(
+  agent: AgentConfig,
+  issues: FidelityIssue[]
+): AutoGenModelContext | undefined {
+  const { memory } = agent;
+  if (!memory) {
+    return undefined;
+  }
+
+  recordDroppedFields(
+    issues,
+    memory,
+    [
+      [
+        'persistent',
+        'warning',
+        'AutoGen model contexts are not persisted; save the team state with save_state()',
+      ],
+    ],
+    ['memory']
+  );
+
+  if (memory.type === 'none') {
+    issues.push({
+      path: ['memory', 'type'],
+      kind: 'approximated',
+      severity: 'info',
+      message:
+        'AutoGen agents always keep context; limited to the last message',
+    });
+    return { type: 'buffered', bufferSize: 1 };
+  }
+  if (memory.type !== 'buffer') {
+    issues.push({
+      path: ['memory', 'type'],
+      kind: 'approximated',
+      severity: 'warning',
+      message:
+        memory.type === 'summary'
+          ? 'AutoGen has no summarizing model context; the message history is kept instead'
+          : 'AutoGen vector memory is configured in code; the message history is kept instead',
+    });
+  }
+
+  return memory.maxMessages !== undefined
+    ? { type: 'buffered', bufferSize: memory.maxMessages }
+    : { type: 'unbounded' };
+}
+
+/**
+ * Helper: Fill placeholders in the system prompt and tool descriptions with
+ * their variable's default value, as AutoGen has no prompt templates;
+ * placeholders of variables without a default are kept
+ */
+function fillTemplateDefaults(
+  agent: AgentConfig,
+  variables: WorkflowVariable[],
+  path: string[],
+  issues: FidelityIssue[]
+): AgentConfig {
+  const fill = (template: string, fieldPath: string[]): string => {
+    let filled = false;
+    const text = parsePromptTemplate(template)
+      .map((segment) => {
+        if (segment.type === 'text') {
+          return segment.value;
+        }
+        const value = variables.find(
+          (v) => v.name === segment.name
+        )?.defaultValue;
+        if (value === undefined) {
+          return `{{ ${segment.name} }}`;
+        }
+        filled = true;
+        return typeof value === 'string' ? value : JSON.stringify(value);
+      })
+      .join('');
+    if (!filled) {
+      return template;
+    }
+    issues.push({
+      path: [...path, ...fieldPath],
+      kind: 'approximated',
+      severity: 'info',
+      message:
+        'AutoGen has no prompt templates; placeholders filled with the variable defaults',
+    });
+    return text;
+  };
+
+  return {
+    ...agent,
+    ...(agent.systemPrompt !== undefined && {
+      systemPrompt: fill(agent.systemPrompt, ['systemPrompt']),
+    }),
+    ...(agent.tools && {
+      tools: agent.tools.map((tool, index) => ({
+        ...tool,
+        description: fill(tool.description, [
+          'tools',
+          String(index),
+          'description',
+        ]),
+      })),
+    }),
+  };
+}
+
+/**
+ * Helper: Find the provider of a model client (inverse of MODEL_CLIENTS)
+ */
+function resolveProvider(
+  modelClient: AutoGenModelClient
+): AIProvider | undefined {
+  if (modelClient.provider === 'OllamaChatCompletionClient') {
+    return 'custom';
+  }
+  const entries = Object.entries(MODEL_CLIENTS) as Array<
+    [AIProvider, (typeof MODEL_CLIENTS)[AIProvider]]
+  >;
+  const match =
+    entries.find(
+      ([, client]) =>
+        client.provider === modelClient.provider &&
+        client.baseUrl === modelClient.baseUrl
+    ) ??
+    entries.find(
+      ([provider, client]) =>
+        provider === 'custom' && client.provider === modelClient.provider
+    );
+  return match?.[0];
+}
+
+/**
+ * Helper: Map a tool to the AutoGen tool class for its kind
+ */
+function mapToolToAutoGen(tool: Tool): AutoGenTool {
+  const base = {
+    name: tool.name,
+    description: tool.description,
+    ...(tool.parameters && { parameters: tool.parameters }),
+    ...(tool.strict !== undefined && { strict: tool.strict }),
+  };
+
+  switch (tool.kind) {
+    case 'http': {
+      // HttpTool fills `{name}` placeholders in the path from the arguments
+      const url = /^(https?):\/\/([^/:]+)(?::(\d+))?(\/.*)?$/.exec(tool.url);
+      return {
+        ...base,
+        className: 'HttpTool',
+        init: url
+          ? {
+              scheme: url[1],
+              host: url[2],
+              port: url[3] ? Number(url[3]) : url[1] === 'https' ? 443 : 80,
+              path: url[4] ?? '/',
+              method: tool.method,
+              ...(tool.headers && { headers: tool.headers }),
+            }
+          : getToolSettings(tool),
+      };
+    }
+    case 'mcp':
+      return {
+        ...base,
+        className: 'McpWorkbench',
+        init: {
+          serverParams:
+            'url' in tool.server
+              ? { type: 'StreamableHttpServerParams', url: tool.server.url }
+              : {
+                  type: 'StdioServerParams',
+                  command: tool.server.command,
+                  args: tool.server.args ?? [],
+                },
+          toolName: tool.toolName,
+        },
+      };
+    case 'code':
+      return tool.code
+        ? { ...base, className: 'FunctionTool', init: getToolSettings(tool) }
+        : { ...base, className: 'PythonCodeExecutionTool' };
+    case 'retriever':
+      return {
+        ...base,
+        className: 'FunctionTool',
+        init: getToolSettings(tool),
+      };
+    default:
+      return { ...base, className: 'FunctionTool' };
+  }
+}
+
+/**
+ * Helper: Rebuild a tool from an AutoGen tool instance (inverse of
+ * mapToolToAutoGen); unrecognised instances become function tools
+ */
+function mapAutoGenToolToTool(definition: AutoGenTool): Tool {
+  const tool: Tool = {
+    id: definition.name,
+    name: definition.name,
+    description: definition.description,
+    ...(definition.parameters && { parameters: definition.parameters }),
+    ...(definition.strict !== undefined && { strict: definition.strict }),
+  };
+  const init = definition.init ?? {};
+
+  let settings: Record<string, unknown> = {};
+  if (definition.className === 'HttpTool') {
+    const defaultPort = init.scheme === 'https' ? 443 : 80;
+    settings = {
+      kind: 'http',
+      method: init.method,
+      url:
+        init.url ??
+        `${init.scheme}://${init.host}${init.port !== undefined && init.port !== defaultPort ? `:${init.port}` : ''}${init.path ?? '/'}`,
+      ...(init.headers !== undefined && { headers: init.headers }),
+    };
+  } else if (definition.className === 'McpWorkbench') {
+    const server = (init.serverParams ?? {}) as Record<string, unknown>;
+    settings = {
+      kind: 'mcp',
+      server:
+        server.url !== undefined
+          ? { url: server.url }
+          : { command: server.command, args: server.args },
+      toolName: init.toolName,
+    };
+  } else if (definition.className === 'PythonCodeExecutionTool') {
+    settings = { kind: 'code', language: 'python' };
+  } else if (definition.className === 'FunctionTool' && init.source) {
+    settings = { kind: 'retriever', ...init };
+  } else if (definition.className === 'FunctionTool' && init.language) {
+    settings = { kind: 'code', ...init };
+  }
+
+  const typed = ToolSchema.safeParse({ ...tool, ...settings });
+  return typed.success ? (typed.data as Tool) : tool;
+}
@@ -1,18 +1,55 @@
 /**
  * CrewAI Framework Adapter
- * Converts AI Agent Schema to CrewAI format
+ * Converts AI Agent Schema to CrewAI format and back
  */
 
-import type { AgentConfig } from '../types/agent.js';
-import type { WorkflowConfig } from '../types/workflow.js';
+import { ToolSchema } from '../schemas/agent.schema.js';
+import { WorkflowConfigSchema } from '../schemas/workflow.schema.js';
+import { slugify, uniqueId } from '../utils/identifiers.js';
+import { getToolSettings } from '../tools/kinds.js';
+import { resolveAgentReferences } from '../agents/references.js';
+import { expandRouteLabel, parseCondition } from '../conditions/parser.js';
+import {
+  compileConditionToPython,
+  pythonDictPath,
+} from '../conditions/python.js';
+import {
+  compileTemplateToPython,
+  parseTemplateFromPython,
+} from '../templates/compile.js';
+import { parsePromptTemplate } from '../templates/template.js';
+import {
+  prefixFidelityIssues,
+  recordDefaultedParameters,
+  flattenAgentForExport,
+  recordDroppedFields,
+} from '../utils/fidelity.js';
+import type { AgentConfig, AIProvider, Tool } from '../types/agent.js';
+import type { ConditionExpression } from '../types/conditions.js';
+import type {
+  WorkflowConfig,
+  WorkflowConnection,
+  WorkflowNode,
+} from '../types/workflow.js';
 import type {
   CrewAIAgent,
+  CrewAITool,
   CrewAITask,
   CrewAICrew,
   CrewAIProcess,
   CrewAIAdapterOptions,
+  CrewAIImportOptions,
+  AdapterImportIssue,
+  WorkflowImportResult,
+  ConversionResult,
+  FidelityIssue,
 } from '../types/adapters.js';
 
+/**
+ * Model used by CrewAI when an agent does not configure an LLM
+ */
+export const DEFAULT_CREWAI_MODEL = 'openai/gpt-4o-mini';
+
 /**
  * Maps an AI agent configuration to CrewAI agent format
  *
@@ -38,23 +75,51 @@ export function mapAgentToCrewAgent(
   agent: AgentConfig,
   options: CrewAIAdapterOptions = {}
 ): CrewAIAgent {
+  return mapAgentToCrewAgentWithReport(agent, options).output;
+}
+
+/**
+ * Maps an AI agent configuration to CrewAI agent format and reports
+ * every field the conversion dropped, approximated or defaulted
+ *
+ * @param agent - Agent configuration to convert
+ * @param options - Adapter options
+ * @returns CrewAI agent configuration and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output, report } = mapAgentToCrewAgentWithReport(agent);
+ * report.issues.forEach((i) => console.warn(i.path.join('.'), i.message));
+ * ```
+ */
+export function mapAgentToCrewAgentWithReport(
+  agent: AgentConfig,
+  options: CrewAIAdapterOptions = {}
+): ConversionResult<CrewAIAgent> {
+  // Base agents are merged in before any field is mapped
+  const inherited = flattenAgentForExport(agent, options.agents);
+  agent = inherited.agent;
   const { verbose = false, enableMemory = true, enableCache = true } = options;
 
   // Generate role from name/description
   const role = agent.name || agent.id;
 
+  // CrewAI fills `{name}` placeholders from the crew's kickoff inputs
+  const systemPrompt =
+    agent.systemPrompt && compileTemplateToPython(agent.systemPrompt, false);
+
   // Generate goal from system prompt or description
-  const goal =
-    agent.systemPrompt || agent.description || `Execute tasks as ${role}`;
+  const goal = systemPrompt || agent.description || `Execute tasks as ${role}`;
 
   // Generate backstory to provide context
   const backstory = agent.description
-    ? `${agent.description}. ${agent.systemPrompt || ''}`
-    : agent.systemPrompt ||
+    ? `${agent.description}. ${systemPrompt || ''}`
+    : systemPrompt ||
       `An AI agent specialized in performing tasks related to ${role}.`;
 
   // Map tools
   const tools = agent.tools?.map((tool) => tool.name);
+  const toolDefinitions = agent.tools?.map(mapToolToCrewAI);
 
   // Map LLM configuration
   const llm = {
@@ -64,17 +129,153 @@ export function mapAgentToCrewAgent(
     topP: agent.parameters?.topP ?? 1.0,
   };
 
+  const issues: FidelityIssue[] = [...inherited.issues];
+
+  recordDroppedFields(issues, agent, [
+    ['id', 'info', 'CrewAI agents are identified by role; the ID is dropped'],
+    [
+      'connections',
+      'warning',
+      'Agent connections are not exported; use workflow connections',
+    ],
+    ['metadata', 'info', 'CrewAI agents have no metadata'],
+    [
+      'outputSchema',
+      'warning',
+      "CrewAI agents have no output schema; crews set it as the agent's task output_json",
+    ],
+  ]);
+
+  if (agent.systemPrompt || agent.description) {
+    issues.push({
+      path: [agent.systemPrompt ? 'systemPrompt' : 'description'],
+      kind: 'approximated',
+      severity: 'info',
+      message: 'Folded into the CrewAI goal and backstory',
+    });
+  }
+
+  // CrewAI has no escape for braces, so literal `{name}` text is read as
+  // a kickoff input and fails when no such input is given
+  const literalInputs: Array<[string, string[]]> = [
+    ['systemPrompt', findLiteralInputs(agent.systemPrompt, true)],
+    ['description', findLiteralInputs(agent.description, false)],
+  ];
+  literalInputs.forEach(([field, names]) => {
+    if (names.length > 0) {
+      issues.push({
+        path: [field],
+        kind: 'approximated',
+        severity: 'error',
+        message: `Literal ${names.map((name) => `{${name}}`).join(', ')} is read by CrewAI as a kickoff input; kickoff fails unless the input is given`,
+      });
+    }
+  });
+
+  recordDroppedFields(
+    issues,
+    agent.parameters,
+    [
+      ['frequencyPenalty', 'warning', 'CrewAI LLMs have no frequency penalty'],
+      ['presencePenalty', 'warning', 'CrewAI LLMs have no presence penalty'],
+      ['stopSequences', 'warning', 'CrewAI LLMs have no stop sequences'],
+    ],
+    ['parameters']
+  );
+  recordDefaultedParameters(issues, agent.parameters, {
+    temperature: llm.temperature,
+    maxTokens: llm.maxTokens,
+    topP: llm.topP,
+  });
+
+  agent.tools?.forEach((tool, index) => {
+    recordDroppedFields(
+      issues,
+      tool,
+      [
+        ['requiresAuth', 'info', 'CrewAI tools carry no auth flag'],
+        ['strict', 'info', 'CrewAI does not request strict function calling'],
+        [
+          'config',
+          'warning',
+          'CrewAI tools are referenced by name; configure the tool in code',
+        ],
+      ],
+      ['tools', String(index)]
+    );
+
+    const toolPath = ['tools', String(index)];
+    if (tool.kind === 'http') {
+      issues.push({
+        path: toolPath,
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          'CrewAI has no HTTP tool; implement the BaseTool to make the request from init',
+      });
+    } else if (tool.kind === 'code' && tool.code) {
+      issues.push({
+        path: [...toolPath, 'code'],
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          'CrewAI code interpreters run code the agent writes; implement the BaseTool to run the code from init',
+      });
+    } else if (tool.kind === 'code') {
+      if (tool.language !== 'python') {
+        issues.push({
+          path: [...toolPath, 'language'],
+          kind: 'approximated',
+          severity: 'warning',
+          message: 'CodeInterpreterTool runs Python, not JavaScript',
+        });
+      }
+      recordDroppedFields(
+        issues,
+        tool,
+        [['timeoutMs', 'info', 'CodeInterpreterTool has no timeout']],
+        toolPath
+      );
+    }
+  });
+
+  if (agent.memory && agent.memory.type !== 'none') {
+    issues.push({
+      path: ['memory', 'type'],
+      kind: 'approximated',
+      severity: 'warning',
+      message: `Memory type "${agent.memory.type}" reduced to CrewAI memory: ${enableMemory}`,
+    });
+    recordDroppedFields(
+      issues,
+      agent.memory,
+      [
+        ['maxMessages', 'warning', 'CrewAI memory has no message limit'],
+        [
+          'persistent',
+          'warning',
+          'CrewAI agent memory has no persistence flag',
+        ],
+      ],
+      ['memory']
+    );
+  }
+
   return {
-    role,
-    goal,
-    backstory,
-    tools,
-    llm,
-    verbose,
-    allowDelegation: true, // CrewAI default
-    maxIter: 15,
-    memory: enableMemory && agent.memory?.type !== 'none',
-    cache: enableCache,
+    output: {
+      role,
+      goal,
+      backstory,
+      tools,
+      ...(toolDefinitions && { toolDefinitions }),
+      llm,
+      verbose,
+      allowDelegation: true, // CrewAI default
+      maxIter: 15,
+      memory: enableMemory && agent.memory?.type !== 'none',
+      cache: enableCache,
+    },
+    report: { adapter: 'crewai', issues },
   };
 }
 
@@ -106,6 +307,34 @@ export function mapWorkflowToCrew(
   workflow: WorkflowConfig,
   options: CrewAIAdapterOptions = {}
 ): CrewAICrew {
+  return mapWorkflowToCrewWithReport(workflow, options).output;
+}
+
+/**
+ * Maps a workflow configuration to CrewAI crew format and reports every
+ * node, connection and field the conversion dropped, approximated or defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns CrewAI crew configuration and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output: crew, report } = mapWorkflowToCrewWithReport(workflow);
+ * if (hasFidelityIssues(report)) {
+ *   throw new Error('Crew export would change workflow behaviour');
+ * }
+ * ```
+ */
+export function mapWorkflowToCrewWithReport(
+  workflow: WorkflowConfig,
+  options: CrewAIAdapterOptions = {}
+): ConversionResult<CrewAICrew> {
+  // Nodes that reference an agent by ID get the registered config inlined
+  if (options.agents) {
+    workflow = resolveAgentReferences(workflow, options.agents).workflow;
+  }
+
   const {
     process = determineProcessType(workflow),
     verbose = false,
@@ -116,10 +345,64 @@ export function mapWorkflowToCrew(
 
   const agents: CrewAIAgent[] = [];
   const tasks: CrewAITask[] = [];
+  const issues: FidelityIssue[] = [];
+  let manager: CrewAICrew['manager'];
+
+  if (!options.process) {
+    issues.push({
+      path: ['process'],
+      kind: 'defaulted',
+      severity: 'info',
+      message: `Process not set; inferred "${process}" from the workflow shape`,
+    });
+  }
+
+  // Manager nodes created by mapCrewToWorkflow coordinate rather than
+  // provide context, so they map back to the crew manager
+  const managerIds = new Set(
+    workflow.nodes
+      .filter((n) => n.type === 'agent' && n.metadata?.crewAIManager === true)
+      .map((n) => n.id)
+  );
+
+  const variableNames = (workflow.variables || []).map((v) => v.name);
+  const isInlineAgent = (id: string) =>
+    workflow.nodes.some((n) => n.id === id && n.type === 'agent' && n.agent);
+  const isConditionNode = (id: string) =>
+    workflow.nodes.some((n) => n.id === id && n.type === 'condition');
+  // Conditions for each route along which a connection is taken, walking
+  // back through condition nodes, which pass the previous output through
+  const routeConditions = (
+    conn: WorkflowConnection,
+    visited: Set<string> = new Set()
+  ): (string | undefined)[] => {
+    const upstream = workflow.connections.filter(
+      (c) => c.targetId === conn.sourceId && !managerIds.has(c.sourceId)
+    );
+    if (
+      !isConditionNode(conn.sourceId) ||
+      visited.has(conn.sourceId) ||
+      upstream.length === 0
+    ) {
+      return [conn.condition];
+    }
+    return upstream
+      .flatMap((c) => routeConditions(c, new Set([...visited, conn.sourceId])))
+      .map((condition) =>
+        condition && conn.condition
+          ? `(${condition}) && (${conn.condition})`
+          : condition || conn.condition
+      );
+  };
+  // Tasks whose incoming conditions compiled into a ConditionalTask condition
+  const conditionalTasks = new Set<string>();
 
   // Build dependency map for task context
   const dependencyMap = new Map<string, string[]>();
   workflow.connections.forEach((conn) => {
+    if (managerIds.has(conn.sourceId)) {
+      return;
+    }
     const deps = dependencyMap.get(conn.targetId) || [];
     deps.push(conn.sourceId);
     dependencyMap.set(conn.targetId, deps);
@@ -130,19 +413,40 @@ export function mapWorkflowToCrew(
     if (node.type === 'agent') {
       const agentConfig = node.agent;
 
-      if (agentConfig) {
+      if (agentConfig && managerIds.has(node.id)) {
+        manager = {
+          llm: mapAgentToCrewAgent(agentConfig, options).llm,
+          ...(agentConfig.systemPrompt && {
+            systemTemplate: agentConfig.systemPrompt,
+          }),
+        };
+      } else if (agentConfig) {
         // Convert agent config to CrewAI agent
-        const crewAgent = mapAgentToCrewAgent(agentConfig, options);
+        const { output: crewAgent, report } = mapAgentToCrewAgentWithReport(
+          agentConfig,
+          options
+        );
         agents.push(crewAgent);
+        // The task carries the output schema
+        issues.push(
+          ...prefixFidelityIssues(
+            report.issues.filter((issue) => issue.path[0] !== 'outputSchema'),
+            ['nodes', String(index), 'agent']
+          )
+        );
 
         // Create a task for this agent
         const dependencies = dependencyMap.get(node.id) || [];
         const task: CrewAITask = {
+          id: node.id,
           description:
-            agentConfig.systemPrompt ||
+            (agentConfig.systemPrompt &&
+              compileTemplateToPython(agentConfig.systemPrompt, false)) ||
             agentConfig.description ||
             `Execute task ${index + 1}`,
-          expectedOutput: `Results from ${crewAgent.role}`,
+          expectedOutput: agentConfig.outputSchema
+            ? describeOutputSchema(agentConfig.outputSchema)
+            : `Results from ${crewAgent.role}`,
           agent: crewAgent.role,
           tools: agentConfig.tools?.map((t) => t.name),
           context: dependencies
@@ -152,24 +456,508 @@ export function mapWorkflowToCrew(
             })
             .filter(Boolean) as string[],
           async: process === 'hierarchical',
+          ...(agentConfig.outputSchema && {
+            outputJson: agentConfig.outputSchema,
+          }),
         };
 
+        // The task runs conditionally only if every route in from an agent,
+        // directly or through condition nodes, has a condition
+        const routes = workflow.connections
+          .filter(
+            (c) =>
+              c.targetId === node.id &&
+              !managerIds.has(c.sourceId) &&
+              (isInlineAgent(c.sourceId) || isConditionNode(c.sourceId))
+          )
+          .flatMap((c) => routeConditions(c));
+        if (routes.length > 0 && routes.every(Boolean)) {
+          try {
+            task.condition = compileConditionToCrewAI(
+              routes.map((condition) => `(${condition})`).join(' || '),
+              variableNames
+            );
+            conditionalTasks.add(node.id);
+          } catch (error) {
+            issues.push({
+              path: ['nodes', String(index)],
+              kind: 'dropped',
+              severity: 'error',
+              message: `Task condition not compiled: ${error instanceof Error ? error.message : String(error)}`,
+            });
+          }
+        }
+
         tasks.push(task);
+      } else {
+        issues.push({
+          path: ['nodes', String(index)],
+          kind: 'dropped',
+          severity: 'error',
+          message: options.agents
+            ? `Agent "${node.agentId}" is not in the agent registry; no CrewAI agent or task is created`
+            : `Agent node references "${node.agentId}" without an inline config; no CrewAI agent or task is created`,
+        });
       }
+    } else {
+      issues.push({
+        path: ['nodes', String(index)],
+        kind: 'dropped',
+        severity:
+          node.type === 'condition' || node.type === 'loop'
+            ? 'warning'
+            : 'info',
+        message: `CrewAI crews have no ${node.type} nodes; node dropped`,
+      });
     }
   });
 
+  workflow.connections.forEach((conn, index) => {
+    if (managerIds.has(conn.sourceId)) {
+      return;
+    }
+    const path = ['connections', String(index)];
+    const endpoints = [conn.sourceId, conn.targetId].map((id) =>
+      workflow.nodes.find((n) => n.id === id)
+    );
+    const joinsAgents = endpoints.every((n) => n?.type === 'agent' && n.agent);
+    if (!joinsAgents) {
+      issues.push({
+        path,
+        kind: 'dropped',
+        severity: 'warning',
+        message:
+          'Connection does not join two inline agents; not represented in task context',
+      });
+    }
+    if (
+      !conn.condition ||
+      !isInlineAgent(conn.targetId) ||
+      (!joinsAgents && !isConditionNode(conn.sourceId))
+    ) {
+      return;
+    }
+    if (conditionalTasks.has(conn.targetId)) {
+      issues.push({
+        path: [...path, 'condition'],
+        kind: 'approximated',
+        severity: 'info',
+        message:
+          "Compiled into a ConditionalTask condition, which CrewAI evaluates against the previous task's output",
+      });
+    } else {
+      issues.push({
+        path: [...path, 'condition'],
+        kind: 'dropped',
+        severity: 'warning',
+        message: 'Target task also runs unconditionally; condition dropped',
+      });
+    }
+  });
+
+  recordDroppedFields(issues, workflow, [
+    [
+      'trigger',
+      'warning',
+      'CrewAI crews are started by the caller; trigger dropped',
+    ],
+    ['variables', 'warning', 'CrewAI crews have no workflow variables'],
+    [
+      'environments',
+      'warning',
+      'CrewAI crews have no environments; the base configuration is exported',
+    ],
+  ]);
+
   return {
-    name: workflow.name || workflow.id,
-    agents,
-    tasks,
+    output: {
+      name: workflow.name || workflow.id,
+      agents,
+      tasks,
+      process,
+      verbose,
+      memory: enableMemory,
+      cache: enableCache,
+      maxRpm,
+      shareCrewAI: false,
+      ...(manager && { manager }),
+    },
+    report: { adapter: 'crewai', issues },
+  };
+}
+
+/**
+ * Compiles a workflow condition into a CrewAI ConditionalTask condition
+ *
+ * CrewAI passes the previous task's `TaskOutput` to the condition, so `output`
+ * reads its raw text and variables read keys of its JSON output. Outputs of
+ * other nodes (`outputs.<nodeId>`) are not available.
+ *
+ * @param condition - Condition string or parsed expression
+ * @param variables - Declared workflow variable names (route labels otherwise)
+ * @returns Python lambda source
+ * @throws {Error} If the condition is invalid or reads `outputs`
+ *
+ * @example
+ * ```typescript
+ * compileConditionToCrewAI("approved == true", ['approved']);
+ * // 'lambda output: (output.json_dict or {}).get("approved") == True'
+ * ```
+ */
+export function compileConditionToCrewAI(
+  condition: string | ConditionExpression,
+  variables: string[] = []
+): string {
+  const parsed =
+    typeof condition === 'string' ? parseCondition(condition) : condition;
+  const expression = expandRouteLabel(parsed, (name) =>
+    variables.includes(name)
+  );
+
+  const test = compileConditionToPython(expression, ([root, ...rest]) => {
+    if (root === 'outputs') {
+      throw new Error(
+        `"outputs.${rest.join('.')}" is not available to CrewAI task conditions`
+      );
+    }
+    if (root === 'output') {
+      return rest.length === 0
+        ? 'output.raw'
+        : pythonDictPath('(output.json_dict or {})', rest);
+    }
+    return pythonDictPath('(output.json_dict or {})', [root, ...rest]);
+  });
+
+  return `lambda output: ${test}`;
+}
+
+/**
+ * Maps a CrewAI agent back to an AI agent configuration
+ *
+ * The role becomes the agent name, the goal becomes the system prompt and
+ * the backstory becomes the description. Text that mapAgentToCrewAgent
+ * generates for missing fields is recognised and dropped again.
+ *
+ * @param crewAgent - CrewAI agent to convert
+ * @param options - Import options
+ * @returns Agent configuration
+ *
+ * @example
+ * ```typescript
+ * const agent = mapCrewAgentToAgent({
+ *   role: 'Senior Researcher',
+ *   goal: 'Uncover developments in AI agents',
+ *   backstory: 'A seasoned analyst with an eye for detail',
+ *   llm: { model: 'anthropic/claude-3-opus', temperature: 0.2 },
+ * });
+ * // agent.provider === 'anthropic', agent.model === 'claude-3-opus'
+ * ```
+ */
+export function mapCrewAgentToAgent(
+  crewAgent: CrewAIAgent,
+  options: CrewAIImportOptions = {}
+): AgentConfig {
+  const { defaultModel = DEFAULT_CREWAI_MODEL } = options;
+  const { role, llm } = crewAgent;
+  const goal = crewAgent.goal && parseTemplateFromPython(crewAgent.goal, false);
+  const backstory =
+    crewAgent.backstory && parseTemplateFromPython(crewAgent.backstory, false);
+
+  const { provider, model } = splitCrewAIModel(llm?.model || defaultModel);
+
+  // Undo the text mapAgentToCrewAgent generates for missing fields
+  let systemPrompt: string | undefined =
+    goal && goal !== `Execute tasks as ${role}` ? goal : undefined;
+  let description: string | undefined;
+  if (
+    !backstory ||
+    backstory === goal ||
+    backstory ===
+      `An AI agent specialized in performing tasks related to ${role}.`
+  ) {
+    description = undefined;
+  } else if (systemPrompt && backstory.endsWith(`. ${systemPrompt}`)) {
+    description = backstory.slice(0, -(systemPrompt.length + 2));
+  } else if (backstory.endsWith('. ')) {
+    description = backstory.slice(0, -2);
+    if (description === systemPrompt) {
+      systemPrompt = undefined;
+    }
+  } else {
+    description = backstory;
+  }
+
+  const agent: AgentConfig = {
+    id: slugify(role) || 'agent',
+    name: role,
+    provider,
+    model,
+  };
+
+  if (description) {
+    agent.description = description;
+  }
+
+  if (systemPrompt) {
+    agent.systemPrompt = systemPrompt;
+  }
+
+  // Map LLM parameters
+  const parameters: NonNullable<AgentConfig['parameters']> = {
+    ...(llm?.temperature !== undefined && { temperature: llm.temperature }),
+    ...(llm?.maxTokens !== undefined && { maxTokens: llm.maxTokens }),
+    ...(llm?.topP !== undefined && { topP: llm.topP }),
+  };
+  if (Object.keys(parameters).length > 0) {
+    agent.parameters = parameters;
+  }
+
+  // Map tools; tools without an instance are only known by name
+  if (crewAgent.tools && crewAgent.tools.length > 0) {
+    agent.tools = crewAgent.tools.map((name) => {
+      const definition = crewAgent.toolDefinitions?.find(
+        (candidate) => candidate.name === name
+      );
+      return definition
+        ? mapCrewAIToolToTool(definition)
+        : { id: name, name, description: '' };
+    });
+  }
+
+  if (crewAgent.memory === false) {
+    agent.memory = { type: 'none' };
+  }
+
+  // Keep CrewAI-specific settings that have no schema equivalent
+  const crewSettings = {
+    ...(crewAgent.allowDelegation !== undefined && {
+      allowDelegation: crewAgent.allowDelegation,
+    }),
+    ...(crewAgent.maxIter !== undefined && { maxIter: crewAgent.maxIter }),
+    ...(crewAgent.maxRpm !== undefined && { maxRpm: crewAgent.maxRpm }),
+    ...(crewAgent.systemTemplate && {
+      systemTemplate: crewAgent.systemTemplate,
+    }),
+    ...(crewAgent.promptTemplate && {
+      promptTemplate: crewAgent.promptTemplate,
+    }),
+    ...(crewAgent.responseTemplate && {
+      responseTemplate: crewAgent.responseTemplate,
+    }),
+  };
+  if (Object.keys(crewSettings).length > 0) {
+    agent.metadata = { crewAI: crewSettings };
+  }
+
+  return agent;
+}
+
+/**
+ * Maps a CrewAI crew back to a workflow configuration
+ *
+ * Each task becomes an agent node for the task's agent, and task `context`
+ * lists become connections. Sequential crews also connect each task without
+ * context to the task before it, mirroring how CrewAI passes output along.
+ * Hierarchical crews get their manager as a separate agent node connected to
+ * every other agent node.
+ *
+ * @param crew - CrewAI crew to convert
+ * @param options - Import options
+ * @returns The rebuilt workflow and everything that could not be mapped
+ *
+ * @example
+ * ```typescript
+ * const { workflow, issues } = mapCrewToWorkflow(crew);
+ *
+ * if (issues.length > 0) {
+ *   console.warn('Imported with issues:', issues);
+ * }
+ * ```
+ */
+export function mapCrewToWorkflow(
+  crew: CrewAICrew,
+  options: CrewAIImportOptions = {}
+): WorkflowImportResult {
+  const { workflowId = slugify(crew.name) || 'crewai-workflow' } = options;
+  const process = crew.process || 'sequential';
+
+  const issues: AdapterImportIssue[] = [];
+  const nodes: WorkflowNode[] = [];
+  const connections: WorkflowConnection[] = [];
+  const usedNodeIds = new Set<string>();
+  const usedConnectionIds = new Set<string>();
+  const agentsByRole = new Map(crew.agents.map((a) => [a.role, a]));
+  const assignedRoles = new Set<string>();
+
+  const addConnection = (
+    sourceId: string,
+    targetId: string,
+    label?: string
+  ) => {
+    connections.push({
+      id: uniqueId(`${sourceId}-${targetId}`, usedConnectionIds),
+      sourceId,
+      targetId,
+      ...(label && { label }),
+    });
+  };
+
+  crew.agents.forEach((crewAgent, index) => {
+    if (!crewAgent.llm?.model) {
+      issues.push({
+        path: ['agents', String(index), 'llm'],
+        message: `Agent "${crewAgent.role}" has no LLM; using ${options.defaultModel || DEFAULT_CREWAI_MODEL}`,
+      });
+    }
+  });
+
+  // One agent node per task
+  const taskNodeIds: Array<string | undefined> = crew.tasks.map(
+    (task, index) => {
+      const crewAgent = task.agent ? agentsByRole.get(task.agent) : undefined;
+      if (!crewAgent) {
+        issues.push({
+          path: ['tasks', String(index), 'agent'],
+          message: task.agent
+            ? `Task agent "${task.agent}" does not match any agent role; task skipped`
+            : 'Task has no agent; task skipped',
+        });
+        return undefined;
+      }
+
+      assignedRoles.add(crewAgent.role);
+      const agent = mapCrewAgentToAgent(crewAgent, options);
+      if (task.outputJson) {
+        agent.outputSchema = task.outputJson;
+      }
+      const id = uniqueId(agent.id, usedNodeIds);
+      nodes.push({
+        id,
+        type: 'agent',
+        agent,
+        metadata: {
+          crewAITask: {
+            description: task.description,
+            expectedOutput: task.expectedOutput,
+            ...(task.async !== undefined && { async: task.async }),
+          },
+        },
+      });
+      return id;
+    }
+  );
+
+  // Agents without tasks still belong to the crew
+  crew.agents.forEach((crewAgent, index) => {
+    if (assignedRoles.has(crewAgent.role)) {
+      return;
+    }
+    if (process !== 'hierarchical') {
+      issues.push({
+        path: ['agents', String(index)],
+        message: `Agent "${crewAgent.role}" has no tasks; imported without connections`,
+      });
+    }
+    const agent = mapCrewAgentToAgent(crewAgent, options);
+    nodes.push({ id: uniqueId(agent.id, usedNodeIds), type: 'agent', agent });
+  });
+
+  // Task context becomes connections
+  crew.tasks.forEach((task, index) => {
+    const targetId = taskNodeIds[index];
+    if (!targetId) {
+      return;
+    }
+
+    const sources = (task.context || []).flatMap((reference, contextIndex) => {
+      const sourceId = resolveTaskReference(reference, crew, taskNodeIds);
+      if (!sourceId) {
+        issues.push({
+          path: ['tasks', String(index), 'context', String(contextIndex)],
+          message: `Context "${reference}" does not match any task`,
+        });
+        return [];
+      }
+      return [sourceId];
+    });
+
+    if (sources.length === 0 && process === 'sequential') {
+      const previous = taskNodeIds.slice(0, index).filter(Boolean).pop();
+      if (previous) {
+        sources.push(previous);
+      }
+    }
+
+    sources.forEach((sourceId) => addConnection(sourceId, targetId));
+  });
+
+  // Hierarchical crews are coordinated by a manager agent
+  if (process === 'hierarchical') {
+    const managerId = uniqueId('manager', usedNodeIds);
+    const { provider, model } = splitCrewAIModel(
+      crew.manager?.llm?.model || options.defaultModel || DEFAULT_CREWAI_MODEL
+    );
+    const managerAgent: AgentConfig = {
+      id: managerId,
+      name: 'Manager',
+      description: `Coordinates the ${crew.name || 'crew'} agents`,
+      provider,
+      model,
+      ...(crew.manager?.systemTemplate && {
+        systemPrompt: crew.manager.systemTemplate,
+      }),
+      ...(crew.manager?.promptTemplate && {
+        metadata: {
+          crewAI: { promptTemplate: crew.manager.promptTemplate },
+        },
+      }),
+    };
+
+    const workerIds = nodes.map((n) => n.id);
+    nodes.unshift({
+      id: managerId,
+      type: 'agent',
+      agent: managerAgent,
+      metadata: { crewAIManager: true },
+    });
+    workerIds.forEach((workerId) =>
+      addConnection(managerId, workerId, 'delegates')
+    );
+  }
+
+  if (process === 'consensual') {
+    issues.push({
+      path: ['process'],
+      message:
+        'Consensual process has no workflow equivalent; imported as sequential',
+    });
+  }
+
+  const crewSettings = {
     process,
-    verbose,
-    memory: enableMemory,
-    cache: enableCache,
-    maxRpm,
-    shareCrewAI: false,
+    ...(crew.verbose !== undefined && { verbose: crew.verbose }),
+    ...(crew.memory !== undefined && { memory: crew.memory }),
+    ...(crew.cache !== undefined && { cache: crew.cache }),
+    ...(crew.maxRpm !== undefined && { maxRpm: crew.maxRpm }),
   };
+
+  const workflow: WorkflowConfig = {
+    id: workflowId,
+    name: crew.name || workflowId,
+    nodes,
+    connections,
+    metadata: { crewAI: crewSettings },
+  };
+
+  // Surface anything that still keeps the result from being a valid workflow
+  const validation = WorkflowConfigSchema.safeParse(workflow);
+  if (!validation.success) {
+    validation.error.errors.forEach((issue) => {
+      issues.push({ path: issue.path.map(String), message: issue.message });
+    });
+  }
+
+  return { workflow, issues };
 }
 
 /**
@@ -217,3 +1005,168 @@ function mapCrewAIModel(provider: string, model: string): string {
   const mappedProvider = providerMap[provider] || provider;
   return `${mappedProvider}/${model}`;
 }
+
+/**
+ * Helper: Split a CrewAI `provider/model` identifier into provider and model
+ * (inverse of mapCrewAIModel)
+ */
+function splitCrewAIModel(identifier: string): {
+  provider: AIProvider;
+  model: string;
+} {
+  const providerMap: Record<string, AIProvider> = {
+    openai: 'openai',
+    anthropic: 'anthropic',
+    google: 'google',
+    mistral: 'mistral',
+    cohere: 'cohere',
+    azure: 'azure-openai',
+    bedrock: 'bedrock',
+    custom: 'custom',
+  };
+
+  const separator = identifier.indexOf('/');
+  const provider = providerMap[identifier.slice(0, separator)];
+  if (separator === -1 || !provider) {
+    return { provider: 'custom', model: identifier };
+  }
+
+  return { provider, model: identifier.slice(separator + 1) };
+}
+
+/**
+ * Helper: Resolve a task context reference to the node created for that task
+ * References may name a node ID, a task ID or the role of the task's agent
+ */
+function resolveTaskReference(
+  reference: string,
+  crew: CrewAICrew,
+  taskNodeIds: Array<string | undefined>
+): string | undefined {
+  if (taskNodeIds.includes(reference)) {
+    return reference;
+  }
+
+  const byId = crew.tasks.findIndex(
+    (task, i) => taskNodeIds[i] !== undefined && task.id === reference
+  );
+  if (byId !== -1) {
+    return taskNodeIds[byId];
+  }
+
+  const slug = slugify(reference);
+  const index = crew.tasks.findIndex(
+    (task, i) =>
+      taskNodeIds[i] !== undefined &&
+      task.agent !== undefined &&
+      (task.agent === reference || slugify(task.agent) === slug)
+  );
+  return index === -1 ? undefined : taskNodeIds[index];
+}
+
+/**
+ * Helper: Describe an output schema as a CrewAI task's expected output
+ */
+function describeOutputSchema(schema: Record<string, unknown>): string {
+  const summary =
+    typeof schema.description === 'string' ? ` (${schema.description})` : '';
+  return `A JSON object matching the output schema${summary}`;
+}
+
+/**
+ * Helper: Names in literal `{name}` text that CrewAI would interpolate as
+ * kickoff inputs (template placeholders excluded)
+ */
+function findLiteralInputs(
+  text: string | undefined,
+  isTemplate: boolean
+): string[] {
+  if (!text) {
+    return [];
+  }
+  const literals = isTemplate
+    ? parsePromptTemplate(text).flatMap((segment) =>
+        segment.type === 'text' ? [segment.value] : []
+      )
+    : [text];
+  const names = literals.flatMap((literal) =>
+    [...literal.matchAll(/\{([A-Za-z_][A-Za-z0-9_-]*)\}/g)].map(
+      (match) => match[1]
+    )
+  );
+  return [...new Set(names)];
+}
+
+/**
+ * Helper: Map a tool to the CrewAI tool class for its kind
+ */
+function mapToolToCrewAI(tool: Tool): CrewAITool {
+  const base = {
+    name: tool.name,
+    description: tool.description,
+    ...(tool.parameters && { argsSchema: tool.parameters }),
+  };
+
+  switch (tool.kind) {
+    case 'http':
+      return { ...base, className: 'BaseTool', init: getToolSettings(tool) };
+    case 'mcp':
+      return {
+        ...base,
+        className: 'MCPServerAdapter',
+        init: {
+          serverParams:
+            'url' in tool.server
+              ? { url: tool.server.url, transport: 'streamable-http' }
+              : { command: tool.server.command, args: tool.server.args ?? [] },
+          toolName: tool.toolName,
+        },
+      };
+    case 'code':
+      return tool.code
+        ? { ...base, className: 'BaseTool', init: getToolSettings(tool) }
+        : { ...base, className: 'CodeInterpreterTool' };
+    case 'retriever':
+      return { ...base, className: 'RagTool', init: getToolSettings(tool) };
+    default:
+      return { ...base, className: 'BaseTool' };
+  }
+}
+
+/**
+ * Helper: Rebuild a tool from a CrewAI tool instance (inverse of
+ * mapToolToCrewAI); unrecognised instances become function tools
+ */
+function mapCrewAIToolToTool(definition: CrewAITool): Tool {
+  const tool: Tool = {
+    id: definition.name,
+    name: definition.name,
+    description: definition.description,
+    ...(definition.argsSchema && { parameters: definition.argsSchema }),
+  };
+  const init = definition.init ?? {};
+
+  let settings: Record<string, unknown> = {};
+  if (definition.className === 'MCPServerAdapter') {
+    const server = (init.serverParams ?? {}) as Record<string, unknown>;
+    settings = {
+      kind: 'mcp',
+      server:
+        server.url !== undefined
+          ? { url: server.url }
+          : { command: server.command, args: server.args },
+      toolName: init.toolName,
+    };
+  } else if (definition.className === 'CodeInterpreterTool') {
+    settings = { kind: 'code', language: 'python' };
+  } else if (definition.className === 'RagTool') {
+    settings = { kind: 'retriever', ...init };
+  } else if (definition.className === 'BaseTool' && init.method) {
+    settings = { kind: 'http', ...init };
+  } else if (definition.className === 'BaseTool' && init.language) {
+    settings = { kind: 'code', ...init };
+  }
+
+  const typed = ToolSchema.safeParse({ ...tool, ...settings });
+  return typed.success ? (typed.data as Tool) : tool;
+}
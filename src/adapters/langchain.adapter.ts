@@ -1,10 +1,44 @@
 /**
  * LangChain Framework Adapter
- * Converts AI Agent Schema to LangChain format
+ * Converts AI Agent Schema to LangChain format and back
  */
 
-import type { AgentConfig } from '../types/agent.js';
-import type { WorkflowConfig } from '../types/workflow.js';
+import {
+  WorkflowConfigSchema,
+  WorkflowVariableSchema,
+} from '../schemas/workflow.schema.js';
+import { ToolSchema } from '../schemas/agent.schema.js';
+import { slugify, uniqueId } from '../utils/identifiers.js';
+import { getToolSettings } from '../tools/kinds.js';
+import { resolveAgentReferences } from '../agents/references.js';
+import { expandRouteLabel, parseCondition } from '../conditions/parser.js';
+import {
+  compileConditionToPython,
+  pythonDictPath,
+} from '../conditions/python.js';
+import {
+  compileTemplateToPython,
+  parseTemplateFromPython,
+} from '../templates/compile.js';
+import {
+  prefixFidelityIssues,
+  recordDefaultedParameters,
+  flattenAgentForExport,
+  recordDroppedFields,
+  recordTemplatedFields,
+} from '../utils/fidelity.js';
+import type {
+  AgentConfig,
+  AIProvider,
+  MemoryConfig,
+  Tool,
+} from '../types/agent.js';
+import type {
+  WorkflowConfig,
+  WorkflowConnection,
+  WorkflowNode,
+  WorkflowVariable,
+} from '../types/workflow.js';
 import type {
   LangChainAgent,
   LangChainAgentType,
@@ -13,6 +47,11 @@ import type {
   LangGraphWorkflow,
   LangGraphNode,
   LangChainAdapterOptions,
+  LangGraphImportOptions,
+  AdapterImportIssue,
+  WorkflowImportResult,
+  ConversionResult,
+  FidelityIssue,
 } from '../types/adapters.js';
 
 /**
@@ -39,6 +78,30 @@ export function mapAgentToLangChain(
   agent: AgentConfig,
   options: LangChainAdapterOptions = {}
 ): LangChainAgent {
+  return mapAgentToLangChainWithReport(agent, options).output;
+}
+
+/**
+ * Maps an AI agent configuration to LangChain agent format and reports
+ * every field the conversion dropped, approximated or defaulted
+ *
+ * @param agent - Agent configuration to convert
+ * @param options - Adapter options
+ * @returns LangChain agent configuration and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output, report } = mapAgentToLangChainWithReport(agent);
+ * report.issues.forEach((i) => console.warn(i.path.join('.'), i.message));
+ * ```
+ */
+export function mapAgentToLangChainWithReport(
+  agent: AgentConfig,
+  options: LangChainAdapterOptions = {}
+): ConversionResult<LangChainAgent> {
+  // Base agents are merged in before any field is mapped
+  const inherited = flattenAgentForExport(agent, options.agents);
+  agent = inherited.agent;
   const {
     agentType = determineAgentType(agent),
     verbose = false,
@@ -47,12 +110,7 @@ export function mapAgentToLangChain(
   } = options;
 
   // Map tools
-  const tools: LangChainTool[] = (agent.tools || []).map((tool) => ({
-    name: tool.name,
-    description: tool.description,
-    parameters: tool.parameters,
-    returnDirect: false,
-  }));
+  const tools: LangChainTool[] = (agent.tools || []).map(mapToolToLangChain);
 
   // Map memory
   const memory: LangChainMemory | undefined = agent.memory
@@ -80,15 +138,131 @@ export function mapAgentToLangChain(
     maxRetries: 2,
   };
 
+  const issues: FidelityIssue[] = [...inherited.issues];
+
+  recordDroppedFields(issues, agent, [
+    ['id', 'info', 'LangChain agents have no ID'],
+    ['name', 'info', 'LangChain agents have no name'],
+    ['description', 'info', 'LangChain agents have no description'],
+    [
+      'connections',
+      'warning',
+      'Agent connections are not exported; use workflow connections',
+    ],
+    ['metadata', 'info', 'LangChain agents have no metadata'],
+  ]);
+
+  recordDroppedFields(
+    issues,
+    agent.parameters,
+    [
+      [
+        'stopSequences',
+        'warning',
+        'LangChain llm config has no stop sequences',
+      ],
+    ],
+    ['parameters']
+  );
+  recordDefaultedParameters(issues, agent.parameters, {
+    temperature: llm.temperature,
+    maxTokens: llm.maxTokens,
+    topP: llm.topP,
+    frequencyPenalty: llm.frequencyPenalty,
+    presencePenalty: llm.presencePenalty,
+  });
+  recordTemplatedFields(
+    issues,
+    agent,
+    'Placeholders are compiled to LangChain prompt variables ({name}); supply them when formatting the prompt'
+  );
+
+  agent.tools?.forEach((tool, index) => {
+    recordDroppedFields(
+      issues,
+      tool,
+      [
+        ['id', 'info', 'LangChain tools are identified by name'],
+        ['requiresAuth', 'info', 'LangChain tools carry no auth flag'],
+        [
+          'config',
+          'warning',
+          'LangChain tool definitions carry no config; configure the tool in code',
+        ],
+      ],
+      ['tools', String(index)]
+    );
+
+    const toolPath = ['tools', String(index)];
+    if (tool.kind === 'http') {
+      issues.push({
+        path: [...toolPath, 'url'],
+        kind: 'approximated',
+        severity: 'warning',
+        message: `LangChain ${tools[index].className} takes the URL and body from the model; the URL template and body mapping are passed in init`,
+      });
+    } else if (tool.kind === 'code') {
+      issues.push({
+        path: toolPath,
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          tools[index].className === 'PythonREPLTool'
+            ? 'PythonREPLTool runs code in the host process, not a sandbox'
+            : 'LangChain has no sandboxed code tool; implement the StructuredTool to run the code from init',
+      });
+      if (tools[index].className === 'PythonREPLTool') {
+        recordDroppedFields(
+          issues,
+          tool,
+          [['timeoutMs', 'info', 'PythonREPLTool has no timeout']],
+          toolPath
+        );
+      }
+    }
+  });
+
+  if (agent.memory && memory && memory.type !== agent.memory.type) {
+    issues.push({
+      path: ['memory', 'type'],
+      kind: 'approximated',
+      severity: 'warning',
+      message: `Memory type "${agent.memory.type}" exported as LangChain "${memory.type}" memory`,
+    });
+  }
+  recordDroppedFields(
+    issues,
+    agent.memory,
+    [['persistent', 'warning', 'LangChain memory has no persistence flag']],
+    ['memory']
+  );
+
   return {
-    agentType,
-    llm,
-    tools,
-    memory,
-    systemMessage: agent.systemPrompt,
-    verbose,
-    maxIterations,
-    returnIntermediateSteps,
+    output: {
+      agentType,
+      llm,
+      tools,
+      memory,
+      systemMessage:
+        agent.systemPrompt !== undefined
+          ? compileTemplateToPython(agent.systemPrompt)
+          : undefined,
+      ...(agent.outputSchema && {
+        structuredOutput: {
+          schema: agent.outputSchema,
+          name: slugify(agent.id) || 'output',
+          // OpenAI models take the schema as a response_format
+          method:
+            agent.provider === 'openai' || agent.provider === 'azure-openai'
+              ? 'jsonSchema'
+              : 'functionCalling',
+        },
+      }),
+      verbose,
+      maxIterations,
+      returnIntermediateSteps,
+    },
+    report: { adapter: 'langchain', issues },
   };
 }
 
@@ -122,17 +296,73 @@ export function mapWorkflowToLangGraph(
   workflow: WorkflowConfig,
   options: LangChainAdapterOptions = {}
 ): LangGraphWorkflow {
+  return mapWorkflowToLangGraphWithReport(workflow, options).output;
+}
+
+/**
+ * Maps a workflow configuration to LangGraph workflow format and reports
+ * every node, connection and field the conversion dropped, approximated or
+ * defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns LangGraph workflow definition and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output: graph, report } = mapWorkflowToLangGraphWithReport(workflow);
+ * if (hasFidelityIssues(report)) {
+ *   throw new Error('LangGraph export would change workflow behaviour');
+ * }
+ * ```
+ */
+export function mapWorkflowToLangGraphWithReport(
+  workflow: WorkflowConfig,
+  options: LangChainAdapterOptions = {}
+): ConversionResult<LangGraphWorkflow> {
+  // Nodes that reference an agent by ID get the registered config inlined
+  if (options.agents) {
+    workflow = resolveAgentReferences(workflow, options.agents).workflow;
+  }
+
   const nodes: Record<string, LangGraphNode> = {};
+  const issues: FidelityIssue[] = [];
+  const variableNames = (workflow.variables || []).map((v) => v.name);
+
+  // Router nodes created by mapLangGraphToWorkflow fold back into
+  // conditional `next` records on the node that precedes them
+  const connections = foldRouterConnections(workflow);
 
   // Find entry point (trigger or first node)
   const triggerNode = workflow.nodes.find((n) => n.type === 'trigger');
   const entryPoint = triggerNode?.id || workflow.nodes[0]?.id || 'start';
 
   // Convert workflow nodes to LangGraph nodes
-  workflow.nodes.forEach((node) => {
+  workflow.nodes.forEach((node, index) => {
+    if (isRouterNode(node)) {
+      return;
+    }
+
+    const path = ['nodes', String(index)];
+    recordDroppedFields(
+      issues,
+      node,
+      [['position', 'info', 'LangGraph nodes have no position']],
+      path
+    );
+
     let lgNode: LangGraphNode;
 
-    switch (node.type) {
+    // Nodes imported from LangGraph that had no schema equivalent are re-emitted as-is
+    const preservedNode = node.metadata?.langGraphNode as
+      | Omit<LangGraphNode, 'id' | 'next'>
+      | undefined;
+
+    switch (preservedNode ? 'preserved' : node.type) {
+      case 'preserved':
+        lgNode = { ...preservedNode!, id: node.id };
+        break;
+
       case 'trigger':
         lgNode = {
           id: node.id,
@@ -141,13 +371,25 @@ export function mapWorkflowToLangGraph(
             template: 'Start workflow with input: {input}',
           },
         };
+        issues.push({
+          path,
+          kind: 'approximated',
+          severity: 'info',
+          message: 'Trigger exported as an input prompt node',
+        });
         break;
 
       case 'agent': {
         // If agent config is inline, convert it
         const agentConfig = node.agent;
         if (agentConfig) {
-          const lcAgent = mapAgentToLangChain(agentConfig, options);
+          const { output: lcAgent, report } = mapAgentToLangChainWithReport(
+            agentConfig,
+            options
+          );
+          issues.push(
+            ...prefixFidelityIssues(report.issues, [...path, 'agent'])
+          );
           lgNode = {
             id: node.id,
             type: 'agent',
@@ -157,6 +399,9 @@ export function mapWorkflowToLangGraph(
               tools: lcAgent.tools,
               memory: lcAgent.memory,
               systemMessage: lcAgent.systemMessage,
+              ...(lcAgent.structuredOutput && {
+                structuredOutput: lcAgent.structuredOutput,
+              }),
             },
           };
         } else {
@@ -168,15 +413,27 @@ export function mapWorkflowToLangGraph(
               agentId: node.agentId || node.id,
             },
           };
+          issues.push({
+            path: [...path, 'agentId'],
+            kind: 'approximated',
+            severity: options.agents ? 'error' : 'warning',
+            message: options.agents
+              ? `Agent "${node.agentId}" is not in the agent registry; exported as an unresolved { agentId } stub config`
+              : 'Exported as an unresolved { agentId } stub config',
+          });
         }
         break;
       }
 
       case 'condition':
+        // The router compiled from outgoing conditions replaces this below;
+        // conditional nodes imported from LangGraph keep their original config
         lgNode = {
           id: node.id,
           type: 'conditional',
-          config: {
+          config: (node.metadata?.langGraphConfig as
+            | Record<string, unknown>
+            | undefined) ?? {
             condition: 'lambda x: x.get("condition", True)',
           },
         };
@@ -191,6 +448,13 @@ export function mapWorkflowToLangGraph(
             description: 'Iterate over items',
           },
         };
+        issues.push({
+          path,
+          kind: 'approximated',
+          severity: 'warning',
+          message:
+            'Loop exported as a placeholder tool node; iteration is not modelled',
+        });
         break;
 
       case 'end':
@@ -212,32 +476,79 @@ export function mapWorkflowToLangGraph(
     }
 
     // Determine next nodes based on connections
-    const outgoingConnections = workflow.connections.filter(
+    const outgoingConnections = connections.filter(
       (c) => c.sourceId === node.id
     );
 
-    if (outgoingConnections.length === 1) {
+    const hasConditions = outgoingConnections.some((c) => c.condition);
+
+    if (outgoingConnections.length === 1 && !hasConditions) {
       // Simple connection
       lgNode.next = outgoingConnections[0].targetId;
-    } else if (outgoingConnections.length > 1) {
+    } else if (outgoingConnections.length > 0) {
       // Conditional or parallel
-      const hasConditions = outgoingConnections.some((c) => c.condition);
       if (hasConditions) {
         // Conditional routing
         lgNode.next = Object.fromEntries(
           outgoingConnections.map((c) => [c.condition || 'default', c.targetId])
         );
+        if (!node.metadata?.langGraphConfig) {
+          try {
+            lgNode.router = compileConditionToLangGraphRouter(
+              outgoingConnections.map((c) => c.condition),
+              variableNames
+            );
+            if (lgNode.type === 'conditional') {
+              lgNode.config = { condition: lgNode.router };
+            }
+          } catch (error) {
+            issues.push({
+              path,
+              kind: 'dropped',
+              severity: 'error',
+              message: `Router not compiled: ${error instanceof Error ? error.message : String(error)}`,
+            });
+          }
+        }
+        outgoingConnections.forEach((conn, position) => {
+          const key = conn.condition || 'default';
+          const overwritten = outgoingConnections
+            .slice(position + 1)
+            .some((c) => (c.condition || 'default') === key);
+          if (overwritten) {
+            issues.push({
+              path: ['connections', String(workflow.connections.indexOf(conn))],
+              kind: 'dropped',
+              severity: 'error',
+              message: `Another connection from "${node.id}" uses route "${key}"; this one is unreachable`,
+            });
+          }
+        });
       } else {
         // Parallel execution
         lgNode.next = outgoingConnections.map((c) => c.targetId);
       }
     }
 
+    if (
+      lgNode.type === 'conditional' &&
+      !lgNode.router &&
+      !node.metadata?.langGraphConfig
+    ) {
+      issues.push({
+        path,
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          'No outgoing conditions; router exported as a placeholder lambda',
+      });
+    }
+
     nodes[node.id] = lgNode;
   });
 
   // Build edges array
-  const edges = workflow.connections.map((conn) => ({
+  const edges = connections.map((conn) => ({
     source: conn.sourceId,
     target: conn.targetId,
     condition: conn.condition,
@@ -247,13 +558,61 @@ export function mapWorkflowToLangGraph(
   const stateSchema: Record<string, unknown> = {};
   const stateDefault: Record<string, unknown> = {};
 
-  (workflow.variables || []).forEach((variable) => {
+  (workflow.variables || []).forEach((variable, index) => {
     stateSchema[variable.name] = variable.type;
     if (variable.defaultValue !== undefined) {
       stateDefault[variable.name] = variable.defaultValue;
     }
+
+    const path = ['variables', String(index)];
+    if (variable.name === 'input' || variable.name === 'output') {
+      issues.push({
+        path,
+        kind: 'approximated',
+        severity: 'warning',
+        message: `Replaced by the built-in "${variable.name}" string state field`,
+      });
+    }
+    recordDroppedFields(
+      issues,
+      variable,
+      [
+        ['description', 'info', 'LangGraph state fields have no description'],
+        ['required', 'warning', 'LangGraph state fields cannot be required'],
+      ],
+      path
+    );
+  });
+
+  workflow.connections.forEach((conn, index) => {
+    recordDroppedFields(
+      issues,
+      conn,
+      [
+        ['label', 'info', 'LangGraph edges have no label'],
+        ['sourceHandle', 'info', 'LangGraph edges have no ports'],
+        ['targetHandle', 'info', 'LangGraph edges have no ports'],
+      ],
+      ['connections', String(index)]
+    );
   });
 
+  recordDroppedFields(issues, workflow, [
+    [
+      'trigger',
+      'warning',
+      'LangGraph graphs are invoked by the caller; trigger dropped',
+    ],
+    ['description', 'info', 'LangGraph workflows have no description'],
+    ['version', 'info', 'LangGraph workflows have no version'],
+    ['tags', 'info', 'LangGraph workflows have no tags'],
+    [
+      'environments',
+      'warning',
+      'LangGraph workflows have no environments; the base configuration is exported',
+    ],
+  ]);
+
   // Add default state fields
   stateSchema['input'] = 'string';
   stateSchema['output'] = 'string';
@@ -261,21 +620,481 @@ export function mapWorkflowToLangGraph(
   stateDefault['output'] = '';
 
   return {
-    name: workflow.name || workflow.id,
-    nodes,
-    edges,
-    entryPoint,
-    state: {
-      schema: stateSchema,
-      default: stateDefault,
-    },
-    checkpointer: {
-      type: 'memory',
-      config: {},
+    output: {
+      name: workflow.name || workflow.id,
+      nodes,
+      edges,
+      entryPoint,
+      state: {
+        schema: stateSchema,
+        default: stateDefault,
+      },
+      checkpointer: (
+        workflow.metadata?.langGraph as
+          | { checkpointer?: LangGraphWorkflow['checkpointer'] }
+          | undefined
+      )?.checkpointer ?? {
+        type: 'memory',
+        config: {},
+      },
     },
+    report: { adapter: 'langchain', issues },
   };
 }
 
+/**
+ * Compiles the conditions of a node's outgoing routes into a LangGraph
+ * router function
+ *
+ * The router returns the first route key (the condition itself) whose
+ * condition holds, then `'default'` when an unconditional route exists, and
+ * `'__end__'` otherwise. Conditions read the graph state: variables and
+ * `output` are state keys and `outputs.<nodeId>` reads `state["outputs"]`.
+ *
+ * @param conditions - Condition of each outgoing route (undefined for the default route)
+ * @param variables - Declared workflow variable names (route labels otherwise)
+ * @returns Python lambda source
+ * @throws {Error} If a condition is not a valid expression
+ *
+ * @example
+ * ```typescript
+ * compileConditionToLangGraphRouter(['score > 0.8', undefined], ['score']);
+ * // 'lambda state: "score > 0.8" if isinstance(state.get("score"), (int, float)) and state.get("score") > 0.8 else "default"'
+ * ```
+ */
+export function compileConditionToLangGraphRouter(
+  conditions: Array<string | undefined>,
+  variables: string[] = []
+): string {
+  const branches = conditions
+    .filter((condition): condition is string => condition !== undefined)
+    .map((condition) => {
+      const expression = expandRouteLabel(parseCondition(condition), (name) =>
+        variables.includes(name)
+      );
+      const test = compileConditionToPython(expression, (segments) =>
+        pythonDictPath('state', segments)
+      );
+      return `${JSON.stringify(condition)} if ${test} else `;
+    });
+  const fallback = conditions.includes(undefined) ? 'default' : '__end__';
+
+  return `lambda state: ${branches.join('')}${JSON.stringify(fallback)}`;
+}
+
+/**
+ * Maps a LangGraph workflow back to a workflow configuration
+ *
+ * Conditional `next` records on `conditional` nodes become labelled
+ * connections from a condition node. Conditional records on any other node
+ * type are routed through a generated condition node which
+ * `mapWorkflowToLangGraph` folds back into the original record, so a
+ * LangGraph -> schema -> LangGraph round trip keeps the same graph.
+ *
+ * @param lgWorkflow - LangGraph workflow definition to import
+ * @param options - Import options
+ * @returns The rebuilt workflow and everything that could not be mapped
+ *
+ * @example
+ * ```typescript
+ * const { workflow, issues } = mapLangGraphToWorkflow(lgWorkflow);
+ *
+ * if (issues.length > 0) {
+ *   console.warn('Imported with issues:', issues);
+ * }
+ * ```
+ */
+export function mapLangGraphToWorkflow(
+  lgWorkflow: LangGraphWorkflow,
+  options: LangGraphImportOptions = {}
+): WorkflowImportResult {
+  const { workflowId = slugify(lgWorkflow.name) || 'langgraph-workflow' } =
+    options;
+
+  const issues: AdapterImportIssue[] = [];
+  const nodes: WorkflowNode[] = [];
+  const usedNodeIds = new Set(Object.keys(lgWorkflow.nodes));
+  const usedConnectionIds = new Set<string>();
+
+  // Collect every edge once, from both `next` and the edge list
+  const edges: Array<{
+    source: string;
+    target: string;
+    condition?: string;
+    path: string[];
+  }> = [];
+  const edgeKeys = new Set<string>();
+  const addEdge = (
+    path: string[],
+    source: string,
+    target: string,
+    condition?: string
+  ) => {
+    const key = JSON.stringify([source, target, condition ?? null]);
+    if (!edgeKeys.has(key)) {
+      edgeKeys.add(key);
+      edges.push({ source, target, condition, path });
+    }
+  };
+
+  Object.entries(lgWorkflow.nodes).forEach(([key, lgNode]) => {
+    const source = lgNode.id || key;
+    const { next } = lgNode;
+    const path = ['nodes', key, 'next'];
+    if (typeof next === 'string') {
+      addEdge(path, source, next);
+    } else if (Array.isArray(next)) {
+      next.forEach((target) => addEdge(path, source, target));
+    } else if (next) {
+      Object.entries(next).forEach(([condition, target]) =>
+        addEdge(
+          path,
+          source,
+          target,
+          condition === 'default' ? undefined : condition
+        )
+      );
+    }
+  });
+  lgWorkflow.edges.forEach((edge, index) =>
+    addEdge(
+      ['edges', String(index)],
+      edge.source,
+      edge.target,
+      edge.condition || undefined
+    )
+  );
+
+  const outgoing = new Set(edges.map((edge) => edge.source));
+
+  // Convert LangGraph nodes, keeping the entry point first
+  const entries = Object.entries(lgWorkflow.nodes).sort(
+    ([a], [b]) =>
+      Number(b === lgWorkflow.entryPoint) - Number(a === lgWorkflow.entryPoint)
+  );
+
+  if (!lgWorkflow.nodes[lgWorkflow.entryPoint]) {
+    issues.push({
+      path: ['entryPoint'],
+      message: `Entry point "${lgWorkflow.entryPoint}" does not match any node`,
+    });
+  }
+
+  entries.forEach(([key, lgNode]) => {
+    const id = lgNode.id || key;
+    const path = ['nodes', key];
+    const isTerminal = !outgoing.has(id);
+    const config = lgNode.config || {};
+
+    switch (lgNode.type) {
+      case 'prompt':
+        if (id === lgWorkflow.entryPoint) {
+          nodes.push({ id, type: 'trigger' });
+          return;
+        }
+        break;
+
+      case 'agent':
+      case 'llm': {
+        const llm = config.llm as LangChainAgent['llm'] | undefined;
+        if (typeof config.agentId === 'string') {
+          nodes.push({ id, type: 'agent', agentId: config.agentId });
+          return;
+        }
+        if (llm?.modelName) {
+          nodes.push({
+            id,
+            type: 'agent',
+            agent: mapLangGraphConfigToAgent(id, config, path, issues),
+          });
+          return;
+        }
+        if (lgNode.type === 'agent') {
+          issues.push({
+            path,
+            message: `Agent "${id}" has neither an llm nor an agentId; referenced by node ID`,
+          });
+          nodes.push({ id, type: 'agent', agentId: id });
+          return;
+        }
+        if (isTerminal) {
+          nodes.push({ id, type: 'end' });
+          return;
+        }
+        break;
+      }
+
+      case 'conditional':
+        nodes.push({
+          id,
+          type: 'condition',
+          ...(Object.keys(config).length > 0 && {
+            metadata: { langGraphConfig: config },
+          }),
+        });
+        return;
+
+      case 'tool':
+        if (config.name === 'loop') {
+          nodes.push({ id, type: 'loop' });
+          return;
+        }
+        break;
+    }
+
+    // No schema equivalent: keep the original node verbatim
+    const preserved: Partial<LangGraphNode> = { ...lgNode };
+    delete preserved.next;
+    nodes.push({
+      id,
+      type: isTerminal ? 'end' : 'condition',
+      metadata: { langGraphNode: preserved },
+    });
+    issues.push({
+      path,
+      message: `Node "${id}" of type "${lgNode.type}" imported as a pass-through ${isTerminal ? 'end' : 'condition'} node; original kept in metadata.langGraphNode`,
+    });
+  });
+
+  // Conditional edges leaving non-condition nodes go through a router node
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const routers = new Map<string, string>();
+  edges
+    .filter((edge) => edge.condition !== undefined)
+    .forEach((edge) => {
+      const source = nodes.find((n) => n.id === edge.source);
+      if (source && source.type !== 'condition' && !routers.has(source.id)) {
+        const routerId = uniqueId(`${source.id}-router`, usedNodeIds);
+        routers.set(source.id, routerId);
+        nodes.push({
+          id: routerId,
+          type: 'condition',
+          metadata: { langGraphRouter: true },
+        });
+        nodeIds.add(routerId);
+      }
+    });
+
+  const connections: WorkflowConnection[] = [];
+  const addConnection = (
+    sourceId: string,
+    targetId: string,
+    condition?: string,
+    label?: string
+  ) => {
+    connections.push({
+      id: uniqueId(`${sourceId}-${targetId}`, usedConnectionIds),
+      sourceId,
+      targetId,
+      ...(condition !== undefined && { condition }),
+      ...(label !== undefined && { label }),
+    });
+  };
+
+  edges.forEach((edge) => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      issues.push({
+        path: edge.path,
+        message: `Edge "${edge.source}" -> "${edge.target}" references a missing node and was skipped`,
+      });
+      return;
+    }
+
+    const routerId = routers.get(edge.source);
+    if (!routerId) {
+      addConnection(edge.source, edge.target, edge.condition, edge.condition);
+      return;
+    }
+
+    if (!connections.some((c) => c.targetId === routerId)) {
+      addConnection(edge.source, routerId);
+    }
+    addConnection(
+      routerId,
+      edge.target,
+      edge.condition,
+      edge.condition ?? 'default'
+    );
+  });
+
+  // Workflow variables from the state schema (input/output are built in)
+  const variables: WorkflowVariable[] = [];
+  Object.entries(lgWorkflow.state?.schema || {}).forEach(([name, type]) => {
+    if (name === 'input' || name === 'output') {
+      return;
+    }
+
+    const declared =
+      typeof type === 'string'
+        ? type
+        : ((type as { type?: unknown } | null)?.type as string | undefined);
+    const variableType = WorkflowVariableSchema.shape.type.safeParse(declared);
+    if (!variableType.success) {
+      issues.push({
+        path: ['state', 'schema', name],
+        message: `State type "${String(declared)}" is not supported; using "object"`,
+      });
+    }
+
+    const defaultValue = lgWorkflow.state.default?.[name];
+    variables.push({
+      name,
+      type: variableType.success ? variableType.data : 'object',
+      ...(defaultValue !== undefined && { defaultValue }),
+    });
+  });
+
+  const workflow: WorkflowConfig = {
+    id: workflowId,
+    name: lgWorkflow.name || workflowId,
+    nodes,
+    connections,
+    ...(variables.length > 0 && { variables }),
+    ...(lgWorkflow.checkpointer && {
+      metadata: { langGraph: { checkpointer: lgWorkflow.checkpointer } },
+    }),
+  };
+
+  // Surface anything that still keeps the result from being a valid workflow
+  const validation = WorkflowConfigSchema.safeParse(workflow);
+  if (!validation.success) {
+    validation.error.errors.forEach((issue) => {
+      issues.push({ path: issue.path.map(String), message: issue.message });
+    });
+  }
+
+  return { workflow, issues };
+}
+
+/**
+ * Helper: Map a tool to the LangChain tool class for its kind
+ */
+function mapToolToLangChain(tool: Tool): LangChainTool {
+  const base: LangChainTool = {
+    name: tool.name,
+    description: compileTemplateToPython(tool.description),
+    parameters: tool.parameters,
+    ...(tool.strict !== undefined && { strict: tool.strict }),
+    returnDirect: false,
+  };
+
+  switch (tool.kind) {
+    case 'http':
+      return {
+        ...base,
+        className: `Requests${tool.method[0]}${tool.method.slice(1).toLowerCase()}Tool`,
+        init: {
+          url: tool.url,
+          ...(tool.headers && { headers: tool.headers }),
+          ...(tool.body && { body: tool.body }),
+        },
+      };
+    case 'mcp':
+      return {
+        ...base,
+        className: 'MultiServerMCPClient',
+        init: {
+          connections: {
+            [tool.id]:
+              'url' in tool.server
+                ? { transport: 'streamable_http', url: tool.server.url }
+                : {
+                    transport: 'stdio',
+                    command: tool.server.command,
+                    args: tool.server.args ?? [],
+                  },
+          },
+          toolName: tool.toolName,
+        },
+      };
+    case 'code':
+      // Python code interpreters have a built-in tool
+      return tool.language === 'python' && !tool.code
+        ? { ...base, className: 'PythonREPLTool' }
+        : {
+            ...base,
+            className: 'StructuredTool',
+            init: getToolSettings(tool),
+          };
+    case 'retriever':
+      return {
+        ...base,
+        className: 'VectorStoreRetriever',
+        init: {
+          source: tool.source,
+          ...(tool.topK !== undefined && { searchKwargs: { k: tool.topK } }),
+        },
+      };
+    default:
+      return { ...base, className: 'StructuredTool' };
+  }
+}
+
+/**
+ * Helper: Rebuild a tool from a LangChain tool (inverse of
+ * mapToolToLangChain)
+ */
+function mapLangChainToolToTool(
+  lcTool: LangChainTool,
+  path: string[],
+  issues: AdapterImportIssue[]
+): Tool {
+  const tool: Tool = {
+    id: lcTool.name,
+    name: lcTool.name,
+    description: parseTemplateFromPython(lcTool.description),
+    ...(lcTool.parameters && { parameters: lcTool.parameters }),
+    ...(lcTool.strict !== undefined && { strict: lcTool.strict }),
+  };
+  const className = lcTool.className ?? 'StructuredTool';
+  const init = lcTool.init ?? {};
+
+  let settings: Record<string, unknown> | undefined;
+  const requests = /^Requests(Get|Post|Put|Patch|Delete)Tool$/.exec(className);
+  if (requests) {
+    settings = {
+      kind: 'http',
+      method: requests[1].toUpperCase(),
+      url: init.url,
+      headers: init.headers,
+      body: init.body,
+    };
+  } else if (className === 'MultiServerMCPClient') {
+    const [connection] = Object.values(
+      (init.connections ?? {}) as Record<string, Record<string, unknown>>
+    );
+    settings = {
+      kind: 'mcp',
+      server:
+        connection?.url !== undefined
+          ? { url: connection.url }
+          : { command: connection?.command, args: connection?.args },
+      toolName: init.toolName,
+    };
+  } else if (className === 'PythonREPLTool') {
+    settings = { kind: 'code', language: 'python' };
+  } else if (className === 'VectorStoreRetriever') {
+    const searchKwargs = init.searchKwargs as { k?: unknown } | undefined;
+    settings = {
+      kind: 'retriever',
+      source: init.source,
+      topK: searchKwargs?.k,
+    };
+  } else if (className === 'StructuredTool') {
+    settings = init.language !== undefined ? { kind: 'code', ...init } : {};
+  }
+
+  const typed = settings && ToolSchema.safeParse({ ...tool, ...settings });
+  if (!typed?.success) {
+    issues.push({
+      path,
+      message: `Tool class "${className}" is not recognised; imported as a function tool`,
+    });
+    return tool;
+  }
+  return typed.data as Tool;
+}
+
 /**
  * Helper: Determine appropriate LangChain agent type based on configuration
  */
@@ -329,3 +1148,153 @@ function mapModelName(provider: string, model: string): string {
   const prefix = providerPrefixes[provider] || '';
   return `${prefix}${model}`;
 }
+
+/**
+ * Helper: Check whether a node is a router created by mapLangGraphToWorkflow
+ */
+function isRouterNode(node: WorkflowNode): boolean {
+  return node.type === 'condition' && node.metadata?.langGraphRouter === true;
+}
+
+/**
+ * Helper: Replace connections into router nodes with the router's own
+ * outgoing connections, re-sourced from the node preceding the router
+ */
+function foldRouterConnections(
+  workflow: WorkflowConfig
+): WorkflowConfig['connections'] {
+  const routerIds = new Set(
+    workflow.nodes.filter(isRouterNode).map((node) => node.id)
+  );
+  if (routerIds.size === 0) {
+    return workflow.connections;
+  }
+
+  return workflow.connections.flatMap((conn) => {
+    if (routerIds.has(conn.sourceId)) {
+      return [];
+    }
+    if (!routerIds.has(conn.targetId)) {
+      return [conn];
+    }
+    return workflow.connections
+      .filter((routed) => routed.sourceId === conn.targetId)
+      .map((routed) => ({ ...routed, sourceId: conn.sourceId }));
+  });
+}
+
+/**
+ * Helper: Rebuild an agent config from a LangGraph agent node config
+ */
+function mapLangGraphConfigToAgent(
+  id: string,
+  config: Record<string, unknown>,
+  path: string[],
+  issues: AdapterImportIssue[]
+): AgentConfig {
+  const llm = config.llm as LangChainAgent['llm'];
+  const { provider, model } = splitModelName(llm.modelName);
+
+  if (provider === 'custom' && !llm.modelName.includes('/')) {
+    issues.push({
+      path: [...path, 'config', 'llm', 'modelName'],
+      message: `Model "${llm.modelName}" has no provider prefix; using "custom"`,
+    });
+  }
+
+  const agent: AgentConfig = { id, name: id, provider, model };
+
+  if (typeof config.systemMessage === 'string' && config.systemMessage) {
+    agent.systemPrompt = parseTemplateFromPython(config.systemMessage);
+  }
+
+  const structuredOutput = config.structuredOutput as
+    | LangChainAgent['structuredOutput']
+    | undefined;
+  if (structuredOutput?.schema) {
+    agent.outputSchema = structuredOutput.schema;
+  }
+
+  // Model parameters
+  const parameterKeys = [
+    'temperature',
+    'maxTokens',
+    'topP',
+    'frequencyPenalty',
+    'presencePenalty',
+  ] as const;
+  const parameters: NonNullable<AgentConfig['parameters']> = {};
+  parameterKeys.forEach((key) => {
+    if (typeof llm[key] === 'number') {
+      parameters[key] = llm[key];
+    }
+  });
+  if (Object.keys(parameters).length > 0) {
+    agent.parameters = parameters;
+  }
+
+  // Tools
+  const tools = (config.tools as LangChainTool[] | undefined) || [];
+  if (tools.length > 0) {
+    agent.tools = tools.map((tool, index) =>
+      mapLangChainToolToTool(
+        tool,
+        [...path, 'config', 'tools', String(index)],
+        issues
+      )
+    );
+  }
+
+  // Memory
+  const memory = config.memory as LangChainMemory | undefined;
+  if (memory) {
+    const memoryTypes: Record<string, MemoryConfig['type']> = {
+      buffer: 'buffer',
+      'buffer-window': 'buffer',
+      summary: 'summary',
+      'knowledge-graph': 'vector',
+    };
+    const memoryType = memoryTypes[memory.type];
+    if (!memoryType) {
+      issues.push({
+        path: [...path, 'config', 'memory', 'type'],
+        message: `Memory type "${memory.type}" has no equivalent; using "buffer"`,
+      });
+    }
+    agent.memory = {
+      type: memoryType || 'buffer',
+      ...(memory.config?.k !== undefined && {
+        maxMessages: memory.config.k,
+      }),
+    };
+  }
+
+  return agent;
+}
+
+/**
+ * Helper: Split a LangChain model name into provider and model
+ * (inverse of mapModelName)
+ */
+function splitModelName(modelName: string): {
+  provider: AIProvider;
+  model: string;
+} {
+  const prefixProviders: Record<string, AIProvider> = {
+    openai: 'openai',
+    anthropic: 'anthropic',
+    google: 'google',
+    mistral: 'mistral',
+    cohere: 'cohere',
+    azure: 'azure-openai',
+    bedrock: 'bedrock',
+  };
+
+  const separator = modelName.indexOf('/');
+  const provider = prefixProviders[modelName.slice(0, separator)];
+  if (separator === -1 || !provider) {
+    return { provider: 'custom', model: modelName };
+  }
+
+  return { provider, model: modelName.slice(separator + 1) };
+}
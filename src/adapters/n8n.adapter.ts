@@ -1,17 +1,118 @@
 /**
  * n8n Framework Adapter
- * Converts AI Agent Schema to n8n workflow format
+ * Converts AI Agent Schema to n8n workflow format and back
  */
 
-import type { AgentConfig } from '../types/agent.js';
-import type { WorkflowConfig } from '../types/workflow.js';
+import {
+  AIProviderSchema,
+  MemoryConfigSchema,
+  ToolSchema,
+} from '../schemas/agent.schema.js';
+import { WorkflowConfigSchema } from '../schemas/workflow.schema.js';
+import { slugify, uniqueId } from '../utils/identifiers.js';
+import { resolveAgentReferences } from '../agents/references.js';
+import { expandRouteLabel, parseCondition } from '../conditions/parser.js';
+import { typeScriptPropertyPath } from '../conditions/typescript.js';
+import {
+  findSecretReferences,
+  getSecretName,
+  isSecretReference,
+} from '../secrets/references.js';
+import {
+  compileTemplateToN8n,
+  parseTemplateFromN8n,
+} from '../templates/compile.js';
+import {
+  prefixFidelityIssues,
+  recordDefaultedParameters,
+  flattenAgentForExport,
+  recordDroppedFields,
+  recordTemplatedFields,
+} from '../utils/fidelity.js';
+import type { AgentConfig, AIProvider, Tool } from '../types/agent.js';
+import type {
+  ConditionComparison,
+  ConditionExpression,
+} from '../types/conditions.js';
+import type {
+  WorkflowConfig,
+  WorkflowConnection,
+  WorkflowNode,
+  WorkflowTrigger,
+} from '../types/workflow.js';
 import type {
   N8nNode,
   N8nWorkflow,
   N8nConnection,
   N8nAdapterOptions,
+  N8nImportOptions,
+  AdapterImportIssue,
+  WorkflowImportResult,
+  ConversionResult,
+  FidelityIssue,
 } from '../types/adapters.js';
 
+/**
+ * An n8n sub-node and the ai_* connection type it serves another node over
+ */
+interface N8nSubNode {
+  connectionType: string;
+  node: N8nNode;
+  path: string[];
+}
+
+/**
+ * Provider to n8n credential type
+ */
+const PROVIDER_CREDENTIALS: Record<string, string> = {
+  openai: 'openAiApi',
+  anthropic: 'anthropicApi',
+  google: 'googlePalmApi',
+  mistral: 'mistralApi',
+  cohere: 'cohereApi',
+  'azure-openai': 'azureOpenAiApi',
+  bedrock: 'awsApi',
+};
+
+/**
+ * Tool kind to n8n tool node type
+ */
+const N8N_TOOL_TYPES = {
+  http: 'n8n-nodes-langchain.toolHttpRequest',
+  mcp: 'n8n-nodes-langchain.mcpClientTool',
+  code: 'n8n-nodes-langchain.toolCode',
+  retriever: 'n8n-nodes-langchain.toolVectorStore',
+};
+
+/**
+ * n8n chat model sub-node type to provider
+ */
+const N8N_CHAT_MODEL_PROVIDERS: Record<string, AIProvider> = {
+  'n8n-nodes-langchain.lmChatOpenAi': 'openai',
+  'n8n-nodes-langchain.lmChatAnthropic': 'anthropic',
+  'n8n-nodes-langchain.lmChatGoogleGemini': 'google',
+  'n8n-nodes-langchain.lmChatMistralCloud': 'mistral',
+  'n8n-nodes-langchain.lmChatAzureOpenAi': 'azure-openai',
+  'n8n-nodes-langchain.lmChatAwsBedrock': 'bedrock',
+};
+
+/**
+ * Providers whose models take an OpenAI response_format
+ */
+const OPENAI_PROVIDERS: AIProvider[] = ['openai', 'azure-openai'];
+
+/**
+ * n8n trigger node type to workflow trigger type
+ */
+const N8N_TRIGGER_TYPES: Record<string, WorkflowTrigger['type']> = {
+  'n8n-nodes-base.manualTrigger': 'manual',
+  'n8n-nodes-base.webhook': 'webhook',
+  'n8n-nodes-base.scheduleTrigger': 'schedule',
+  'n8n-nodes-base.cron': 'schedule',
+  'n8n-nodes-base.eventTrigger': 'event',
+  'n8n-nodes-langchain.chatTrigger': 'webhook',
+};
+
 /**
  * Maps an AI agent configuration to an n8n node
  *
@@ -36,18 +137,31 @@ export function mapAgentToN8nNode(
   agent: AgentConfig,
   options: N8nAdapterOptions = {}
 ): N8nNode {
-  const { startPosition = [250, 300], includeCredentials = true } = options;
+  return mapAgentToN8nNodeWithReport(agent, options).output;
+}
 
-  // Map provider to n8n credential type
-  const credentialMap: Record<string, string> = {
-    openai: 'openAiApi',
-    anthropic: 'anthropicApi',
-    google: 'googlePalmApi',
-    mistral: 'mistralApi',
-    cohere: 'cohereApi',
-    'azure-openai': 'azureOpenAiApi',
-    bedrock: 'awsApi',
-  };
+/**
+ * Maps an AI agent configuration to an n8n node and reports every field the
+ * conversion dropped, approximated or defaulted
+ *
+ * @param agent - Agent configuration to convert
+ * @param options - Adapter options
+ * @returns n8n node definition and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output: n8nNode, report } = mapAgentToN8nNodeWithReport(agent);
+ * report.issues.forEach((i) => console.warn(i.path.join('.'), i.message));
+ * ```
+ */
+export function mapAgentToN8nNodeWithReport(
+  agent: AgentConfig,
+  options: N8nAdapterOptions = {}
+): ConversionResult<N8nNode> {
+  // Base agents are merged in before any field is mapped
+  const inherited = flattenAgentForExport(agent, options.agents);
+  agent = inherited.agent;
+  const { startPosition = [250, 300], includeCredentials = true } = options;
 
   // Build node parameters
   const parameters: Record<string, unknown> = {
@@ -61,7 +175,7 @@ export function mapAgentToN8nNode(
     provider: agent.provider,
 
     // System prompt
-    systemPrompt: agent.systemPrompt || '',
+    systemPrompt: compileTemplateToN8n(agent.systemPrompt || ''),
 
     // Model parameters
     ...(agent.parameters && {
@@ -75,11 +189,7 @@ export function mapAgentToN8nNode(
     // Tools
     ...(agent.tools &&
       agent.tools.length > 0 && {
-        tools: agent.tools.map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-          parameters: tool.parameters,
-        })),
+        tools: agent.tools.map(mapToolToN8n),
       }),
 
     // Memory configuration
@@ -91,30 +201,163 @@ export function mapAgentToN8nNode(
       },
     }),
 
+    // Structured output, as an OpenAI response_format
+    ...(agent.outputSchema && {
+      responseFormat: {
+        type: 'json_schema',
+        json_schema: {
+          name: slugify(agent.id) || 'output',
+          schema: agent.outputSchema,
+        },
+      },
+    }),
+
     // Metadata
     ...(agent.metadata && {
       metadata: agent.metadata,
     }),
   };
 
-  // Build credentials
+  // Build credentials, bound to the secret `metadata.apiKey` refers to
+  const apiKey = agent.metadata?.apiKey;
+  const credentialName = isSecretReference(apiKey)
+    ? getSecretName(apiKey)
+    : undefined;
   const credentials: N8nNode['credentials'] =
-    includeCredentials && credentialMap[agent.provider]
+    includeCredentials && PROVIDER_CREDENTIALS[agent.provider]
       ? {
-          [credentialMap[agent.provider]]: {
-            id: '1', // Placeholder - n8n will assign actual ID
-            name: `${agent.provider} Account`,
-          },
+          [PROVIDER_CREDENTIALS[agent.provider]]: credentialName
+            ? { id: credentialName, name: credentialName }
+            : {
+                id: '1', // Placeholder - n8n will assign actual ID
+                name: `${agent.provider} Account`,
+              },
         }
       : undefined;
 
+  const issues: FidelityIssue[] = [...inherited.issues];
+
+  recordDroppedFields(issues, agent, [
+    [
+      'connections',
+      'warning',
+      'Agent connections are not exported; use workflow connections',
+    ],
+  ]);
+  recordDroppedFields(
+    issues,
+    agent.parameters,
+    [['stopSequences', 'warning', 'n8n agent nodes have no stop sequences']],
+    ['parameters']
+  );
+  recordDefaultedParameters(issues, agent.parameters, {
+    temperature: 0.7,
+    maxTokens: 1000,
+    topP: 1.0,
+  });
+  recordTemplatedFields(
+    issues,
+    agent,
+    'Placeholders are compiled to n8n expressions reading $json; the incoming item must carry the variables'
+  );
+  if (agent.outputSchema && !OPENAI_PROVIDERS.includes(agent.provider)) {
+    issues.push({
+      path: ['outputSchema'],
+      kind: 'approximated',
+      severity: 'warning',
+      message: `Exported as an OpenAI response_format; ${agent.provider} models need a structured output parser in n8n`,
+    });
+  }
+
+  agent.tools?.forEach((tool, index) => {
+    recordDroppedFields(
+      issues,
+      tool,
+      [
+        ['id', 'info', 'n8n tools are identified by name'],
+        ['requiresAuth', 'info', 'n8n tools carry no auth flag'],
+      ],
+      ['tools', String(index)]
+    );
+    const secrets = [
+      ...findSecretReferences(tool.config).map((found) => ({
+        ...found,
+        path: ['config', ...found.path],
+      })),
+      ...(tool.kind === 'http'
+        ? findSecretReferences(tool.headers).map((found) => ({
+            ...found,
+            path: ['headers', ...found.path],
+          }))
+        : []),
+    ];
+    secrets
+      .filter(({ reference }) => reference.$secret !== 'env')
+      .forEach(({ path }) => {
+        issues.push({
+          path: ['tools', String(index), ...path],
+          kind: 'approximated',
+          severity: 'warning',
+          message:
+            'n8n parameters can only read environment variables; the secret reference is exported as-is',
+        });
+      });
+
+    const toolPath = ['tools', String(index)];
+    if (tool.kind === 'mcp' && 'command' in tool.server) {
+      issues.push({
+        path: [...toolPath, 'server'],
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          "n8n's MCP client connects over HTTP; run the stdio server behind an HTTP endpoint",
+      });
+    }
+    if (tool.kind === 'code') {
+      if (!tool.code) {
+        issues.push({
+          path: toolPath,
+          kind: 'approximated',
+          severity: 'error',
+          message:
+            'n8n code tools run fixed code; the code interpreter is exported as an empty Code tool',
+        });
+      }
+      recordDroppedFields(
+        issues,
+        tool,
+        [['timeoutMs', 'info', 'n8n code tools have no timeout']],
+        toolPath
+      );
+    }
+  });
+
+  if (credentials && credentialName) {
+    issues.push({
+      path: ['metadata', 'apiKey'],
+      kind: 'approximated',
+      severity: 'info',
+      message: `Bound to n8n credential "${credentialName}"; create it in n8n with the secret's value`,
+    });
+  } else if (credentials) {
+    issues.push({
+      path: ['provider'],
+      kind: 'defaulted',
+      severity: 'warning',
+      message: `Credential "${PROVIDER_CREDENTIALS[agent.provider]}" uses placeholder ID "1"; select the real credential in n8n`,
+    });
+  }
+
   return {
-    name: agent.name || agent.id,
-    type: 'n8n-nodes-langchain.agent',
-    typeVersion: 1,
-    position: startPosition,
-    parameters,
-    credentials,
+    output: {
+      name: agent.name || agent.id,
+      type: 'n8n-nodes-langchain.agent',
+      typeVersion: 1,
+      position: startPosition,
+      parameters,
+      credentials,
+    },
+    report: { adapter: 'n8n', issues },
   };
 }
 
@@ -146,6 +389,35 @@ export function mapWorkflowToN8n(
   workflow: WorkflowConfig,
   options: N8nAdapterOptions = {}
 ): N8nWorkflow {
+  return mapWorkflowToN8nWithReport(workflow, options).output;
+}
+
+/**
+ * Maps a workflow configuration to n8n workflow format and reports every
+ * node, connection and field the conversion dropped, approximated or
+ * defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns n8n workflow definition and its fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output: n8nWorkflow, report } = mapWorkflowToN8nWithReport(workflow);
+ * if (hasFidelityIssues(report)) {
+ *   throw new Error('n8n export would change workflow behaviour');
+ * }
+ * ```
+ */
+export function mapWorkflowToN8nWithReport(
+  workflow: WorkflowConfig,
+  options: N8nAdapterOptions = {}
+): ConversionResult<N8nWorkflow> {
+  // Nodes that reference an agent by ID get the registered config inlined
+  if (options.agents) {
+    workflow = resolveAgentReferences(workflow, options.agents).workflow;
+  }
+
   const {
     startPosition = [250, 300],
     nodeSpacing = 220,
@@ -153,7 +425,18 @@ export function mapWorkflowToN8n(
   } = options;
 
   const nodes: N8nNode[] = [];
+  const nodeNames = new Map<string, string>();
+  // n8n keys connections by node name, so every node needs its own
+  const usedNames = new Set<string>();
   const connections: Record<string, { main: N8nConnection[][] }> = {};
+  const issues: FidelityIssue[] = [];
+  const conditionNodes: Array<{
+    node: WorkflowNode;
+    n8nNode: N8nNode;
+    path: string[];
+  }> = [];
+  // If node output per connection ID (0 = true branch, 1 = false branch)
+  const outputIndexes = new Map<string, number>();
 
   // Calculate node positions in a left-to-right layout
   const nodePositions = calculateNodePositions(
@@ -171,8 +454,43 @@ export function mapWorkflowToN8n(
     ];
 
     let n8nNode: N8nNode;
+    const path = ['nodes', String(index)];
+
+    // Nodes imported from n8n that had no schema equivalent are re-emitted as-is
+    const preservedNode = node.metadata?.n8nNode as N8nNode | undefined;
+
+    recordDroppedFields(
+      issues,
+      node,
+      [['position', 'info', 'Replaced by the computed left-to-right layout']],
+      path
+    );
+    if (!preservedNode) {
+      recordDroppedFields(
+        issues,
+        node,
+        [['metadata', 'info', 'n8n nodes have no metadata']],
+        path
+      );
+    }
+
+    switch (preservedNode ? 'preserved' : node.type) {
+      case 'preserved':
+        n8nNode = {
+          ...preservedNode!,
+          position: position as [number, number],
+        };
+        // Connections go back on the outputs they were imported from
+        workflow.connections.forEach((conn) => {
+          if (
+            conn.sourceId === node.id &&
+            /^\d+$/.test(conn.sourceHandle ?? '')
+          ) {
+            outputIndexes.set(conn.id, Number(conn.sourceHandle));
+          }
+        });
+        break;
 
-    switch (node.type) {
       case 'trigger':
         n8nNode = {
           name: `Trigger ${node.id}`,
@@ -193,15 +511,28 @@ export function mapWorkflowToN8n(
             }),
           },
         };
+        if (!workflow.trigger) {
+          issues.push({
+            path,
+            kind: 'defaulted',
+            severity: 'info',
+            message: 'No workflow.trigger set; exported as a manual trigger',
+          });
+        }
         break;
 
       case 'agent': {
         // If agent config is inline, use it; otherwise reference by ID
         const agentConfig = node.agent;
         if (agentConfig) {
-          n8nNode = mapAgentToN8nNode(agentConfig, {
+          const { output, report } = mapAgentToN8nNodeWithReport(agentConfig, {
             startPosition: position as [number, number],
+            agents: options.agents,
           });
+          n8nNode = output;
+          issues.push(
+            ...prefixFidelityIssues(report.issues, [...path, 'agent'])
+          );
         } else {
           n8nNode = {
             name: `Agent ${node.id}`,
@@ -212,28 +543,28 @@ export function mapWorkflowToN8n(
               agentId: node.agentId || node.id,
             },
           };
+          issues.push({
+            path: [...path, 'agentId'],
+            kind: 'approximated',
+            severity: options.agents ? 'error' : 'warning',
+            message: options.agents
+              ? `Agent "${node.agentId}" is not in the agent registry; exported as an agent node with only an agentId parameter`
+              : 'Exported as an agent node with only an agentId parameter',
+          });
         }
         break;
       }
 
       case 'condition':
+        // Parameters are compiled once every node name is known
         n8nNode = {
           name: `Condition ${node.id}`,
           type: 'n8n-nodes-base.if',
           typeVersion: 1,
           position: position as [number, number],
-          parameters: {
-            conditions: {
-              string: [
-                {
-                  value1: '={{$json.condition}}',
-                  operation: 'equals',
-                  value2: 'true',
-                },
-              ],
-            },
-          },
+          parameters: {},
         };
+        conditionNodes.push({ node, n8nNode, path });
         break;
 
       case 'loop':
@@ -270,26 +601,121 @@ export function mapWorkflowToN8n(
         };
     }
 
+    n8nNode.name = uniqueId(n8nNode.name, usedNames);
     nodes.push(n8nNode);
+    nodeNames.set(node.id, n8nNode.name);
   });
 
-  // Build connections
-  workflow.connections.forEach((conn) => {
-    const fromNode = nodes.find(
-      (n) =>
-        n.name.includes(conn.sourceId) || n.parameters.agentId === conn.sourceId
-    );
-    const toNode = nodes.find(
-      (n) =>
-        n.name.includes(conn.targetId) || n.parameters.agentId === conn.targetId
+  // Compile the first outgoing condition of each condition node into If rules
+  const variableNames = (workflow.variables || []).map((v) => v.name);
+  conditionNodes.forEach(({ node, n8nNode, path }) => {
+    const outgoing = workflow.connections.filter(
+      (conn) => conn.sourceId === node.id
     );
+    const imported = node.metadata?.n8nParameters as
+      | Record<string, unknown>
+      | undefined;
+
+    // If nodes imported from n8n keep their rules and true/false outputs
+    if (imported) {
+      n8nNode.parameters = imported;
+      outgoing.forEach((conn) => {
+        outputIndexes.set(conn.id, conn.condition === 'false' ? 1 : 0);
+      });
+      return;
+    }
+
+    const [primary, ...others] = outgoing.filter((conn) => conn.condition);
+    let parameters: Record<string, unknown> | undefined;
+    try {
+      parameters = primary
+        ? compileConditionToN8n(
+            primary.condition!,
+            variableNames,
+            Object.fromEntries(nodeNames)
+          )
+        : undefined;
+    } catch (error) {
+      issues.push({
+        path: [
+          'connections',
+          String(workflow.connections.indexOf(primary)),
+          'condition',
+        ],
+        kind: 'dropped',
+        severity: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (!parameters) {
+      n8nNode.parameters = compileConditionToN8n('output == true');
+      issues.push({
+        path,
+        kind: 'approximated',
+        severity: 'warning',
+        message:
+          'No usable outgoing condition; exported as an If node testing $json.output',
+      });
+      return;
+    }
+
+    n8nNode.parameters = parameters;
+    outgoing.forEach((conn) => {
+      outputIndexes.set(conn.id, conn === primary ? 0 : 1);
+    });
+    others.forEach((conn) => {
+      issues.push({
+        path: [
+          'connections',
+          String(workflow.connections.indexOf(conn)),
+          'condition',
+        ],
+        kind: 'approximated',
+        severity: others.length > 1 ? 'warning' : 'info',
+        message: `If nodes have two outputs; "${conn.condition}" routed to the false output of "${primary.condition}"`,
+      });
+    });
+  });
+
+  // Build connections
+  workflow.connections.forEach((conn, index) => {
+    const path = ['connections', String(index)];
+    const fromNode = nodes.find((n) => n.name === nodeNames.get(conn.sourceId));
+    const toNode = nodes.find((n) => n.name === nodeNames.get(conn.targetId));
 
     if (!fromNode || !toNode) {
+      issues.push({
+        path,
+        kind: 'dropped',
+        severity: 'error',
+        message: `Connection "${conn.id}" references a missing node`,
+      });
       return; // Skip invalid connections
     }
 
+    if (conn.condition && !outputIndexes.has(conn.id)) {
+      issues.push({
+        path: [...path, 'condition'],
+        kind: 'approximated',
+        severity: 'warning',
+        message: `Condition "${conn.condition}" dropped; connection wired to output 0`,
+      });
+    }
+    // Output indexes taken from the source handle are not a loss
+    recordDroppedFields(
+      issues,
+      outputIndexes.has(conn.id) ? { ...conn, sourceHandle: undefined } : conn,
+      [
+        ['label', 'info', 'n8n connections have no label'],
+        ['sourceHandle', 'info', 'n8n connections use output indexes'],
+        ['targetHandle', 'info', 'n8n connections use input indexes'],
+      ],
+      path
+    );
+
     const fromName = fromNode.name;
-    const outputIndex = conn.condition ? 0 : 0; // Conditional connections use output 0
+    const outputIndex = outputIndexes.get(conn.id) ?? 0;
 
     if (!connections[fromName]) {
       connections[fromName] = { main: [[]] };
@@ -307,18 +733,368 @@ export function mapWorkflowToN8n(
     });
   });
 
+  recordDroppedFields(issues, workflow, [
+    ['variables', 'warning', 'n8n workflows have no declared variables'],
+    ['description', 'info', 'n8n workflows have no description'],
+    ['version', 'info', 'n8n workflows have no version'],
+    [
+      'environments',
+      'warning',
+      'n8n workflows have no environments; the base configuration is exported',
+    ],
+  ]);
+
+  return {
+    output: {
+      name: workflow.name || workflow.id,
+      nodes,
+      connections,
+      settings: workflowSettings || {
+        executionOrder: 'v1',
+        saveExecutionProgress: true,
+        saveManualExecutions: true,
+      },
+      active: false,
+      tags: workflow.tags ?? (workflow.metadata?.tags as string[] | undefined),
+    },
+    report: { adapter: 'n8n', issues },
+  };
+}
+
+/**
+ * Compiles a workflow condition into n8n If node parameters
+ *
+ * Single comparisons, and `&&`/`||` chains of comparisons between a path and
+ * a literal, become native string/number/boolean rules. Anything else becomes
+ * one boolean rule over an equivalent n8n expression. Variables and `output`
+ * read from `$json`; `outputs.<nodeId>` reads the named node's output.
+ *
+ * @param condition - Condition string or parsed expression
+ * @param variables - Declared workflow variable names (route labels otherwise)
+ * @param nodeNames - n8n node name for each workflow node ID
+ * @returns If node parameters
+ * @throws {Error} If the condition is not a valid expression
+ *
+ * @example
+ * ```typescript
+ * compileConditionToN8n("status == 'approved' && score > 0.8", ['status', 'score']);
+ * // {
+ * //   conditions: {
+ * //     string: [{ value1: '={{ $json.status }}', operation: 'equal', value2: 'approved' }],
+ * //     number: [{ value1: '={{ $json.score }}', operation: 'larger', value2: 0.8 }],
+ * //   },
+ * //   combineOperation: 'all',
+ * // }
+ * ```
+ */
+export function compileConditionToN8n(
+  condition: string | ConditionExpression,
+  variables: string[] = [],
+  nodeNames: Record<string, string> = {}
+): Record<string, unknown> {
+  const parsed =
+    typeof condition === 'string' ? parseCondition(condition) : condition;
+  const expression = expandRouteLabel(parsed, (name) =>
+    variables.includes(name)
+  );
+
+  const combinator =
+    expression.type === 'logical' ? expression.operator : undefined;
+  const leaves = combinator
+    ? flattenLogical(expression, combinator)
+    : [expression];
+  const rules = leaves.map((leaf) => toN8nRule(leaf, nodeNames));
+
+  if (rules.every((rule) => rule !== undefined)) {
+    const conditions: Record<string, Array<Record<string, unknown>>> = {};
+    rules.forEach((rule) => {
+      const { kind, ...rest } = rule!;
+      (conditions[kind] ||= []).push(rest);
+    });
+    return {
+      conditions,
+      combineOperation: combinator === '||' ? 'any' : 'all',
+    };
+  }
+
   return {
-    name: workflow.name || workflow.id,
+    conditions: {
+      boolean: [
+        {
+          value1: `={{ ${compileN8nExpression(expression, nodeNames)} }}`,
+          value2: true,
+        },
+      ],
+    },
+    combineOperation: 'all',
+  };
+}
+
+/**
+ * Maps an n8n workflow back to a workflow configuration
+ *
+ * Agent nodes are rebuilt into inline agent configs when their parameters
+ * or chat model sub-node carry a model, and into `agentId` references
+ * otherwise; memory and tool sub-nodes join the agent config. Node types
+ * with no schema equivalent are kept verbatim in `metadata.n8nNode` so that
+ * `mapWorkflowToN8n` can emit them again unchanged, on the same outputs.
+ *
+ * @param n8nWorkflow - n8n workflow definition to import
+ * @param options - Import options
+ * @returns The rebuilt workflow and everything that could not be mapped
+ *
+ * @example
+ * ```typescript
+ * const exported = JSON.parse(fs.readFileSync('support.json', 'utf8'));
+ * const { workflow, issues } = mapN8nToWorkflow(exported);
+ *
+ * issues.forEach((issue) => console.warn(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function mapN8nToWorkflow(
+  n8nWorkflow: N8nWorkflow,
+  options: N8nImportOptions = {}
+): WorkflowImportResult {
+  const { workflowId = slugify(n8nWorkflow.name) || 'n8n-workflow' } = options;
+
+  const issues: AdapterImportIssue[] = [];
+  const nodes: WorkflowNode[] = [];
+  const connections: WorkflowConnection[] = [];
+  const nodeIds = new Map<string, string>();
+  const nodeTypes = new Map<string, string>();
+  const usedNodeIds = new Set<string>();
+  const usedConnectionIds = new Set<string>();
+  let trigger: WorkflowTrigger | undefined;
+
+  // Nodes with at least one outgoing main connection
+  const sourceNames = new Set(
+    Object.entries(n8nWorkflow.connections)
+      .filter(([, outputs]) => outputs.main?.some((group) => group?.length))
+      .map(([name]) => name)
+  );
+
+  // Sub-nodes (chat models, tools, memory) serve another node over ai_*
+  // connections instead of taking part in the flow; keyed by served node
+  const subNodes = new Map<string, N8nSubNode[]>();
+  Object.entries(n8nWorkflow.connections).forEach(([name, outputs]) => {
+    Object.entries(outputs).forEach(([connectionType, groups]) => {
+      if (connectionType === 'main') {
+        return;
+      }
+      const index = n8nWorkflow.nodes.findIndex((n) => n.name === name);
+      groups.flat().forEach((target) => {
+        if (!target || index === -1) {
+          return;
+        }
+        const attached = subNodes.get(target.node) || [];
+        attached.push({
+          connectionType,
+          node: n8nWorkflow.nodes[index],
+          path: ['nodes', String(index)],
+        });
+        subNodes.set(target.node, attached);
+      });
+    });
+  });
+  const subNodeNames = new Set(
+    [...subNodes.values()].flat().map((subNode) => subNode.node.name)
+  );
+
+  // Convert n8n nodes to workflow nodes
+  n8nWorkflow.nodes.forEach((n8nNode, index) => {
+    if (subNodeNames.has(n8nNode.name)) {
+      return;
+    }
+
+    const path = ['nodes', String(index)];
+    const nodeType = normalizeN8nType(n8nNode.type);
+    const id = uniqueId(deriveNodeId(n8nNode, nodeType), usedNodeIds);
+    const position = { x: n8nNode.position[0], y: n8nNode.position[1] };
+    const hasParameters = Object.keys(n8nNode.parameters || {}).length > 0;
+
+    nodeIds.set(n8nNode.name, id);
+    nodeTypes.set(n8nNode.name, nodeType);
+
+    if (N8N_TRIGGER_TYPES[nodeType]) {
+      nodes.push({ id, type: 'trigger', position });
+      if (trigger) {
+        issues.push({
+          path,
+          message: `Additional trigger "${n8nNode.name}" kept as a node; only the first trigger is used for workflow.trigger`,
+        });
+      } else {
+        trigger = mapN8nTrigger(n8nNode, nodeType, path, issues);
+      }
+      return;
+    }
+
+    switch (nodeType) {
+      case 'n8n-nodes-langchain.agent': {
+        const { node: agentNode, tools } = applyN8nSubNodes(
+          n8nNode,
+          subNodes.get(n8nNode.name) || [],
+          issues
+        );
+        subNodes.delete(n8nNode.name);
+        const agent = mapN8nParametersToAgent(agentNode, path, issues);
+        if (agent && tools.length > 0) {
+          agent.tools = [...(agent.tools || []), ...tools];
+        }
+        if (agent) {
+          nodes.push({ id, type: 'agent', agent, position });
+        } else {
+          const agentId = n8nNode.parameters.agentId;
+          if (typeof agentId !== 'string') {
+            issues.push({
+              path,
+              message: `Agent "${n8nNode.name}" has neither a model nor an agentId; referenced by node ID`,
+            });
+          }
+          nodes.push({
+            id,
+            type: 'agent',
+            agentId: typeof agentId === 'string' ? agentId : id,
+            position,
+          });
+        }
+        return;
+      }
+
+      case 'n8n-nodes-base.if':
+        nodes.push({
+          id,
+          type: 'condition',
+          position,
+          ...(hasParameters && {
+            metadata: { n8nParameters: n8nNode.parameters },
+          }),
+        });
+        return;
+
+      case 'n8n-nodes-base.splitInBatches':
+        nodes.push({
+          id,
+          type: 'loop',
+          position,
+          ...(hasParameters && {
+            metadata: { n8nParameters: n8nNode.parameters },
+          }),
+        });
+        return;
+
+      case 'n8n-nodes-base.noOp':
+        if (!sourceNames.has(n8nNode.name)) {
+          nodes.push({ id, type: 'end', position });
+          return;
+        }
+        break;
+    }
+
+    // No schema equivalent: keep the original node verbatim
+    const isTerminal = !sourceNames.has(n8nNode.name);
+    nodes.push({
+      id,
+      type: isTerminal ? 'end' : 'condition',
+      position,
+      metadata: { n8nNode: { ...n8nNode } },
+    });
+    issues.push({
+      path,
+      message: `Unsupported node type "${n8nNode.type}" imported as a pass-through ${isTerminal ? 'end' : 'condition'} node; original kept in metadata.n8nNode`,
+    });
+  });
+
+  // Sub-nodes of anything but an agent have nowhere to go
+  subNodes.forEach((attached, name) => {
+    attached.forEach((subNode) => {
+      issues.push({
+        path: subNode.path,
+        message: nodeIds.has(name)
+          ? `Sub-node "${subNode.node.name}" serves "${name}", which is not an agent node; dropped`
+          : `Sub-node "${subNode.node.name}" serves "${name}", which does not match any node; dropped`,
+      });
+    });
+  });
+
+  // Convert the name-keyed connection record to workflow connections
+  Object.entries(n8nWorkflow.connections).forEach(([sourceName, outputs]) => {
+    if (subNodeNames.has(sourceName)) {
+      return;
+    }
+
+    const sourceId = nodeIds.get(sourceName);
+    if (!sourceId) {
+      issues.push({
+        path: ['connections', sourceName],
+        message: `Connection source "${sourceName}" does not match any node`,
+      });
+      return;
+    }
+
+    (outputs.main || []).forEach((targets, outputIndex) => {
+      (targets || []).forEach((target, targetIndex) => {
+        const targetId = nodeIds.get(target.node);
+        if (!targetId) {
+          issues.push({
+            path: [
+              'connections',
+              sourceName,
+              'main',
+              String(outputIndex),
+              String(targetIndex),
+            ],
+            message: `Connection target "${target.node}" does not match any node`,
+          });
+          return;
+        }
+
+        const connection: WorkflowConnection = {
+          id: uniqueId(`${sourceId}-${targetId}`, usedConnectionIds),
+          sourceId,
+          targetId,
+        };
+
+        if (nodeTypes.get(sourceName) === 'n8n-nodes-base.if') {
+          // IF nodes emit on output 0 when true and output 1 when false
+          connection.condition = outputIndex === 0 ? 'true' : 'false';
+          connection.label = connection.condition;
+        } else if (outputIndex > 0) {
+          connection.sourceHandle = String(outputIndex);
+        }
+
+        connections.push(connection);
+      });
+    });
+  });
+
+  const n8nMetadata = {
+    ...(n8nWorkflow.settings && { settings: n8nWorkflow.settings }),
+    ...(n8nWorkflow.staticData && { staticData: n8nWorkflow.staticData }),
+    ...(n8nWorkflow.active !== undefined && { active: n8nWorkflow.active }),
+  };
+
+  const workflow: WorkflowConfig = {
+    id: workflowId,
+    name: n8nWorkflow.name || workflowId,
     nodes,
     connections,
-    settings: workflowSettings || {
-      executionOrder: 'v1',
-      saveExecutionProgress: true,
-      saveManualExecutions: true,
-    },
-    active: false,
-    tags: workflow.metadata?.tags as string[] | undefined,
+    ...(trigger && { trigger }),
+    ...(n8nWorkflow.tags &&
+      n8nWorkflow.tags.length > 0 && { tags: n8nWorkflow.tags }),
+    ...(Object.keys(n8nMetadata).length > 0 && {
+      metadata: { n8n: n8nMetadata },
+    }),
   };
+
+  // Surface anything that still keeps the result from being a valid workflow
+  const validation = WorkflowConfigSchema.safeParse(workflow);
+  if (!validation.success) {
+    validation.error.errors.forEach((issue) => {
+      issues.push({ path: issue.path.map(String), message: issue.message });
+    });
+  }
+
+  return { workflow, issues };
 }
 
 /**
@@ -336,6 +1112,152 @@ function mapTriggerToN8nType(triggerType: string): string {
   return triggerMap[triggerType] || 'n8n-nodes-base.manualTrigger';
 }
 
+/**
+ * Helper: Map a tool to an n8n agent tool, typed as the n8n tool node for
+ * its kind (function tools have no node type)
+ */
+function mapToolToN8n(tool: Tool): Record<string, unknown> {
+  const base = {
+    name: tool.name,
+    description: compileTemplateToN8n(tool.description),
+    parameters: tool.parameters,
+    ...(tool.strict !== undefined && { strict: tool.strict }),
+    ...(tool.config && { config: compileSecretsToN8n(tool.config) }),
+  };
+
+  switch (tool.kind) {
+    case 'http':
+      return {
+        ...base,
+        type: N8N_TOOL_TYPES.http,
+        method: tool.method,
+        url: tool.url,
+        ...(tool.headers && { headers: compileSecretsToN8n(tool.headers) }),
+        ...(tool.body && { body: tool.body }),
+      };
+    case 'mcp':
+      return {
+        ...base,
+        type: N8N_TOOL_TYPES.mcp,
+        ...('url' in tool.server
+          ? { sseEndpoint: tool.server.url }
+          : { command: tool.server.command, args: tool.server.args }),
+        include: 'selected',
+        includeTools: [tool.toolName],
+      };
+    case 'code':
+      return {
+        ...base,
+        type: N8N_TOOL_TYPES.code,
+        language: tool.language === 'python' ? 'python' : 'javaScript',
+        [tool.language === 'python' ? 'pythonCode' : 'jsCode']: tool.code ?? '',
+      };
+    case 'retriever':
+      return {
+        ...base,
+        type: N8N_TOOL_TYPES.retriever,
+        source: tool.source,
+        ...(tool.topK !== undefined && { topK: tool.topK }),
+      };
+    default:
+      return base;
+  }
+}
+
+/**
+ * Helper: Rebuild a tool from an n8n agent tool (inverse of mapToolToN8n)
+ */
+function mapN8nToolToTool(
+  candidate: Record<string, unknown>,
+  name: string,
+  path: string[],
+  issues: AdapterImportIssue[]
+): Tool {
+  const tool: Tool = {
+    id: name,
+    name,
+    description:
+      typeof candidate.description === 'string'
+        ? parseTemplateFromN8n(candidate.description)
+        : '',
+    ...(candidate.parameters !== undefined && {
+      parameters: candidate.parameters as Record<string, unknown>,
+    }),
+    ...(typeof candidate.strict === 'boolean' && { strict: candidate.strict }),
+  };
+  if (candidate.type === undefined) {
+    return tool;
+  }
+
+  const type = normalizeN8nType(String(candidate.type));
+  let settings: Record<string, unknown> | undefined;
+  if (type === N8N_TOOL_TYPES.http) {
+    settings = {
+      kind: 'http',
+      method: candidate.method ?? 'GET',
+      url: candidate.url,
+      headers: candidate.headers,
+      body: candidate.body,
+    };
+  } else if (type === N8N_TOOL_TYPES.mcp) {
+    settings = {
+      kind: 'mcp',
+      server:
+        candidate.sseEndpoint !== undefined
+          ? { url: candidate.sseEndpoint }
+          : { command: candidate.command, args: candidate.args },
+      toolName: Array.isArray(candidate.includeTools)
+        ? candidate.includeTools[0]
+        : undefined,
+    };
+  } else if (type === N8N_TOOL_TYPES.code) {
+    const python = candidate.language === 'python';
+    settings = {
+      kind: 'code',
+      language: python ? 'python' : 'javascript',
+      code: (python ? candidate.pythonCode : candidate.jsCode) || undefined,
+    };
+  } else if (type === N8N_TOOL_TYPES.retriever) {
+    settings = {
+      kind: 'retriever',
+      source: candidate.source,
+      topK: candidate.topK,
+    };
+  }
+
+  const typed = settings && ToolSchema.safeParse({ ...tool, ...settings });
+  if (!typed?.success) {
+    issues.push({
+      path,
+      message: `Tool node type "${type}" is not recognised; imported as a function tool`,
+    });
+    return tool;
+  }
+  return typed.data as Tool;
+}
+
+/**
+ * Helper: Replace environment secret references with n8n `$env`
+ * expressions; other references are kept as they are
+ */
+function compileSecretsToN8n(value: unknown): unknown {
+  if (isSecretReference(value)) {
+    return value.$secret === 'env' ? `={{ $env.${value.name} }}` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(compileSecretsToN8n);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        compileSecretsToN8n(item),
+      ])
+    );
+  }
+  return value;
+}
+
 /**
  * Helper: Calculate node positions for optimal layout
  * Uses a simple left-to-right topological ordering
@@ -408,3 +1330,488 @@ function calculateNodePositions(
 
   return positions;
 }
+
+/**
+ * Helper: Normalize n8n node types across package scopes
+ * (e.g. `@n8n/n8n-nodes-langchain.agent` -> `n8n-nodes-langchain.agent`)
+ */
+function normalizeN8nType(type: string): string {
+  return type.replace(/^@n8n\//, '');
+}
+
+/**
+ * Helper: Derive a workflow node ID from an n8n node, undoing the
+ * naming scheme used by mapWorkflowToN8n where possible
+ */
+function deriveNodeId(n8nNode: N8nNode, nodeType: string): string {
+  const prefixes: Record<string, string> = {
+    'n8n-nodes-langchain.agent': 'Agent ',
+    'n8n-nodes-base.if': 'Condition ',
+    'n8n-nodes-base.splitInBatches': 'Loop ',
+    'n8n-nodes-base.noOp': 'End ',
+  };
+  const prefix = N8N_TRIGGER_TYPES[nodeType] ? 'Trigger ' : prefixes[nodeType];
+
+  if (prefix && n8nNode.name.startsWith(prefix)) {
+    return n8nNode.name.slice(prefix.length);
+  }
+
+  if (
+    nodeType === 'n8n-nodes-langchain.agent' &&
+    typeof n8nNode.parameters.agentId === 'string'
+  ) {
+    return n8nNode.parameters.agentId;
+  }
+
+  return slugify(n8nNode.name) || 'node';
+}
+
+/**
+ * Helper: Rebuild a workflow trigger from an n8n trigger node
+ */
+function mapN8nTrigger(
+  n8nNode: N8nNode,
+  nodeType: string,
+  path: string[],
+  issues: AdapterImportIssue[]
+): WorkflowTrigger {
+  const { path: webhookPath, rule, events, ...rest } = n8nNode.parameters;
+  const config: NonNullable<WorkflowTrigger['config']> = { ...rest };
+
+  if (typeof webhookPath === 'string') {
+    if (isAbsoluteUrl(webhookPath)) {
+      config.webhookUrl = webhookPath;
+    } else {
+      config.path = webhookPath;
+      issues.push({
+        path: [...path, 'parameters', 'path'],
+        message: `Webhook path "${webhookPath}" is not an absolute URL; kept as trigger.config.path`,
+      });
+    }
+  }
+
+  if (typeof rule === 'string') {
+    config.schedule = rule;
+  } else if (rule !== undefined) {
+    config.rule = rule;
+    issues.push({
+      path: [...path, 'parameters', 'rule'],
+      message:
+        'Structured schedule rule cannot be expressed as a cron string; kept as trigger.config.rule',
+    });
+  }
+
+  if (Array.isArray(events) && typeof events[0] === 'string') {
+    config.eventName = events[0];
+    if (events.length > 1) {
+      issues.push({
+        path: [...path, 'parameters', 'events'],
+        message: `Only the first of ${events.length} events is used as trigger.config.eventName`,
+      });
+    }
+  }
+
+  return {
+    type: N8N_TRIGGER_TYPES[nodeType],
+    ...(Object.keys(config).length > 0 && { config }),
+  };
+}
+
+/**
+ * Helper: Fold the chat model and memory sub-nodes of an n8n agent node into
+ * its parameters and credentials, in the form mapN8nParametersToAgent reads,
+ * and rebuild its tool sub-nodes
+ */
+function applyN8nSubNodes(
+  n8nNode: N8nNode,
+  subNodes: N8nSubNode[],
+  issues: AdapterImportIssue[]
+): { node: N8nNode; tools: Tool[] } {
+  const parameters = { ...n8nNode.parameters };
+  let credentials = n8nNode.credentials;
+  const tools: Tool[] = [];
+  let hasModel = false;
+
+  subNodes.forEach(({ connectionType, node, path }) => {
+    const type = normalizeN8nType(node.type);
+    const params = node.parameters || {};
+    const options = (params.options || {}) as Record<string, unknown>;
+
+    switch (connectionType) {
+      case 'ai_languageModel': {
+        if (hasModel) {
+          issues.push({
+            path,
+            message: `Additional chat model "${node.name}" dropped; only the first is used`,
+          });
+          return;
+        }
+        hasModel = true;
+
+        // Newer model nodes pick the model through a resource locator
+        const model =
+          params.model && typeof params.model === 'object'
+            ? (params.model as { value?: unknown }).value
+            : (params.model ?? params.modelName);
+        if (typeof model === 'string') {
+          parameters.model = model.replace(/^models\//, '');
+        }
+        if (N8N_CHAT_MODEL_PROVIDERS[type]) {
+          parameters.provider = N8N_CHAT_MODEL_PROVIDERS[type];
+        }
+        credentials = { ...credentials, ...node.credentials };
+
+        const settings: Record<string, unknown> = {
+          temperature: options.temperature,
+          maxTokens:
+            options.maxTokens ??
+            options.maxTokensToSample ??
+            options.maxOutputTokens,
+          topP: options.topP,
+          frequencyPenalty: options.frequencyPenalty,
+          presencePenalty: options.presencePenalty,
+        };
+        Object.entries(settings).forEach(([key, value]) => {
+          if (typeof value === 'number') {
+            parameters[key] = value;
+          }
+        });
+        return;
+      }
+
+      case 'ai_memory':
+        if (type === 'n8n-nodes-langchain.memoryBufferWindow') {
+          parameters.memory = {
+            type: 'buffer',
+            ...(typeof params.contextWindowLength === 'number' && {
+              maxMessages: params.contextWindowLength,
+            }),
+          };
+        } else {
+          issues.push({
+            path,
+            message: `Memory sub-node type "${node.type}" is not supported and was dropped`,
+          });
+        }
+        return;
+
+      case 'ai_tool': {
+        // Code tools name themselves; other tools go by their node name
+        const name =
+          typeof params.name === 'string' && params.name
+            ? params.name
+            : node.name;
+        const description = params.toolDescription ?? params.description;
+        tools.push(
+          mapN8nToolToTool(
+            { ...params, name, description, type: node.type },
+            name,
+            path,
+            issues
+          )
+        );
+        return;
+      }
+
+      default:
+        issues.push({
+          path,
+          message: `Sub-node "${node.name}" connected as "${connectionType}" is not supported and was dropped`,
+        });
+    }
+  });
+
+  return {
+    node: { ...n8nNode, parameters, ...(credentials && { credentials }) },
+    tools,
+  };
+}
+
+/**
+ * Helper: Rebuild an inline agent config from n8n agent node parameters
+ * Returns undefined when the parameters do not describe a model
+ */
+function mapN8nParametersToAgent(
+  n8nNode: N8nNode,
+  path: string[],
+  issues: AdapterImportIssue[]
+): AgentConfig | undefined {
+  const params = n8nNode.parameters;
+  if (typeof params.model !== 'string' || !params.model) {
+    return undefined;
+  }
+
+  const agent: AgentConfig = {
+    id:
+      typeof params.agentId === 'string'
+        ? params.agentId
+        : slugify(n8nNode.name) || 'agent',
+    name:
+      typeof params.agentName === 'string' && params.agentName
+        ? params.agentName
+        : n8nNode.name,
+    provider: inferN8nProvider(n8nNode, path, issues),
+    model: params.model,
+  };
+
+  if (typeof params.description === 'string' && params.description) {
+    agent.description = params.description;
+  }
+
+  // Agent nodes exported by n8n itself keep the prompt in options
+  const systemPrompt =
+    params.systemPrompt ??
+    (params.options as { systemMessage?: unknown } | undefined)?.systemMessage;
+  if (typeof systemPrompt === 'string' && systemPrompt) {
+    agent.systemPrompt = parseTemplateFromN8n(systemPrompt);
+  }
+
+  // Model parameters
+  const parameterKeys = [
+    'temperature',
+    'maxTokens',
+    'topP',
+    'frequencyPenalty',
+    'presencePenalty',
+  ] as const;
+  const parameters: NonNullable<AgentConfig['parameters']> = {};
+  parameterKeys.forEach((key) => {
+    if (typeof params[key] === 'number') {
+      parameters[key] = params[key] as number;
+    }
+  });
+  if (Object.keys(parameters).length > 0) {
+    agent.parameters = parameters;
+  }
+
+  // Tools
+  if (Array.isArray(params.tools)) {
+    const tools: Tool[] = [];
+    params.tools.forEach((tool: unknown, toolIndex) => {
+      const candidate = (tool || {}) as Record<string, unknown>;
+      const toolPath = [...path, 'parameters', 'tools', String(toolIndex)];
+      if (typeof candidate.name !== 'string' || !candidate.name) {
+        issues.push({
+          path: toolPath,
+          message: 'Tool without a name was skipped',
+        });
+        return;
+      }
+      tools.push(mapN8nToolToTool(candidate, candidate.name, toolPath, issues));
+    });
+    if (tools.length > 0) {
+      agent.tools = tools;
+    }
+  }
+
+  // Memory
+  if (params.memory !== undefined) {
+    const memory = MemoryConfigSchema.safeParse(params.memory);
+    if (memory.success) {
+      agent.memory = memory.data;
+    } else {
+      issues.push({
+        path: [...path, 'parameters', 'memory'],
+        message: 'Memory configuration is not recognised and was skipped',
+      });
+    }
+  }
+
+  // Structured output
+  const responseFormat = params.responseFormat as
+    | { json_schema?: { schema?: unknown } }
+    | undefined;
+  const outputSchema = responseFormat?.json_schema?.schema;
+  if (outputSchema && typeof outputSchema === 'object') {
+    agent.outputSchema = outputSchema as Record<string, unknown>;
+  }
+
+  if (params.metadata && typeof params.metadata === 'object') {
+    agent.metadata = params.metadata as Record<string, unknown>;
+  }
+
+  return agent;
+}
+
+/**
+ * Helper: Determine the provider of an n8n agent node from its
+ * parameters, falling back to its credential type
+ */
+function inferN8nProvider(
+  n8nNode: N8nNode,
+  path: string[],
+  issues: AdapterImportIssue[]
+): AIProvider {
+  const provider = AIProviderSchema.safeParse(n8nNode.parameters.provider);
+  if (provider.success) {
+    return provider.data;
+  }
+
+  const credentialTypes = Object.keys(n8nNode.credentials || {});
+  const fromCredentials = Object.entries(PROVIDER_CREDENTIALS).find(
+    ([, credentialType]) => credentialTypes.includes(credentialType)
+  );
+  if (fromCredentials) {
+    return fromCredentials[0] as AIProvider;
+  }
+
+  issues.push({
+    path: [...path, 'parameters', 'provider'],
+    message: `Could not determine provider for agent "${n8nNode.name}"; using "custom"`,
+  });
+  return 'custom';
+}
+
+/**
+ * Helper: Check whether a string is an absolute URL
+ */
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * n8n If rule operation for each comparison operator and value type
+ */
+const N8N_RULE_OPERATIONS: Record<string, Partial<Record<string, string>>> = {
+  string: { '==': 'equal', '!=': 'notEqual', contains: 'contains' },
+  number: {
+    '==': 'equal',
+    '!=': 'notEqual',
+    '<': 'smaller',
+    '<=': 'smallerEqual',
+    '>': 'larger',
+    '>=': 'largerEqual',
+  },
+  boolean: { '==': 'equal', '!=': 'notEqual' },
+};
+
+/**
+ * Operator to use when a comparison's operands are swapped
+ */
+const SWAPPED_OPERATORS: Record<string, string> = {
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<=',
+  '==': '==',
+  '!=': '!=',
+};
+
+/**
+ * Helper: Collect the operands of a chain of one logical operator
+ */
+function flattenLogical(
+  expression: ConditionExpression,
+  operator: '&&' | '||'
+): ConditionExpression[] {
+  return expression.type === 'logical' && expression.operator === operator
+    ? [
+        ...flattenLogical(expression.left, operator),
+        ...flattenLogical(expression.right, operator),
+      ]
+    : [expression];
+}
+
+/**
+ * Helper: Convert a path/literal comparison into a native If rule
+ */
+function toN8nRule(
+  expression: ConditionExpression,
+  nodeNames: Record<string, string>
+): ({ kind: string } & Record<string, unknown>) | undefined {
+  // A bare path tests truthiness, as the evaluator does
+  if (expression.type === 'path') {
+    return {
+      kind: 'boolean',
+      value1: `={{ Boolean(${compileN8nExpression(expression, nodeNames)}) }}`,
+      operation: 'equal',
+      value2: true,
+    };
+  }
+  if (expression.type !== 'comparison') {
+    return undefined;
+  }
+
+  let { left, right, operator }: ConditionComparison = expression;
+  if (
+    left.type === 'literal' &&
+    right.type === 'path' &&
+    operator !== 'contains'
+  ) {
+    [left, right] = [right, left];
+    operator = SWAPPED_OPERATORS[operator] as ConditionComparison['operator'];
+  }
+  if (
+    left.type !== 'path' ||
+    right.type !== 'literal' ||
+    right.value === null
+  ) {
+    return undefined;
+  }
+
+  const kind = typeof right.value;
+  const operation = N8N_RULE_OPERATIONS[kind]?.[operator];
+  return operation
+    ? {
+        kind,
+        value1: `={{ ${compileN8nExpression(left, nodeNames)} }}`,
+        operation,
+        value2: right.value,
+      }
+    : undefined;
+}
+
+/**
+ * Helper: Compile a condition into an n8n (JavaScript) expression
+ */
+function compileN8nExpression(
+  expression: ConditionExpression,
+  nodeNames: Record<string, string>
+): string {
+  const truthy = (node: ConditionExpression): string =>
+    node.type === 'path' ? `Boolean(${compile(node)})` : compile(node);
+  const compile = (node: ConditionExpression): string => {
+    switch (node.type) {
+      case 'literal':
+        return JSON.stringify(node.value);
+      case 'path': {
+        const [root, ...rest] = node.segments;
+        if (root === 'outputs' && rest.length > 0) {
+          const [nodeId, ...keys] = rest;
+          const name = JSON.stringify(nodeNames[nodeId] ?? nodeId);
+          return typeScriptPropertyPath(`$(${name}).item.json`, [
+            'output',
+            ...keys,
+          ]);
+        }
+        return typeScriptPropertyPath('$json', [root, ...rest]);
+      }
+      case 'not':
+        return `!(${compile(node.operand)})`;
+      case 'logical':
+        // Operands are tested for truthiness, so `||` yields a boolean
+        return `(${truthy(node.left)} ${node.operator} ${truthy(node.right)})`;
+      case 'comparison': {
+        const left = compile(node.left);
+        const right = compile(node.right);
+        if (node.operator === 'contains') {
+          return `(${left} ?? []).includes(${right})`;
+        }
+        const operator =
+          node.operator === '=='
+            ? '==='
+            : node.operator === '!='
+              ? '!=='
+              : node.operator;
+        return `(${left} ${operator} ${right})`;
+      }
+    }
+  };
+
+  return compile(expression);
+}
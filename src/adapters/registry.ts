@@ -0,0 +1,471 @@
+/**
+ * Adapter Registry
+ * Lets frameworks register adapters by name and converts through them
+ */
+
+import {
+  AdapterInfoSchema,
+  N8nAdapterOptionsSchema,
+  LangChainAdapterOptionsSchema,
+  CrewAIAdapterOptionsSchema,
+  AutoGenAdapterOptionsSchema,
+} from '../schemas/adapter.schema.js';
+import type { AgentConfig } from '../types/agent.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+import type {
+  AdapterCapability,
+  AdapterInfo,
+  AdapterRegistry,
+  AdapterTypes,
+  ConversionResult,
+  FrameworkAdapter,
+  WorkflowImportResult,
+} from '../types/adapters.js';
+import {
+  mapAgentToN8nNode,
+  mapWorkflowToN8n,
+  mapAgentToN8nNodeWithReport,
+  mapWorkflowToN8nWithReport,
+  mapN8nToWorkflow,
+} from './n8n.adapter.js';
+import {
+  mapAgentToLangChain,
+  mapWorkflowToLangGraph,
+  mapAgentToLangChainWithReport,
+  mapWorkflowToLangGraphWithReport,
+  mapLangGraphToWorkflow,
+} from './langchain.adapter.js';
+import {
+  mapAgentToCrewAgent,
+  mapWorkflowToCrew,
+  mapAgentToCrewAgentWithReport,
+  mapWorkflowToCrewWithReport,
+  mapCrewToWorkflow,
+} from './crewai.adapter.js';
+import {
+  mapAgentToAutoGen,
+  mapWorkflowToAutoGen,
+  mapAgentToAutoGenWithReport,
+  mapWorkflowToAutoGenWithReport,
+  mapAutoGenTeamToWorkflow,
+} from './autogen.adapter.js';
+
+type AnyAdapter = FrameworkAdapter<unknown, unknown, unknown>;
+
+/**
+ * Adapter method required by each capability
+ */
+const CAPABILITY_METHODS: Record<AdapterCapability, keyof AnyAdapter> = {
+  'agent-export': 'exportAgent',
+  'workflow-export': 'exportWorkflow',
+  import: 'importWorkflow',
+};
+
+/**
+ * Built-in n8n adapter registration
+ */
+export const n8nAdapter: FrameworkAdapter<
+  AdapterTypes<'n8n'>['agent'],
+  AdapterTypes<'n8n'>['workflow'],
+  AdapterTypes<'n8n'>['options']
+> = {
+  name: 'n8n',
+  version: '1.0.0',
+  description: 'n8n workflow automation',
+  capabilities: ['agent-export', 'workflow-export', 'import'],
+  optionsSchema: N8nAdapterOptionsSchema,
+  exportAgent: mapAgentToN8nNode,
+  exportWorkflow: mapWorkflowToN8n,
+  exportAgentWithReport: mapAgentToN8nNodeWithReport,
+  exportWorkflowWithReport: mapWorkflowToN8nWithReport,
+  importWorkflow: mapN8nToWorkflow,
+};
+
+/**
+ * Built-in LangChain / LangGraph adapter registration
+ */
+export const langChainAdapter: FrameworkAdapter<
+  AdapterTypes<'langchain'>['agent'],
+  AdapterTypes<'langchain'>['workflow'],
+  AdapterTypes<'langchain'>['options']
+> = {
+  name: 'langchain',
+  version: '1.0.0',
+  description: 'LangChain agents and LangGraph state graphs',
+  capabilities: ['agent-export', 'workflow-export', 'import'],
+  optionsSchema: LangChainAdapterOptionsSchema,
+  exportAgent: mapAgentToLangChain,
+  exportWorkflow: mapWorkflowToLangGraph,
+  exportAgentWithReport: mapAgentToLangChainWithReport,
+  exportWorkflowWithReport: mapWorkflowToLangGraphWithReport,
+  importWorkflow: mapLangGraphToWorkflow,
+};
+
+/**
+ * Built-in CrewAI adapter registration
+ */
+export const crewAIAdapter: FrameworkAdapter<
+  AdapterTypes<'crewai'>['agent'],
+  AdapterTypes<'crewai'>['workflow'],
+  AdapterTypes<'crewai'>['options']
+> = {
+  name: 'crewai',
+  version: '1.0.0',
+  description: 'CrewAI agents and crews',
+  capabilities: ['agent-export', 'workflow-export', 'import'],
+  optionsSchema: CrewAIAdapterOptionsSchema,
+  exportAgent: mapAgentToCrewAgent,
+  exportWorkflow: mapWorkflowToCrew,
+  exportAgentWithReport: mapAgentToCrewAgentWithReport,
+  exportWorkflowWithReport: mapWorkflowToCrewWithReport,
+  importWorkflow: mapCrewToWorkflow,
+};
+
+/**
+ * Built-in AutoGen adapter registration
+ */
+export const autoGenAdapter: FrameworkAdapter<
+  AdapterTypes<'autogen'>['agent'],
+  AdapterTypes<'autogen'>['workflow'],
+  AdapterTypes<'autogen'>['options']
+> = {
+  name: 'autogen',
+  version: '1.0.0',
+  description: 'Microsoft AutoGen agents and teams',
+  capabilities: ['agent-export', 'workflow-export', 'import'],
+  optionsSchema: AutoGenAdapterOptionsSchema,
+  exportAgent: mapAgentToAutoGen,
+  exportWorkflow: mapWorkflowToAutoGen,
+  exportAgentWithReport: mapAgentToAutoGenWithReport,
+  exportWorkflowWithReport: mapWorkflowToAutoGenWithReport,
+  importWorkflow: mapAutoGenTeamToWorkflow,
+};
+
+/**
+ * Creates an adapter registry
+ *
+ * @param options - Registry options
+ * @param options.includeBuiltIns - Register the n8n, LangChain, CrewAI and AutoGen adapters (default: true)
+ * @returns A new adapter registry
+ *
+ * @example
+ * ```ts
+ * const registry = createAdapterRegistry();
+ *
+ * registry.register({
+ *   name: 'my-runtime',
+ *   version: '1.0.0',
+ *   capabilities: ['workflow-export'],
+ *   exportWorkflow: (workflow) => ({ graph: workflow.nodes }),
+ * });
+ *
+ * const output = registry.convert(workflow, 'my-runtime');
+ * ```
+ */
+export function createAdapterRegistry(
+  options: { includeBuiltIns?: boolean } = {}
+): AdapterRegistry {
+  const { includeBuiltIns = true } = options;
+  const adapters = new Map<string, AnyAdapter>();
+
+  function resolveAdapter(
+    name: string,
+    capability: AdapterCapability
+  ): AnyAdapter {
+    const adapter = adapters.get(name);
+    if (!adapter) {
+      const registered = [...adapters.keys()].join(', ') || 'none';
+      throw new Error(
+        `Unknown adapter "${name}". Registered adapters: ${registered}`
+      );
+    }
+    if (!adapter.capabilities.includes(capability)) {
+      throw new Error(`Adapter "${name}" does not support ${capability}`);
+    }
+    return adapter;
+  }
+
+  function parseOptions(adapter: AnyAdapter, options: unknown): unknown {
+    return adapter.optionsSchema
+      ? adapter.optionsSchema.parse(options ?? {})
+      : (options ?? {});
+  }
+
+  const registry: AdapterRegistry = {
+    register(adapter, registerOptions = {}) {
+      const info = AdapterInfoSchema.parse({
+        name: adapter.name,
+        version: adapter.version,
+        description: adapter.description,
+        capabilities: adapter.capabilities,
+      });
+
+      info.capabilities.forEach((capability) => {
+        const method = CAPABILITY_METHODS[capability];
+        if (typeof adapter[method] !== 'function') {
+          throw new Error(
+            `Adapter "${info.name}" declares ${capability} but does not implement ${method}()`
+          );
+        }
+      });
+
+      if (adapters.has(info.name) && !registerOptions.replace) {
+        throw new Error(`Adapter "${info.name}" is already registered`);
+      }
+
+      adapters.set(info.name, adapter as AnyAdapter);
+    },
+
+    unregister(name) {
+      return adapters.delete(name);
+    },
+
+    has(name) {
+      return adapters.has(name);
+    },
+
+    get(name) {
+      return adapters.get(name);
+    },
+
+    list(): AdapterInfo[] {
+      return [...adapters.values()].map((adapter) => ({
+        name: adapter.name,
+        version: adapter.version,
+        ...(adapter.description && { description: adapter.description }),
+        capabilities: [...adapter.capabilities],
+      }));
+    },
+
+    convert(workflow: WorkflowConfig, adapterName: string, options?: unknown) {
+      const adapter = resolveAdapter(adapterName, 'workflow-export');
+      return adapter.exportWorkflow!(workflow, parseOptions(adapter, options));
+    },
+
+    convertAgent(agent: AgentConfig, adapterName: string, options?: unknown) {
+      const adapter = resolveAdapter(adapterName, 'agent-export');
+      return adapter.exportAgent!(agent, parseOptions(adapter, options));
+    },
+
+    convertWithReport(
+      workflow: WorkflowConfig,
+      adapterName: string,
+      options?: unknown
+    ) {
+      const adapter = resolveAdapter(adapterName, 'workflow-export');
+      if (!adapter.exportWorkflowWithReport) {
+        throw new Error(
+          `Adapter "${adapterName}" does not provide fidelity reports`
+        );
+      }
+      return adapter.exportWorkflowWithReport(
+        workflow,
+        parseOptions(adapter, options)
+      );
+    },
+
+    convertAgentWithReport(
+      agent: AgentConfig,
+      adapterName: string,
+      options?: unknown
+    ) {
+      const adapter = resolveAdapter(adapterName, 'agent-export');
+      if (!adapter.exportAgentWithReport) {
+        throw new Error(
+          `Adapter "${adapterName}" does not provide fidelity reports`
+        );
+      }
+      return adapter.exportAgentWithReport(
+        agent,
+        parseOptions(adapter, options)
+      );
+    },
+
+    importWorkflow(
+      input: unknown,
+      adapterName: string,
+      options?: unknown
+    ): WorkflowImportResult {
+      const adapter = resolveAdapter(adapterName, 'import');
+      return adapter.importWorkflow!(input, parseOptions(adapter, options));
+    },
+  };
+
+  if (includeBuiltIns) {
+    registry.register(n8nAdapter);
+    registry.register(langChainAdapter);
+    registry.register(crewAIAdapter);
+    registry.register(autoGenAdapter);
+  }
+
+  return registry;
+}
+
+/**
+ * Default adapter registry used by the top-level helpers below
+ */
+export const defaultAdapterRegistry = createAdapterRegistry();
+
+/**
+ * Registers an adapter with the default registry
+ *
+ * @param adapter - Adapter to register
+ * @param options - Pass `{ replace: true }` to override an existing adapter
+ * @throws {ZodError} If the name, version or capabilities are invalid
+ * @throws {Error} If the name is taken or a declared capability is not implemented
+ *
+ * @example
+ * ```ts
+ * registerAdapter({
+ *   name: 'flowise',
+ *   version: '0.1.0',
+ *   capabilities: ['agent-export'],
+ *   optionsSchema: z.object({ chatflowId: z.string() }),
+ *   exportAgent: (agent, options) => toFlowiseNode(agent, options.chatflowId),
+ * });
+ * ```
+ */
+export function registerAdapter<TAgent, TWorkflow, TOptions>(
+  adapter: FrameworkAdapter<TAgent, TWorkflow, TOptions>,
+  options?: { replace?: boolean }
+): void {
+  defaultAdapterRegistry.register(adapter, options);
+}
+
+/**
+ * Lists the adapters registered with the default registry
+ *
+ * @returns Name, version, description and capabilities of each adapter
+ *
+ * @example
+ * ```ts
+ * listAdapters().filter((a) => a.capabilities.includes('import'));
+ * ```
+ */
+export function listAdapters(): AdapterInfo[] {
+  return defaultAdapterRegistry.list();
+}
+
+/**
+ * Converts a workflow with an adapter from the default registry
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param adapterName - Name of a registered adapter
+ * @param options - Adapter options, validated against the adapter's options schema
+ * @returns The adapter's workflow output
+ * @throws {Error} If the adapter is unknown or cannot export workflows
+ * @throws {ZodError} If the options are invalid
+ *
+ * @example
+ * ```ts
+ * const n8nWorkflow = convert(workflow, 'n8n', { nodeSpacing: 300 });
+ * const crew = convert(workflow, 'crewai', { process: 'sequential' });
+ * ```
+ */
+export function convert<TName extends string>(
+  workflow: WorkflowConfig,
+  adapterName: TName,
+  options?: AdapterTypes<TName>['options']
+): AdapterTypes<TName>['workflow'] {
+  return defaultAdapterRegistry.convert(workflow, adapterName, options);
+}
+
+/**
+ * Converts an agent with an adapter from the default registry
+ *
+ * @param agent - Agent configuration to convert
+ * @param adapterName - Name of a registered adapter
+ * @param options - Adapter options, validated against the adapter's options schema
+ * @returns The adapter's agent output
+ * @throws {Error} If the adapter is unknown or cannot export agents
+ * @throws {ZodError} If the options are invalid
+ *
+ * @example
+ * ```ts
+ * const lcAgent = convertAgent(agent, 'langchain', { verbose: true });
+ * ```
+ */
+export function convertAgent<TName extends string>(
+  agent: AgentConfig,
+  adapterName: TName,
+  options?: AdapterTypes<TName>['options']
+): AdapterTypes<TName>['agent'] {
+  return defaultAdapterRegistry.convertAgent(agent, adapterName, options);
+}
+
+/**
+ * Converts a workflow with an adapter from the default registry and
+ * reports what the conversion dropped, approximated or defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param adapterName - Name of a registered adapter
+ * @param options - Adapter options, validated against the adapter's options schema
+ * @returns The adapter's workflow output and its fidelity report
+ * @throws {Error} If the adapter is unknown or does not provide fidelity reports
+ * @throws {ZodError} If the options are invalid
+ *
+ * @example
+ * ```ts
+ * const { output, report } = convertWithReport(workflow, 'crewai');
+ * if (hasFidelityIssues(report, 'warning')) {
+ *   process.exitCode = 1;
+ * }
+ * ```
+ */
+export function convertWithReport<TName extends string>(
+  workflow: WorkflowConfig,
+  adapterName: TName,
+  options?: AdapterTypes<TName>['options']
+): ConversionResult<AdapterTypes<TName>['workflow']> {
+  return defaultAdapterRegistry.convertWithReport(
+    workflow,
+    adapterName,
+    options
+  );
+}
+
+/**
+ * Converts an agent with an adapter from the default registry and
+ * reports what the conversion dropped, approximated or defaulted
+ *
+ * @param agent - Agent configuration to convert
+ * @param adapterName - Name of a registered adapter
+ * @param options - Adapter options, validated against the adapter's options schema
+ * @returns The adapter's agent output and its fidelity report
+ * @throws {Error} If the adapter is unknown or does not provide fidelity reports
+ * @throws {ZodError} If the options are invalid
+ */
+export function convertAgentWithReport<TName extends string>(
+  agent: AgentConfig,
+  adapterName: TName,
+  options?: AdapterTypes<TName>['options']
+): ConversionResult<AdapterTypes<TName>['agent']> {
+  return defaultAdapterRegistry.convertAgentWithReport(
+    agent,
+    adapterName,
+    options
+  );
+}
+
+/**
+ * Imports a framework workflow with an adapter from the default registry
+ *
+ * @param input - Framework workflow to import
+ * @param adapterName - Name of a registered adapter
+ * @param options - Adapter options, validated against the adapter's options schema
+ * @returns The rebuilt workflow and everything that could not be mapped
+ * @throws {Error} If the adapter is unknown or cannot import
+ * @throws {ZodError} If the options are invalid
+ *
+ * @example
+ * ```ts
+ * const { workflow, issues } = importWorkflow(n8nJson, 'n8n');
+ * ```
+ */
+export function importWorkflow<TName extends string>(
+  input: AdapterTypes<TName>['workflow'],
+  adapterName: TName,
+  options?: AdapterTypes<TName>['options']
+): WorkflowImportResult {
+  return defaultAdapterRegistry.importWorkflow(input, adapterName, options);
+}
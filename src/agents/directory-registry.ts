@@ -0,0 +1,91 @@
+/**
+ * Directory agent registries, loaded from agent files (Node.js only)
+ */
+
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { loadDocument } from '../documents/loader.js';
+import { resolveAgentExtends } from './inheritance.js';
+import { createAgentRegistry, validatedAgent } from './registry.js';
+import { validateAgentConfig } from '../utils/validator.js';
+import type { AgentRegistry } from '../types/agent-registry.js';
+
+/**
+ * File extensions loaded by `createDirectoryAgentRegistry`
+ */
+const AGENT_FILE_EXTENSIONS = new Set(['.yaml', '.yml', '.json', '.json5']);
+
+/**
+ * Creates an agent registry from a directory of agent files
+ *
+ * Loads every `.yaml`, `.yml`, `.json` and `.json5` file directly inside the
+ * directory, in file name order. Subdirectories are ignored. Agents may
+ * `extend` agents in other files of the directory, in any order. Further
+ * agents can be registered on the returned registry.
+ *
+ * @param directory - Directory containing one agent per file
+ * @returns An agent registry holding the directory's agents
+ * @throws {Error} If a file cannot be parsed, holds an invalid agent,
+ *   extends an unknown agent, is part of an inheritance cycle, or repeats
+ *   another file's agent ID; the message names the file
+ *
+ * @example
+ * ```typescript
+ * const agents = createDirectoryAgentRegistry('./agents');
+ *
+ * const result = validateWorkflowConfig(workflow, { agents });
+ * const graph = mapWorkflowToLangGraph(workflow, { agents });
+ * ```
+ */
+export function createDirectoryAgentRegistry(directory: string): AgentRegistry {
+  const registry = createAgentRegistry();
+
+  const files = readdirSync(directory)
+    .filter((name) => AGENT_FILE_EXTENSIONS.has(extname(name).toLowerCase()))
+    .map((name) => join(directory, name))
+    .filter((file) => statSync(file).isFile())
+    .sort();
+
+  const documents = files.map((file) => {
+    try {
+      return {
+        file,
+        document: loadDocument(readFileSync(file, 'utf-8'), { file }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${file}: ${message}`);
+    }
+  });
+
+  // Bases may live in files that have not been registered yet
+  const lookup = (id: string) =>
+    registry.get(id) ??
+    documents.find(({ document }) => idOf(document.data) === id)?.document.data;
+
+  for (const { file, document } of documents) {
+    try {
+      const data = resolveAgentExtends(document.data, lookup);
+      const result = validateAgentConfig(data);
+      const issue = result.error?.issues?.[0];
+      const position = issue && document.locate(issue.path);
+      const location = position
+        ? ` (line ${position.line}, column ${position.column})`
+        : '';
+      registry.register(validatedAgent(result, data, location));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${file}: ${message}`);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Helper: An agent document's ID, if it has a string ID
+ */
+function idOf(agent: unknown): string | undefined {
+  const id = (agent as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : undefined;
+}
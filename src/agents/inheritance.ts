@@ -0,0 +1,184 @@
+/**
+ * Agent inheritance: flattens `extends` chains into plain agent configs
+ */
+
+import type { AgentBaseLookup } from '../types/agent-registry.js';
+
+/**
+ * Fields a derived agent never inherits from its bases
+ */
+const NON_INHERITED_FIELDS = ['id', 'extends', 'schemaVersion'];
+
+/**
+ * Flattens an agent's `extends` chain into a single agent document
+ *
+ * Base agents are merged in the order listed, each flattened first, and the
+ * agent's own fields are merged last:
+ * - `tools` merge by tool `id`: a tool with a base tool's ID is merged into
+ *   it in place, or replaces it in place when it declares a different
+ *   `kind`; other tools are appended
+ * - objects (`parameters`, `memory`, `metadata`, tool `parameters`) merge
+ *   key by key, except `outputSchema`, which an agent replaces as a whole
+ * - scalars and other arrays override; `undefined` fields are ignored
+ *
+ * `id`, `schemaVersion` and `extends` are not inherited. Documents without
+ * `extends` are returned unchanged, and the result is not validated.
+ *
+ * @param agent - Agent document that may declare `extends`
+ * @param bases - Registry or lookup function for base agents
+ * @returns The flattened agent document, without `extends`
+ * @throws {Error} If a base agent is unknown or the chain has a cycle
+ *
+ * @example
+ * ```typescript
+ * const agents = createAgentRegistry([baseResearcher]);
+ *
+ * const agent = resolveAgentExtends(
+ *   { id: 'cautious', extends: 'researcher', parameters: { temperature: 0.1 } },
+ *   agents
+ * );
+ * // => researcher's fields, with id 'cautious' and temperature 0.1
+ * ```
+ */
+export function resolveAgentExtends(
+  agent: unknown,
+  bases: AgentBaseLookup
+): unknown {
+  const lookup =
+    typeof bases === 'function' ? bases : (id: string) => bases.get(id);
+  return flatten(agent, lookup, []);
+}
+
+/**
+ * Merges an agent document over a base agent document
+ *
+ * Applies the merge rules of `resolveAgentExtends` to a single pair; `id`,
+ * `schemaVersion` and `extends` are taken from `override` only.
+ *
+ * @param base - Base agent document
+ * @param override - Agent document whose fields win
+ * @returns The merged agent document
+ *
+ * @example
+ * ```typescript
+ * mergeAgentConfigs(
+ *   { id: 'a', tools: [{ id: 'search', name: 'search', description: 'Web' }] },
+ *   { id: 'b', tools: [{ id: 'search', description: 'Web search' }] }
+ * );
+ * // => { id: 'b', tools: [{ id: 'search', name: 'search', description: 'Web search' }] }
+ * ```
+ */
+export function mergeAgentConfigs(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const inherited = { ...base };
+  NON_INHERITED_FIELDS.forEach((field) => delete inherited[field]);
+
+  const merged = mergeObjects(inherited, override);
+  if (Array.isArray(base.tools) && Array.isArray(override.tools)) {
+    merged.tools = mergeTools(base.tools, override.tools);
+  }
+  if (override.outputSchema !== undefined) {
+    merged.outputSchema = override.outputSchema;
+  }
+  return merged;
+}
+
+/**
+ * Helper: Flatten an agent, tracking the chain of agent IDs to detect cycles
+ */
+function flatten(
+  agent: unknown,
+  lookup: (id: string) => unknown,
+  chain: string[]
+): unknown {
+  if (!isRecord(agent) || agent.extends === undefined) {
+    return agent;
+  }
+
+  const id = typeof agent.id === 'string' ? agent.id : '(unnamed)';
+  const baseIds =
+    typeof agent.extends === 'string' ? [agent.extends] : agent.extends;
+  if (!Array.isArray(baseIds) || baseIds.some((b) => typeof b !== 'string')) {
+    // Left for schema validation to report
+    return agent;
+  }
+
+  const path = [...chain, id];
+  const merged = (baseIds as string[]).reduce<Record<string, unknown>>(
+    (result, baseId) => {
+      if (path.includes(baseId)) {
+        throw new Error(
+          `Agent inheritance cycle: ${[...path.slice(path.indexOf(baseId)), baseId].join(' -> ')}`
+        );
+      }
+      const base = lookup(baseId);
+      if (!isRecord(base)) {
+        throw new Error(`Agent "${id}" extends unknown agent "${baseId}"`);
+      }
+      return mergeAgentConfigs(
+        result,
+        flatten(base, lookup, path) as Record<string, unknown>
+      );
+    },
+    {}
+  );
+
+  const own = { ...agent };
+  delete own.extends;
+  return mergeAgentConfigs(merged, own);
+}
+
+/**
+ * Helper: Merge two plain objects key by key, recursing into nested objects
+ */
+function mergeObjects(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+    merged[key] =
+      isRecord(merged[key]) && isRecord(value)
+        ? mergeObjects(merged[key] as Record<string, unknown>, value)
+        : value;
+  });
+  return merged;
+}
+
+/**
+ * Helper: Merge tool lists by tool ID, keeping the base tools' order; a tool
+ * of another kind replaces the base tool, since kinds share few fields
+ */
+function mergeTools(base: unknown[], override: unknown[]): unknown[] {
+  const tools = [...base];
+  override.forEach((tool) => {
+    const index = isRecord(tool)
+      ? tools.findIndex((t) => isRecord(t) && t.id === tool.id)
+      : -1;
+    if (index >= 0) {
+      const baseTool = tools[index] as Record<string, unknown>;
+      const overrideTool = tool as Record<string, unknown>;
+      const kindChanged =
+        overrideTool.kind !== undefined &&
+        overrideTool.kind !== (baseTool.kind ?? 'function');
+      tools[index] = kindChanged
+        ? overrideTool
+        : mergeObjects(baseTool, overrideTool);
+    } else {
+      tools.push(tool);
+    }
+  });
+  return tools;
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
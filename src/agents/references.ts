@@ -0,0 +1,79 @@
+/**
+ * Resolves workflow `agentId` references against an agent registry
+ */
+
+import { resolveAgentExtends } from './inheritance.js';
+import type { AgentConfig } from '../types/agent.js';
+import type { AgentRegistry } from '../types/agent-registry.js';
+import type { AgentReferenceResolution } from '../types/agent-registry.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+
+/**
+ * Resolves the `agentId` references of a workflow's agent nodes
+ *
+ * Nodes with an inline `agent` keep it, flattened if it `extends` registered
+ * agents. Nodes that only reference an agent get the registered config
+ * inlined, keeping their `agentId`. References the registry does not hold
+ * (and unknown base agents or inheritance cycles) are reported and left as
+ * they are.
+ *
+ * @param workflow - Workflow whose agent nodes to resolve
+ * @param registry - Registry to look agents up in
+ * @returns A copy of the workflow with resolved agents inlined, and the
+ *   unresolved references
+ *
+ * @example
+ * ```typescript
+ * const { workflow: resolved, unresolved } = resolveAgentReferences(
+ *   workflow,
+ *   createDirectoryAgentRegistry('./agents')
+ * );
+ * unresolved.forEach((issue) => console.warn(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function resolveAgentReferences(
+  workflow: WorkflowConfig,
+  registry: AgentRegistry
+): AgentReferenceResolution {
+  const unresolved: AgentReferenceResolution['unresolved'] = [];
+
+  const nodes = workflow.nodes.map((node, index) => {
+    if (node.type !== 'agent') {
+      return node;
+    }
+
+    if (node.agent) {
+      if (node.agent.extends === undefined) {
+        return node;
+      }
+      try {
+        return {
+          ...node,
+          agent: resolveAgentExtends(node.agent, registry) as AgentConfig,
+        };
+      } catch (error) {
+        unresolved.push({
+          path: ['nodes', String(index), 'agent', 'extends'],
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return node;
+      }
+    }
+
+    if (node.agentId === undefined) {
+      return node;
+    }
+
+    const agent = registry.get(node.agentId);
+    if (!agent) {
+      unresolved.push({
+        path: ['nodes', String(index), 'agentId'],
+        message: `Agent "${node.agentId}" referenced by node "${node.id}" is not in the agent registry`,
+      });
+      return node;
+    }
+    return { ...node, agent };
+  });
+
+  return { workflow: { ...workflow, nodes }, unresolved };
+}
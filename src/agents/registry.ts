@@ -0,0 +1,106 @@
+/**
+ * Agent registries: validated agent libraries that workflow nodes reference
+ * by `agentId`
+ */
+
+import { validateAgentConfig } from '../utils/validator.js';
+import type { AgentConfig, ValidationResult } from '../types/agent.js';
+import type { AgentRegistry } from '../types/agent-registry.js';
+
+/**
+ * Creates an in-memory agent registry
+ *
+ * Every agent is validated (and migrated to the current schema version)
+ * when it is registered. An agent that `extends` registered agents is
+ * flattened first, so the registry only holds plain agent configs.
+ *
+ * @param agents - Agents to register up front
+ * @returns A new agent registry
+ * @throws {Error} If an agent is invalid, extends an unregistered agent, or
+ *   shares another agent's ID
+ *
+ * @example
+ * ```typescript
+ * const agents = createAgentRegistry([researcher, writer]);
+ *
+ * agents.register({
+ *   id: 'editor',
+ *   name: 'Editor',
+ *   provider: 'anthropic',
+ *   model: 'claude-3-5-sonnet-20241022',
+ * });
+ *
+ * const crew = mapWorkflowToCrew(workflow, { agents });
+ * ```
+ */
+export function createAgentRegistry(agents: unknown[] = []): AgentRegistry {
+  const entries = new Map<string, AgentConfig>();
+
+  const registry: AgentRegistry = {
+    register(agent, options = {}) {
+      const config = validatedAgent(
+        validateAgentConfig(agent, { agents: registry }),
+        agent
+      );
+      if (entries.has(config.id) && !options.replace) {
+        throw new Error(`Agent "${config.id}" is already registered`);
+      }
+      entries.set(config.id, config);
+      return config;
+    },
+
+    unregister(id) {
+      return entries.delete(id);
+    },
+
+    get(id) {
+      return entries.get(id);
+    },
+
+    has(id) {
+      return entries.has(id);
+    },
+
+    list() {
+      return [...entries.values()];
+    },
+  };
+
+  agents.forEach((agent) => registry.register(agent));
+  return registry;
+}
+
+/**
+ * Returns validated agent data, or throws describing the first issue
+ *
+ * @param result - Result of validating the agent
+ * @param agent - The agent document that was validated
+ * @param location - Source position appended to the issue path
+ * @returns The validated agent config
+ * @throws {Error} Naming the agent and its first validation issue
+ */
+export function validatedAgent(
+  result: ValidationResult,
+  agent: unknown,
+  location = ''
+): AgentConfig {
+  if (result.success && result.data) {
+    return result.data;
+  }
+
+  const id = idOf(agent);
+  const label = id !== undefined ? `Invalid agent "${id}"` : 'Invalid agent';
+  const issue = result.error?.issues?.[0];
+  const detail = issue
+    ? `${issue.path.join('.') || '(root)'}${location}: ${issue.message}`
+    : (result.error?.message ?? 'Validation failed');
+  throw new Error(`${label}: ${detail}`);
+}
+
+/**
+ * Helper: An agent document's ID, if it has a string ID
+ */
+function idOf(agent: unknown): string | undefined {
+  const id = (agent as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : undefined;
+}
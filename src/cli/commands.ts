@@ -0,0 +1,480 @@
+/**
+ * Commands of the ai-agent-schema command-line tool
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { ZodError } from 'zod';
+import {
+  basename,
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from 'node:path';
+import {
+  convertAgentWithReport,
+  convertWithReport,
+} from '../adapters/registry.js';
+import { hasFidelityIssues } from '../utils/fidelity.js';
+import { validateAgentConfig } from '../utils/validator.js';
+import {
+  validateWorkflowConfig,
+  detectWorkflowCycles,
+  getWorkflowTopologicalOrder,
+  findDisconnectedNodes,
+} from '../utils/workflow-validator.js';
+import { generateAgentJsonSchemaString } from '../utils/schema-generator.js';
+import { generateWorkflowJsonSchemaString } from '../utils/workflow-schema-generator.js';
+import { locateIssues } from '../documents/loader.js';
+import { lintWorkflow } from '../lint/linter.js';
+import { resolveEnvironment } from '../environments/overlay.js';
+import { detectDocumentKind, readDocument } from './files.js';
+import type { AgentConfig } from '../types/agent.js';
+import type {
+  WorkflowConfig,
+  WorkflowValidationResult,
+} from '../types/workflow.js';
+import type { FidelityReport } from '../types/adapters.js';
+import type { LoadedDocument } from '../types/documents.js';
+import type { LintDiagnostic } from '../types/lint.js';
+import type {
+  CliDocumentKind,
+  CliFileReport,
+  CliIO,
+  CliOptions,
+} from '../types/cli.js';
+
+/**
+ * Adapter registry name for each conversion target
+ */
+export const CONVERT_TARGETS: Record<string, string> = {
+  n8n: 'n8n',
+  langgraph: 'langchain',
+  crewai: 'crewai',
+  autogen: 'autogen',
+};
+
+/**
+ * A file that was read and validated
+ */
+interface LoadedFile {
+  report: CliFileReport;
+  config?: AgentConfig | WorkflowConfig;
+  document?: LoadedDocument;
+}
+
+/**
+ * Validates agent and workflow files
+ *
+ * @param files - Files to validate
+ * @param options - Parsed command-line options
+ * @param io - Output streams and working directory
+ * @returns Exit code: 0 if every file is valid, otherwise 1
+ */
+export function validateCommand(
+  files: string[],
+  options: CliOptions,
+  io: CliIO
+): number {
+  const reports = files.map((file) => loadFile(file, options, io.cwd).report);
+
+  if (options.format === 'json') {
+    io.stdout(`${JSON.stringify(reports, null, 2)}\n`);
+  } else {
+    const lines = reports.flatMap(formatReport);
+    const failed = reports.filter((report) => !report.valid).length;
+    lines.push(
+      `${reports.length} ${plural(reports.length, 'file')} checked, ${failed} failed`
+    );
+    io.stdout(`${lines.join('\n')}\n`);
+  }
+
+  return reports.every((report) => report.valid) ? 0 : 1;
+}
+
+/**
+ * Converts agent and workflow files with a built-in adapter
+ *
+ * Without `outDir`, the converted document of the single input file is
+ * printed. With it, each output keeps the input's folder relative to the
+ * working directory, and inputs that would write the same output file fail.
+ * Fidelity issues are reported on stderr in text mode.
+ *
+ * @param files - Files to convert
+ * @param options - Parsed command-line options (`to` is required)
+ * @param io - Output streams and working directory
+ * @returns Exit code: 1 if a file is invalid or its conversion reports errors
+ */
+export function convertCommand(
+  files: string[],
+  options: CliOptions,
+  io: CliIO
+): number {
+  const target = options.to!;
+  const adapterName = CONVERT_TARGETS[target];
+  const results: Array<{
+    file: string;
+    valid: boolean;
+    issues: CliFileReport['issues'];
+    output?: unknown;
+    outFile?: string;
+    report?: FidelityReport;
+  }> = [];
+  const written = new Map<string, string>();
+
+  for (const file of files) {
+    const { report, config } = loadFile(file, options, io.cwd);
+    if (!config) {
+      results.push({ file, valid: false, issues: report.issues });
+      continue;
+    }
+
+    try {
+      const { output, report: fidelity } =
+        report.kind === 'workflow'
+          ? convertWithReport(config as WorkflowConfig, adapterName, {
+              agents: options.agents,
+            })
+          : convertAgentWithReport(config as AgentConfig, adapterName);
+
+      let outFile: string | undefined;
+      if (options.outDir) {
+        outFile = outputPath(file, options.outDir, target, io.cwd);
+        const previous = written.get(resolve(io.cwd, outFile));
+        if (previous) {
+          results.push({
+            file,
+            valid: false,
+            issues: [
+              {
+                path: [],
+                message: `${outFile} is already written for ${previous}`,
+              },
+            ],
+          });
+          continue;
+        }
+        written.set(resolve(io.cwd, outFile), file);
+        mkdirSync(dirname(resolve(io.cwd, outFile)), { recursive: true });
+        writeFileSync(
+          resolve(io.cwd, outFile),
+          `${JSON.stringify(output, null, 2)}\n`
+        );
+      }
+
+      results.push({
+        file,
+        valid: !hasFidelityIssues(fidelity, 'error'),
+        issues: [],
+        output: outFile ? undefined : output,
+        outFile,
+        report: fidelity,
+      });
+    } catch (error) {
+      results.push({ file, valid: false, issues: [errorIssue(error)] });
+    }
+  }
+
+  if (options.format === 'json') {
+    const json = options.outDir ? results : results[0];
+    io.stdout(`${JSON.stringify(json, null, 2)}\n`);
+  } else {
+    for (const result of results) {
+      if (result.output !== undefined) {
+        io.stdout(`${JSON.stringify(result.output, null, 2)}\n`);
+      } else if (result.outFile) {
+        io.stdout(`✓ ${result.file} -> ${result.outFile}\n`);
+      } else {
+        io.stderr(`${formatReport(result).join('\n')}\n`);
+      }
+
+      const lines = (result.report?.issues ?? []).map(
+        (issue) =>
+          `${issue.severity}: ${result.file}: ${formatPath(issue.path)}: ${issue.message}`
+      );
+      if (lines.length > 0) {
+        io.stderr(`${lines.join('\n')}\n`);
+      }
+    }
+  }
+
+  return results.every((result) => result.valid) ? 0 : 1;
+}
+
+/**
+ * Prints the JSON Schema for agents or workflows
+ *
+ * @param kind - Document kind
+ * @param io - Output streams
+ * @returns Exit code 0
+ */
+export function schemaCommand(kind: CliDocumentKind, io: CliIO): number {
+  io.stdout(
+    `${kind === 'workflow' ? generateWorkflowJsonSchemaString() : generateAgentJsonSchemaString()}\n`
+  );
+  return 0;
+}
+
+/**
+ * Reports cycles, execution order and disconnected nodes of workflow files
+ *
+ * @param files - Workflow files to analyze
+ * @param options - Parsed command-line options
+ * @param io - Output streams and working directory
+ * @returns Exit code: 1 if a file is invalid or has cycles, otherwise 0
+ */
+export function graphCommand(
+  files: string[],
+  options: CliOptions,
+  io: CliIO
+): number {
+  const reports = files.map((file) => {
+    const { report, config } = loadFile(
+      file,
+      { ...options, kind: 'workflow' },
+      io.cwd
+    );
+    if (!config) {
+      return { ...report };
+    }
+
+    const workflow = config as WorkflowConfig;
+    const hasCycles = detectWorkflowCycles(workflow);
+    return {
+      ...report,
+      valid: !hasCycles,
+      hasCycles,
+      order: getWorkflowTopologicalOrder(workflow),
+      disconnected: findDisconnectedNodes(workflow),
+    };
+  });
+
+  if (options.format === 'json') {
+    io.stdout(`${JSON.stringify(reports, null, 2)}\n`);
+  } else {
+    const lines = reports.flatMap((report) => {
+      if (!('hasCycles' in report)) {
+        return formatReport(report);
+      }
+      return [
+        `${report.valid ? '✓' : '✗'} ${report.file}`,
+        `    cycles: ${report.hasCycles ? 'detected' : 'none'}`,
+        `    order: ${report.order ? report.order.join(' -> ') : 'unavailable (workflow has cycles)'}`,
+        `    disconnected: ${report.disconnected.length > 0 ? report.disconnected.join(', ') : 'none'}`,
+      ];
+    });
+    io.stdout(`${lines.join('\n')}\n`);
+  }
+
+  return reports.every((report) => report.valid) ? 0 : 1;
+}
+
+/**
+ * Lints workflow files
+ *
+ * @param files - Workflow files to lint
+ * @param options - Parsed command-line options (`rules` sets severities)
+ * @param io - Output streams and working directory
+ * @returns Exit code: 1 if a file is invalid or a rule reports an error
+ */
+export function lintCommand(
+  files: string[],
+  options: CliOptions,
+  io: CliIO
+): number {
+  const reports = files.map((file) => {
+    const { report, config, document } = loadFile(
+      file,
+      { ...options, kind: 'workflow' },
+      io.cwd
+    );
+    if (!config || !document) {
+      return {
+        ...report,
+        diagnostics: [] as Array<
+          LintDiagnostic & { line?: number; column?: number }
+        >,
+      };
+    }
+
+    const result = lintWorkflow(config as WorkflowConfig, {
+      rules: options.rules,
+    });
+    return {
+      ...report,
+      valid: result.valid,
+      diagnostics: locateIssues(result.diagnostics, document).map(
+        ({ rule, severity, path, message, line, column }) => ({
+          rule,
+          severity,
+          path,
+          message,
+          line,
+          column,
+        })
+      ),
+    };
+  });
+
+  if (options.format === 'json') {
+    io.stdout(`${JSON.stringify(reports, null, 2)}\n`);
+  } else {
+    const lines = reports.flatMap((report) => [
+      ...formatReport(report),
+      ...report.diagnostics.map(
+        (d) =>
+          `    ${d.severity}: ${formatPath(d.path)}${formatLocation(d)}: ${d.message} [${d.rule}]`
+      ),
+    ]);
+    const all = reports.flatMap((report) => report.diagnostics);
+    const errors = all.filter((d) => d.severity === 'error').length;
+    lines.push(
+      `${reports.length} ${plural(reports.length, 'file')} linted, ${errors} ${plural(errors, 'error')}, ${all.length - errors} ${plural(all.length - errors, 'warning')}`
+    );
+    io.stdout(`${lines.join('\n')}\n`);
+  }
+
+  return reports.every((report) => report.valid) ? 0 : 1;
+}
+
+/**
+ * Helper: Read and validate a file as an agent or workflow
+ */
+function loadFile(file: string, options: CliOptions, cwd: string): LoadedFile {
+  let document: LoadedDocument;
+  try {
+    document = readDocument(file, cwd);
+  } catch (error) {
+    return { report: { file, valid: false, issues: [errorIssue(error)] } };
+  }
+
+  const kind = options.kind ?? detectDocumentKind(document.data);
+  const validated =
+    kind === 'workflow'
+      ? validateWorkflowConfig(document.data, { agents: options.agents })
+      : validateAgentConfig(document.data, { agents: options.agents });
+  const result =
+    kind === 'workflow' && options.env !== undefined && validated.success
+      ? applyEnvironment(validated.data as WorkflowConfig, options)
+      : validated;
+
+  if (!result.success) {
+    const issues = result.error?.issues ?? [
+      { path: [], message: result.error?.message ?? 'Validation failed' },
+    ];
+    return {
+      report: {
+        file,
+        kind,
+        valid: false,
+        issues: locateIssues(issues, document).map(
+          ({ path, message, line, column }) => ({ path, message, line, column })
+        ),
+      },
+    };
+  }
+
+  return {
+    report: { file, kind, valid: true, issues: [] },
+    config: result.data,
+    document,
+  };
+}
+
+/**
+ * Helper: Resolve a validated workflow's `--env` environment, reporting
+ * failures like validation failures
+ */
+function applyEnvironment(
+  workflow: WorkflowConfig,
+  options: CliOptions
+): WorkflowValidationResult {
+  try {
+    return {
+      success: true,
+      data: resolveEnvironment(workflow, options.env!, {
+        agents: options.agents,
+      }),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: 'Environment resolution failed',
+        issues:
+          error instanceof ZodError
+            ? error.errors.map((issue) => ({
+                path: issue.path.map(String),
+                message: issue.message,
+              }))
+            : [errorIssue(error)],
+      },
+    };
+  }
+}
+
+/**
+ * Helper: Format a file report as text lines
+ */
+function formatReport(report: CliFileReport): string[] {
+  const kind = report.kind ? ` (${report.kind})` : '';
+  return [
+    `${report.valid ? '✓' : '✗'} ${report.file}${kind}`,
+    ...report.issues.map(
+      (issue) =>
+        `    ${formatPath(issue.path)}${formatLocation(issue)}: ${issue.message}`
+    ),
+  ];
+}
+
+/**
+ * Helper: Format an issue path, using `(root)` for the document itself
+ */
+function formatPath(path: string[]): string {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+/**
+ * Helper: Format a source location as ` (line L, column C)`, if known
+ */
+function formatLocation(issue: { line?: number; column?: number }): string {
+  return issue.line !== undefined
+    ? ` (line ${issue.line}, column ${issue.column})`
+    : '';
+}
+
+/**
+ * Helper: Turn a thrown error into a root-level issue
+ */
+function errorIssue(error: unknown): { path: string[]; message: string } {
+  return {
+    path: [],
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Helper: Output file of a converted input, keeping its folder relative to
+ * the working directory (inputs outside it are written to the top level)
+ */
+function outputPath(
+  file: string,
+  outDir: string,
+  target: string,
+  cwd: string
+): string {
+  const folder = dirname(relative(cwd, resolve(cwd, file)));
+  const name = `${basename(file, extname(file))}.${target}.json`;
+  return folder.startsWith('..') || isAbsolute(folder)
+    ? join(outDir, name)
+    : join(outDir, folder, name);
+}
+
+/**
+ * Helper: Pluralize a noun
+ */
+function plural(count: number, noun: string): string {
+  return count === 1 ? noun : `${noun}s`;
+}
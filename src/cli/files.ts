@@ -0,0 +1,155 @@
+/**
+ * File and glob handling for the command-line tool
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { isAbsolute, join, posix, relative, resolve, sep } from 'node:path';
+import { loadDocument } from '../documents/loader.js';
+import type { CliDocumentKind } from '../types/cli.js';
+import type { LoadedDocument } from '../types/documents.js';
+
+const GLOB_CHARS = /[*?{[]/;
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Expands file arguments and glob patterns into file paths
+ *
+ * Supports `*`, `?`, `**` (any number of directories), `[abc]` and `{a,b}`.
+ * Directories named `node_modules` or `.git` are not searched. Matches of
+ * relative patterns are returned relative to `cwd`, sorted, without
+ * duplicates.
+ *
+ * @param patterns - File paths or glob patterns
+ * @param cwd - Directory to resolve patterns against
+ * @returns Matching file paths
+ * @throws {Error} If a file does not exist or a pattern matches nothing
+ *
+ * @example
+ * ```ts
+ * expandFilePatterns(['agents/*.json', 'workflows/**\/*.json'], process.cwd());
+ * ```
+ */
+export function expandFilePatterns(patterns: string[], cwd: string): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!GLOB_CHARS.test(pattern)) {
+      if (!existsSync(resolve(cwd, pattern))) {
+        throw new Error(`File not found: ${pattern}`);
+      }
+      files.add(pattern);
+      continue;
+    }
+
+    const normalized = posix.normalize(pattern.split(sep).join('/'));
+    const matcher = globToRegExp(normalized);
+    const matches = walk(resolve(cwd, globBase(normalized)))
+      .map((file) => (isAbsolute(pattern) ? file : relative(cwd, file)))
+      .map((file) => file.split(sep).join('/'))
+      .filter((file) => matcher.test(file));
+
+    if (matches.length === 0) {
+      throw new Error(`No files match: ${pattern}`);
+    }
+    matches.sort().forEach((file) => files.add(file));
+  }
+
+  return [...files];
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching whole paths
+ *
+ * @param pattern - Glob pattern using `/` separators
+ * @returns Regular expression for `/`-separated paths
+ *
+ * @example
+ * ```ts
+ * globToRegExp('src/**\/*.{json,yaml}').test('src/a/b.json'); // true
+ * ```
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:[^/]*/)*' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i) !== -1) {
+      const end = pattern.indexOf(']', i);
+      source += pattern.slice(i, end + 1);
+      i = end;
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Reads and parses a YAML, JSON or JSON5 document
+ *
+ * @param file - Path to the file; its extension selects the format
+ * @param cwd - Directory to resolve the path against
+ * @returns Parsed document with source locations
+ * @throws {Error} If the file cannot be read or parsed
+ */
+export function readDocument(file: string, cwd: string): LoadedDocument {
+  return loadDocument(readFileSync(resolve(cwd, file), 'utf-8'), { file });
+}
+
+/**
+ * Detects whether a document is a workflow or an agent
+ *
+ * @param document - Parsed document
+ * @returns 'workflow' if the document has a `nodes` array, otherwise 'agent'
+ */
+export function detectDocumentKind(document: unknown): CliDocumentKind {
+  return document !== null &&
+    typeof document === 'object' &&
+    Array.isArray((document as { nodes?: unknown }).nodes)
+    ? 'workflow'
+    : 'agent';
+}
+
+/**
+ * Helper: Directory part of a pattern before its first glob segment
+ */
+function globBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const index = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  return segments.slice(0, index).join('/') || '.';
+}
+
+/**
+ * Helper: List files below a directory, skipping ignored directories
+ */
+function walk(directory: string): string[] {
+  if (!existsSync(directory) || !statSync(directory).isDirectory()) {
+    return [];
+  }
+
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return IGNORED_DIRECTORIES.has(entry.name) ? [] : walk(path);
+    }
+    return entry.isFile() ? [path] : [];
+  });
+}
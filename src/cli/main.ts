@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the ai-agent-schema binary
+ */
+
+import { runCli } from './run.js';
+
+process.exitCode = runCli(process.argv.slice(2));
@@ -0,0 +1,221 @@
+/**
+ * Argument parsing and dispatch for the ai-agent-schema command-line tool
+ */
+
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  CONVERT_TARGETS,
+  convertCommand,
+  graphCommand,
+  lintCommand,
+  schemaCommand,
+  validateCommand,
+} from './commands.js';
+import { expandFilePatterns } from './files.js';
+import { getLintRules } from '../lint/linter.js';
+import { createDirectoryAgentRegistry } from '../agents/directory-registry.js';
+import type { CliDocumentKind, CliIO, CliOptions } from '../types/cli.js';
+import type { LintSeverity } from '../types/lint.js';
+
+/**
+ * Help text printed by `--help`
+ */
+export const CLI_USAGE = `Usage: ai-agent-schema <command> [options]
+
+Commands:
+  validate <files...>            Validate agent and workflow files
+  convert <files...> --to <t>    Convert files to n8n, langgraph, crewai
+                                 or autogen
+  schema <agent|workflow>        Print the JSON Schema for a document kind
+  graph <files...>               Report cycles, execution order and
+                                 disconnected nodes of workflow files
+  lint <files...>                Lint the structure of workflow files
+
+Files may be YAML, JSON or JSON5 (by extension), given as paths or glob
+patterns (quote globs to stop the shell expanding them), e.g.
+'workflows/**/*.{yaml,json}'.
+
+Options:
+  --format <text|json>           Output format (default: text)
+  --kind <agent|workflow>        Document kind (default: detected per file)
+  --to <n8n|langgraph|crewai|autogen>
+                                 Conversion target for convert
+  --out-dir <dir>                Write converted files to a directory
+                                 (required when converting several files)
+  --rule <name=error|warn|off>   Set a lint rule's severity (repeatable)
+  --agents <dir>                 Resolve workflow agentId references and
+                                 agent extends against the agent files in
+                                 a directory
+  --env <name>                   Apply a workflow environment overlay
+                                 (e.g. prod) before checking or converting
+  -h, --help                     Show this help
+
+Exit codes: 0 success, 1 a file failed, 2 usage error
+`;
+
+const COMMANDS = ['validate', 'convert', 'schema', 'graph', 'lint'];
+const SEVERITIES: LintSeverity[] = ['error', 'warn', 'off'];
+const KINDS: CliDocumentKind[] = ['agent', 'workflow'];
+
+/**
+ * Runs the command-line tool
+ *
+ * @param argv - Arguments after the executable (e.g. `process.argv.slice(2)`)
+ * @param io - Output streams and working directory (default: the process's)
+ * @returns Exit code: 0 on success, 1 if a file failed, 2 on usage errors
+ *
+ * @example
+ * ```ts
+ * process.exitCode = runCli(['validate', 'agents/*.json', '--format', 'json']);
+ * ```
+ */
+export function runCli(argv: string[], io: CliIO = processIO()): number {
+  let values: Record<string, string | boolean | string[] | undefined>;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string' },
+        kind: { type: 'string' },
+        to: { type: 'string' },
+        'out-dir': { type: 'string' },
+        rule: { type: 'string', multiple: true },
+        agents: { type: 'string' },
+        env: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error) {
+    return usageError(
+      io,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const [command, ...args] = positionals;
+  if (values.help) {
+    io.stdout(CLI_USAGE);
+    return 0;
+  }
+  if (!command) {
+    io.stderr(CLI_USAGE);
+    return 2;
+  }
+  if (!COMMANDS.includes(command)) {
+    return usageError(io, `Unknown command "${command}"`);
+  }
+
+  const format = (values.format as string | undefined) ?? 'text';
+  if (format !== 'text' && format !== 'json') {
+    return usageError(io, `Invalid --format "${format}"; use text or json`);
+  }
+  const kind = values.kind as string | undefined;
+  if (kind !== undefined && !KINDS.includes(kind as CliDocumentKind)) {
+    return usageError(io, `Invalid --kind "${kind}"; use agent or workflow`);
+  }
+
+  const options: CliOptions = {
+    format,
+    kind: kind as CliDocumentKind | undefined,
+    to: values.to as string | undefined,
+    outDir: values['out-dir'] as string | undefined,
+    env: values.env as string | undefined,
+  };
+
+  const knownRules = getLintRules().map((rule) => rule.name);
+  for (const setting of (values.rule as string[] | undefined) ?? []) {
+    const [name, severity] = setting.split('=');
+    if (!knownRules.includes(name)) {
+      return usageError(io, `Unknown lint rule "${name}"`);
+    }
+    if (!SEVERITIES.includes(severity as LintSeverity)) {
+      return usageError(
+        io,
+        `Invalid --rule "${setting}"; use name=error|warn|off`
+      );
+    }
+    options.rules = { ...options.rules, [name]: severity as LintSeverity };
+  }
+
+  if (values.agents !== undefined) {
+    try {
+      options.agents = createDirectoryAgentRegistry(
+        resolve(io.cwd, values.agents as string)
+      );
+    } catch (error) {
+      io.stderr(
+        `error: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+      return 1;
+    }
+  }
+
+  if (command === 'schema') {
+    const schemaKind = args[0] ?? kind;
+    if (args.length > 1 || !KINDS.includes(schemaKind as CliDocumentKind)) {
+      return usageError(io, 'schema expects "agent" or "workflow"');
+    }
+    return schemaCommand(schemaKind as CliDocumentKind, io);
+  }
+
+  if (args.length === 0) {
+    return usageError(io, `${command} expects at least one file`);
+  }
+  let files: string[];
+  try {
+    files = expandFilePatterns(args, io.cwd);
+  } catch (error) {
+    return usageError(
+      io,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  switch (command) {
+    case 'validate':
+      return validateCommand(files, options, io);
+
+    case 'graph':
+      return graphCommand(files, options, io);
+
+    case 'lint':
+      return lintCommand(files, options, io);
+
+    default:
+      if (
+        !options.to ||
+        !Object.prototype.hasOwnProperty.call(CONVERT_TARGETS, options.to)
+      ) {
+        return usageError(
+          io,
+          `convert expects --to ${Object.keys(CONVERT_TARGETS).join('|')}`
+        );
+      }
+      if (files.length > 1 && !options.outDir) {
+        return usageError(io, 'converting several files requires --out-dir');
+      }
+      return convertCommand(files, options, io);
+  }
+}
+
+/**
+ * Helper: Report a usage error and return exit code 2
+ */
+function usageError(io: CliIO, message: string): number {
+  io.stderr(`error: ${message}\nRun "ai-agent-schema --help" for usage.\n`);
+  return 2;
+}
+
+/**
+ * Helper: IO bound to the current process
+ */
+function processIO(): CliIO {
+  return {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    cwd: process.cwd(),
+  };
+}
@@ -0,0 +1,577 @@
+/**
+ * CrewAI project generation
+ * Emits the file layout of a `crewai create crew` project from a workflow
+ */
+
+import { stringify } from 'yaml';
+import {
+  DEFAULT_CREWAI_MODEL,
+  mapWorkflowToCrewWithReport,
+} from '../adapters/crewai.adapter.js';
+import {
+  toPydanticModel,
+  toPythonClassName,
+  toPythonIdentifier,
+  toPythonLiteral,
+} from './python.js';
+import type { WorkflowConfig, WorkflowVariable } from '../types/workflow.js';
+import type {
+  ConversionResult,
+  CrewAIAgent,
+  CrewAICrew,
+  CrewAIProjectOptions,
+  CrewAITool,
+  FidelityIssue,
+} from '../types/adapters.js';
+
+/**
+ * crewai_tools classes that are instantiated as-is; other tools become
+ * placeholder BaseTool classes
+ */
+const BUILT_IN_TOOLS = ['CodeInterpreterTool', 'RagTool'];
+
+/**
+ * Classes crew.py imports from CrewAI and Pydantic
+ */
+const RESERVED_CLASSES = [
+  'Agent',
+  'BaseModel',
+  'BaseTool',
+  'ConditionalTask',
+  'Crew',
+  'CrewBase',
+  'Field',
+  'LLM',
+  'Process',
+  'Task',
+];
+
+/**
+ * Methods the crew class defines or inherits
+ */
+const RESERVED_NAMES = [
+  'agent',
+  'agents',
+  'agents_config',
+  'crew',
+  'task',
+  'tasks',
+  'tasks_config',
+];
+
+/**
+ * Kickoff input for a workflow variable without a default, by variable type
+ */
+const EMPTY_INPUTS: Record<WorkflowVariable['type'], unknown> = {
+  string: '',
+  number: 0,
+  boolean: false,
+  object: {},
+  array: [],
+};
+
+/**
+ * Generates a CrewAI project for a workflow
+ *
+ * Builds on `mapWorkflowToCrew` and returns the files of a
+ * `crewai create crew` project keyed by path: `config/agents.yaml` and
+ * `config/tasks.yaml` under `src/<package>/`, a `crew.py` with an `@agent`
+ * and `@task` method per agent node, placeholder tool classes in
+ * `tools/custom_tool.py`, `main.py` and `pyproject.toml`. Agent and task
+ * keys come from the workflow node IDs, task `context` lists the tasks of
+ * the nearest preceding agent nodes, looking through condition, loop and
+ * other non-agent nodes, and hierarchical crews get a manager LLM.
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options and the package name
+ * @returns File contents keyed by path relative to the project root
+ *
+ * @example
+ * ```typescript
+ * import { mkdirSync, writeFileSync } from 'node:fs';
+ * import { dirname, join } from 'node:path';
+ *
+ * const files = generateCrewAIProject(workflow, { packageName: 'research_crew' });
+ * for (const [path, contents] of Object.entries(files)) {
+ *   mkdirSync(dirname(join('research_crew', path)), { recursive: true });
+ *   writeFileSync(join('research_crew', path), contents);
+ * }
+ * ```
+ */
+export function generateCrewAIProject(
+  workflow: WorkflowConfig,
+  options: CrewAIProjectOptions = {}
+): Record<string, string> {
+  return generateCrewAIProjectWithReport(workflow, options).output;
+}
+
+/**
+ * Generates a CrewAI project for a workflow and reports every node,
+ * connection and field the conversion dropped, approximated or defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options and the package name
+ * @returns File contents keyed by path, and the fidelity report
+ *
+ * @example
+ * ```typescript
+ * const { output: files, report } = generateCrewAIProjectWithReport(workflow);
+ * report.issues.forEach((issue) => console.warn(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function generateCrewAIProjectWithReport(
+  workflow: WorkflowConfig,
+  options: CrewAIProjectOptions = {}
+): ConversionResult<Record<string, string>> {
+  const { output: crew, report } = mapWorkflowToCrewWithReport(
+    workflow,
+    options
+  );
+  const issues: FidelityIssue[] = [...report.issues];
+  const packageName =
+    options.packageName ?? toPythonIdentifier(workflow.id, new Set());
+  const classNames = new Set(RESERVED_CLASSES);
+  const className = toPythonClassName(crew.name, classNames);
+
+  // Agents and tasks are created in pairs, one per agent node
+  const used = new Set(RESERVED_NAMES);
+  const keys = crew.tasks.map((task) => {
+    const agentKey = toPythonIdentifier(task.id ?? task.agent ?? '', used);
+    return {
+      agent: agentKey,
+      task: toPythonIdentifier(`${agentKey}_task`, used),
+    };
+  });
+  const taskKeys = new Map(
+    crew.tasks.map((task, index) => [task.id, keys[index].task])
+  );
+
+  const agentsConfig = Object.fromEntries(
+    crew.agents.map((crewAgent, index) => [
+      keys[index].agent,
+      {
+        role: crewAgent.role,
+        goal: crewAgent.goal,
+        backstory: crewAgent.backstory,
+        verbose: crewAgent.verbose,
+        allow_delegation: crewAgent.allowDelegation,
+        max_iter: crewAgent.maxIter,
+        max_rpm: crewAgent.maxRpm,
+        cache: crewAgent.cache,
+        system_template: crewAgent.systemTemplate,
+        prompt_template: crewAgent.promptTemplate,
+        response_template: crewAgent.responseTemplate,
+      },
+    ])
+  );
+
+  const tasksConfig = Object.fromEntries(
+    crew.tasks.map((task, index) => {
+      const context = [
+        ...new Set([
+          ...(task.context ?? []),
+          ...precedingAgentIds(workflow, task.id ?? ''),
+        ]),
+      ].flatMap((id) => {
+        const key = taskKeys.get(id);
+        return key ? [key] : [];
+      });
+      return [
+        keys[index].task,
+        {
+          description: task.description,
+          expected_output: task.expectedOutput,
+          agent: keys[index].agent,
+          // Not async_execution: the adapter marks every task of a
+          // hierarchical crew async, and a crew must not end with more
+          // than one async task
+          ...(context.length > 0 && { context }),
+        },
+      ];
+    })
+  );
+
+  // One tool class or instance per tool name, shared between agents
+  const tools = new Map<string, { expression: string; source?: string }>();
+  crew.agents.forEach((crewAgent) => {
+    (crewAgent.toolDefinitions ?? []).forEach((definition) => {
+      if (tools.has(definition.name)) {
+        return;
+      }
+      if (BUILT_IN_TOOLS.includes(definition.className)) {
+        tools.set(definition.name, {
+          expression: `${definition.className}()`,
+        });
+        return;
+      }
+      const toolClass = toPythonClassName(
+        /tool$/i.test(definition.name)
+          ? definition.name
+          : `${definition.name}_tool`,
+        classNames
+      );
+      tools.set(definition.name, {
+        expression: `${toolClass}()`,
+        source: generateToolClass(definition, toolClass, classNames),
+      });
+    });
+  });
+
+  if (crew.process === 'consensual') {
+    issues.push({
+      path: ['process'],
+      kind: 'approximated',
+      severity: 'warning',
+      message: 'CrewAI has no consensual process; the crew runs sequentially',
+    });
+  }
+  if (crew.manager?.systemTemplate) {
+    issues.push({
+      path: ['manager', 'systemTemplate'],
+      kind: 'dropped',
+      severity: 'warning',
+      message: 'CrewAI manager LLMs take no system prompt',
+    });
+  }
+
+  const base = `src/${packageName}`;
+  const files: Record<string, string> = {
+    'pyproject.toml': generatePyproject(
+      packageName,
+      workflow.description ?? `${crew.name} crew`
+    ),
+    [`${base}/__init__.py`]: '',
+    [`${base}/config/agents.yaml`]: stringify(agentsConfig, { lineWidth: 0 }),
+    [`${base}/config/tasks.yaml`]: stringify(tasksConfig, { lineWidth: 0 }),
+    [`${base}/crew.py`]: generateCrewModule(
+      crew,
+      className,
+      classNames,
+      keys,
+      tools
+    ),
+    [`${base}/main.py`]: generateMainModule(workflow, packageName, className),
+  };
+
+  const toolSources = [...tools.values()].flatMap((tool) =>
+    tool.source ? [tool.source] : []
+  );
+  if (toolSources.length > 0) {
+    files[`${base}/tools/__init__.py`] = '';
+    const [typing, pydantic] = pydanticImports(toolSources);
+    files[`${base}/tools/custom_tool.py`] = withImports(
+      [typing, ['from crewai.tools import BaseTool', ...pydantic]],
+      toolSources.join('\n\n\n')
+    );
+  }
+
+  return {
+    output: files,
+    report: { adapter: 'crewai', issues },
+  };
+}
+
+/**
+ * Helper: Generate crew.py
+ */
+function generateCrewModule(
+  crew: CrewAICrew,
+  className: string,
+  classNames: Set<string>,
+  keys: Array<{ agent: string; task: string }>,
+  tools: Map<string, { expression: string; source?: string }>
+): string {
+  const imports = [
+    'from crewai import Agent, Crew, LLM, Process, Task',
+    'from crewai.project import CrewBase, agent, crew, task',
+  ];
+  const localImports: string[] = [];
+
+  // Task output schemas become Pydantic models for output_json
+  const models: string[] = [];
+  const outputModels = crew.tasks.map((task, index) => {
+    if (!task.outputJson) {
+      return undefined;
+    }
+    const modelClass = toPythonClassName(
+      `${keys[index].agent}_output`,
+      classNames
+    );
+    models.push(toPydanticModel(modelClass, task.outputJson));
+    return modelClass;
+  });
+  const [typing, pydantic] = pydanticImports(models);
+  imports.push(...pydantic);
+  if (crew.tasks.some((task) => task.condition)) {
+    imports.push('from crewai.tasks.conditional_task import ConditionalTask');
+  }
+
+  const builtInTools = [...tools.values()]
+    .filter((tool) => !tool.source)
+    .map((tool) => tool.expression.slice(0, -2));
+  if (builtInTools.length > 0) {
+    imports.push(
+      `from crewai_tools import ${[...new Set(builtInTools)].sort().join(', ')}`
+    );
+  }
+  const customTools = [...tools.values()]
+    .filter((tool) => tool.source)
+    .map((tool) => tool.expression.slice(0, -2));
+  if (customTools.length > 0) {
+    localImports.push(
+      `from .tools.custom_tool import ${customTools.join(', ')}`
+    );
+  }
+
+  const methods = [
+    ...crew.agents.map((crewAgent, index) => {
+      const toolList = (crewAgent.tools ?? []).flatMap((name) => {
+        const tool = tools.get(name);
+        return tool ? [tool.expression] : [];
+      });
+      return [
+        '    @agent',
+        `    def ${keys[index].agent}(self) -> Agent:`,
+        '        return Agent(',
+        `            config=self.agents_config[${JSON.stringify(keys[index].agent)}],`,
+        ...(crewAgent.llm
+          ? [`            llm=${generateLLM(crewAgent.llm)},`]
+          : []),
+        ...(toolList.length > 0
+          ? [`            tools=[${toolList.join(', ')}],`]
+          : []),
+        '        )',
+      ].join('\n');
+    }),
+    ...crew.tasks.map((task, index) => {
+      const taskClass = task.condition ? 'ConditionalTask' : 'Task';
+      return [
+        '    @task',
+        `    def ${keys[index].task}(self) -> ${taskClass}:`,
+        `        return ${taskClass}(`,
+        `            config=self.tasks_config[${JSON.stringify(keys[index].task)}],`,
+        ...(outputModels[index]
+          ? [`            output_json=${outputModels[index]},`]
+          : []),
+        ...(task.condition ? [`            condition=${task.condition},`] : []),
+        '        )',
+      ].join('\n');
+    }),
+    generateCrewMethod(crew),
+  ];
+
+  const crewClass = [
+    '@CrewBase',
+    `class ${className}:`,
+    `    ${JSON.stringify(`${crew.name} crew`)}`,
+    '',
+    '    agents_config = "config/agents.yaml"',
+    '    tasks_config = "config/tasks.yaml"',
+    '',
+    methods.join('\n\n'),
+  ].join('\n');
+
+  return withImports(
+    [typing, imports.sort(), localImports],
+    [...models, crewClass].join('\n\n\n')
+  );
+}
+
+/**
+ * Helper: Generate the `@crew` method
+ */
+function generateCrewMethod(crew: CrewAICrew): string {
+  const process =
+    crew.process === 'hierarchical' ? 'hierarchical' : 'sequential';
+  const settings = [
+    'agents=self.agents',
+    'tasks=self.tasks',
+    `process=Process.${process}`,
+    ...(crew.verbose !== undefined
+      ? [`verbose=${toPythonLiteral(crew.verbose)}`]
+      : []),
+    ...(crew.memory !== undefined
+      ? [`memory=${toPythonLiteral(crew.memory)}`]
+      : []),
+    ...(crew.cache !== undefined
+      ? [`cache=${toPythonLiteral(crew.cache)}`]
+      : []),
+    ...(crew.maxRpm !== undefined ? [`max_rpm=${crew.maxRpm}`] : []),
+    ...(process === 'hierarchical'
+      ? [
+          `manager_llm=${generateLLM(crew.manager?.llm ?? { model: DEFAULT_CREWAI_MODEL })}`,
+        ]
+      : []),
+  ];
+
+  return [
+    '    @crew',
+    '    def crew(self) -> Crew:',
+    '        return Crew(',
+    ...settings.map((setting) => `            ${setting},`),
+    '        )',
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate an `LLM(...)` expression
+ */
+function generateLLM(llm: NonNullable<CrewAIAgent['llm']>): string {
+  const settings = [
+    `model=${JSON.stringify(llm.model)}`,
+    ...(llm.temperature !== undefined
+      ? [`temperature=${toPythonLiteral(llm.temperature)}`]
+      : []),
+    ...(llm.maxTokens !== undefined ? [`max_tokens=${llm.maxTokens}`] : []),
+    // top_p of 1 is the API default
+    ...(llm.topP !== undefined && llm.topP !== 1
+      ? [`top_p=${toPythonLiteral(llm.topP)}`]
+      : []),
+  ];
+  return `LLM(${settings.join(', ')})`;
+}
+
+/**
+ * Helper: Generate a placeholder BaseTool class and its arguments model
+ */
+function generateToolClass(
+  definition: CrewAITool,
+  toolClass: string,
+  classNames: Set<string>
+): string {
+  const inputClass = toPythonClassName(`${toolClass}_input`, classNames);
+  const comments = [
+    ...(definition.className !== 'BaseTool'
+      ? [`# Exported as CrewAI ${definition.className}`]
+      : []),
+    ...(definition.init
+      ? [`# Settings: ${toPythonLiteral(definition.init)}`]
+      : []),
+  ];
+
+  return [
+    toPydanticModel(
+      inputClass,
+      definition.argsSchema ?? { type: 'object', properties: {} }
+    ),
+    '',
+    '',
+    ...comments,
+    `class ${toolClass}(BaseTool):`,
+    `    name: str = ${JSON.stringify(definition.name)}`,
+    `    description: str = ${JSON.stringify(definition.description)}`,
+    `    args_schema: type[BaseModel] = ${inputClass}`,
+    '',
+    '    def _run(self, **kwargs) -> str:',
+    `        raise NotImplementedError(${JSON.stringify(`Implement the "${definition.name}" tool`)})`,
+  ].join('\n');
+}
+
+/**
+ * Helper: IDs of the agent nodes nearest before a node, walking back through
+ * non-agent nodes
+ */
+function precedingAgentIds(workflow: WorkflowConfig, nodeId: string): string[] {
+  const found: string[] = [];
+  const visited = new Set([nodeId]);
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    workflow.connections
+      .filter((conn) => conn.targetId === id && !visited.has(conn.sourceId))
+      .forEach((conn) => {
+        visited.add(conn.sourceId);
+        const source = workflow.nodes.find((n) => n.id === conn.sourceId);
+        if (source?.type === 'agent') {
+          found.push(source.id);
+        } else if (source) {
+          queue.push(source.id);
+        }
+      });
+  }
+  return found;
+}
+
+/**
+ * Helper: Generate main.py, which kicks the crew off with the workflow
+ * variables as inputs; variables without a default get an empty value of
+ * their type
+ */
+function generateMainModule(
+  workflow: WorkflowConfig,
+  packageName: string,
+  className: string
+): string {
+  const inputs = Object.fromEntries(
+    (workflow.variables || []).map((variable) => [
+      variable.name,
+      variable.defaultValue ?? EMPTY_INPUTS[variable.type],
+    ])
+  );
+
+  return withImports(
+    [[`from ${packageName}.crew import ${className}`]],
+    [
+      'def run():',
+      `    inputs = ${toPythonLiteral(inputs)}`,
+      `    return ${className}().crew().kickoff(inputs=inputs)`,
+      '',
+      '',
+      'if __name__ == "__main__":',
+      '    print(run().raw)',
+    ].join('\n')
+  );
+}
+
+/**
+ * Helper: Generate pyproject.toml for `crewai run`
+ */
+function generatePyproject(packageName: string, description: string): string {
+  return [
+    '[project]',
+    `name = ${JSON.stringify(packageName)}`,
+    'version = "0.1.0"',
+    `description = ${JSON.stringify(description)}`,
+    'requires-python = ">=3.10,<3.14"',
+    'dependencies = ["crewai[tools]"]',
+    '',
+    '[project.scripts]',
+    `run_crew = "${packageName}.main:run"`,
+    '',
+    '[build-system]',
+    'requires = ["hatchling"]',
+    'build-backend = "hatchling.build"',
+    '',
+    '[tool.crewai]',
+    'type = "crew"',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Helper: Typing and Pydantic imports used by generated models
+ */
+function pydanticImports(sources: string[]): [string[], string[]] {
+  const typing = ['Any', 'Literal'].filter((name) =>
+    sources.some((source) => new RegExp(`\\b${name}\\b`).test(source))
+  );
+  const pydantic = sources.some((source) => source.includes('Field('))
+    ? ['BaseModel', 'Field']
+    : ['BaseModel'];
+
+  return [
+    typing.length > 0 ? [`from typing import ${typing.join(', ')}`] : [],
+    sources.length > 0 ? [`from pydantic import ${pydantic.join(', ')}`] : [],
+  ];
+}
+
+/**
+ * Helper: Prefix module source with its import groups
+ */
+function withImports(groups: string[][], body: string): string {
+  const imports = groups
+    .filter((group) => group.length > 0)
+    .map((group) => group.join('\n'))
+    .join('\n\n');
+  return `${imports}\n\n\n${body}\n`;
+}
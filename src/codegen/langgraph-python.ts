@@ -0,0 +1,646 @@
+/**
+ * LangGraph Python code generation
+ * Emits a runnable Python module from a workflow configuration
+ */
+
+import { mapWorkflowToLangGraphWithReport } from '../adapters/langchain.adapter.js';
+import { expandRouteLabel, parseCondition } from '../conditions/parser.js';
+import {
+  compileConditionToPython,
+  pythonDictPath,
+} from '../conditions/python.js';
+import { toPythonIdentifier, toPythonLiteral } from './python.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+import type {
+  ConversionResult,
+  LangChainAdapterOptions,
+  LangChainAgent,
+  LangChainTool,
+  LangGraphNode,
+  LangGraphWorkflow,
+} from '../types/adapters.js';
+
+/**
+ * Chat model class for each LangChain model name prefix, and the `llm`
+ * settings it accepts
+ */
+const CHAT_MODELS: Record<
+  string,
+  {
+    module: string;
+    className: string;
+    modelArgument: string;
+    settings: Array<keyof LangChainAgent['llm']>;
+  }
+> = {
+  openai: {
+    module: 'langchain_openai',
+    className: 'ChatOpenAI',
+    modelArgument: 'model',
+    settings: [
+      'temperature',
+      'maxTokens',
+      'topP',
+      'frequencyPenalty',
+      'presencePenalty',
+      'timeout',
+      'maxRetries',
+    ],
+  },
+  azure: {
+    module: 'langchain_openai',
+    className: 'AzureChatOpenAI',
+    modelArgument: 'azure_deployment',
+    settings: [
+      'temperature',
+      'maxTokens',
+      'topP',
+      'frequencyPenalty',
+      'presencePenalty',
+      'timeout',
+      'maxRetries',
+    ],
+  },
+  anthropic: {
+    module: 'langchain_anthropic',
+    className: 'ChatAnthropic',
+    modelArgument: 'model',
+    settings: ['temperature', 'maxTokens', 'topP', 'timeout', 'maxRetries'],
+  },
+  google: {
+    module: 'langchain_google_genai',
+    className: 'ChatGoogleGenerativeAI',
+    modelArgument: 'model',
+    settings: ['temperature', 'maxTokens', 'topP', 'timeout', 'maxRetries'],
+  },
+  mistral: {
+    module: 'langchain_mistralai',
+    className: 'ChatMistralAI',
+    modelArgument: 'model',
+    settings: ['temperature', 'maxTokens', 'topP', 'timeout', 'maxRetries'],
+  },
+  cohere: {
+    module: 'langchain_cohere',
+    className: 'ChatCohere',
+    modelArgument: 'model',
+    settings: ['temperature', 'maxTokens'],
+  },
+  bedrock: {
+    module: 'langchain_aws',
+    className: 'ChatBedrockConverse',
+    modelArgument: 'model',
+    settings: ['temperature', 'maxTokens', 'topP'],
+  },
+};
+
+/**
+ * Python keyword argument of each `llm` setting
+ */
+const MODEL_ARGUMENTS: Record<keyof LangChainAgent['llm'], string> = {
+  modelName: 'model',
+  temperature: 'temperature',
+  maxTokens: 'max_tokens',
+  topP: 'top_p',
+  frequencyPenalty: 'frequency_penalty',
+  presencePenalty: 'presence_penalty',
+  timeout: 'timeout',
+  maxRetries: 'max_retries',
+};
+
+/**
+ * Settings left out of the generated code when they hold the API default
+ */
+const NEUTRAL_SETTINGS: Partial<Record<keyof LangChainAgent['llm'], number>> = {
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+};
+
+/**
+ * Python type of each workflow variable type
+ */
+const PYTHON_TYPES: Record<string, string> = {
+  string: 'str',
+  number: 'float',
+  boolean: 'bool',
+  object: 'dict[str, Any]',
+  array: 'list[Any]',
+};
+
+/**
+ * Names the generated module defines or imports itself
+ */
+const RESERVED_NAMES = [
+  'Any',
+  'Annotated',
+  'TypedDict',
+  'DEFAULT_STATE',
+  'END',
+  'START',
+  'State',
+  'StateGraph',
+  'builder',
+  'checkpointer',
+  'create_react_agent',
+  'graph',
+  'init_chat_model',
+  'json',
+  'operator',
+  'os',
+  'sqlite3',
+  'tool',
+];
+
+/**
+ * Generates a runnable Python module for a workflow
+ *
+ * Builds on `mapWorkflowToLangGraph`: the module declares a `TypedDict`
+ * state from the workflow variables, a chat model and prebuilt ReAct agent
+ * per agent node, a `@tool` stub per tool, a router function per
+ * conditional node, and compiles the `StateGraph` with the workflow's
+ * checkpointer. Loop nodes are not generated: they raise
+ * `NotImplementedError` and are reported as errors. The output depends only on its inputs, so it can be
+ * snapshot-tested.
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns Python module source
+ *
+ * @example
+ * ```typescript
+ * import { writeFileSync } from 'node:fs';
+ *
+ * writeFileSync('graph.py', generateLangGraphPython(workflow, { agents }));
+ * ```
+ */
+export function generateLangGraphPython(
+  workflow: WorkflowConfig,
+  options: LangChainAdapterOptions = {}
+): string {
+  return generateLangGraphPythonWithReport(workflow, options).output;
+}
+
+/**
+ * Generates a runnable Python module for a workflow and reports every node,
+ * connection and field the conversion dropped, approximated or defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns Python module source and the fidelity report of the LangGraph
+ *   conversion it is generated from
+ *
+ * @example
+ * ```typescript
+ * const { output: source, report } = generateLangGraphPythonWithReport(workflow);
+ * report.issues.forEach((issue) => console.warn(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function generateLangGraphPythonWithReport(
+  workflow: WorkflowConfig,
+  options: LangChainAdapterOptions = {}
+): ConversionResult<string> {
+  const { output: graph, report } = mapWorkflowToLangGraphWithReport(
+    workflow,
+    options
+  );
+  const variableNames = (workflow.variables || []).map((v) => v.name);
+  const nodes = Object.values(graph.nodes);
+
+  const stdlib = new Set([
+    'import operator',
+    'from typing import Annotated, Any, TypedDict',
+  ]);
+  const packages = new Set([
+    'from langgraph.graph import END, START, StateGraph',
+  ]);
+
+  // Every node gets a base name; tool stubs take what is left
+  const used = new Set(RESERVED_NAMES);
+  const baseNames = new Set<string>();
+  const names = new Map(
+    nodes.map((node) => {
+      const base = toPythonIdentifier(node.id, baseNames);
+      [
+        `${base}_node`,
+        `${base}_model`,
+        `${base}_agent`,
+        `route_${base}`,
+      ].forEach((name) => used.add(name));
+      used.add(`${base.toUpperCase()}_PROMPT`);
+      return [node.id, base];
+    })
+  );
+
+  const tools = new Map<string, { name: string; source: string }>();
+  const agents: string[] = [];
+  const functions: string[] = [];
+  const routes: string[] = [];
+
+  nodes.forEach((node) => {
+    const base = names.get(node.id)!;
+    const config = node.config as Partial<LangChainAgent> & {
+      agentId?: string;
+    };
+
+    if (node.type === 'agent' && config.llm) {
+      const toolNames = (config.tools ?? []).map((lcTool) => {
+        if (!tools.has(lcTool.name)) {
+          const name = toPythonIdentifier(lcTool.name, used);
+          tools.set(lcTool.name, {
+            name,
+            source: generateToolStub(lcTool, name, packages),
+          });
+        }
+        return tools.get(lcTool.name)!.name;
+      });
+      agents.push(
+        generateAgent(base, config as LangChainAgent, toolNames, packages)
+      );
+      functions.push(
+        generateAgentNode(base, node.id, config as LangChainAgent, stdlib)
+      );
+    } else if (node.type === 'agent') {
+      functions.push(
+        [
+          `def ${base}_node(state: State) -> dict[str, Any]:`,
+          `    raise NotImplementedError(${JSON.stringify(`Agent "${config.agentId ?? node.id}" was not resolved; pass an agent registry to the generator`)})`,
+        ].join('\n')
+      );
+    } else if (loopIndex(workflow, node.id) >= 0) {
+      // A pass-through would take the body and exit edges at once
+      report.issues.push({
+        path: ['nodes', String(loopIndex(workflow, node.id))],
+        kind: 'dropped',
+        severity: 'error',
+        message:
+          'Loop not generated; the node raises NotImplementedError instead of running its body and exit paths at once',
+      });
+      functions.push(
+        [
+          `def ${base}_node(state: State) -> dict[str, Any]:`,
+          `    raise NotImplementedError(${JSON.stringify(`Loop "${node.id}" is not supported by the generated graph`)})`,
+        ].join('\n')
+      );
+    } else {
+      functions.push(
+        [
+          `def ${base}_node(state: State) -> dict[str, Any]:`,
+          '    return {}',
+        ].join('\n')
+      );
+    }
+
+    if (
+      node.next &&
+      typeof node.next === 'object' &&
+      !Array.isArray(node.next)
+    ) {
+      routes.push(generateRouter(base, node, variableNames));
+    }
+  });
+
+  const graphSource = generateGraph(graph, names, stdlib, packages);
+  const sections = [
+    [
+      `# ${graph.name.replace(/\s+/g, ' ')}`,
+      `# LangGraph application generated from workflow "${workflow.id}"`,
+      '',
+      sortImports(stdlib),
+      '',
+      sortImports(packages),
+    ].join('\n'),
+    generateState(graph),
+    ...[...tools.values()].map((stub) => stub.source),
+    ...agents,
+    ...functions,
+    ...routes,
+    graphSource,
+    [
+      'if __name__ == "__main__":',
+      '    result = graph.invoke(',
+      '        {**DEFAULT_STATE, "input": input("> ")},',
+      '        {"configurable": {"thread_id": "main"}},',
+      '    )',
+      '    print(result["output"])',
+    ].join('\n'),
+  ];
+
+  return {
+    output: `${sections.join('\n\n\n')}\n`,
+    report,
+  };
+}
+
+/**
+ * Helper: Index of a workflow loop node, or -1 for other nodes
+ */
+function loopIndex(workflow: WorkflowConfig, id: string): number {
+  return workflow.nodes.findIndex((n) => n.id === id && n.type === 'loop');
+}
+
+/**
+ * Helper: Generate the state class and its default value
+ */
+function generateState(graph: LangGraphWorkflow): string {
+  const fields = Object.entries(graph.state.schema).map(
+    ([name, type]) => `    ${name}: ${PYTHON_TYPES[String(type)] ?? 'Any'}`
+  );
+
+  return [
+    'class State(TypedDict, total=False):',
+    ...fields,
+    '    outputs: Annotated[dict[str, Any], operator.or_]',
+    '',
+    '',
+    `DEFAULT_STATE: State = ${toPythonLiteral({ ...graph.state.default, outputs: {} })}`,
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate a `@tool` stub, or the prebuilt tool for PythonREPLTool
+ */
+function generateToolStub(
+  lcTool: LangChainTool,
+  name: string,
+  packages: Set<string>
+): string {
+  if (lcTool.className === 'PythonREPLTool') {
+    packages.add('from langchain_experimental.tools import PythonREPLTool');
+    return `${name} = PythonREPLTool(name=${JSON.stringify(lcTool.name)}, description=${JSON.stringify(lcTool.description)})`;
+  }
+
+  packages.add('from langchain_core.tools import tool');
+
+  const lines: string[] = [];
+  if (lcTool.className && lcTool.className !== 'StructuredTool') {
+    lines.push(`# Exported as LangChain ${lcTool.className}`);
+  }
+  if (lcTool.init) {
+    lines.push(`# Settings: ${toPythonLiteral(lcTool.init)}`);
+  }
+
+  const decoratorArguments = [
+    JSON.stringify(lcTool.name),
+    `description=${JSON.stringify(lcTool.description)}`,
+    `args_schema=${toPythonLiteral(lcTool.parameters ?? { type: 'object', properties: {} })}`,
+    ...(lcTool.returnDirect ? ['return_direct=True'] : []),
+  ];
+
+  return [
+    ...lines,
+    `@tool(${decoratorArguments.join(', ')})`,
+    `def ${name}(**kwargs: Any) -> str:`,
+    `    raise NotImplementedError(${JSON.stringify(`Implement the "${lcTool.name}" tool`)})`,
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate the chat model, system prompt and ReAct agent of an
+ * agent node
+ */
+function generateAgent(
+  base: string,
+  agent: LangChainAgent,
+  toolNames: string[],
+  packages: Set<string>
+): string {
+  const { modelName } = agent.llm;
+  const separator = modelName.indexOf('/');
+  const chatModel =
+    separator === -1 ? undefined : CHAT_MODELS[modelName.slice(0, separator)];
+
+  let model: string;
+  if (chatModel) {
+    packages.add(`from ${chatModel.module} import ${chatModel.className}`);
+    const settings = chatModel.settings.flatMap((setting) => {
+      const value = agent.llm[setting];
+      if (value === undefined || value === NEUTRAL_SETTINGS[setting]) {
+        return [];
+      }
+      // LangChain.js timeouts are in milliseconds, Python ones in seconds
+      const pythonValue =
+        setting === 'timeout' ? Number(value) / 1000 : Number(value);
+      return [`${MODEL_ARGUMENTS[setting]}=${toPythonLiteral(pythonValue)}`];
+    });
+    model = `${chatModel.className}(${[
+      `${chatModel.modelArgument}=${JSON.stringify(modelName.slice(separator + 1))}`,
+      ...settings,
+    ].join(', ')})`;
+  } else {
+    packages.add('from langchain.chat_models import init_chat_model');
+    model = `init_chat_model(${JSON.stringify(modelName)})`;
+  }
+
+  packages.add('from langgraph.prebuilt import create_react_agent');
+  const agentArguments = [
+    `${base}_model`,
+    `tools=[${toolNames.join(', ')}]`,
+    ...(agent.structuredOutput
+      ? [
+          `response_format=${toPythonLiteral({
+            title: agent.structuredOutput.name,
+            ...agent.structuredOutput.schema,
+          })}`,
+        ]
+      : []),
+  ];
+
+  return [
+    `${base}_model = ${model}`,
+    ...(agent.systemMessage !== undefined
+      ? [
+          `${base.toUpperCase()}_PROMPT = ${JSON.stringify(agent.systemMessage)}`,
+        ]
+      : []),
+    `${base}_agent = create_react_agent(`,
+    ...agentArguments.map((argument) => `    ${argument},`),
+    ')',
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate the node function that calls an agent with the previous
+ * output (or the workflow input) and records its answer
+ */
+function generateAgentNode(
+  base: string,
+  nodeId: string,
+  agent: LangChainAgent,
+  stdlib: Set<string>
+): string {
+  const lines = [
+    `def ${base}_node(state: State) -> dict[str, Any]:`,
+    '    messages = [',
+    ...(agent.systemMessage !== undefined
+      ? [`        ("system", ${base.toUpperCase()}_PROMPT.format_map(state)),`]
+      : []),
+    '        ("user", state.get("output") or state.get("input", "")),',
+    '    ]',
+    `    result = ${base}_agent.invoke({"messages": messages})`,
+  ];
+
+  if (agent.structuredOutput) {
+    stdlib.add('import json');
+    lines.push(
+      '    response = result["structured_response"]',
+      `    return {"output": json.dumps(response), "outputs": {${JSON.stringify(nodeId)}: response}}`
+    );
+  } else {
+    lines.push(
+      '    output = result["messages"][-1].content',
+      `    return {"output": output, "outputs": {${JSON.stringify(nodeId)}: output}}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Helper: Generate the router of a conditional `next` record
+ *
+ * Mirrors compileConditionToLangGraphRouter as a function: the first route
+ * whose condition holds, then 'default', then '__end__'.
+ */
+function generateRouter(
+  base: string,
+  node: LangGraphNode,
+  variableNames: string[]
+): string {
+  const routes = Object.keys(node.next as Record<string, string>);
+  const signature = `def route_${base}(state: State) -> str:`;
+
+  // Conditional nodes imported from LangGraph keep their own router
+  if (!node.router && typeof node.config.condition === 'string') {
+    return `route_${base} = ${node.config.condition}`;
+  }
+  if (!node.router) {
+    return [
+      signature,
+      `    raise NotImplementedError(${JSON.stringify(`Route conditions of node "${node.id}" could not be compiled`)})`,
+    ].join('\n');
+  }
+
+  const branches = routes
+    .filter((route) => route !== 'default')
+    .map((route) => {
+      const expression = expandRouteLabel(parseCondition(route), (name) =>
+        variableNames.includes(name)
+      );
+      const test = compileConditionToPython(expression, (segments) =>
+        pythonDictPath('state', segments)
+      );
+      return `    if ${test}:\n        return ${JSON.stringify(route)}`;
+    });
+  const fallback = routes.includes('default') ? 'default' : '__end__';
+
+  return [
+    signature,
+    ...branches,
+    `    return ${JSON.stringify(fallback)}`,
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate the graph wiring, checkpointer and compilation
+ */
+function generateGraph(
+  graph: LangGraphWorkflow,
+  names: Map<string, string>,
+  stdlib: Set<string>,
+  packages: Set<string>
+): string {
+  const target = (id: string) =>
+    id === '__end__' ? 'END' : JSON.stringify(id);
+
+  const lines = ['builder = StateGraph(State)'];
+  Object.values(graph.nodes).forEach((node) => {
+    lines.push(
+      `builder.add_node(${JSON.stringify(node.id)}, ${names.get(node.id)}_node)`
+    );
+  });
+
+  lines.push(`builder.add_edge(START, ${JSON.stringify(graph.entryPoint)})`);
+  Object.values(graph.nodes).forEach((node) => {
+    const source = JSON.stringify(node.id);
+    if (node.next === undefined) {
+      lines.push(`builder.add_edge(${source}, END)`);
+    } else if (typeof node.next === 'string') {
+      lines.push(`builder.add_edge(${source}, ${target(node.next)})`);
+    } else if (Array.isArray(node.next)) {
+      node.next.forEach((id) => {
+        lines.push(`builder.add_edge(${source}, ${target(id)})`);
+      });
+    } else {
+      const routes = Object.entries(node.next).map(
+        ([route, id]) => `${JSON.stringify(route)}: ${target(id)}`
+      );
+      if (!('default' in node.next)) {
+        routes.push('"__end__": END');
+      }
+      lines.push(
+        `builder.add_conditional_edges(${source}, route_${names.get(node.id)}, {${routes.join(', ')}})`
+      );
+    }
+  });
+
+  return [
+    lines.join('\n'),
+    generateCheckpointer(graph, stdlib, packages).join('\n'),
+    'graph = builder.compile(checkpointer=checkpointer)',
+  ].join('\n\n');
+}
+
+/**
+ * Helper: Generate the statements that create the workflow's checkpointer
+ */
+function generateCheckpointer(
+  graph: LangGraphWorkflow,
+  stdlib: Set<string>,
+  packages: Set<string>
+): string[] {
+  const config = graph.checkpointer?.config ?? {};
+
+  switch (graph.checkpointer?.type) {
+    case 'sqlite': {
+      stdlib.add('import sqlite3');
+      packages.add('from langgraph.checkpoint.sqlite import SqliteSaver');
+      const path =
+        typeof config.path === 'string' ? config.path : 'checkpoints.sqlite';
+      return [
+        `checkpointer = SqliteSaver(sqlite3.connect(${JSON.stringify(path)}, check_same_thread=False))`,
+      ];
+    }
+    case 'postgres': {
+      packages.add('from langgraph.checkpoint.postgres import PostgresSaver');
+      packages.add('from psycopg import Connection');
+      let connection = 'os.environ["DATABASE_URL"]';
+      if (typeof config.connectionString === 'string') {
+        connection = JSON.stringify(config.connectionString);
+      } else {
+        stdlib.add('import os');
+      }
+      return [
+        `checkpointer = PostgresSaver(Connection.connect(${connection}, autocommit=True, prepare_threshold=0))`,
+        'checkpointer.setup()',
+      ];
+    }
+    default:
+      packages.add('from langgraph.checkpoint.memory import MemorySaver');
+      return ['checkpointer = MemorySaver()'];
+  }
+}
+
+/**
+ * Helper: Sort import lines the way isort does within a section
+ */
+function sortImports(imports: Set<string>): string {
+  const module = (line: string) => line.split(' ')[1];
+  return [...imports]
+    .sort(
+      (a, b) =>
+        Number(a.startsWith('from ')) - Number(b.startsWith('from ')) ||
+        module(a).localeCompare(module(b)) ||
+        a.localeCompare(b)
+    )
+    .join('\n');
+}
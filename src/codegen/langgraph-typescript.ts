@@ -0,0 +1,665 @@
+/**
+ * LangGraph.js code generation
+ * Emits a TypeScript module targeting @langchain/langgraph from a workflow
+ * configuration
+ */
+
+import { mapWorkflowToLangGraphWithReport } from '../adapters/langchain.adapter.js';
+import { expandRouteLabel, parseCondition } from '../conditions/parser.js';
+import {
+  compileConditionToTypeScript,
+  typeScriptPropertyPath,
+} from '../conditions/typescript.js';
+import {
+  toTypeScriptIdentifier,
+  toTypeScriptKey,
+  toZodSchema,
+} from './typescript.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+import type {
+  ConversionResult,
+  LangChainAdapterOptions,
+  LangChainAgent,
+  LangChainTool,
+  LangGraphNode,
+  LangGraphWorkflow,
+} from '../types/adapters.js';
+
+/**
+ * Chat model class for each LangChain model name prefix, and the
+ * constructor field of each `llm` setting it accepts
+ */
+const CHAT_MODELS: Record<
+  string,
+  {
+    module: string;
+    className: string;
+    modelField: string;
+    settings: Partial<Record<keyof LangChainAgent['llm'], string>>;
+  }
+> = {
+  openai: {
+    module: '@langchain/openai',
+    className: 'ChatOpenAI',
+    modelField: 'model',
+    settings: {
+      temperature: 'temperature',
+      maxTokens: 'maxTokens',
+      topP: 'topP',
+      frequencyPenalty: 'frequencyPenalty',
+      presencePenalty: 'presencePenalty',
+      timeout: 'timeout',
+      maxRetries: 'maxRetries',
+    },
+  },
+  azure: {
+    module: '@langchain/openai',
+    className: 'AzureChatOpenAI',
+    modelField: 'azureOpenAIApiDeploymentName',
+    settings: {
+      temperature: 'temperature',
+      maxTokens: 'maxTokens',
+      topP: 'topP',
+      frequencyPenalty: 'frequencyPenalty',
+      presencePenalty: 'presencePenalty',
+      timeout: 'timeout',
+      maxRetries: 'maxRetries',
+    },
+  },
+  anthropic: {
+    module: '@langchain/anthropic',
+    className: 'ChatAnthropic',
+    modelField: 'model',
+    settings: {
+      temperature: 'temperature',
+      maxTokens: 'maxTokens',
+      topP: 'topP',
+      maxRetries: 'maxRetries',
+    },
+  },
+  google: {
+    module: '@langchain/google-genai',
+    className: 'ChatGoogleGenerativeAI',
+    modelField: 'model',
+    settings: {
+      temperature: 'temperature',
+      maxTokens: 'maxOutputTokens',
+      topP: 'topP',
+      maxRetries: 'maxRetries',
+    },
+  },
+  mistral: {
+    module: '@langchain/mistralai',
+    className: 'ChatMistralAI',
+    modelField: 'model',
+    settings: {
+      temperature: 'temperature',
+      maxTokens: 'maxTokens',
+      topP: 'topP',
+      maxRetries: 'maxRetries',
+    },
+  },
+  cohere: {
+    module: '@langchain/cohere',
+    className: 'ChatCohere',
+    modelField: 'model',
+    settings: { temperature: 'temperature', maxRetries: 'maxRetries' },
+  },
+  bedrock: {
+    module: '@langchain/aws',
+    className: 'ChatBedrockConverse',
+    modelField: 'model',
+    settings: {
+      temperature: 'temperature',
+      maxTokens: 'maxTokens',
+      topP: 'topP',
+      maxRetries: 'maxRetries',
+    },
+  },
+};
+
+/**
+ * Settings left out of the generated code when they hold the API default
+ */
+const NEUTRAL_SETTINGS: Partial<Record<keyof LangChainAgent['llm'], number>> = {
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+};
+
+/**
+ * TypeScript type of each workflow variable type
+ */
+const TYPESCRIPT_TYPES: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  object: 'Record<string, unknown>',
+  array: 'unknown[]',
+};
+
+/**
+ * Names the generated module defines or imports itself
+ */
+const RESERVED_NAMES = [
+  'Annotation',
+  'END',
+  'MemorySaver',
+  'PostgresSaver',
+  'PromptTemplate',
+  'START',
+  'SqliteSaver',
+  'State',
+  'StateAnnotation',
+  'StateGraph',
+  'Update',
+  'builder',
+  'checkpointer',
+  'createReactAgent',
+  'graph',
+  'initChatModel',
+  'process',
+  'tool',
+  'z',
+];
+
+/**
+ * Generates a TypeScript module for a workflow that targets
+ * `@langchain/langgraph`
+ *
+ * Builds on `mapWorkflowToLangGraph`: the module declares an
+ * `Annotation.Root` state from the workflow variables, a chat model and
+ * prebuilt ReAct agent per agent node, a `tool()` stub with a zod schema per
+ * tool, a router function per conditional node, and exports the compiled
+ * `StateGraph` as `graph`. Loop nodes are not generated: they throw and are
+ * reported as errors. The output depends only on its inputs, so it can be
+ * snapshot-tested.
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns TypeScript module source
+ *
+ * @example
+ * ```typescript
+ * import { writeFileSync } from 'node:fs';
+ *
+ * writeFileSync('graph.ts', generateLangGraphTypeScript(workflow, { agents }));
+ * ```
+ */
+export function generateLangGraphTypeScript(
+  workflow: WorkflowConfig,
+  options: LangChainAdapterOptions = {}
+): string {
+  return generateLangGraphTypeScriptWithReport(workflow, options).output;
+}
+
+/**
+ * Generates a TypeScript module for a workflow and reports every node,
+ * connection and field the conversion dropped, approximated or defaulted
+ *
+ * @param workflow - Workflow configuration to convert
+ * @param options - Adapter options
+ * @returns TypeScript module source and the fidelity report of the LangGraph
+ *   conversion it is generated from
+ *
+ * @example
+ * ```typescript
+ * const { output: source, report } = generateLangGraphTypeScriptWithReport(workflow);
+ * report.issues.forEach((issue) => console.warn(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function generateLangGraphTypeScriptWithReport(
+  workflow: WorkflowConfig,
+  options: LangChainAdapterOptions = {}
+): ConversionResult<string> {
+  const { output: graph, report } = mapWorkflowToLangGraphWithReport(
+    workflow,
+    options
+  );
+  const variableNames = (workflow.variables || []).map((v) => v.name);
+  const nodes = Object.values(graph.nodes);
+
+  const imports = new Map<string, Set<string>>();
+  const addImport = (module: string, name: string) => {
+    imports.set(module, (imports.get(module) ?? new Set()).add(name));
+  };
+  ['Annotation', 'END', 'START', 'StateGraph'].forEach((name) =>
+    addImport('@langchain/langgraph', name)
+  );
+
+  // Every node gets a base name; tool stubs take what is left
+  const used = new Set(RESERVED_NAMES);
+  const baseNames = new Set<string>();
+  const names = new Map(
+    nodes.map((node) => {
+      const base = toTypeScriptIdentifier(node.id, baseNames);
+      [
+        `${base}Node`,
+        `${base}Model`,
+        `${base}Agent`,
+        routerName(base),
+        promptName(base),
+      ].forEach((name) => used.add(name));
+      return [node.id, base];
+    })
+  );
+
+  const tools = new Map<string, { name: string; source: string }>();
+  const agents: string[] = [];
+  const functions: string[] = [];
+  const routes: string[] = [];
+
+  nodes.forEach((node) => {
+    const base = names.get(node.id)!;
+    const config = node.config as Partial<LangChainAgent> & {
+      agentId?: string;
+    };
+
+    if (node.type === 'agent' && config.llm) {
+      const toolNames = (config.tools ?? []).map((lcTool) => {
+        if (!tools.has(lcTool.name)) {
+          const name = toTypeScriptIdentifier(lcTool.name, used);
+          tools.set(lcTool.name, {
+            name,
+            source: generateToolStub(lcTool, name, addImport),
+          });
+        }
+        return tools.get(lcTool.name)!.name;
+      });
+      agents.push(
+        generateAgent(base, config as LangChainAgent, toolNames, addImport)
+      );
+      functions.push(
+        generateAgentNode(base, node.id, config as LangChainAgent, addImport)
+      );
+    } else if (node.type === 'agent') {
+      functions.push(
+        [
+          `async function ${base}Node(): Promise<Update> {`,
+          `  throw new Error(${JSON.stringify(`Agent "${config.agentId ?? node.id}" was not resolved; pass an agent registry to the generator`)});`,
+          '}',
+        ].join('\n')
+      );
+    } else if (loopIndex(workflow, node.id) >= 0) {
+      // A pass-through would take the body and exit edges at once
+      report.issues.push({
+        path: ['nodes', String(loopIndex(workflow, node.id))],
+        kind: 'dropped',
+        severity: 'error',
+        message:
+          'Loop not generated; the node throws instead of running its body and exit paths at once',
+      });
+      functions.push(
+        [
+          `async function ${base}Node(): Promise<Update> {`,
+          `  throw new Error(${JSON.stringify(`Loop "${node.id}" is not supported by the generated graph`)});`,
+          '}',
+        ].join('\n')
+      );
+    } else {
+      functions.push(
+        [
+          `async function ${base}Node(): Promise<Update> {`,
+          '  return {};',
+          '}',
+        ].join('\n')
+      );
+    }
+
+    if (
+      node.next &&
+      typeof node.next === 'object' &&
+      !Array.isArray(node.next)
+    ) {
+      routes.push(generateRouter(base, node, variableNames));
+    }
+  });
+
+  const graphSource = generateGraph(graph, names, addImport);
+  const sections = [
+    [
+      `// ${graph.name.replace(/\s+/g, ' ')}`,
+      `// LangGraph.js application generated from workflow "${workflow.id}"`,
+      '',
+      [...imports.keys()]
+        .sort()
+        .map(
+          (module) =>
+            `import { ${[...imports.get(module)!].sort().join(', ')} } from ${JSON.stringify(module)};`
+        )
+        .join('\n'),
+    ].join('\n'),
+    generateState(graph),
+    ...[...tools.values()].map((stub) => stub.source),
+    ...agents,
+    ...functions,
+    ...routes,
+    graphSource,
+  ];
+
+  return {
+    output: `${sections.join('\n\n')}\n`,
+    report,
+  };
+}
+
+/**
+ * Helper: Name of the router function of a node
+ */
+function routerName(base: string): string {
+  return `route${base[0].toUpperCase()}${base.slice(1)}`;
+}
+
+/**
+ * Helper: Name of the system prompt constant of a node
+ */
+function promptName(base: string): string {
+  return `${base.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_PROMPT`;
+}
+
+/**
+ * Helper: Index of a workflow loop node, or -1 for other nodes
+ */
+function loopIndex(workflow: WorkflowConfig, id: string): number {
+  return workflow.nodes.findIndex((n) => n.id === id && n.type === 'loop');
+}
+
+/**
+ * Helper: Generate the state annotation and its types
+ *
+ * Fields with a default value get a last-value reducer, since LangGraph.js
+ * only accepts defaults alongside a reducer.
+ */
+function generateState(graph: LangGraphWorkflow): string {
+  const fields = Object.entries(graph.state.schema).map(([name, type]) => {
+    const annotation = `Annotation<${TYPESCRIPT_TYPES[String(type)] ?? 'unknown'}>`;
+    const value = graph.state.default[name];
+    if (value === undefined) {
+      return `  ${toTypeScriptKey(name)}: ${annotation},`;
+    }
+    const literal = JSON.stringify(value);
+    return `  ${toTypeScriptKey(name)}: ${annotation}({ reducer: (_left, right) => right, default: () => ${literal.startsWith('{') ? `(${literal})` : literal} }),`;
+  });
+
+  return [
+    'const StateAnnotation = Annotation.Root({',
+    ...fields,
+    '  outputs: Annotation<Record<string, unknown>>({ reducer: (left, right) => ({ ...left, ...right }), default: () => ({}) }),',
+    '});',
+    '',
+    'type State = typeof StateAnnotation.State;',
+    'type Update = typeof StateAnnotation.Update;',
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate a `tool()` stub with the tool's parameters as a zod schema
+ */
+function generateToolStub(
+  lcTool: LangChainTool,
+  name: string,
+  addImport: (module: string, name: string) => void
+): string {
+  addImport('@langchain/core/tools', 'tool');
+  addImport('zod', 'z');
+
+  const lines: string[] = [];
+  if (lcTool.className && lcTool.className !== 'StructuredTool') {
+    lines.push(`// Exported as LangChain ${lcTool.className}`);
+  }
+  if (lcTool.init) {
+    lines.push(`// Settings: ${JSON.stringify(lcTool.init)}`);
+  }
+
+  const fields = [
+    `name: ${JSON.stringify(lcTool.name)}`,
+    `description: ${JSON.stringify(lcTool.description)}`,
+    `schema: ${toZodSchema(lcTool.parameters ?? { type: 'object' })}`,
+    ...(lcTool.returnDirect ? ['returnDirect: true'] : []),
+  ];
+
+  return [
+    ...lines,
+    `const ${name} = tool(`,
+    '  async () => {',
+    `    throw new Error(${JSON.stringify(`Implement the "${lcTool.name}" tool`)});`,
+    '  },',
+    '  {',
+    ...fields.map((field) => `    ${field},`),
+    '  }',
+    ');',
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate the chat model, system prompt and ReAct agent of an
+ * agent node
+ */
+function generateAgent(
+  base: string,
+  agent: LangChainAgent,
+  toolNames: string[],
+  addImport: (module: string, name: string) => void
+): string {
+  const { modelName } = agent.llm;
+  const separator = modelName.indexOf('/');
+  const chatModel =
+    separator === -1 ? undefined : CHAT_MODELS[modelName.slice(0, separator)];
+
+  let model: string;
+  if (chatModel) {
+    addImport(chatModel.module, chatModel.className);
+    const settings = Object.entries(chatModel.settings).flatMap(
+      ([setting, field]) => {
+        const value = agent.llm[setting as keyof LangChainAgent['llm']];
+        return value === undefined ||
+          value === NEUTRAL_SETTINGS[setting as keyof LangChainAgent['llm']]
+          ? []
+          : [`${field}: ${JSON.stringify(value)}`];
+      }
+    );
+    model = `new ${chatModel.className}({ ${[
+      `${chatModel.modelField}: ${JSON.stringify(modelName.slice(separator + 1))}`,
+      ...settings,
+    ].join(', ')} })`;
+  } else {
+    addImport('langchain/chat_models/universal', 'initChatModel');
+    model = `await initChatModel(${JSON.stringify(modelName)})`;
+  }
+
+  addImport('@langchain/langgraph/prebuilt', 'createReactAgent');
+  const agentFields = [`llm: ${base}Model`, `tools: [${toolNames.join(', ')}]`];
+  if (agent.structuredOutput) {
+    addImport('zod', 'z');
+    agentFields.push(
+      `responseFormat: ${toZodSchema(agent.structuredOutput.schema)}`
+    );
+  }
+
+  return [
+    `const ${base}Model = ${model};`,
+    ...(agent.systemMessage !== undefined
+      ? [`const ${promptName(base)} = ${JSON.stringify(agent.systemMessage)};`]
+      : []),
+    `const ${base}Agent = createReactAgent({`,
+    ...agentFields.map((field) => `  ${field},`),
+    '});',
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate the node function that calls an agent with the previous
+ * output (or the workflow input) and records its answer
+ */
+function generateAgentNode(
+  base: string,
+  nodeId: string,
+  agent: LangChainAgent,
+  addImport: (module: string, name: string) => void
+): string {
+  const key = toTypeScriptKey(nodeId);
+  const lines = [
+    `async function ${base}Node(state: State): Promise<Update> {`,
+    `  const result = await ${base}Agent.invoke({`,
+    '    messages: [',
+  ];
+  if (agent.systemMessage !== undefined) {
+    addImport('@langchain/core/prompts', 'PromptTemplate');
+    lines.push(
+      `      { role: "system", content: await PromptTemplate.fromTemplate(${promptName(base)}).format(state) },`
+    );
+  }
+  lines.push(
+    '      { role: "user", content: state.output || state.input },',
+    '    ],',
+    '  });'
+  );
+
+  if (agent.structuredOutput) {
+    lines.push(
+      '  const response = result.structuredResponse;',
+      `  return { output: JSON.stringify(response), outputs: { ${key}: response } };`
+    );
+  } else {
+    lines.push(
+      '  const output = result.messages[result.messages.length - 1].text;',
+      `  return { output, outputs: { ${key}: output } };`
+    );
+  }
+
+  return [...lines, '}'].join('\n');
+}
+
+/**
+ * Helper: Generate the router of a conditional `next` record
+ *
+ * Mirrors compileConditionToLangGraphRouter as a function: the first route
+ * whose condition holds, then 'default', then END.
+ */
+function generateRouter(
+  base: string,
+  node: LangGraphNode,
+  variableNames: string[]
+): string {
+  const routes = Object.keys(node.next as Record<string, string>);
+  const signature = `function ${routerName(base)}(state: State): string {`;
+
+  // Routers imported from LangGraph are Python source and cannot be reused
+  if (!node.router) {
+    return [
+      signature,
+      `  throw new Error(${JSON.stringify(`Route conditions of node "${node.id}" could not be compiled`)});`,
+      '}',
+    ].join('\n');
+  }
+
+  const branches = routes
+    .filter((route) => route !== 'default')
+    .map((route) => {
+      const expression = expandRouteLabel(parseCondition(route), (name) =>
+        variableNames.includes(name)
+      );
+      const test = compileConditionToTypeScript(expression, (segments) =>
+        typeScriptPropertyPath('values', segments)
+      );
+      return [
+        `  if (${test}) {`,
+        `    return ${JSON.stringify(route)};`,
+        '  }',
+      ].join('\n');
+    });
+
+  return [
+    signature,
+    // Conditions may read any path, so the state is read untyped
+    '  const values: Record<string, any> = state;',
+    ...branches,
+    `  return ${routes.includes('default') ? '"default"' : 'END'};`,
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Helper: Generate the graph wiring, checkpointer and compilation
+ *
+ * The builder calls are chained because each `addNode` widens the node
+ * names the following edges may use.
+ */
+function generateGraph(
+  graph: LangGraphWorkflow,
+  names: Map<string, string>,
+  addImport: (module: string, name: string) => void
+): string {
+  const target = (id: string) =>
+    id === '__end__' ? 'END' : JSON.stringify(id);
+
+  const calls = Object.values(graph.nodes).map(
+    (node) =>
+      `  .addNode(${JSON.stringify(node.id)}, ${names.get(node.id)}Node)`
+  );
+  calls.push(`  .addEdge(START, ${JSON.stringify(graph.entryPoint)})`);
+  Object.values(graph.nodes).forEach((node) => {
+    const source = JSON.stringify(node.id);
+    if (node.next === undefined) {
+      calls.push(`  .addEdge(${source}, END)`);
+    } else if (typeof node.next === 'string') {
+      calls.push(`  .addEdge(${source}, ${target(node.next)})`);
+    } else if (Array.isArray(node.next)) {
+      node.next.forEach((id) => {
+        calls.push(`  .addEdge(${source}, ${target(id)})`);
+      });
+    } else {
+      const routes = Object.entries(node.next).map(
+        ([route, id]) => `${JSON.stringify(route)}: ${target(id)}`
+      );
+      if (!('default' in node.next)) {
+        routes.push('[END]: END');
+      }
+      calls.push(
+        `  .addConditionalEdges(${source}, ${routerName(names.get(node.id)!)}, { ${routes.join(', ')} })`
+      );
+    }
+  });
+
+  return [
+    ['const builder = new StateGraph(StateAnnotation)', ...calls].join('\n') +
+      ';',
+    generateCheckpointer(graph, addImport).join('\n'),
+    'export const graph = builder.compile({ checkpointer });',
+  ].join('\n\n');
+}
+
+/**
+ * Helper: Generate the statements that create the workflow's checkpointer
+ */
+function generateCheckpointer(
+  graph: LangGraphWorkflow,
+  addImport: (module: string, name: string) => void
+): string[] {
+  const config = graph.checkpointer?.config ?? {};
+
+  switch (graph.checkpointer?.type) {
+    case 'sqlite': {
+      addImport('@langchain/langgraph-checkpoint-sqlite', 'SqliteSaver');
+      const path =
+        typeof config.path === 'string' ? config.path : 'checkpoints.sqlite';
+      return [
+        `const checkpointer = SqliteSaver.fromConnString(${JSON.stringify(path)});`,
+      ];
+    }
+    case 'postgres': {
+      addImport('@langchain/langgraph-checkpoint-postgres', 'PostgresSaver');
+      const connection =
+        typeof config.connectionString === 'string'
+          ? JSON.stringify(config.connectionString)
+          : 'process.env.DATABASE_URL!';
+      return [
+        `const checkpointer = PostgresSaver.fromConnString(${connection});`,
+        'await checkpointer.setup();',
+      ];
+    }
+    default:
+      addImport('@langchain/langgraph', 'MemorySaver');
+      return ['const checkpointer = new MemorySaver();'];
+  }
+}
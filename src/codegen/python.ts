@@ -0,0 +1,241 @@
+/**
+ * Python source helpers shared by the code generators
+ */
+
+/**
+ * Lowercase Python keywords, which cannot name a variable or function
+ */
+const PYTHON_KEYWORDS = new Set([
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'break',
+  'class',
+  'continue',
+  'def',
+  'del',
+  'elif',
+  'else',
+  'except',
+  'finally',
+  'for',
+  'from',
+  'global',
+  'if',
+  'import',
+  'in',
+  'is',
+  'lambda',
+  'nonlocal',
+  'not',
+  'or',
+  'pass',
+  'raise',
+  'return',
+  'try',
+  'while',
+  'with',
+  'yield',
+]);
+
+/**
+ * Renders a JSON value as a Python literal
+ *
+ * Strings use JSON escapes, which Python string literals accept; object keys
+ * keep their order so the output is deterministic.
+ *
+ * @param value - JSON value (undefined renders as None)
+ * @returns Python expression source
+ *
+ * @example
+ * ```typescript
+ * toPythonLiteral({ retries: 3, strict: true, fallback: null });
+ * // '{"retries": 3, "strict": True, "fallback": None}'
+ * ```
+ */
+export function toPythonLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'None';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toPythonLiteral).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(
+      ([, entry]) => entry !== undefined
+    );
+    return `{${entries
+      .map(
+        ([key, entry]) => `${JSON.stringify(key)}: ${toPythonLiteral(entry)}`
+      )
+      .join(', ')}}`;
+  }
+  return JSON.stringify(String(value));
+}
+
+/**
+ * Converts a name into a Python identifier that is unique within a set
+ *
+ * @param name - Node ID, tool name or other display name
+ * @param used - Identifiers already taken (updated in place)
+ * @returns Lowercase snake_case identifier, suffixed with `_2`, `_3`, ... if taken
+ *
+ * @example
+ * ```typescript
+ * const used = new Set<string>();
+ * toPythonIdentifier('web-search', used); // 'web_search'
+ * toPythonIdentifier('Web Search', used); // 'web_search_2'
+ * toPythonIdentifier('class', used); // 'class_'
+ * ```
+ */
+export function toPythonIdentifier(name: string, used: Set<string>): string {
+  let base = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!base) {
+    base = 'unnamed';
+  } else if (/^[0-9]/.test(base)) {
+    base = `_${base}`;
+  } else if (PYTHON_KEYWORDS.has(base)) {
+    base = `${base}_`;
+  }
+
+  let identifier = base;
+  let suffix = 2;
+  while (used.has(identifier)) {
+    identifier = `${base}_${suffix++}`;
+  }
+  used.add(identifier);
+  return identifier;
+}
+
+/**
+ * Converts a name into a PascalCase Python class name
+ *
+ * @param name - Node ID, tool name or other display name
+ * @param used - Class names already taken (updated in place)
+ * @returns Class name, suffixed with `2`, `3`, ... if taken
+ *
+ * @example
+ * ```typescript
+ * toPythonClassName('lookup-order', new Set()); // 'LookupOrder'
+ * ```
+ */
+export function toPythonClassName(name: string, used: Set<string>): string {
+  const words = toPythonIdentifier(name, new Set()).split('_').filter(Boolean);
+  const pascal = words
+    .map((word) => `${word[0].toUpperCase()}${word.slice(1)}`)
+    .join('');
+  const base = /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+
+  let className = base;
+  let suffix = 2;
+  while (used.has(className)) {
+    className = `${base}${suffix++}`;
+  }
+  used.add(className);
+  return className;
+}
+
+/**
+ * Generates a Pydantic model for the top-level properties of an object
+ * JSON Schema
+ *
+ * Properties that are not required become optional fields defaulting to
+ * None; nested objects become `dict[str, Any]`. Property names that are not
+ * Python identifiers are kept as field aliases.
+ *
+ * @param className - Name of the model class
+ * @param schema - Object JSON Schema
+ * @returns Python class source (needs `BaseModel`, `Field` and `Any` imports
+ *   as used)
+ *
+ * @example
+ * ```typescript
+ * toPydanticModel('Review', {
+ *   type: 'object',
+ *   properties: { score: { type: 'number' } },
+ *   required: ['score'],
+ * });
+ * // 'class Review(BaseModel):\n    score: float'
+ * ```
+ */
+export function toPydanticModel(
+  className: string,
+  schema: Record<string, unknown>
+): string {
+  const properties = (schema.properties ?? {}) as Record<
+    string,
+    Record<string, unknown>
+  >;
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  const used = new Set<string>();
+
+  const fields = Object.entries(properties).map(([name, property]) => {
+    const field = toPythonIdentifier(name, used);
+    const type = pydanticType(property);
+    const options = [
+      ...(required.includes(name) ? [] : ['default=None']),
+      ...(field !== name ? [`alias=${JSON.stringify(name)}`] : []),
+      ...(typeof property.description === 'string'
+        ? [`description=${JSON.stringify(property.description)}`]
+        : []),
+    ];
+
+    const annotation = required.includes(name) ? type : `${type} | None`;
+    if (options.length === 0) {
+      return `    ${field}: ${annotation}`;
+    }
+    if (options.length === 1 && options[0] === 'default=None') {
+      return `    ${field}: ${annotation} = None`;
+    }
+    return `    ${field}: ${annotation} = Field(${options.join(', ')})`;
+  });
+
+  return [
+    `class ${className}(BaseModel):`,
+    ...(fields.length > 0 ? fields : ['    pass']),
+  ].join('\n');
+}
+
+/**
+ * Helper: Python type annotation of a JSON Schema property
+ */
+function pydanticType(property: Record<string, unknown>): string {
+  if (Array.isArray(property.enum) && property.enum.length > 0) {
+    return `Literal[${property.enum.map(toPythonLiteral).join(', ')}]`;
+  }
+  switch (property.type) {
+    case 'string':
+      return 'str';
+    case 'integer':
+      return 'int';
+    case 'number':
+      return 'float';
+    case 'boolean':
+      return 'bool';
+    case 'array':
+      return `list[${
+        property.items && typeof property.items === 'object'
+          ? pydanticType(property.items as Record<string, unknown>)
+          : 'Any'
+      }]`;
+    case 'object':
+      return 'dict[str, Any]';
+    default:
+      return 'Any';
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * TypeScript source helpers shared by the code generators
+ */
+
+/**
+ * Reserved words that cannot name a variable or function
+ */
+const RESERVED_WORDS = new Set([
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+]);
+
+/**
+ * Identifier that can be an unquoted object key
+ */
+const PROPERTY_NAME = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Converts a name into a camelCase TypeScript identifier that is unique
+ * within a set
+ *
+ * @param name - Node ID, tool name or other display name
+ * @param used - Identifiers already taken (updated in place)
+ * @returns camelCase identifier, suffixed with `2`, `3`, ... if taken
+ *
+ * @example
+ * ```typescript
+ * const used = new Set<string>();
+ * toTypeScriptIdentifier('web-search', used); // 'webSearch'
+ * toTypeScriptIdentifier('Web Search', used); // 'webSearch2'
+ * toTypeScriptIdentifier('default', used); // 'default_'
+ * ```
+ */
+export function toTypeScriptIdentifier(
+  name: string,
+  used: Set<string>
+): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  let base = words
+    .map((word, index) =>
+      index === 0 ? word : `${word[0].toUpperCase()}${word.slice(1)}`
+    )
+    .join('');
+  if (!base) {
+    base = 'unnamed';
+  } else if (/^[0-9]/.test(base)) {
+    base = `_${base}`;
+  } else if (RESERVED_WORDS.has(base)) {
+    base = `${base}_`;
+  }
+
+  let identifier = base;
+  let suffix = 2;
+  while (used.has(identifier)) {
+    identifier = `${base}${suffix++}`;
+  }
+  used.add(identifier);
+  return identifier;
+}
+
+/**
+ * Renders an object key, quoting it unless it is an identifier
+ *
+ * @param key - Property name
+ * @returns Key source
+ */
+export function toTypeScriptKey(key: string): string {
+  return PROPERTY_NAME.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Converts a JSON Schema into zod schema source
+ *
+ * Covers the keywords tool parameters use: types (including nullable type
+ * arrays), `enum` and `const`, object properties with `required`, array
+ * `items`, `anyOf` / `oneOf`, numeric and length bounds, and `description`.
+ * Other keywords are ignored and untyped schemas become `z.unknown()`.
+ *
+ * @param schema - JSON Schema
+ * @returns zod expression source (needs `import { z } from 'zod'`)
+ *
+ * @example
+ * ```typescript
+ * toZodSchema({
+ *   type: 'object',
+ *   properties: { query: { type: 'string' }, limit: { type: 'integer' } },
+ *   required: ['query'],
+ * });
+ * // 'z.object({ query: z.string(), limit: z.number().int().optional() })'
+ * ```
+ */
+export function toZodSchema(schema: Record<string, unknown>): string {
+  const zod = convertSchema(schema);
+  return typeof schema.description === 'string'
+    ? `${zod}.describe(${JSON.stringify(schema.description)})`
+    : zod;
+}
+
+/**
+ * Helper: Convert a schema without its description
+ */
+function convertSchema(schema: Record<string, unknown>): string {
+  if (schema.const !== undefined) {
+    return `z.literal(${JSON.stringify(schema.const)})`;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const values = schema.enum.map((value) => JSON.stringify(value));
+    return schema.enum.every((value) => typeof value === 'string')
+      ? `z.enum([${values.join(', ')}])`
+      : union(values.map((value) => `z.literal(${value})`));
+  }
+  const options = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(options) && options.length > 0) {
+    return union(
+      options.map((option) => toZodSchema(option as Record<string, unknown>))
+    );
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== 'null');
+    if (types.length === 0) {
+      return 'z.null()';
+    }
+    const zod = union(types.map((type) => convertSchema({ ...schema, type })));
+    return types.length < schema.type.length ? `${zod}.nullable()` : zod;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return `z.string()${bounds(schema.minLength, schema.maxLength)}`;
+    case 'integer':
+      return `z.number().int()${bounds(schema.minimum, schema.maximum)}`;
+    case 'number':
+      return `z.number()${bounds(schema.minimum, schema.maximum)}`;
+    case 'boolean':
+      return 'z.boolean()';
+    case 'null':
+      return 'z.null()';
+    case 'array':
+      return `z.array(${
+        schema.items &&
+        typeof schema.items === 'object' &&
+        !Array.isArray(schema.items)
+          ? toZodSchema(schema.items as Record<string, unknown>)
+          : 'z.unknown()'
+      })${bounds(schema.minItems, schema.maxItems)}`;
+    case 'object': {
+      const properties = Object.entries(
+        (schema.properties ?? {}) as Record<string, Record<string, unknown>>
+      );
+      if (
+        properties.length === 0 &&
+        schema.additionalProperties &&
+        typeof schema.additionalProperties === 'object'
+      ) {
+        return `z.record(z.string(), ${toZodSchema(
+          schema.additionalProperties as Record<string, unknown>
+        )})`;
+      }
+      const required = Array.isArray(schema.required) ? schema.required : [];
+      const shape = properties.map(([key, property]) => {
+        const zod = toZodSchema(property);
+        return `${toTypeScriptKey(key)}: ${
+          required.includes(key) ? zod : `${zod}.optional()`
+        }`;
+      });
+      return shape.length > 0
+        ? `z.object({ ${shape.join(', ')} })`
+        : 'z.object({})';
+    }
+    default:
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * Helper: Union of zod schemas (z.union needs at least two)
+ */
+function union(schemas: string[]): string {
+  return schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(', ')}])`;
+}
+
+/**
+ * Helper: `.min()` / `.max()` calls for the given bounds
+ */
+function bounds(min: unknown, max: unknown): string {
+  return [
+    typeof min === 'number' ? `.min(${min})` : '',
+    typeof max === 'number' ? `.max(${max})` : '',
+  ].join('');
+}
@@ -0,0 +1,152 @@
+/**
+ * Evaluator for workflow condition expressions
+ */
+
+import { expandRouteLabel, parseCondition } from './parser.js';
+import type { ConditionExpression } from '../types/conditions.js';
+import type { ConditionScope } from '../types/runtime.js';
+
+/**
+ * Evaluates a condition against workflow variables and node outputs
+ *
+ * Paths resolve against `scope.variables`, except for the `output` root (the
+ * source node's output) and the `outputs` root (outputs of executed nodes, by
+ * node ID). Missing values resolve to `null`. Ordering comparisons between
+ * values of different types are false. A lone identifier that names no
+ * variable is a route label (see `expandRouteLabel`); with
+ * `scope.declaredVariables`, declared variables count even when unset, as
+ * in `checkCondition`.
+ *
+ * @param condition - Condition string or parsed expression
+ * @param scope - Variables and node outputs to evaluate against
+ * @returns Whether the condition holds
+ * @throws {Error} If the condition is not a valid expression
+ *
+ * @example
+ * ```typescript
+ * evaluateCondition("status == 'approved' && score > 0.8", {
+ *   variables: { status: 'approved', score: 0.9 },
+ *   output: null,
+ * }); // true
+ * ```
+ */
+export function evaluateCondition(
+  condition: string | ConditionExpression,
+  scope: ConditionScope
+): boolean {
+  const parsed =
+    typeof condition === 'string' ? parseCondition(condition) : condition;
+  const expression = expandRouteLabel(parsed, (name) =>
+    scope.declaredVariables
+      ? scope.declaredVariables.includes(name)
+      : Object.prototype.hasOwnProperty.call(scope.variables, name)
+  );
+
+  return Boolean(evaluate(expression, scope));
+}
+
+/**
+ * Helper: Evaluate an expression to a value
+ */
+function evaluate(
+  expression: ConditionExpression,
+  scope: ConditionScope
+): unknown {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'path':
+      return resolvePath(expression.segments, scope);
+
+    case 'not':
+      return !evaluate(expression.operand, scope);
+
+    case 'logical':
+      return expression.operator === '&&'
+        ? Boolean(evaluate(expression.left, scope)) &&
+            Boolean(evaluate(expression.right, scope))
+        : Boolean(evaluate(expression.left, scope)) ||
+            Boolean(evaluate(expression.right, scope));
+
+    case 'comparison':
+      return compare(
+        expression.operator,
+        evaluate(expression.left, scope),
+        evaluate(expression.right, scope)
+      );
+  }
+}
+
+/**
+ * Helper: Apply a comparison operator
+ */
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case 'contains':
+      if (typeof left === 'string') {
+        return typeof right === 'string' && left.includes(right);
+      }
+      return Array.isArray(left) && left.includes(right);
+  }
+
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  const [a, b] = [left as number | string, right as number | string];
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+/**
+ * Helper: Resolve a path using own properties only
+ */
+function resolvePath(segments: string[], scope: ConditionScope): unknown {
+  const [root, ...rest] = segments;
+  let value: unknown =
+    root === 'output'
+      ? scope.output
+      : root === 'outputs'
+        ? (scope.outputs ?? {})
+        : readProperty(scope.variables, root);
+
+  for (const segment of rest) {
+    if (
+      segment === 'length' &&
+      (typeof value === 'string' || Array.isArray(value))
+    ) {
+      value = value.length;
+    } else {
+      value = readProperty(value, segment);
+    }
+  }
+
+  return value ?? null;
+}
+
+/**
+ * Helper: Read an own property, or undefined
+ */
+function readProperty(source: unknown, key: string): unknown {
+  return source !== null &&
+    typeof source === 'object' &&
+    Object.prototype.hasOwnProperty.call(source, key)
+    ? (source as Record<string, unknown>)[key]
+    : undefined;
+}
@@ -0,0 +1,335 @@
+/**
+ * Parser for workflow condition expressions
+ *
+ * Grammar (lowest to highest precedence):
+ *
+ *   expression := or
+ *   or         := and ( '||' and )*
+ *   and        := unary ( '&&' unary )*
+ *   unary      := '!' unary | comparison
+ *   comparison := primary ( ( '==' | '!=' | '<' | '<=' | '>' | '>=' | 'contains' ) primary )?
+ *   primary    := literal | path | '(' expression ')'
+ *   literal    := number | string | 'true' | 'false' | 'null'
+ *   path       := identifier ( '.' identifier )*
+ *
+ * Expressions are data only: there are no function calls, assignments or
+ * arithmetic, and prototype properties cannot be referenced.
+ */
+
+import type {
+  ConditionComparisonOperator,
+  ConditionExpression,
+} from '../types/conditions.js';
+
+/**
+ * Path roots reserved for node outputs
+ */
+export const CONDITION_OUTPUT_ROOTS = ['output', 'outputs'] as const;
+
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+const MAX_DEPTH = 32;
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number };
+
+const OPERATORS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '!',
+  '(',
+  ')',
+  '.',
+];
+const COMPARISON_OPERATORS = new Set<string>([
+  '==',
+  '!=',
+  '<',
+  '<=',
+  '>',
+  '>=',
+  'contains',
+]);
+
+/**
+ * Parses a condition expression
+ *
+ * @param source - Condition string (e.g. `status == 'approved' && score > 0.8`)
+ * @returns Parsed expression tree
+ * @throws {Error} If the condition is not a valid expression
+ *
+ * @example
+ * ```typescript
+ * const expression = parseCondition("review.status == 'approved'");
+ * // { type: 'comparison', operator: '==', left: { type: 'path', ... }, ... }
+ * ```
+ */
+export function parseCondition(source: string): ConditionExpression {
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const fail = (message: string, token?: Token): never => {
+    const where = token
+      ? `at position ${token.position}`
+      : 'at end of expression';
+    throw new Error(`Invalid condition "${source}": ${message} ${where}`);
+  };
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token?.kind === 'operator' && token.value === value;
+  };
+
+  const parseOr = (): ConditionExpression => {
+    let left = parseAnd();
+    while (isOperator('||')) {
+      index++;
+      left = { type: 'logical', operator: '||', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionExpression => {
+    let left = parseUnary();
+    while (isOperator('&&')) {
+      index++;
+      left = { type: 'logical', operator: '&&', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ConditionExpression => {
+    if (isOperator('!')) {
+      index++;
+      return nested(() => ({ type: 'not', operand: parseUnary() }));
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionExpression => {
+    const left = parsePrimary();
+    const token = peek();
+    if (
+      token &&
+      (token.kind === 'operator' || token.kind === 'identifier') &&
+      COMPARISON_OPERATORS.has(token.value)
+    ) {
+      index++;
+      return {
+        type: 'comparison',
+        operator: token.value as ConditionComparisonOperator,
+        left,
+        right: parsePrimary(),
+      };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ConditionExpression => {
+    const token = peek();
+    if (!token) {
+      return fail('expected a value');
+    }
+    index++;
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { type: 'literal', value: null };
+        }
+        if (token.value === 'contains') {
+          return fail('unexpected "contains"', token);
+        }
+        return parsePath(token.value, token);
+
+      default:
+        if (token.value === '(') {
+          const expression = nested(parseOr);
+          if (!isOperator(')')) {
+            fail('expected ")"', peek());
+          }
+          index++;
+          return expression;
+        }
+        return fail(`unexpected "${token.value}"`, token);
+    }
+  };
+
+  const parsePath = (root: string, token: Token): ConditionExpression => {
+    const segments = [root];
+    while (isOperator('.')) {
+      index++;
+      const segment = peek();
+      if (segment?.kind !== 'identifier') {
+        fail('expected a property name', segment);
+      }
+      index++;
+      segments.push(String(segment!.value));
+    }
+
+    const forbidden = segments.find((s) => FORBIDDEN_SEGMENTS.has(s));
+    if (forbidden) {
+      fail(`property "${forbidden}" is not allowed`, token);
+    }
+    return { type: 'path', segments };
+  };
+
+  const nested = (parse: () => ConditionExpression): ConditionExpression => {
+    depth++;
+    if (depth > MAX_DEPTH) {
+      fail(`nesting deeper than ${MAX_DEPTH} levels`, peek());
+    }
+    const expression = parse();
+    depth--;
+    return expression;
+  };
+
+  const expression = parseOr();
+  if (index < tokens.length) {
+    fail(`unexpected "${tokens[index].value}"`, tokens[index]);
+  }
+  return expression;
+}
+
+/**
+ * Replaces route labels with `output == '<label>'` comparisons
+ *
+ * A route label is a condition consisting of a single identifier that is
+ * neither a workflow variable nor an output root, such as the `approved` and
+ * `rejected` branch names produced by the LangGraph importer. It holds when the
+ * source node's output equals the label.
+ *
+ * @param expression - Parsed condition
+ * @param isVariable - Whether a name refers to a workflow variable
+ * @returns The expression with any route label expanded
+ *
+ * @example
+ * ```typescript
+ * expandRouteLabel(parseCondition('approved'), () => false);
+ * // { type: 'comparison', operator: '==', left: output, right: 'approved' }
+ * ```
+ */
+export function expandRouteLabel(
+  expression: ConditionExpression,
+  isVariable: (name: string) => boolean
+): ConditionExpression {
+  if (
+    expression.type !== 'path' ||
+    expression.segments.length !== 1 ||
+    (CONDITION_OUTPUT_ROOTS as readonly string[]).includes(
+      expression.segments[0]
+    ) ||
+    isVariable(expression.segments[0])
+  ) {
+    return expression;
+  }
+
+  return {
+    type: 'comparison',
+    operator: '==',
+    left: { type: 'path', segments: ['output'] },
+    right: { type: 'literal', value: expression.segments[0] },
+  };
+}
+
+/**
+ * Helper: Split a condition into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    // Numbers, including a leading minus sign
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(position));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const { value, end } = readString(source, position);
+      tokens.push({ kind: 'string', value, position });
+      position = end;
+      continue;
+    }
+
+    // Identifiers may contain hyphens so node IDs like `review-1` work
+    const identifier = /^[A-Za-z_$][\w$-]*/.exec(source.slice(position));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, position));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    throw new Error(
+      `Invalid condition "${source}": unexpected "${char}" at position ${position}`
+    );
+  }
+
+  return tokens;
+}
+
+/**
+ * Helper: Read a quoted string literal starting at `start`
+ */
+function readString(
+  source: string,
+  start: number
+): { value: string; end: number } {
+  const quote = source[start];
+  const escapes: Record<string, string> = { n: '\n', t: '\t' };
+  let value = '';
+  let position = start + 1;
+
+  while (position < source.length) {
+    const char = source[position];
+    if (char === quote) {
+      return { value, end: position + 1 };
+    }
+    if (char === '\\' && position + 1 < source.length) {
+      const next = source[position + 1];
+      value += escapes[next] ?? next;
+      position += 2;
+      continue;
+    }
+    value += char;
+    position++;
+  }
+
+  throw new Error(
+    `Invalid condition "${source}": unterminated string at position ${start}`
+  );
+}
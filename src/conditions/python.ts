@@ -0,0 +1,134 @@
+/**
+ * Compiles condition expressions to Python source
+ * Shared by the LangGraph and CrewAI adapters
+ */
+
+import type { ConditionExpression } from '../types/conditions.js';
+
+/**
+ * Compiles a parsed condition to a Python boolean expression
+ *
+ * Ordering comparisons check the operand types first, so a missing or
+ * mistyped value makes them false (as in the evaluator) instead of raising
+ * a `TypeError`.
+ *
+ * @param expression - Parsed condition (route labels already expanded)
+ * @param resolvePath - Returns Python source reading a path
+ * @returns Python expression source
+ *
+ * @example
+ * ```typescript
+ * compileConditionToPython(parseCondition("status == 'ok'"), (segments) =>
+ *   `state.get(${JSON.stringify(segments[0])})`
+ * );
+ * // 'state.get("status") == "ok"'
+ * ```
+ */
+export function compileConditionToPython(
+  expression: ConditionExpression,
+  resolvePath: (segments: string[]) => string
+): string {
+  const compile = (node: ConditionExpression, nested: boolean): string => {
+    switch (node.type) {
+      case 'literal':
+        if (node.value === null) {
+          return 'None';
+        }
+        if (typeof node.value === 'boolean') {
+          return node.value ? 'True' : 'False';
+        }
+        return JSON.stringify(node.value);
+
+      case 'path':
+        if (
+          node.segments.length > 1 &&
+          node.segments[node.segments.length - 1] === 'length'
+        ) {
+          return `len(${resolvePath(node.segments.slice(0, -1))} or ())`;
+        }
+        return resolvePath(node.segments);
+
+      case 'not':
+        return wrap(`not ${compile(node.operand, true)}`, nested);
+
+      case 'logical':
+        return wrap(
+          `${compile(node.left, true)} ${node.operator === '&&' ? 'and' : 'or'} ${compile(node.right, true)}`,
+          nested
+        );
+
+      case 'comparison': {
+        const left = compile(node.left, true);
+        const right = compile(node.right, true);
+        if (node.operator === 'contains') {
+          return wrap(`${right} in (${left} or ())`, nested);
+        }
+        if (node.operator === '==' || node.operator === '!=') {
+          return wrap(`${left} ${node.operator} ${right}`, nested);
+        }
+        const guard = orderingGuard(node.left, left, node.right, right);
+        return wrap(
+          `${guard ? `${guard} and ` : ''}${left} ${node.operator} ${right}`,
+          nested
+        );
+      }
+    }
+  };
+
+  return compile(expression, false);
+}
+
+/**
+ * Builds a chain of `.get()` calls reading a nested key from a dict source
+ *
+ * @param source - Python expression for the root dict
+ * @param keys - Keys to read in order
+ * @returns Python expression source
+ */
+export function pythonDictPath(source: string, keys: string[]): string {
+  return keys.reduce(
+    (expression, key, index) =>
+      index === 0
+        ? `${expression}.get(${JSON.stringify(key)})`
+        : `(${expression} or {}).get(${JSON.stringify(key)})`,
+    source
+  );
+}
+
+/**
+ * Helper: Type check that makes an ordering comparison safe, matching the
+ * evaluator (numbers with numbers, strings with strings)
+ */
+function orderingGuard(
+  leftNode: ConditionExpression,
+  left: string,
+  rightNode: ConditionExpression,
+  right: string
+): string | undefined {
+  const literalType = (node: ConditionExpression) =>
+    node.type === 'literal' && typeof node.value === 'number'
+      ? '(int, float)'
+      : node.type === 'literal' && typeof node.value === 'string'
+        ? 'str'
+        : undefined;
+
+  const leftType = literalType(leftNode);
+  const rightType = literalType(rightNode);
+  if (leftType && rightType) {
+    return undefined;
+  }
+  if (rightType) {
+    return `isinstance(${left}, ${rightType})`;
+  }
+  if (leftType) {
+    return `isinstance(${right}, ${leftType})`;
+  }
+  return `(isinstance(${left}, (int, float)) and isinstance(${right}, (int, float)) or isinstance(${left}, str) and isinstance(${right}, str))`;
+}
+
+/**
+ * Helper: Parenthesize compound expressions when nested
+ */
+function wrap(source: string, nested: boolean): string {
+  return nested ? `(${source})` : source;
+}
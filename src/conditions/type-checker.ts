@@ -0,0 +1,190 @@
+/**
+ * Type checker for workflow condition expressions
+ */
+
+import { expandRouteLabel, parseCondition } from './parser.js';
+import type {
+  ConditionCheckResult,
+  ConditionExpression,
+  ConditionIssue,
+  ConditionValueType,
+} from '../types/conditions.js';
+import type { WorkflowConfig, WorkflowVariable } from '../types/workflow.js';
+
+/**
+ * Type checks a condition against declared workflow variables
+ *
+ * Variable paths take their type from `WorkflowVariable.type`; node outputs
+ * (`output`, `outputs.<nodeId>`) and properties of object variables are
+ * `unknown` and accepted anywhere. Errors are reported for unknown variables,
+ * property access on scalar variables, equality between different types,
+ * ordering on anything but two numbers or two strings, and `contains` on
+ * anything but a string or array.
+ *
+ * @param condition - Condition string or parsed expression
+ * @param variables - Declared workflow variables
+ * @returns Inferred type and any syntax or type errors
+ *
+ * @example
+ * ```typescript
+ * const result = checkCondition("score > 'high'", [
+ *   { name: 'score', type: 'number' },
+ * ]);
+ * // { valid: false, type: 'boolean', errors: ['Cannot compare number with string using ">"'] }
+ * ```
+ */
+export function checkCondition(
+  condition: string | ConditionExpression,
+  variables: WorkflowVariable[] = []
+): ConditionCheckResult {
+  let parsed: ConditionExpression;
+  try {
+    parsed =
+      typeof condition === 'string' ? parseCondition(condition) : condition;
+  } catch (error) {
+    return {
+      valid: false,
+      type: 'unknown',
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+
+  const types = new Map(variables.map((v) => [v.name, v.type]));
+  const errors: string[] = [];
+  const expression = expandRouteLabel(parsed, (name) => types.has(name));
+  const type = infer(expression, types, errors);
+
+  return { valid: errors.length === 0, type, errors };
+}
+
+/**
+ * Type checks every connection condition in a workflow
+ *
+ * @param workflow - Workflow configuration to check
+ * @returns Issues located at `connections.<index>.condition`
+ *
+ * @example
+ * ```typescript
+ * const issues = checkWorkflowConditions(workflow);
+ * issues.forEach((issue) => console.error(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function checkWorkflowConditions(
+  workflow: WorkflowConfig
+): ConditionIssue[] {
+  const issues: ConditionIssue[] = [];
+
+  workflow.connections.forEach((conn, index) => {
+    if (conn.condition === undefined) {
+      return;
+    }
+    checkCondition(conn.condition, workflow.variables).errors.forEach(
+      (message) => {
+        issues.push({
+          path: ['connections', String(index), 'condition'],
+          message,
+        });
+      }
+    );
+  });
+
+  return issues;
+}
+
+/**
+ * Helper: Infer an expression's type, collecting errors
+ */
+function infer(
+  expression: ConditionExpression,
+  types: Map<string, WorkflowVariable['type']>,
+  errors: string[]
+): ConditionValueType {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value === null
+        ? 'null'
+        : (typeof expression.value as ConditionValueType);
+
+    case 'path':
+      return inferPath(expression.segments, types, errors);
+
+    case 'not':
+      infer(expression.operand, types, errors);
+      return 'boolean';
+
+    case 'logical':
+      infer(expression.left, types, errors);
+      infer(expression.right, types, errors);
+      return 'boolean';
+
+    case 'comparison': {
+      const left = infer(expression.left, types, errors);
+      const right = infer(expression.right, types, errors);
+      const { operator } = expression;
+      const known = left !== 'unknown' && right !== 'unknown';
+
+      if (operator === '==' || operator === '!=') {
+        if (known && left !== right && left !== 'null' && right !== 'null') {
+          errors.push(
+            `Cannot compare ${left} with ${right} using "${operator}"`
+          );
+        }
+      } else if (operator === 'contains') {
+        if (left !== 'unknown' && left !== 'string' && left !== 'array') {
+          errors.push(`"contains" requires a string or array, got ${left}`);
+        } else if (
+          left === 'string' &&
+          right !== 'unknown' &&
+          right !== 'string'
+        ) {
+          errors.push(`Cannot search a string for ${right}`);
+        }
+      } else {
+        const ordered = (t: ConditionValueType) =>
+          t === 'number' || t === 'string' || t === 'unknown';
+        if (!ordered(left) || !ordered(right) || (known && left !== right)) {
+          errors.push(
+            `Cannot compare ${left} with ${right} using "${operator}"`
+          );
+        }
+      }
+      return 'boolean';
+    }
+  }
+}
+
+/**
+ * Helper: Infer the type of a variable or output path
+ */
+function inferPath(
+  segments: string[],
+  types: Map<string, WorkflowVariable['type']>,
+  errors: string[]
+): ConditionValueType {
+  const [root, ...rest] = segments;
+  if (root === 'output' || root === 'outputs') {
+    return 'unknown';
+  }
+
+  const type = types.get(root);
+  if (!type) {
+    errors.push(`Unknown variable "${root}"`);
+    return 'unknown';
+  }
+  if (rest.length === 0) {
+    return type;
+  }
+  if (
+    rest.length === 1 &&
+    rest[0] === 'length' &&
+    (type === 'string' || type === 'array')
+  ) {
+    return 'number';
+  }
+  if (type !== 'object') {
+    errors.push(
+      `Cannot read "${rest.join('.')}" of ${type} variable "${root}"`
+    );
+  }
+  return 'unknown';
+}
@@ -0,0 +1,140 @@
+/**
+ * Compiles condition expressions to TypeScript source
+ * Used by the LangGraph.js code generator
+ */
+
+import type { ConditionExpression } from '../types/conditions.js';
+
+/**
+ * Identifier that can follow a `.` in a property access
+ */
+const PROPERTY_NAME = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Compiles a parsed condition to a TypeScript boolean expression
+ *
+ * Equality is strict (`===`), `contains` becomes `.includes()`, ordering
+ * comparisons are guarded so they only hold for two numbers or two strings,
+ * as in the evaluator, and a trailing `length` segment reads the length of
+ * a possibly missing value.
+ *
+ * @param expression - Parsed condition (route labels already expanded)
+ * @param resolvePath - Returns TypeScript source reading a path
+ * @returns TypeScript expression source
+ *
+ * @example
+ * ```typescript
+ * compileConditionToTypeScript(parseCondition("status == 'ok'"), (segments) =>
+ *   typeScriptPropertyPath('values', segments)
+ * );
+ * // 'values.status === "ok"'
+ * ```
+ */
+export function compileConditionToTypeScript(
+  expression: ConditionExpression,
+  resolvePath: (segments: string[]) => string
+): string {
+  const compile = (node: ConditionExpression, nested: boolean): string => {
+    switch (node.type) {
+      case 'literal':
+        return JSON.stringify(node.value);
+
+      case 'path':
+        if (
+          node.segments.length > 1 &&
+          node.segments[node.segments.length - 1] === 'length'
+        ) {
+          return `(${resolvePath(node.segments.slice(0, -1))} ?? []).length`;
+        }
+        return resolvePath(node.segments);
+
+      case 'not':
+        return `!${compile(node.operand, true)}`;
+
+      case 'logical':
+        return wrap(
+          `${compile(node.left, true)} ${node.operator} ${compile(node.right, true)}`,
+          nested
+        );
+
+      case 'comparison': {
+        const left = compile(node.left, true);
+        const right = compile(node.right, true);
+        if (node.operator === 'contains') {
+          return `(${left} ?? []).includes(${right})`;
+        }
+        const operator =
+          node.operator === '=='
+            ? '==='
+            : node.operator === '!='
+              ? '!=='
+              : node.operator;
+        const guard =
+          operator === '===' || operator === '!=='
+            ? undefined
+            : orderingGuard(node.left, left, node.right, right);
+        return wrap(
+          `${guard ? `${guard} && ` : ''}${left} ${operator} ${right}`,
+          nested
+        );
+      }
+    }
+  };
+
+  return compile(expression, false);
+}
+
+/**
+ * Builds a chain of optional property reads from a source object
+ *
+ * @param source - TypeScript expression for the root object
+ * @param keys - Keys to read in order
+ * @returns TypeScript expression source
+ */
+export function typeScriptPropertyPath(source: string, keys: string[]): string {
+  return keys.reduce((expression, key, index) => {
+    const access = PROPERTY_NAME.test(key)
+      ? `.${key}`
+      : `[${JSON.stringify(key)}]`;
+    return index === 0
+      ? `${expression}${access}`
+      : `${expression}?${access.startsWith('.') ? access : `.${access}`}`;
+  }, source);
+}
+
+/**
+ * Helper: Type check that makes an ordering comparison safe, matching the
+ * evaluator (numbers with numbers, strings with strings)
+ */
+function orderingGuard(
+  leftNode: ConditionExpression,
+  left: string,
+  rightNode: ConditionExpression,
+  right: string
+): string | undefined {
+  const literalType = (node: ConditionExpression) =>
+    node.type === 'literal' &&
+    (typeof node.value === 'number' || typeof node.value === 'string')
+      ? typeof node.value
+      : undefined;
+
+  const leftType = literalType(leftNode);
+  const rightType = literalType(rightNode);
+  if (leftType && rightType) {
+    return undefined;
+  }
+  if (rightType) {
+    return `typeof ${left} === "${rightType}"`;
+  }
+  if (leftType) {
+    return `typeof ${right} === "${leftType}"`;
+  }
+  return `(typeof ${left} === "number" && typeof ${right} === "number" || typeof ${left} === "string" && typeof ${right} === "string")`;
+}
+
+/**
+ * Helper: Parenthesize compound expressions when nested
+ */
+function wrap(source: string, nested: boolean): string {
+  return nested ? `(${source})` : source;
+}
@@ -0,0 +1,329 @@
+/**
+ * JSON and JSON5 parsers that record the source position of every value
+ *
+ * The JSON5 parser accepts everything JSON does plus the JSON5 extensions:
+ * comments, unquoted and single-quoted keys, single-quoted strings, trailing
+ * commas, hexadecimal numbers, leading or trailing decimal points, explicit
+ * plus signs, Infinity, NaN, and escaped line breaks in strings. The JSON
+ * parser rejects them.
+ */
+
+import { createLineIndex, pathKey } from './positions.js';
+import type { ParsedSource, SourcePosition } from '../types/documents.js';
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '0': '\0',
+};
+const LINE_TERMINATORS = new Set(['\n', '\r', '\u2028', '\u2029']);
+const IDENTIFIER = /[\p{L}$_][\p{L}\p{N}$_\u200c\u200d]*/uy;
+const NUMBER =
+  /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+
+/**
+ * Parses a JSON document strictly
+ *
+ * Uses the JSON5 parser's position tracking, but rejects comments, unquoted
+ * and single-quoted keys and strings, trailing commas, JSON5 number forms
+ * and JSON5-only escapes.
+ *
+ * @param source - Document text
+ * @returns Parsed value and the position of each path
+ * @throws {Error} If the document is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * parseJson('{ "id": "agent1" }').value; // { id: 'agent1' }
+ * parseJson("{ id: 'agent1' }"); // throws: Invalid JSON at line 1, column 3: ...
+ * ```
+ */
+export function parseJson(source: string): ParsedSource {
+  return parseSource(source, 'JSON', true);
+}
+
+/**
+ * Parses a JSON or JSON5 document
+ *
+ * @param source - Document text
+ * @param label - Format name used in error messages (default: 'JSON5')
+ * @returns Parsed value and the position of each path
+ * @throws {Error} If the document is not valid JSON5
+ *
+ * @example
+ * ```typescript
+ * const { value, positions } = parseJson5("{ id: 'agent1', /* note *\/ }");
+ * positions.get(pathKey(['id'])); // { line: 1, column: 3 }
+ * ```
+ */
+export function parseJson5(source: string, label = 'JSON5'): ParsedSource {
+  return parseSource(source, label, false);
+}
+
+/**
+ * Helper: Parse a document, rejecting JSON5 extensions when strict
+ */
+function parseSource(
+  source: string,
+  label: string,
+  strict: boolean
+): ParsedSource {
+  const positionAt = createLineIndex(source);
+  const positions = new Map<string, SourcePosition>();
+  let index = 0;
+
+  const fail = (message: string, at = index): never => {
+    const where =
+      at >= source.length
+        ? 'at end of input'
+        : `at line ${positionAt(at).line}, column ${positionAt(at).column}`;
+    throw new Error(`Invalid ${label} ${where}: ${message}`);
+  };
+
+  const skipWhitespace = () => {
+    while (index < source.length) {
+      const char = source[index];
+      if (strict ? /[ \t\n\r]/.test(char) : /\s/.test(char)) {
+        index++;
+      } else if (strict && /^\/[/*]/.test(source.slice(index, index + 2))) {
+        fail('comments are not allowed');
+      } else if (source.startsWith('//', index)) {
+        while (index < source.length && !LINE_TERMINATORS.has(source[index])) {
+          index++;
+        }
+      } else if (source.startsWith('/*', index)) {
+        const end = source.indexOf('*/', index + 2);
+        if (end === -1) {
+          fail('unterminated comment');
+        }
+        index = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const describe = (at: number) =>
+    at >= source.length ? 'end of input' : `"${source[at]}"`;
+
+  const parseValue = (path: string[]): unknown => {
+    skipWhitespace();
+    const char = source[index];
+
+    if (char === '{') {
+      return parseObject(path);
+    }
+    if (char === '[') {
+      return parseArray(path);
+    }
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+    for (const [word, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      if (
+        source.startsWith(word, index) &&
+        !isIdentifierAt(index + word.length)
+      ) {
+        index += word.length;
+        return value;
+      }
+    }
+
+    const pattern = strict ? JSON_NUMBER : NUMBER;
+    pattern.lastIndex = index;
+    const number = pattern.exec(source);
+    if (number && !isIdentifierAt(index + number[0].length)) {
+      index += number[0].length;
+      return parseNumber(number[0]);
+    }
+
+    return fail(`unexpected ${describe(index)}`);
+  };
+
+  const parseObject = (path: string[]): Record<string, unknown> => {
+    const object: Record<string, unknown> = {};
+    index++;
+
+    for (;;) {
+      skipWhitespace();
+      if (source[index] === '}') {
+        checkTrailingComma();
+        index++;
+        return object;
+      }
+
+      const start = index;
+      const key = parseKey();
+      positions.set(pathKey([...path, key]), positionAt(start));
+
+      skipWhitespace();
+      if (source[index] !== ':') {
+        fail(`expected ":" but found ${describe(index)}`);
+      }
+      index++;
+
+      // Own data property, so a "__proto__" key cannot change the prototype
+      Object.defineProperty(object, key, {
+        value: parseValue([...path, key]),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+
+      skipWhitespace();
+      if (source[index] === ',') {
+        index++;
+      } else if (source[index] !== '}') {
+        fail(`expected "," or "}" but found ${describe(index)}`);
+      }
+    }
+  };
+
+  const parseArray = (path: string[]): unknown[] => {
+    const array: unknown[] = [];
+    index++;
+
+    for (;;) {
+      skipWhitespace();
+      if (source[index] === ']') {
+        checkTrailingComma();
+        index++;
+        return array;
+      }
+
+      const itemPath = [...path, String(array.length)];
+      positions.set(pathKey(itemPath), positionAt(index));
+      array.push(parseValue(itemPath));
+
+      skipWhitespace();
+      if (source[index] === ',') {
+        index++;
+      } else if (source[index] !== ']') {
+        fail(`expected "," or "]" but found ${describe(index)}`);
+      }
+    }
+  };
+
+  const checkTrailingComma = () => {
+    let before = index - 1;
+    while (before >= 0 && /\s/.test(source[before])) {
+      before--;
+    }
+    if (strict && source[before] === ',') {
+      fail('trailing commas are not allowed', before);
+    }
+  };
+
+  const parseKey = (): string => {
+    const char = source[index];
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+    if (strict) {
+      return fail(`expected a property name but found ${describe(index)}`);
+    }
+    IDENTIFIER.lastIndex = index;
+    const identifier = IDENTIFIER.exec(source);
+    if (!identifier) {
+      return fail(`expected a property name but found ${describe(index)}`);
+    }
+    index += identifier[0].length;
+    return identifier[0];
+  };
+
+  const parseString = (): string => {
+    const start = index;
+    const quote = source[index++];
+    let value = '';
+    if (strict && quote === "'") {
+      fail('single-quoted strings are not allowed', start);
+    }
+
+    while (index < source.length) {
+      const char = source[index];
+      if (char === quote) {
+        index++;
+        return value;
+      }
+      if (char === '\n' || char === '\r') {
+        fail('unterminated string', start);
+      }
+      if (char !== '\\') {
+        value += char;
+        index++;
+        continue;
+      }
+
+      const next = source[index + 1];
+      index += 2;
+      if (next === undefined) {
+        break;
+      } else if (strict && !JSON_ESCAPES.has(next)) {
+        fail(`invalid escape "\\${next}"`, index - 2);
+      } else if (LINE_TERMINATORS.has(next)) {
+        // Escaped line break continues the string on the next line
+        if (next === '\r' && source[index] === '\n') {
+          index++;
+        }
+      } else if (next === 'x' || next === 'u') {
+        const length = next === 'x' ? 2 : 4;
+        const hex = source.slice(index, index + length);
+        if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+          fail(`invalid \\${next} escape`, index - 2);
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        index += length;
+      } else if (next === '0' && /\d/.test(source[index] ?? '')) {
+        fail('octal escapes are not allowed', index - 2);
+      } else {
+        value += ESCAPES[next] ?? next;
+      }
+    }
+
+    return fail('unterminated string', start);
+  };
+
+  const isIdentifierAt = (at: number) => {
+    IDENTIFIER.lastIndex = at;
+    return IDENTIFIER.test(source) || /\d/.test(source[at] ?? '');
+  };
+
+  skipWhitespace();
+  positions.set(pathKey([]), positionAt(index));
+  const value = parseValue([]);
+  skipWhitespace();
+  if (index < source.length) {
+    fail(`unexpected ${describe(index)}`);
+  }
+
+  return { value, positions };
+}
+
+/**
+ * Helper: Convert a JSON5 number literal to a number
+ */
+function parseNumber(literal: string): number {
+  const sign = literal.startsWith('-') ? -1 : 1;
+  const unsigned = literal.replace(/^[+-]/, '');
+
+  if (unsigned === 'Infinity') {
+    return sign * Infinity;
+  }
+  if (unsigned === 'NaN') {
+    return NaN;
+  }
+  if (/^0[xX]/.test(unsigned)) {
+    return sign * parseInt(unsigned.slice(2), 16);
+  }
+  return sign * Number(unsigned);
+}
@@ -0,0 +1,175 @@
+/**
+ * Loads agent and workflow documents from YAML, JSON or JSON5 source text
+ */
+
+import { parseJson, parseJson5 } from './json5.js';
+import { pathKey } from './positions.js';
+import { parseYaml } from './yaml.js';
+import { validateAgentConfig } from '../utils/validator.js';
+import { validateWorkflowConfig } from '../utils/workflow-validator.js';
+import type { ValidationResult } from '../types/agent.js';
+import type { WorkflowValidationResult } from '../types/workflow.js';
+import type {
+  DocumentFormat,
+  DocumentLoadOptions,
+  LoadedDocument,
+  ParsedSource,
+} from '../types/documents.js';
+
+type DocumentValidationResult<T> = Omit<ValidationResult, 'data'> & {
+  data?: T;
+};
+
+/**
+ * Detects a document's format from its file extension
+ *
+ * @param file - File name or path
+ * @returns 'json' for `.json`, 'json5' for `.json5`, otherwise 'yaml'
+ *   (YAML is a superset of JSON, so unknown extensions still load JSON)
+ *
+ * @example
+ * ```typescript
+ * detectDocumentFormat('agents/researcher.yml'); // 'yaml'
+ * ```
+ */
+export function detectDocumentFormat(file: string): DocumentFormat {
+  const extension = /\.([^./\\]+)$/.exec(file)?.[1]?.toLowerCase();
+  if (extension === 'json' || extension === 'json5') {
+    return extension;
+  }
+  return 'yaml';
+}
+
+/**
+ * Parses a YAML, JSON or JSON5 document, keeping the source position of each path
+ *
+ * @param source - Document text
+ * @param options - Format and file name
+ * @returns The parsed data and a function locating paths in the source
+ * @throws {Error} If the document cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const document = loadDocument(fs.readFileSync(file, 'utf-8'), { file });
+ * document.locate(['tools', '0', 'name']); // { file, line: 7, column: 7 }
+ * ```
+ */
+export function loadDocument(
+  source: string,
+  options: DocumentLoadOptions = {}
+): LoadedDocument {
+  const { file } = options;
+  const format = options.format ?? (file ? detectDocumentFormat(file) : 'yaml');
+
+  const parsed: ParsedSource =
+    format === 'yaml'
+      ? parseYaml(source)
+      : format === 'json'
+        ? parseJson(source)
+        : parseJson5(source);
+
+  return {
+    data: parsed.value,
+    format,
+    file,
+    locate: (path) => {
+      for (let length = path.length; length >= 0; length--) {
+        const position = parsed.positions.get(pathKey(path.slice(0, length)));
+        if (position) {
+          return file ? { file, ...position } : { ...position };
+        }
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Adds file, line and column to validation issues
+ *
+ * @param issues - Issues located by path
+ * @param document - Document the issues were found in
+ * @returns The issues with source locations
+ *
+ * @example
+ * ```typescript
+ * const result = validateWorkflowConfig(document.data);
+ * const issues = locateIssues(result.error?.issues ?? [], document);
+ * ```
+ */
+export function locateIssues<T extends { path: string[] }>(
+  issues: T[],
+  document: LoadedDocument
+): Array<T & { file?: string; line?: number; column?: number }> {
+  return issues.map((issue) => ({ ...issue, ...document.locate(issue.path) }));
+}
+
+/**
+ * Loads and validates an agent configuration from YAML, JSON or JSON5
+ *
+ * @param source - Document text
+ * @param options - Format and file name
+ * @returns Validation result whose issues carry file, line and column
+ *
+ * @example
+ * ```typescript
+ * const result = validateAgentDocument(yamlText, { file: 'agent.yaml' });
+ * result.error?.issues?.forEach((issue) =>
+ *   console.error(`${issue.file}:${issue.line}:${issue.column} ${issue.message}`)
+ * );
+ * ```
+ */
+export function validateAgentDocument(
+  source: string,
+  options: DocumentLoadOptions = {}
+): ValidationResult {
+  return validateDocument(source, options, validateAgentConfig);
+}
+
+/**
+ * Loads and validates a workflow configuration from YAML, JSON or JSON5
+ *
+ * @param source - Document text
+ * @param options - Format and file name
+ * @returns Validation result whose issues carry file, line and column
+ *
+ * @example
+ * ```typescript
+ * const result = validateWorkflowDocument(text, { file: 'workflow.json5' });
+ * ```
+ */
+export function validateWorkflowDocument(
+  source: string,
+  options: DocumentLoadOptions = {}
+): WorkflowValidationResult {
+  return validateDocument(source, options, validateWorkflowConfig);
+}
+
+/**
+ * Helper: Load a document, validate it and locate the issues
+ */
+function validateDocument<T>(
+  source: string,
+  options: DocumentLoadOptions,
+  validate: (config: unknown) => DocumentValidationResult<T>
+): DocumentValidationResult<T> {
+  let document: LoadedDocument;
+  try {
+    document = loadDocument(source, options);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: {
+        message: 'Failed to parse document',
+        issues: [{ path: [], message, file: options.file }],
+      },
+    };
+  }
+
+  const result = validate(document.data);
+  if (result.error?.issues) {
+    result.error.issues = locateIssues(result.error.issues, document);
+  }
+  return result;
+}
@@ -0,0 +1,47 @@
+/**
+ * Shared helpers for tracking source positions of document paths
+ */
+
+import type { SourcePosition } from '../types/documents.js';
+
+/**
+ * Builds the key a path is stored under in a position map
+ *
+ * @param path - Path to a value (object keys and array indices)
+ * @returns Map key for the path
+ */
+export function pathKey(path: Array<string | number>): string {
+  return JSON.stringify(path.map(String));
+}
+
+/**
+ * Creates a function converting character offsets to line and column
+ *
+ * @param source - Source text
+ * @returns Function returning the 1-based position of an offset
+ */
+export function createLineIndex(
+  source: string
+): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\n' || (char === '\r' && source[i + 1] !== '\n')) {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
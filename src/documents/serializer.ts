@@ -0,0 +1,153 @@
+/**
+ * Serializes agent and workflow configurations to YAML or JSON
+ */
+
+import { stringify } from 'yaml';
+import { z } from 'zod';
+import { AgentConfigSchema } from '../schemas/agent.schema.js';
+import { WorkflowConfigSchema } from '../schemas/workflow.schema.js';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/versions.js';
+import type { AgentConfig } from '../types/agent.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+import type { DocumentSerializeOptions } from '../types/documents.js';
+
+/**
+ * Serializes an agent configuration
+ *
+ * Keys are written in the order the schema declares them (`schemaVersion`,
+ * `id`, `name`, `description`, `provider`, `model`, ...), followed by any
+ * other keys in their original order, so output is stable and diffs stay
+ * small. Multi-line strings such as system prompts are written as YAML block
+ * scalars. `schemaVersion` is always written (the current version if the
+ * configuration has none), so the file is never mistaken for a legacy one.
+ *
+ * @param config - Agent configuration to serialize
+ * @param options - Output format and indentation
+ * @returns Serialized document
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync('agent.yaml', serializeAgentConfig(agent));
+ * ```
+ */
+export function serializeAgentConfig(
+  config: AgentConfig,
+  options: DocumentSerializeOptions = {}
+): string {
+  return serialize(
+    orderKeys(withSchemaVersion(config), AgentConfigSchema),
+    options
+  );
+}
+
+/**
+ * Serializes a workflow configuration
+ *
+ * Keys are ordered as in `serializeAgentConfig`, including inside nodes,
+ * connections, embedded agents, the trigger and variables. Embedded agents
+ * share the workflow's `schemaVersion`.
+ *
+ * @param config - Workflow configuration to serialize
+ * @param options - Output format and indentation
+ * @returns Serialized document
+ *
+ * @example
+ * ```typescript
+ * const json = serializeWorkflowConfig(workflow, { format: 'json' });
+ * ```
+ */
+export function serializeWorkflowConfig(
+  config: WorkflowConfig,
+  options: DocumentSerializeOptions = {}
+): string {
+  return serialize(
+    orderKeys(withSchemaVersion(config), WorkflowConfigSchema),
+    options
+  );
+}
+
+/**
+ * Helper: Declare the current schema version on a typed configuration
+ */
+function withSchemaVersion<T extends { schemaVersion?: string }>(config: T): T {
+  return {
+    ...config,
+    schemaVersion: config.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Helper: Write a value in the requested format
+ */
+function serialize(value: unknown, options: DocumentSerializeOptions): string {
+  const { format = 'yaml', indent = 2 } = options;
+  if (format === 'json') {
+    return `${JSON.stringify(value, null, indent)}\n`;
+  }
+  return stringify(value, { indent, lineWidth: 0 });
+}
+
+/**
+ * Helper: Reorder object keys to follow the schema's declaration order
+ */
+function orderKeys(value: unknown, schema: z.ZodTypeAny): unknown {
+  const inner = unwrap(schema);
+
+  if (Array.isArray(value)) {
+    const item = inner instanceof z.ZodArray ? inner.element : undefined;
+    return value.map((entry) => (item ? orderKeys(entry, item) : entry));
+  }
+  if (
+    inner instanceof z.ZodDiscriminatedUnion &&
+    value !== null &&
+    typeof value === 'object'
+  ) {
+    // Order by the option the discriminator selects (e.g. the tool kind)
+    const option = inner.optionsMap.get(
+      (value as Record<string, unknown>)[inner.discriminator] as z.Primitive
+    );
+    return option ? orderKeys(value, option) : value;
+  }
+  if (
+    value === null ||
+    typeof value !== 'object' ||
+    !(inner instanceof z.ZodObject)
+  ) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const shape = inner.shape as Record<string, z.ZodTypeAny>;
+  const has = (object: object, key: string) =>
+    Object.prototype.hasOwnProperty.call(object, key);
+  const keys = [
+    ...Object.keys(shape).filter((key) => has(record, key)),
+    ...Object.keys(record).filter((key) => !has(shape, key)),
+  ];
+
+  const ordered: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (record[key] !== undefined) {
+      ordered[key] = has(shape, key)
+        ? orderKeys(record[key], shape[key])
+        : record[key];
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Helper: Strip optional, nullable, default and refinement wrappers
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrap(schema.innerType());
+  }
+  return schema;
+}
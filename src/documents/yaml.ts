@@ -0,0 +1,69 @@
+/**
+ * YAML parsing with source positions, built on the `yaml` package
+ */
+
+import { LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Node } from 'yaml';
+import { pathKey } from './positions.js';
+import type { ParsedSource, SourcePosition } from '../types/documents.js';
+
+/**
+ * Parses a YAML document
+ *
+ * Keys must be unique. Anchors and aliases are resolved.
+ *
+ * @param source - Document text
+ * @returns Parsed value and the position of each path
+ * @throws {Error} If the document is not valid YAML
+ *
+ * @example
+ * ```typescript
+ * const { value, positions } = parseYaml('id: agent1\nmodel: gpt-4\n');
+ * positions.get(pathKey(['model'])); // { line: 2, column: 1 }
+ * ```
+ */
+export function parseYaml(source: string): ParsedSource {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter });
+
+  if (document.errors.length > 0) {
+    const [first] = document.errors[0].message.split('\n');
+    throw new Error(`Invalid YAML: ${first.replace(/:$/, '')}`);
+  }
+
+  const positions = new Map<string, SourcePosition>();
+  const positionAt = (offset: number): SourcePosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  const visit = (node: unknown, path: string[]) => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key)
+          ? String(pair.key.value)
+          : String(pair.key);
+        const keyNode = pair.key as Node | null;
+        const offset = keyNode?.range?.[0] ?? (pair.value as Node)?.range?.[0];
+        if (offset !== undefined) {
+          positions.set(pathKey([...path, key]), positionAt(offset));
+        }
+        visit(pair.value, [...path, key]);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        const offset = (item as Node | null)?.range?.[0];
+        if (offset !== undefined) {
+          positions.set(pathKey([...path, String(index)]), positionAt(offset));
+        }
+        visit(item, [...path, String(index)]);
+      });
+    }
+  };
+
+  const root = document.contents;
+  positions.set(pathKey([]), positionAt(root?.range?.[0] ?? 0));
+  visit(root, []);
+
+  return { value: document.toJS() ?? null, positions };
+}
@@ -0,0 +1,218 @@
+/**
+ * Environment overlays: applies a workflow's named environment patches and
+ * compares environments
+ */
+
+import { resolveAgentReferences } from '../agents/references.js';
+import { validateWorkflowConfigStrict } from '../utils/workflow-validator.js';
+import type { EnvironmentDifference } from '../types/environments.js';
+import type {
+  WorkflowConfig,
+  WorkflowValidationOptions,
+} from '../types/workflow.js';
+
+/**
+ * Applies a named environment overlay to a workflow
+ *
+ * Node patches replace an agent node's `provider` and `model` and merge its
+ * `parameters` key by key; the trigger patch merges into `trigger.config`;
+ * variable values replace the declared variables' `defaultValue`. The
+ * result has no `environments` and is validated. Nodes that only reference
+ * an agent by ID can be patched when `options.agents` resolves them.
+ *
+ * @param workflow - Workflow with `environments`
+ * @param environment - Environment name (e.g. 'prod')
+ * @param options - Validation options, also used to resolve `agentId`
+ *   references
+ * @returns The validated workflow for the environment
+ * @throws {Error} If the environment is not declared, or patches a node,
+ *   trigger or variable the workflow does not have
+ * @throws {ZodError} If the patched workflow is invalid
+ *
+ * @example
+ * ```typescript
+ * const workflow = {
+ *   ...,
+ *   environments: {
+ *     dev: { nodes: { writer: { model: 'gpt-4o-mini' } } },
+ *     prod: {
+ *       nodes: { writer: { model: 'gpt-4o', parameters: { temperature: 0.2 } } },
+ *       trigger: { config: { webhookUrl: 'https://api.example.com/hooks/support' } },
+ *     },
+ *   },
+ * };
+ *
+ * const prod = resolveEnvironment(workflow, 'prod');
+ * ```
+ */
+export function resolveEnvironment(
+  workflow: WorkflowConfig,
+  environment: string,
+  options: WorkflowValidationOptions = {}
+): WorkflowConfig {
+  const overlay = workflow.environments?.[environment];
+  if (!overlay) {
+    const declared = Object.keys(workflow.environments ?? {});
+    throw new Error(
+      `Unknown environment "${environment}"; declared environments: ${declared.join(', ') || 'none'}`
+    );
+  }
+
+  const base: WorkflowConfig = { ...workflow };
+  delete base.environments;
+  const resolved = options.agents
+    ? resolveAgentReferences(base, options.agents).workflow
+    : base;
+
+  const nodes = [...resolved.nodes];
+  Object.entries(overlay.nodes ?? {}).forEach(([nodeId, patch]) => {
+    const index = nodes.findIndex((node) => node.id === nodeId);
+    if (index < 0) {
+      throw new Error(
+        `Environment "${environment}" patches unknown node "${nodeId}"`
+      );
+    }
+    const agent = nodes[index].agent;
+    if (!agent) {
+      throw new Error(
+        `Environment "${environment}" patches node "${nodeId}", which has no inline agent; pass an agent registry to resolve its agentId`
+      );
+    }
+    nodes[index] = {
+      ...nodes[index],
+      agent: {
+        ...agent,
+        ...(patch.provider !== undefined && { provider: patch.provider }),
+        ...(patch.model !== undefined && { model: patch.model }),
+        ...(patch.parameters && {
+          parameters: { ...agent.parameters, ...patch.parameters },
+        }),
+      },
+    };
+  });
+
+  let trigger = resolved.trigger;
+  if (overlay.trigger?.config) {
+    if (!trigger) {
+      throw new Error(
+        `Environment "${environment}" patches the trigger, but the workflow has none`
+      );
+    }
+    trigger = {
+      ...trigger,
+      config: { ...trigger.config, ...overlay.trigger.config },
+    };
+  }
+
+  const variables = resolved.variables?.map((variable) =>
+    overlay.variables && variable.name in overlay.variables
+      ? { ...variable, defaultValue: overlay.variables[variable.name] }
+      : variable
+  );
+  Object.keys(overlay.variables ?? {}).forEach((name) => {
+    if (!variables?.some((variable) => variable.name === name)) {
+      throw new Error(
+        `Environment "${environment}" sets undeclared variable "${name}"`
+      );
+    }
+  });
+
+  return validateWorkflowConfigStrict(
+    {
+      ...resolved,
+      nodes,
+      ...(trigger && { trigger }),
+      ...(variables && { variables }),
+    },
+    options
+  );
+}
+
+/**
+ * Lists the values that differ between two environments of a workflow
+ *
+ * @param workflow - Workflow with `environments`
+ * @param from - First environment name
+ * @param to - Second environment name
+ * @param options - Validation options, passed to `resolveEnvironment`
+ * @returns Differences between the resolved workflows
+ * @throws {Error} As `resolveEnvironment`
+ *
+ * @example
+ * ```typescript
+ * diffEnvironments(workflow, 'dev', 'prod');
+ * // [{ path: ['nodes', '1', 'agent', 'model'], from: 'gpt-4o-mini', to: 'gpt-4o' }, ...]
+ * ```
+ */
+export function diffEnvironments(
+  workflow: WorkflowConfig,
+  from: string,
+  to: string,
+  options: WorkflowValidationOptions = {}
+): EnvironmentDifference[] {
+  return diffWorkflows(
+    resolveEnvironment(workflow, from, options),
+    resolveEnvironment(workflow, to, options)
+  );
+}
+
+/**
+ * Lists the values that differ between two workflow configurations
+ *
+ * Objects are compared key by key and arrays index by index; every other
+ * difference is reported at its path. Use it to compare an environment
+ * with the base workflow.
+ *
+ * @param from - First workflow
+ * @param to - Second workflow
+ * @returns Differences, in document order
+ *
+ * @example
+ * ```typescript
+ * const base = validateWorkflowConfigStrict({
+ *   ...workflow,
+ *   environments: undefined,
+ * });
+ * diffWorkflows(base, resolveEnvironment(workflow, 'prod'));
+ * ```
+ */
+export function diffWorkflows(
+  from: WorkflowConfig,
+  to: WorkflowConfig
+): EnvironmentDifference[] {
+  const differences: EnvironmentDifference[] = [];
+  compare(from, to, [], differences);
+  return differences;
+}
+
+/**
+ * Helper: Record the differences between two values
+ */
+function compare(
+  from: unknown,
+  to: unknown,
+  path: string[],
+  differences: EnvironmentDifference[]
+): void {
+  if (Object.is(from, to)) {
+    return;
+  }
+  if (Array.isArray(from) && Array.isArray(to)) {
+    for (let i = 0; i < Math.max(from.length, to.length); i++) {
+      compare(from[i], to[i], [...path, String(i)], differences);
+    }
+  } else if (isRecord(from) && isRecord(to)) {
+    new Set([...Object.keys(from), ...Object.keys(to)]).forEach((key) =>
+      compare(from[key], to[key], [...path, key], differences)
+    );
+  } else {
+    differences.push({ path, from, to });
+  }
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
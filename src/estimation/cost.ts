@@ -0,0 +1,312 @@
+/**
+ * Token and cost estimation for agents and workflows
+ * Estimates what a run costs from prompt sizes, output limits and model prices
+ */
+
+import { getWorkflowTopologicalOrder } from '../utils/workflow-validator.js';
+import { resolveAgentReferences } from '../agents/references.js';
+import { getLoopBody } from '../runtime/loops.js';
+import { defaultModelCatalog } from '../models/catalog.js';
+import { BUILT_IN_PRICING, getModelPricing } from '../models/pricing.js';
+import type { AgentConfig } from '../types/agent.js';
+import type {
+  CostEstimate,
+  CostEstimateOptions,
+  CostEstimateWarning,
+  EstimateRange,
+  NodeCostEstimate,
+} from '../types/estimation.js';
+import type { WorkflowConfig, WorkflowConnection } from '../types/workflow.js';
+
+/**
+ * Average characters per token of English text and JSON
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the tokens in a text
+ *
+ * A tokenizer-free approximation (about four characters per token); pass
+ * `countTokens` to the estimators to use a real tokenizer.
+ *
+ * @param text - Text to measure
+ * @returns Approximate token count
+ *
+ * @example
+ * ```typescript
+ * estimateTokens('You are a helpful assistant.'); // 7
+ * ```
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the tokens and cost of one agent call
+ *
+ * Input is the system prompt, the tool definitions and `options.inputTokens`;
+ * output is at most `parameters.maxTokens`, else the model's output limit,
+ * else `options.defaultMaxTokens`. The best case assumes no output, the
+ * worst case a full one.
+ *
+ * @param agent - Agent configuration
+ * @param options - Estimation options
+ * @returns Estimate with the agent as its only node
+ *
+ * @example
+ * ```typescript
+ * const { cost, warnings } = estimateAgentCost(agent, { inputTokens: 500 });
+ * console.log(`$${cost.best.toFixed(4)} - $${cost.worst.toFixed(4)}`);
+ * ```
+ */
+export function estimateAgentCost(
+  agent: AgentConfig,
+  options: CostEstimateOptions = {}
+): CostEstimate {
+  const warnings: CostEstimateWarning[] = [];
+  const node = estimateNode(
+    agent.id,
+    agent,
+    { min: 1, max: 1 },
+    [],
+    options,
+    warnings
+  );
+  return summarize([node], warnings);
+}
+
+/**
+ * Estimates the tokens and cost of a workflow run
+ *
+ * Each agent node is estimated as in `estimateAgentCost`, times the number
+ * of times it runs. A node is skipped in the best case when every path to
+ * it passes a connection with a condition. Loop bodies run
+ * `minLoopIterations` times in the best case and `maxLoopIterations` times
+ * in the worst case, multiplied through nested loops. Agent nodes are
+ * resolved through `options.agents`; unresolved nodes, models without a
+ * price, and prompts plus tools that exceed the model's context window are
+ * reported as warnings.
+ *
+ * @param workflow - Workflow configuration
+ * @param options - Estimation options
+ * @returns Per-node and total best-case and worst-case tokens and cost
+ * @throws {Error} If the workflow has cycles
+ *
+ * @example
+ * ```typescript
+ * const estimate = estimateWorkflowCost(workflow, {
+ *   agents,
+ *   inputTokens: 1000,
+ *   maxLoopIterations: 20,
+ *   pricing: { ...BUILT_IN_PRICING, custom: { 'llama-3': { input: 0, output: 0 } } },
+ * });
+ *
+ * estimate.nodes.forEach((node) => console.log(node.nodeId, node.cost));
+ * estimate.warnings.forEach((w) => console.warn(w.path.join('.'), w.message));
+ * ```
+ */
+export function estimateWorkflowCost(
+  workflow: WorkflowConfig,
+  options: CostEstimateOptions = {}
+): CostEstimate {
+  const order = getWorkflowTopologicalOrder(workflow);
+  if (!order) {
+    throw new Error(
+      `Workflow "${workflow.id}" has cycles and cannot be estimated`
+    );
+  }
+
+  const { workflow: resolved } = options.agents
+    ? resolveAgentReferences(workflow, options.agents)
+    : { workflow };
+  const runs = countNodeRuns(
+    resolved,
+    order,
+    options.minLoopIterations ?? 1,
+    options.maxLoopIterations ?? 100
+  );
+
+  const warnings: CostEstimateWarning[] = [];
+  const nodes: NodeCostEstimate[] = [];
+  resolved.nodes.forEach((node, index) => {
+    if (node.type !== 'agent') {
+      return;
+    }
+    const path = ['nodes', String(index)];
+    if (!node.agent) {
+      warnings.push({
+        path,
+        message: `Agent "${node.agentId ?? ''}" of node "${node.id}" was not resolved; the node is not estimated`,
+      });
+      return;
+    }
+    nodes.push(
+      estimateNode(
+        node.id,
+        node.agent,
+        runs.get(node.id)!,
+        path,
+        options,
+        warnings
+      )
+    );
+  });
+
+  return summarize(nodes, warnings);
+}
+
+/**
+ * Helper: Estimate an agent node that runs the given number of times
+ */
+function estimateNode(
+  nodeId: string,
+  agent: AgentConfig,
+  runs: { min: number; max: number },
+  path: string[],
+  options: CostEstimateOptions,
+  warnings: CostEstimateWarning[]
+): NodeCostEstimate {
+  const countTokens = options.countTokens ?? estimateTokens;
+  const model = (options.models ?? defaultModelCatalog).getModel(
+    agent.provider,
+    agent.model
+  );
+
+  const promptTokens = countTokens(agent.systemPrompt ?? '');
+  const toolTokens = (agent.tools ?? []).reduce(
+    (sum, tool) =>
+      sum +
+      countTokens(
+        JSON.stringify({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters ?? {},
+        })
+      ),
+    0
+  );
+  const inputTokens = promptTokens + toolTokens + (options.inputTokens ?? 0);
+  const maxOutputTokens =
+    agent.parameters?.maxTokens ??
+    model?.maxOutputTokens ??
+    options.defaultMaxTokens ??
+    4096;
+
+  if (model && inputTokens > model.contextWindow) {
+    warnings.push({
+      path,
+      message: `Node "${nodeId}" sends ${inputTokens} input tokens per call, more than the ${model.contextWindow}-token context window of model "${model.id}"`,
+    });
+  }
+
+  const estimate: NodeCostEstimate = {
+    nodeId,
+    provider: agent.provider,
+    model: agent.model,
+    promptTokens,
+    toolTokens,
+    inputTokens,
+    maxOutputTokens,
+    runs,
+    tokens: {
+      best: runs.min * inputTokens,
+      worst: runs.max * (inputTokens + maxOutputTokens),
+    },
+  };
+
+  const price = getModelPricing(
+    options.pricing ?? BUILT_IN_PRICING,
+    agent.provider,
+    agent.model
+  );
+  if (!price) {
+    warnings.push({
+      path,
+      message: `No price for ${agent.provider} model "${agent.model}"; node "${nodeId}" is left out of the cost`,
+    });
+    return estimate;
+  }
+
+  const inputCost = (inputTokens * price.input) / 1_000_000;
+  const outputCost = (maxOutputTokens * price.output) / 1_000_000;
+  estimate.cost = {
+    best: runs.min * inputCost,
+    worst: runs.max * (inputCost + outputCost),
+  };
+  return estimate;
+}
+
+/**
+ * Helper: Total the node estimates
+ */
+function summarize(
+  nodes: NodeCostEstimate[],
+  warnings: CostEstimateWarning[]
+): CostEstimate {
+  const total = (ranges: EstimateRange[]): EstimateRange => ({
+    best: ranges.reduce((sum, range) => sum + range.best, 0),
+    worst: ranges.reduce((sum, range) => sum + range.worst, 0),
+  });
+
+  return {
+    nodes,
+    tokens: total(nodes.map((node) => node.tokens)),
+    cost: total(nodes.flatMap((node) => (node.cost ? [node.cost] : []))),
+    warnings,
+  };
+}
+
+/**
+ * Helper: Fewest and most runs of each node in one workflow run
+ */
+function countNodeRuns(
+  workflow: WorkflowConfig,
+  order: string[],
+  minLoopIterations: number,
+  maxLoopIterations: number
+): Map<string, { min: number; max: number }> {
+  const outgoing = new Map<string, WorkflowConnection[]>();
+  const targets = new Set<string>();
+  workflow.connections.forEach((conn) => {
+    outgoing.set(conn.sourceId, [...(outgoing.get(conn.sourceId) || []), conn]);
+    targets.add(conn.targetId);
+  });
+
+  // Loop bodies run once per iteration, nested loops multiply
+  const iterations = new Map(order.map((id) => [id, { min: 1, max: 1 }]));
+  workflow.nodes
+    .filter((node) => node.type === 'loop')
+    .forEach((loop) => {
+      getLoopBody(loop.id, outgoing).nodeIds.forEach((id) => {
+        const count = iterations.get(id)!;
+        count.min *= minLoopIterations;
+        count.max *= maxLoopIterations;
+      });
+    });
+
+  // Nodes behind a condition may be skipped; end nodes lead nowhere
+  const reached = new Set(order.filter((id) => !targets.has(id)));
+  const guaranteed = new Set(reached);
+  const types = new Map(workflow.nodes.map((node) => [node.id, node.type]));
+  order.forEach((id) => {
+    if (!reached.has(id) || types.get(id) === 'end') {
+      return;
+    }
+    (outgoing.get(id) || []).forEach((conn) => {
+      reached.add(conn.targetId);
+      if (!conn.condition && guaranteed.has(id)) {
+        guaranteed.add(conn.targetId);
+      }
+    });
+  });
+
+  return new Map(
+    order.map((id) => [
+      id,
+      {
+        min: guaranteed.has(id) ? iterations.get(id)!.min : 0,
+        max: reached.has(id) ? iterations.get(id)!.max : 0,
+      },
+    ])
+  );
+}
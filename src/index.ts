@@ -17,7 +17,19 @@ export type {
   AIProvider,
   MemoryConfig,
   Tool,
+  ToolKind,
+  ToolBase,
+  FunctionTool,
+  HttpTool,
+  HttpMethod,
+  McpTool,
+  McpServer,
+  CodeTool,
+  RetrieverTool,
+  KnowledgeSource,
+  ToolIssue,
   ModelParameters,
+  AgentValidationOptions,
   ValidationResult,
 } from './types/agent.js';
 
@@ -27,9 +39,26 @@ export {
   AIProviderSchema,
   MemoryConfigSchema,
   ToolSchema,
+  FunctionToolSchema,
+  HttpToolSchema,
+  McpToolSchema,
+  CodeToolSchema,
+  RetrieverToolSchema,
   ModelParametersSchema,
 } from './schemas/agent.schema.js';
 
+// Export tool kind helpers
+export {
+  getToolKind,
+  getToolSettings,
+  getUrlTemplateVariables,
+  checkToolArguments,
+} from './tools/kinds.js';
+export {
+  checkToolParameters,
+  checkAgentToolParameters,
+} from './tools/parameters.js';
+
 // Export validators
 export {
   validateAgentConfig,
@@ -55,6 +84,7 @@ export type {
   WorkflowTrigger,
   WorkflowVariable,
   NodePosition,
+  WorkflowValidationOptions,
   WorkflowValidationResult,
   WorkflowExecutionContext,
 } from './types/workflow.js';
@@ -67,6 +97,7 @@ export {
   WorkflowTriggerSchema,
   WorkflowVariableSchema,
   NodePositionSchema,
+  WorkflowEnvironmentSchema,
 } from './schemas/workflow.schema.js';
 
 // Export workflow validators
@@ -97,6 +128,7 @@ export type {
   N8nParameter,
   N8nParameterType,
   N8nAdapterOptions,
+  N8nImportOptions,
   // LangChain types
   LangChainAgent,
   LangChainTool,
@@ -105,26 +137,451 @@ export type {
   LangGraphWorkflow,
   LangGraphNode,
   LangChainAdapterOptions,
+  LangGraphImportOptions,
   // CrewAI types
   CrewAIAgent,
+  CrewAITool,
   CrewAITask,
   CrewAICrew,
   CrewAIRole,
   CrewAIProcess,
   CrewAIAdapterOptions,
+  CrewAIImportOptions,
+  CrewAIProjectOptions,
+  // AutoGen types
+  AutoGenModelInfo,
+  AutoGenModelClient,
+  AutoGenTool,
+  AutoGenModelContext,
+  AutoGenAssistantAgent,
+  AutoGenTeamType,
+  AutoGenTermination,
+  AutoGenGraphEdge,
+  AutoGenTeam,
+  AutoGenAdapterOptions,
+  AutoGenImportOptions,
+  // Import types
+  AdapterImportIssue,
+  WorkflowImportResult,
+  // Fidelity report types
+  FidelityIssue,
+  FidelityIssueKind,
+  FidelitySeverity,
+  FidelityReport,
+  ConversionResult,
+  // Registry types
+  AdapterCapability,
+  AdapterInfo,
+  AdapterRegistry,
+  AdapterTypes,
+  BuiltInAdapterTypes,
+  FrameworkAdapter,
 } from './types/adapters.js';
 
+// Export adapter schemas
+export {
+  AdapterCapabilitySchema,
+  AdapterInfoSchema,
+  N8nAdapterOptionsSchema,
+  LangChainAdapterOptionsSchema,
+  CrewAIAdapterOptionsSchema,
+  AutoGenAdapterOptionsSchema,
+} from './schemas/adapter.schema.js';
+
 // Export n8n adapter
-export { mapAgentToN8nNode, mapWorkflowToN8n } from './adapters/n8n.adapter.js';
+export {
+  mapAgentToN8nNode,
+  mapWorkflowToN8n,
+  mapAgentToN8nNodeWithReport,
+  mapWorkflowToN8nWithReport,
+  mapN8nToWorkflow,
+  compileConditionToN8n,
+} from './adapters/n8n.adapter.js';
 
 // Export LangChain adapter
 export {
   mapAgentToLangChain,
   mapWorkflowToLangGraph,
+  mapAgentToLangChainWithReport,
+  mapWorkflowToLangGraphWithReport,
+  mapLangGraphToWorkflow,
+  compileConditionToLangGraphRouter,
 } from './adapters/langchain.adapter.js';
 
 // Export CrewAI adapter
 export {
   mapAgentToCrewAgent,
   mapWorkflowToCrew,
+  mapAgentToCrewAgentWithReport,
+  mapWorkflowToCrewWithReport,
+  mapCrewAgentToAgent,
+  mapCrewToWorkflow,
+  compileConditionToCrewAI,
 } from './adapters/crewai.adapter.js';
+
+// Export AutoGen adapter
+export {
+  mapAgentToAutoGen,
+  mapWorkflowToAutoGen,
+  mapAgentToAutoGenWithReport,
+  mapWorkflowToAutoGenWithReport,
+  mapAutoGenAgentToAgent,
+  mapAutoGenTeamToWorkflow,
+  compileConditionToAutoGen,
+} from './adapters/autogen.adapter.js';
+
+// Export adapter registry
+export {
+  createAdapterRegistry,
+  defaultAdapterRegistry,
+  registerAdapter,
+  listAdapters,
+  convert,
+  convertAgent,
+  convertWithReport,
+  convertAgentWithReport,
+  importWorkflow,
+  n8nAdapter,
+  langChainAdapter,
+  crewAIAdapter,
+  autoGenAdapter,
+} from './adapters/registry.js';
+
+// Export fidelity report helpers
+export { hasFidelityIssues } from './utils/fidelity.js';
+
+// ============================================================================
+// Code Generation
+// ============================================================================
+
+// Export source generators for framework projects
+export {
+  generateLangGraphPython,
+  generateLangGraphPythonWithReport,
+} from './codegen/langgraph-python.js';
+export {
+  generateLangGraphTypeScript,
+  generateLangGraphTypeScriptWithReport,
+} from './codegen/langgraph-typescript.js';
+export {
+  generateCrewAIProject,
+  generateCrewAIProjectWithReport,
+} from './codegen/crewai-project.js';
+
+// ============================================================================
+// Condition Expressions
+// ============================================================================
+
+// Export condition types
+export type {
+  ConditionExpression,
+  ConditionLiteral,
+  ConditionPath,
+  ConditionNot,
+  ConditionLogical,
+  ConditionComparison,
+  ConditionComparisonOperator,
+  ConditionValueType,
+  ConditionCheckResult,
+  ConditionIssue,
+} from './types/conditions.js';
+
+// Export condition parser, type checker and evaluator
+export { parseCondition, expandRouteLabel } from './conditions/parser.js';
+export {
+  checkCondition,
+  checkWorkflowConditions,
+} from './conditions/type-checker.js';
+export { evaluateCondition } from './conditions/evaluator.js';
+
+// ============================================================================
+// Workflow Runtime
+// ============================================================================
+
+// Export runtime types
+export type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ConditionEvaluator,
+  ConditionScope,
+  WorkflowExecutionOptions,
+  WorkflowExecutionResult,
+  WorkflowExecutionStep,
+  MockModelProvider,
+  MockProviderOptions,
+  MockResponse,
+} from './types/runtime.js';
+
+// Export workflow executor
+export { executeWorkflow } from './runtime/executor.js';
+
+// Export mock provider
+export { createMockProvider } from './runtime/mock-provider.js';
+
+// ============================================================================
+// Schema Versioning
+// ============================================================================
+
+// Export migration types
+export type {
+  Migration,
+  MigrationChange,
+  MigrationResult,
+} from './types/migrations.js';
+
+// Export schema versions and migration steps
+export {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  AGENT_MIGRATIONS,
+  WORKFLOW_MIGRATIONS,
+} from './migrations/versions.js';
+
+// Export migration functions
+export {
+  migrateDocument,
+  migrateAgentConfig,
+  migrateWorkflowConfig,
+  getSupportedSchemaVersions,
+} from './migrations/migrate.js';
+
+// ============================================================================
+// Document Loading & Serialization
+// ============================================================================
+
+// Export document types
+export type {
+  DocumentFormat,
+  DocumentLoadOptions,
+  DocumentSerializeOptions,
+  LoadedDocument,
+  ParsedSource,
+  SourceLocation,
+  SourcePosition,
+} from './types/documents.js';
+
+// Export document loaders
+export {
+  loadDocument,
+  detectDocumentFormat,
+  locateIssues,
+  validateAgentDocument,
+  validateWorkflowDocument,
+} from './documents/loader.js';
+export { parseJson, parseJson5 } from './documents/json5.js';
+export { parseYaml } from './documents/yaml.js';
+export { pathKey } from './documents/positions.js';
+
+// Export serializers
+export {
+  serializeAgentConfig,
+  serializeWorkflowConfig,
+} from './documents/serializer.js';
+
+// ============================================================================
+// Workflow Linting
+// ============================================================================
+
+// Export lint types
+export type {
+  LintDiagnostic,
+  LintIssue,
+  LintOptions,
+  LintResult,
+  LintRule,
+  LintSeverity,
+} from './types/lint.js';
+
+// Export linter and built-in rules
+export { lintWorkflow, getLintRules } from './lint/linter.js';
+export {
+  BUILT_IN_LINT_RULES,
+  conditionBranchesRule,
+  conditionOnBranchRule,
+  loopBodyHandleRule,
+  loopExitRule,
+  noCyclesRule,
+  reachableEndRule,
+  singleTriggerRule,
+  uniqueConnectionIdsRule,
+  uniqueNodeIdsRule,
+  unreachableNodeRule,
+} from './lint/rules.js';
+
+// ============================================================================
+// Agent Registry
+// ============================================================================
+
+// Export agent registry types
+export type {
+  AgentReferenceIssue,
+  AgentReferenceResolution,
+  AgentRegisterOptions,
+  AgentBaseLookup,
+  AgentRegistry,
+} from './types/agent-registry.js';
+
+// Export agent registries and reference resolution
+// (createDirectoryAgentRegistry is exported from the Node.js entry)
+export { createAgentRegistry } from './agents/registry.js';
+export { resolveAgentReferences } from './agents/references.js';
+
+// Export agent inheritance
+export {
+  resolveAgentExtends,
+  mergeAgentConfigs,
+} from './agents/inheritance.js';
+
+// ============================================================================
+// Model Catalog
+// ============================================================================
+
+// Export model catalog types
+export type {
+  ModelCapabilityIssue,
+  ModelCatalog,
+  ModelInfo,
+  ModelParameterName,
+  ModelRegisterOptions,
+  ProviderInfo,
+} from './types/models.js';
+
+// Export model catalog schemas
+export {
+  ModelParameterNameSchema,
+  ModelInfoSchema,
+  ProviderInfoSchema,
+} from './schemas/model.schema.js';
+
+// Export the model catalog and capability checks
+export {
+  createModelCatalog,
+  defaultModelCatalog,
+  resolveModelId,
+} from './models/catalog.js';
+export { BUILT_IN_PROVIDERS } from './models/providers.js';
+export { checkModelCapabilities } from './models/capabilities.js';
+
+// ============================================================================
+// Cost Estimation
+// ============================================================================
+
+// Export estimation types
+export type {
+  CostEstimate,
+  CostEstimateOptions,
+  CostEstimateWarning,
+  EstimateRange,
+  ModelPricing,
+  NodeCostEstimate,
+  PricingTable,
+} from './types/estimation.js';
+
+// Export pricing and estimators
+export { BUILT_IN_PRICING, getModelPricing } from './models/pricing.js';
+export {
+  estimateTokens,
+  estimateAgentCost,
+  estimateWorkflowCost,
+} from './estimation/cost.js';
+
+// ============================================================================
+// Prompt Templates
+// ============================================================================
+
+// Export template types
+export type {
+  TemplateIssue,
+  TemplateRenderOptions,
+  TemplateSegment,
+} from './types/templates.js';
+
+// Export template parsing, rendering and checks
+export {
+  parsePromptTemplate,
+  getTemplateVariables,
+  renderPromptTemplate,
+  renderAgentTemplates,
+  checkAgentTemplates,
+  checkWorkflowTemplates,
+} from './templates/template.js';
+
+// Export template translation for export targets
+export {
+  compileTemplate,
+  compileTemplateToPython,
+  compileTemplateToN8n,
+  parseTemplateFromPython,
+  parseTemplateFromN8n,
+} from './templates/compile.js';
+
+// ============================================================================
+// Secret References
+// ============================================================================
+
+// Export secret types
+export type {
+  EnvSecretReference,
+  FileSecretReference,
+  VaultSecretReference,
+  SecretReference,
+  SecretReferenceLocation,
+  SecretResolver,
+  SecretResolverOptions,
+  SecretIssue,
+  VaultLookup,
+} from './types/secrets.js';
+
+// Export secret reference schema
+export { SecretReferenceSchema } from './schemas/secret.schema.js';
+
+// Export secret reference handling
+// (createSecretResolver is exported from the Node.js entry)
+export {
+  isSecretReference,
+  getSecretName,
+  findSecretReferences,
+  checkSecretReferences,
+  resolveSecrets,
+} from './secrets/references.js';
+export { scanForLiteralSecrets } from './secrets/scanner.js';
+
+// ============================================================================
+// Environment Overlays
+// ============================================================================
+
+// Export environment types
+export type {
+  AgentNodeOverlay,
+  WorkflowEnvironment,
+  EnvironmentDifference,
+} from './types/environments.js';
+
+// Export environment resolution and comparison
+export {
+  resolveEnvironment,
+  diffEnvironments,
+  diffWorkflows,
+} from './environments/overlay.js';
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+// Export JSON Schema types
+export type {
+  JsonSchema,
+  JsonSchemaIssue,
+  JsonSchemaValidationOptions,
+} from './types/json-schema.js';
+
+// Export JSON Schema document schema
+export { JsonSchemaSchema } from './schemas/json-schema.schema.js';
+
+// Export JSON Schema checking and validation
+export { checkJsonSchema } from './json-schema/check.js';
+export {
+  validateJsonValue,
+  resolveSchemaReference,
+} from './json-schema/validate.js';
@@ -0,0 +1,323 @@
+/**
+ * JSON Schema meta-validation
+ * Checks that a document is a well-formed JSON Schema (draft 2020-12, with
+ * the draft-07 `definitions`, `items` arrays and `additionalItems`)
+ */
+
+import { resolveSchemaReference } from './validate.js';
+import type { JsonSchema, JsonSchemaIssue } from '../types/json-schema.js';
+
+/**
+ * JSON Schema type names
+ */
+const TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'object',
+  'array',
+  'null',
+];
+
+/**
+ * Keywords whose value is a subschema
+ */
+const SCHEMA_KEYWORDS = [
+  'additionalProperties',
+  'additionalItems',
+  'contains',
+  'propertyNames',
+  'not',
+  'if',
+  'then',
+  'else',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+];
+
+/**
+ * Keywords whose value maps names to subschemas
+ */
+const SCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  '$defs',
+  'definitions',
+  'dependentSchemas',
+];
+
+/**
+ * Keywords whose value is a non-empty array of subschemas
+ */
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+
+/**
+ * Keywords whose value is a non-negative integer
+ */
+const COUNT_KEYWORDS = [
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+  'minProperties',
+  'maxProperties',
+  'minContains',
+  'maxContains',
+];
+
+/**
+ * Keywords whose value is a number
+ */
+const NUMBER_KEYWORDS = [
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+];
+
+/**
+ * Keywords whose value is a string
+ */
+const STRING_KEYWORDS = [
+  '$id',
+  '$schema',
+  '$ref',
+  '$anchor',
+  '$comment',
+  'title',
+  'description',
+  'format',
+];
+
+/**
+ * Checks that a document is a well-formed JSON Schema
+ *
+ * Keyword values must have the types the meta-schema requires (e.g. `type`
+ * names a JSON type, `required` lists property names, `pattern` is a valid
+ * regular expression), subschemas are checked recursively, and local
+ * `$ref`s (`#/$defs/...`) must point into the document. Unknown keywords
+ * are allowed, as in JSON Schema.
+ *
+ * @param schema - Document to check
+ * @param path - Path prefix for the reported issues
+ * @returns Issues, with paths into the schema (empty if well-formed)
+ *
+ * @example
+ * ```typescript
+ * checkJsonSchema({ type: 'object', required: 'answer' });
+ * // [{ path: ['required'], message: 'required must be an array of property names' }]
+ * ```
+ */
+export function checkJsonSchema(
+  schema: unknown,
+  path: string[] = []
+): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  if (!isRecord(schema)) {
+    issues.push({ path, message: 'Schema must be an object' });
+    return issues;
+  }
+  checkSchema(schema, path, schema, issues);
+  return issues;
+}
+
+/**
+ * Helper: Check a (sub)schema, collecting issues
+ */
+function checkSchema(
+  schema: unknown,
+  path: string[],
+  root: JsonSchema,
+  issues: JsonSchemaIssue[]
+): void {
+  if (typeof schema === 'boolean') {
+    return;
+  }
+  if (!isRecord(schema)) {
+    issues.push({ path, message: 'Schema must be an object or a boolean' });
+    return;
+  }
+
+  const fail = (keyword: string, message: string) =>
+    issues.push({ path: [...path, keyword], message });
+
+  if (schema.type !== undefined) {
+    const types = ([] as unknown[]).concat(schema.type);
+    if (typeof schema.type !== 'string' && types.length === 0) {
+      fail('type', 'type must be a JSON type name or an array of them');
+    }
+    types.forEach((type, index) => {
+      if (typeof type !== 'string' || !TYPES.includes(type)) {
+        fail(
+          'type',
+          `Unknown type ${JSON.stringify(type)}; expected one of ${TYPES.join(', ')}`
+        );
+      } else if (types.indexOf(type) !== index) {
+        fail('type', `type lists "${type}" twice`);
+      }
+    });
+  }
+
+  SCHEMA_KEYWORDS.filter((keyword) => schema[keyword] !== undefined).forEach(
+    (keyword) => checkSchema(schema[keyword], [...path, keyword], root, issues)
+  );
+
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((item, index) =>
+      checkSchema(item, [...path, 'items', String(index)], root, issues)
+    );
+  } else if (schema.items !== undefined) {
+    checkSchema(schema.items, [...path, 'items'], root, issues);
+  }
+
+  SCHEMA_MAP_KEYWORDS.filter(
+    (keyword) => schema[keyword] !== undefined
+  ).forEach((keyword) => {
+    const value = schema[keyword];
+    if (!isRecord(value)) {
+      fail(keyword, `${keyword} must be an object of schemas`);
+      return;
+    }
+    Object.entries(value).forEach(([name, subschema]) => {
+      if (keyword === 'patternProperties' && !isPattern(name)) {
+        issues.push({
+          path: [...path, keyword, name],
+          message: `Invalid regular expression "${name}"`,
+        });
+      }
+      checkSchema(subschema, [...path, keyword, name], root, issues);
+    });
+  });
+
+  SCHEMA_LIST_KEYWORDS.filter(
+    (keyword) => schema[keyword] !== undefined
+  ).forEach((keyword) => {
+    const value = schema[keyword];
+    if (!Array.isArray(value) || value.length === 0) {
+      fail(keyword, `${keyword} must be a non-empty array of schemas`);
+      return;
+    }
+    value.forEach((subschema, index) =>
+      checkSchema(subschema, [...path, keyword, String(index)], root, issues)
+    );
+  });
+
+  if (schema.required !== undefined) {
+    checkNameList(schema.required, [...path, 'required'], 'required', issues);
+  }
+  if (schema.dependentRequired !== undefined) {
+    if (isRecord(schema.dependentRequired)) {
+      Object.entries(schema.dependentRequired).forEach(([name, names]) =>
+        checkNameList(
+          names,
+          [...path, 'dependentRequired', name],
+          'dependentRequired entries',
+          issues
+        )
+      );
+    } else {
+      fail('dependentRequired', 'dependentRequired must be an object');
+    }
+  }
+
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    fail('enum', 'enum must be an array');
+  }
+
+  COUNT_KEYWORDS.filter((keyword) => schema[keyword] !== undefined).forEach(
+    (keyword) => {
+      const value = schema[keyword];
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        fail(keyword, `${keyword} must be a non-negative integer`);
+      }
+    }
+  );
+  NUMBER_KEYWORDS.filter((keyword) => schema[keyword] !== undefined).forEach(
+    (keyword) => {
+      if (typeof schema[keyword] !== 'number') {
+        fail(keyword, `${keyword} must be a number`);
+      }
+    }
+  );
+  if (
+    schema.multipleOf !== undefined &&
+    !(typeof schema.multipleOf === 'number' && schema.multipleOf > 0)
+  ) {
+    fail('multipleOf', 'multipleOf must be a number greater than 0');
+  }
+  if (
+    schema.uniqueItems !== undefined &&
+    typeof schema.uniqueItems !== 'boolean'
+  ) {
+    fail('uniqueItems', 'uniqueItems must be a boolean');
+  }
+
+  STRING_KEYWORDS.filter((keyword) => schema[keyword] !== undefined).forEach(
+    (keyword) => {
+      if (typeof schema[keyword] !== 'string') {
+        fail(keyword, `${keyword} must be a string`);
+      }
+    }
+  );
+  if (typeof schema.pattern === 'string' && !isPattern(schema.pattern)) {
+    fail('pattern', `Invalid regular expression "${schema.pattern}"`);
+  } else if (
+    schema.pattern !== undefined &&
+    typeof schema.pattern !== 'string'
+  ) {
+    fail('pattern', 'pattern must be a string');
+  }
+
+  // Other references name schemas this document cannot see
+  const ref = schema.$ref;
+  if (
+    typeof ref === 'string' &&
+    (ref === '#' || ref.startsWith('#/')) &&
+    !resolveSchemaReference(ref, root)
+  ) {
+    fail('$ref', `Reference "${ref}" does not point into the schema`);
+  }
+}
+
+/**
+ * Helper: Check a list of property names
+ */
+function checkNameList(
+  value: unknown,
+  path: string[],
+  label: string,
+  issues: JsonSchemaIssue[]
+): void {
+  if (!Array.isArray(value) || value.some((name) => typeof name !== 'string')) {
+    issues.push({
+      path,
+      message: `${label} must be an array of property names`,
+    });
+    return;
+  }
+  value.forEach((name, index) => {
+    if (value.indexOf(name) !== index) {
+      issues.push({ path, message: `${label} lists "${name}" twice` });
+    }
+  });
+}
+
+/**
+ * Helper: Whether a string is a valid regular expression
+ */
+function isPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
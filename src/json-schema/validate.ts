@@ -0,0 +1,408 @@
+/**
+ * JSON Schema validation of values
+ * Covers the draft 2020-12 validation keywords, except `format`,
+ * `unevaluatedProperties` and `unevaluatedItems`
+ */
+
+import type {
+  JsonSchema,
+  JsonSchemaIssue,
+  JsonSchemaValidationOptions,
+} from '../types/json-schema.js';
+
+/**
+ * Validates a value against a JSON Schema
+ *
+ * Local `$ref`s (`#/$defs/...`) resolve against the schema; other `$ref`s
+ * resolve against `options.schemas`, by URI.
+ *
+ * @param value - Value to validate (e.g. parsed agent output)
+ * @param schema - JSON Schema the value must match
+ * @param options - Validation options
+ * @returns Issues, with paths into the value (empty if it matches)
+ *
+ * @example
+ * ```typescript
+ * validateJsonValue(
+ *   { score: 'high' },
+ *   { type: 'object', properties: { score: { type: 'number' } } }
+ * );
+ * // [{ path: ['score'], message: 'Expected number, got string' }]
+ * ```
+ */
+export function validateJsonValue(
+  value: unknown,
+  schema: JsonSchema | boolean,
+  options: JsonSchemaValidationOptions = {}
+): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  check(value, schema, [], schema, options.schemas ?? {}, issues);
+  return issues;
+}
+
+/**
+ * Resolves a `$ref` to the schema it points to
+ *
+ * The part before `#` names a schema in `schemas` (the root schema if
+ * empty); the part after it is a JSON Pointer into that schema.
+ *
+ * @param ref - Reference (e.g. '#/$defs/answer' or 'schemas/answer.json')
+ * @param root - Schema that local references resolve against
+ * @param schemas - Schemas that other references resolve against, by URI
+ * @returns The referenced schema and the schema it belongs to, or
+ *   `undefined` if the reference cannot be resolved
+ */
+export function resolveSchemaReference(
+  ref: string,
+  root: JsonSchema | boolean,
+  schemas: Record<string, JsonSchema> = {}
+): { schema: JsonSchema | boolean; root: JsonSchema | boolean } | undefined {
+  const hash = ref.indexOf('#');
+  const uri = hash < 0 ? ref : ref.slice(0, hash);
+  const fragment = hash < 0 ? '' : ref.slice(hash + 1);
+
+  const document = uri ? schemas[uri] : root;
+  if (document === undefined || (fragment && !fragment.startsWith('/'))) {
+    return undefined;
+  }
+
+  let target: unknown = document;
+  for (const token of fragment.split('/').slice(1)) {
+    const key = decodeURIComponent(token)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    if (!isRecord(target) && !Array.isArray(target)) {
+      return undefined;
+    }
+    target = (target as Record<string, unknown>)[key];
+  }
+
+  return isRecord(target) || typeof target === 'boolean'
+    ? { schema: target, root: document }
+    : undefined;
+}
+
+/**
+ * Helper: Validate a value against a schema, collecting issues
+ */
+function check(
+  value: unknown,
+  schema: unknown,
+  path: string[],
+  root: JsonSchema | boolean,
+  schemas: Record<string, JsonSchema>,
+  issues: JsonSchemaIssue[]
+): void {
+  if (schema === false) {
+    issues.push({ path, message: 'No value is allowed here' });
+    return;
+  }
+  if (!isRecord(schema)) {
+    return;
+  }
+
+  const sub = (v: unknown, s: unknown, p: string[]) =>
+    check(v, s, p, root, schemas, issues);
+  const matches = (v: unknown, s: unknown) => {
+    const found: JsonSchemaIssue[] = [];
+    check(v, s, [], root, schemas, found);
+    return found.length === 0;
+  };
+
+  if (typeof schema.$ref === 'string') {
+    const resolved = resolveSchemaReference(schema.$ref, root, schemas);
+    if (resolved) {
+      check(value, resolved.schema, path, resolved.root, schemas, issues);
+    } else {
+      issues.push({ path, message: `Unresolved reference "${schema.$ref}"` });
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = ([] as unknown[]).concat(schema.type);
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        path,
+        message: `Expected ${types.join(' or ')}, got ${typeName(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option) => isEqual(option, value))
+  ) {
+    issues.push({
+      path,
+      message: `Must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    issues.push({ path, message: `Must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      issues.push({
+        path,
+        message: `Must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      issues.push({
+        path,
+        message: `Must be at most ${schema.maxLength} characters`,
+      });
+    }
+    if (
+      typeof schema.pattern === 'string' &&
+      !new RegExp(schema.pattern, 'u').test(value)
+    ) {
+      issues.push({ path, message: `Must match pattern "${schema.pattern}"` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    const bounds: Array<[string, (limit: number) => boolean, string]> = [
+      ['minimum', (limit) => value >= limit, '>='],
+      ['maximum', (limit) => value <= limit, '<='],
+      ['exclusiveMinimum', (limit) => value > limit, '>'],
+      ['exclusiveMaximum', (limit) => value < limit, '<'],
+    ];
+    bounds.forEach(([keyword, holds, operator]) => {
+      const limit = schema[keyword];
+      if (typeof limit === 'number' && !holds(limit)) {
+        issues.push({ path, message: `Must be ${operator} ${limit}` });
+      }
+    });
+    if (
+      typeof schema.multipleOf === 'number' &&
+      !Number.isInteger(value / schema.multipleOf)
+    ) {
+      issues.push({
+        path,
+        message: `Must be a multiple of ${schema.multipleOf}`,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    // `prefixItems` (or a draft-07 `items` array) covers the leading items,
+    // `items` (or `additionalItems`) the rest
+    const prefix = Array.isArray(schema.prefixItems)
+      ? schema.prefixItems
+      : Array.isArray(schema.items)
+        ? schema.items
+        : [];
+    const rest = Array.isArray(schema.items)
+      ? schema.additionalItems
+      : schema.items;
+    value.forEach((item, index) => {
+      const itemSchema = index < prefix.length ? prefix[index] : rest;
+      sub(item, itemSchema, [...path, String(index)]);
+    });
+
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `Must have at least ${schema.minItems} items`,
+      });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `Must have at most ${schema.maxItems} items`,
+      });
+    }
+    if (
+      schema.uniqueItems === true &&
+      value.some((item, index) =>
+        value.slice(0, index).some((other) => isEqual(item, other))
+      )
+    ) {
+      issues.push({ path, message: 'Items must be unique' });
+    }
+    if (schema.contains !== undefined) {
+      const count = value.filter((item) =>
+        matches(item, schema.contains)
+      ).length;
+      const min =
+        typeof schema.minContains === 'number' ? schema.minContains : 1;
+      const max = schema.maxContains;
+      if (count < min || (typeof max === 'number' && count > max)) {
+        issues.push({
+          path,
+          message: `Contains ${count} matching items; expected ${typeof max === 'number' ? `${min} to ${max}` : `at least ${min}`}`,
+        });
+      }
+    }
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    const patterns = Object.entries(
+      isRecord(schema.patternProperties) ? schema.patternProperties : {}
+    ).map(([pattern, s]): [RegExp, unknown] => [new RegExp(pattern, 'u'), s]);
+    const keys = Object.keys(value);
+
+    if (Array.isArray(schema.required)) {
+      schema.required
+        .filter((name) => typeof name === 'string' && !(name in value))
+        .forEach((name) => {
+          issues.push({
+            path: [...path, String(name)],
+            message: 'Required property is missing',
+          });
+        });
+    }
+
+    keys.forEach((key) => {
+      const keyPath = [...path, key];
+      let known = false;
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        known = true;
+        sub(value[key], properties[key], keyPath);
+      }
+      patterns
+        .filter(([pattern]) => pattern.test(key))
+        .forEach(([, s]) => {
+          known = true;
+          sub(value[key], s, keyPath);
+        });
+      if (!known && schema.additionalProperties === false) {
+        issues.push({ path: keyPath, message: 'Property is not allowed' });
+      } else if (!known && schema.additionalProperties !== undefined) {
+        sub(value[key], schema.additionalProperties, keyPath);
+      }
+      if (schema.propertyNames !== undefined) {
+        sub(key, schema.propertyNames, keyPath);
+      }
+    });
+
+    if (
+      typeof schema.minProperties === 'number' &&
+      keys.length < schema.minProperties
+    ) {
+      issues.push({
+        path,
+        message: `Must have at least ${schema.minProperties} properties`,
+      });
+    }
+    if (
+      typeof schema.maxProperties === 'number' &&
+      keys.length > schema.maxProperties
+    ) {
+      issues.push({
+        path,
+        message: `Must have at most ${schema.maxProperties} properties`,
+      });
+    }
+
+    if (isRecord(schema.dependentRequired)) {
+      Object.entries(schema.dependentRequired)
+        .filter(([key, names]) => key in value && Array.isArray(names))
+        .forEach(([key, names]) => {
+          (names as unknown[])
+            .filter((name) => typeof name === 'string' && !(name in value))
+            .forEach((name) => {
+              issues.push({
+                path: [...path, String(name)],
+                message: `Required when "${key}" is present`,
+              });
+            });
+        });
+    }
+    if (isRecord(schema.dependentSchemas)) {
+      Object.entries(schema.dependentSchemas)
+        .filter(([key]) => key in value)
+        .forEach(([, s]) => sub(value, s, path));
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((s) => sub(value, s, path));
+  }
+  if (
+    Array.isArray(schema.anyOf) &&
+    !schema.anyOf.some((s) => matches(value, s))
+  ) {
+    issues.push({ path, message: 'Must match a schema in anyOf' });
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const count = schema.oneOf.filter((s) => matches(value, s)).length;
+    if (count !== 1) {
+      issues.push({
+        path,
+        message: `Must match exactly one schema in oneOf; matched ${count}`,
+      });
+    }
+  }
+  if (schema.not !== undefined && matches(value, schema.not)) {
+    issues.push({ path, message: 'Must not match the schema in not' });
+  }
+  if (schema.if !== undefined) {
+    const branch = matches(value, schema.if) ? schema.then : schema.else;
+    if (branch !== undefined) {
+      sub(value, branch, path);
+    }
+  }
+}
+
+/**
+ * Helper: Whether a value has a JSON type
+ */
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Helper: JSON type name of a value, for messages
+ */
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Helper: Structural equality of JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+/**
+ * Workflow linter
+ * Runs named structural rules with configurable severities
+ */
+
+import { BUILT_IN_LINT_RULES } from './rules.js';
+import type {
+  LintDiagnostic,
+  LintOptions,
+  LintResult,
+  LintRule,
+} from '../types/lint.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+
+/**
+ * Lints a workflow's structure
+ *
+ * Runs the built-in rules followed by any custom rules. Each rule runs at its
+ * default severity unless `options.rules` sets it to 'error', 'warn' or 'off'.
+ *
+ * @param workflow - Workflow configuration to lint
+ * @param options - Severity overrides and custom rules
+ * @returns Diagnostics with node and connection paths
+ * @throws {Error} If a severity is set for an unknown rule, or a custom rule
+ *   reuses a rule name
+ *
+ * @example
+ * ```typescript
+ * const result = lintWorkflow(workflow, {
+ *   rules: { 'reachable-end': 'off', 'unreachable-node': 'error' },
+ *   customRules: [
+ *     {
+ *       name: 'named-nodes',
+ *       description: 'Agent nodes must reference a named agent',
+ *       defaultSeverity: 'warn',
+ *       check: (wf) =>
+ *         wf.nodes
+ *           .map((node, i) => ({ node, i }))
+ *           .filter(({ node }) => node.type === 'agent' && !node.agent?.name)
+ *           .map(({ i }) => ({ path: ['nodes', String(i)], message: 'Unnamed agent' })),
+ *     },
+ *   ],
+ * });
+ *
+ * result.diagnostics.forEach((d) => console.log(d.severity, d.rule, d.message));
+ * ```
+ */
+export function lintWorkflow(
+  workflow: WorkflowConfig,
+  options: LintOptions = {}
+): LintResult {
+  const rules = getLintRules(options.customRules);
+  const names = new Set(rules.map((rule) => rule.name));
+
+  for (const name of Object.keys(options.rules ?? {})) {
+    if (!names.has(name)) {
+      throw new Error(`Unknown lint rule "${name}"`);
+    }
+  }
+
+  const diagnostics: LintDiagnostic[] = [];
+  for (const rule of rules) {
+    const severity = options.rules?.[rule.name] ?? rule.defaultSeverity;
+    if (severity === 'off') {
+      continue;
+    }
+    rule.check(workflow).forEach((issue) => {
+      diagnostics.push({ rule: rule.name, severity, ...issue });
+    });
+  }
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  return {
+    valid: errorCount === 0,
+    diagnostics,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+  };
+}
+
+/**
+ * Lists the rules `lintWorkflow` runs
+ *
+ * @param customRules - Custom rules to append to the built-in rules
+ * @returns Built-in rules followed by the custom rules
+ * @throws {Error} If a custom rule reuses a rule name
+ *
+ * @example
+ * ```typescript
+ * getLintRules().map((rule) => `${rule.name}: ${rule.description}`);
+ * ```
+ */
+export function getLintRules(customRules: LintRule[] = []): LintRule[] {
+  const rules = [...BUILT_IN_LINT_RULES];
+
+  for (const rule of customRules) {
+    if (rules.some((existing) => existing.name === rule.name)) {
+      throw new Error(`Lint rule "${rule.name}" is already defined`);
+    }
+    rules.push(rule);
+  }
+
+  return rules;
+}
@@ -0,0 +1,338 @@
+/**
+ * Built-in workflow lint rules
+ */
+
+import type { LintIssue, LintRule } from '../types/lint.js';
+import type { WorkflowConfig } from '../types/workflow.js';
+
+/**
+ * An `end` node must be reachable from the entry nodes
+ */
+export const reachableEndRule: LintRule = {
+  name: 'reachable-end',
+  description: 'An end node must be reachable from the entry nodes',
+  defaultSeverity: 'warn',
+  check: (workflow) => {
+    const ends = workflow.nodes.filter((node) => node.type === 'end');
+    if (ends.length === 0) {
+      return [{ path: ['nodes'], message: 'Workflow has no end node' }];
+    }
+
+    const reachable = reachableFrom(workflow, entryNodeIds(workflow));
+    return ends.some((node) => reachable.has(node.id))
+      ? []
+      : [
+          {
+            path: ['nodes'],
+            message: 'No end node is reachable from the entry nodes',
+          },
+        ];
+  },
+};
+
+/**
+ * Every node must be reachable from the trigger
+ * (or, without a trigger node, from a node with no incoming connections)
+ */
+export const unreachableNodeRule: LintRule = {
+  name: 'unreachable-node',
+  description: 'Every node must be reachable from the trigger',
+  defaultSeverity: 'warn',
+  check: (workflow) => {
+    const hasTrigger = workflow.nodes.some((node) => node.type === 'trigger');
+    const reachable = reachableFrom(workflow, entryNodeIds(workflow));
+    const from = hasTrigger ? 'the trigger' : 'an entry node';
+
+    return workflow.nodes.flatMap((node, index) =>
+      reachable.has(node.id)
+        ? []
+        : [
+            {
+              path: ['nodes', String(index)],
+              message: `Node "${node.id}" is not reachable from ${from}`,
+            },
+          ]
+    );
+  },
+};
+
+/**
+ * A workflow may have at most one trigger node
+ */
+export const singleTriggerRule: LintRule = {
+  name: 'single-trigger',
+  description: 'A workflow may have at most one trigger node',
+  defaultSeverity: 'error',
+  check: (workflow) => {
+    const triggers = workflow.nodes
+      .map((node, index) => ({ node, index }))
+      .filter(({ node }) => node.type === 'trigger');
+
+    return triggers.slice(1).map(({ node, index }) => ({
+      path: ['nodes', String(index)],
+      message: `Trigger node "${node.id}" is redundant; "${triggers[0].node.id}" is already the trigger`,
+    }));
+  },
+};
+
+/**
+ * Conditions only make sense on connections that branch
+ */
+export const conditionOnBranchRule: LintRule = {
+  name: 'condition-on-branch',
+  description:
+    'Conditions belong on connections whose source has other outgoing connections',
+  defaultSeverity: 'warn',
+  check: (workflow) => {
+    const outgoing = countOutgoing(workflow);
+
+    return workflow.connections.flatMap((conn, index) =>
+      conn.condition !== undefined && (outgoing.get(conn.sourceId) ?? 0) < 2
+        ? [
+            {
+              path: ['connections', String(index), 'condition'],
+              message: `Connection "${conn.id}" has a condition but is the only connection leaving "${conn.sourceId}"`,
+            },
+          ]
+        : []
+    );
+  },
+};
+
+/**
+ * Condition nodes need at least two outgoing connections to branch
+ */
+export const conditionBranchesRule: LintRule = {
+  name: 'condition-branches',
+  description: 'Condition nodes must have at least two outgoing connections',
+  defaultSeverity: 'warn',
+  check: (workflow) => {
+    const outgoing = countOutgoing(workflow);
+
+    return workflow.nodes.flatMap((node, index) => {
+      const count = outgoing.get(node.id) ?? 0;
+      return node.type === 'condition' && count < 2
+        ? [
+            {
+              path: ['nodes', String(index)],
+              message: `Condition node "${node.id}" has ${count} outgoing connection${count === 1 ? '' : 's'}; expected at least 2`,
+            },
+          ]
+        : [];
+    });
+  },
+};
+
+/**
+ * Loop nodes need an exit connection besides their body
+ *
+ * Body connections are marked with `sourceHandle: 'loop'`; any other outgoing
+ * connection is the exit. Loops without marked connections are left to
+ * `loopBodyHandleRule`.
+ */
+export const loopExitRule: LintRule = {
+  name: 'loop-exit',
+  description: 'Loop nodes must have an exit connection besides their body',
+  defaultSeverity: 'error',
+  check: (workflow) =>
+    workflow.nodes.flatMap((node, index) => {
+      if (node.type !== 'loop') {
+        return [];
+      }
+      const handles = workflow.connections
+        .filter((conn) => conn.sourceId === node.id)
+        .map((conn) => conn.sourceHandle);
+      const hasBody = handles.includes('loop');
+      const hasExit = handles.some((handle) => handle !== 'loop');
+
+      return handles.length > 0 && (hasExit || !hasBody)
+        ? []
+        : [
+            {
+              path: ['nodes', String(index)],
+              message: `Loop node "${node.id}" has no exit connection; mark body connections with sourceHandle "loop" and add one without it`,
+            },
+          ];
+    }),
+};
+
+/**
+ * Loop nodes should mark their body connections
+ *
+ * Without connections marked with `sourceHandle: 'loop'`, every outgoing
+ * connection is treated as the body and the loop has no exit.
+ */
+export const loopBodyHandleRule: LintRule = {
+  name: 'loop-body-handle',
+  description: 'Loop nodes should mark their body connections',
+  defaultSeverity: 'warn',
+  check: (workflow) =>
+    workflow.nodes.flatMap((node, index) => {
+      if (node.type !== 'loop') {
+        return [];
+      }
+      const handles = workflow.connections
+        .filter((conn) => conn.sourceId === node.id)
+        .map((conn) => conn.sourceHandle);
+
+      return handles.length === 0 || handles.includes('loop')
+        ? []
+        : [
+            {
+              path: ['nodes', String(index)],
+              message: `Loop node "${node.id}" has no connection with sourceHandle "loop"; all ${handles.length} outgoing connection${handles.length === 1 ? ' is' : 's are'} treated as its body`,
+            },
+          ];
+    }),
+};
+
+/**
+ * Connection IDs must be unique
+ */
+export const uniqueConnectionIdsRule: LintRule = {
+  name: 'unique-connection-ids',
+  description: 'Connection IDs must be unique',
+  defaultSeverity: 'error',
+  check: (workflow) =>
+    findDuplicates(
+      workflow.connections.map((conn) => conn.id),
+      'connections',
+      'Connection'
+    ),
+};
+
+/**
+ * Node IDs must be unique
+ */
+export const uniqueNodeIdsRule: LintRule = {
+  name: 'unique-node-ids',
+  description: 'Node IDs must be unique',
+  defaultSeverity: 'error',
+  check: (workflow) =>
+    findDuplicates(
+      workflow.nodes.map((node) => node.id),
+      'nodes',
+      'Node'
+    ),
+};
+
+/**
+ * Connections must not form cycles (use loop nodes to repeat work)
+ */
+export const noCyclesRule: LintRule = {
+  name: 'no-cycles',
+  description: 'Connections must not form cycles',
+  defaultSeverity: 'error',
+  check: (workflow) => {
+    const issues: LintIssue[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (nodeId: string) => {
+      state.set(nodeId, 'visiting');
+      workflow.connections.forEach((conn, index) => {
+        if (conn.sourceId !== nodeId) {
+          return;
+        }
+        const target = state.get(conn.targetId);
+        if (target === 'visiting') {
+          issues.push({
+            path: ['connections', String(index)],
+            message: `Connection "${conn.id}" from "${conn.sourceId}" to "${conn.targetId}" creates a cycle`,
+          });
+        } else if (target === undefined) {
+          visit(conn.targetId);
+        }
+      });
+      state.set(nodeId, 'done');
+    };
+
+    workflow.nodes.forEach((node) => {
+      if (!state.has(node.id)) {
+        visit(node.id);
+      }
+    });
+    return issues;
+  },
+};
+
+/**
+ * Built-in rules, in the order they run
+ */
+export const BUILT_IN_LINT_RULES: readonly LintRule[] = [
+  uniqueNodeIdsRule,
+  uniqueConnectionIdsRule,
+  singleTriggerRule,
+  noCyclesRule,
+  unreachableNodeRule,
+  reachableEndRule,
+  conditionBranchesRule,
+  conditionOnBranchRule,
+  loopExitRule,
+  loopBodyHandleRule,
+];
+
+/**
+ * Helper: Trigger nodes, or nodes without incoming connections if there are none
+ */
+function entryNodeIds(workflow: WorkflowConfig): string[] {
+  const triggers = workflow.nodes.filter((node) => node.type === 'trigger');
+  if (triggers.length > 0) {
+    return triggers.map((node) => node.id);
+  }
+  const targets = new Set(workflow.connections.map((conn) => conn.targetId));
+  return workflow.nodes
+    .filter((node) => !targets.has(node.id))
+    .map((node) => node.id);
+}
+
+/**
+ * Helper: IDs of nodes reachable from (and including) the start nodes
+ */
+function reachableFrom(workflow: WorkflowConfig, start: string[]): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [...start];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reachable.has(nodeId)) {
+      continue;
+    }
+    reachable.add(nodeId);
+    workflow.connections
+      .filter((conn) => conn.sourceId === nodeId)
+      .forEach((conn) => queue.push(conn.targetId));
+  }
+
+  return reachable;
+}
+
+/**
+ * Helper: Number of outgoing connections per node ID
+ */
+function countOutgoing(workflow: WorkflowConfig): Map<string, number> {
+  const counts = new Map<string, number>();
+  workflow.connections.forEach((conn) => {
+    counts.set(conn.sourceId, (counts.get(conn.sourceId) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Helper: Report every repeat of an ID after its first occurrence
+ */
+function findDuplicates(
+  ids: string[],
+  collection: string,
+  label: string
+): LintIssue[] {
+  return ids.flatMap((id, index) =>
+    ids.indexOf(id) < index
+      ? [
+          {
+            path: [collection, String(index), 'id'],
+            message: `${label} ID "${id}" is already used by ${collection}.${ids.indexOf(id)}`,
+          },
+        ]
+      : []
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Migrates agent and workflow documents to the current schema version
+ */
+
+import {
+  AGENT_MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  WORKFLOW_MIGRATIONS,
+} from './versions.js';
+import type { Migration, MigrationResult } from '../types/migrations.js';
+
+/**
+ * Upgrades a document by applying migration steps in sequence
+ *
+ * The starting version is the document's `schemaVersion`, or
+ * `LEGACY_SCHEMA_VERSION` if it has none. Each applied step sets
+ * `schemaVersion` to the version it upgrades to and records a change. The
+ * input document is never mutated.
+ *
+ * @param document - Document to upgrade
+ * @param migrations - Available migration steps
+ * @param toVersion - Version to upgrade to (defaults to the current version)
+ * @returns The upgraded document with the changes made
+ * @throws {Error} If the document is not an object or its version cannot be upgraded
+ *
+ * @example
+ * ```ts
+ * const result = migrateDocument(document, WORKFLOW_MIGRATIONS);
+ * result.changes.forEach((change) => console.log(change.message));
+ * ```
+ */
+export function migrateDocument(
+  document: unknown,
+  migrations: readonly Migration[],
+  toVersion: string = CURRENT_SCHEMA_VERSION
+): MigrationResult {
+  if (!isRecord(document)) {
+    throw new Error('Cannot migrate document: expected an object');
+  }
+
+  const declared = document.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+  if (typeof declared !== 'string') {
+    throw new Error('Invalid schema version: expected a string');
+  }
+
+  const supported = getSupportedSchemaVersions(migrations, toVersion);
+  if (!supported.includes(declared)) {
+    throw new Error(
+      `Unsupported schema version "${declared}"; supported versions are ${supported.join(', ')}`
+    );
+  }
+
+  const changes: MigrationResult['changes'] = [];
+  let data = document;
+  let version = declared;
+
+  while (version !== toVersion) {
+    const step = migrations.find((m) => m.from === version)!;
+    data = { ...step.migrate(data, changes), schemaVersion: step.to };
+    changes.push({
+      path: ['schemaVersion'],
+      message: `Upgraded from ${version} to ${step.to}: ${step.description}`,
+    });
+    version = step.to;
+  }
+
+  return { data, fromVersion: declared, toVersion, changes };
+}
+
+/**
+ * Lists the schema versions that can be upgraded to a target version
+ *
+ * @param migrations - Available migration steps
+ * @param toVersion - Version to upgrade to (defaults to the current version)
+ * @returns Supported versions, including the target version itself
+ *
+ * @example
+ * ```ts
+ * getSupportedSchemaVersions(AGENT_MIGRATIONS); // ['0.4', '1.0']
+ * ```
+ */
+export function getSupportedSchemaVersions(
+  migrations: readonly Migration[],
+  toVersion: string = CURRENT_SCHEMA_VERSION
+): string[] {
+  const reachesTarget = (from: string): boolean => {
+    const seen = new Set<string>();
+    let version = from;
+    while (version !== toVersion) {
+      const step = migrations.find((m) => m.from === version);
+      if (!step || seen.has(version)) {
+        return false;
+      }
+      seen.add(version);
+      version = step.to;
+    }
+    return true;
+  };
+
+  const versions = migrations
+    .map((m) => m.from)
+    .filter((from, index, all) => all.indexOf(from) === index)
+    .filter((from) => from !== toVersion && reachesTarget(from));
+  return [...versions, toVersion];
+}
+
+/**
+ * Upgrades an agent configuration to the current schema version
+ *
+ * @param document - Agent configuration written against any supported version
+ * @returns The upgraded (unvalidated) configuration with the changes made
+ * @throws {Error} If the document is not an object or its version is unsupported
+ *
+ * @example
+ * ```ts
+ * const { data, fromVersion, changes } = migrateAgentConfig(
+ *   JSON.parse(fs.readFileSync('agent.json', 'utf-8'))
+ * );
+ * ```
+ */
+export function migrateAgentConfig(document: unknown): MigrationResult {
+  return migrateDocument(document, AGENT_MIGRATIONS);
+}
+
+/**
+ * Upgrades a workflow configuration to the current schema version
+ *
+ * Inline `node.agent` configurations are upgraded with the agent migration
+ * steps too, starting from their own `schemaVersion` or, if they have none,
+ * the workflow's. They keep `schemaVersion` only if they declared one.
+ *
+ * @param document - Workflow configuration written against any supported version
+ * @returns The upgraded (unvalidated) configuration with the changes made
+ * @throws {Error} If the document or an inline agent is not an object or its version is unsupported
+ *
+ * @example
+ * ```ts
+ * const { data, changes } = migrateWorkflowConfig(legacyWorkflow);
+ * const workflow = validateWorkflowConfigStrict(data);
+ * ```
+ */
+export function migrateWorkflowConfig(document: unknown): MigrationResult {
+  const result = migrateDocument(document, WORKFLOW_MIGRATIONS);
+  if (!Array.isArray(result.data.nodes)) {
+    return result;
+  }
+
+  const changes = [...result.changes];
+  const nodes = result.data.nodes.map((node: unknown, index) => {
+    if (!isRecord(node) || !isRecord(node.agent)) {
+      return node;
+    }
+    const { agent } = node;
+    let migrated: MigrationResult;
+    try {
+      migrated = migrateDocument(
+        { ...agent, schemaVersion: agent.schemaVersion ?? result.fromVersion },
+        AGENT_MIGRATIONS
+      );
+    } catch (error) {
+      throw new Error(
+        `Cannot migrate the agent of node "${String(node.id)}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    changes.push(
+      ...migrated.changes.map((change) => ({
+        ...change,
+        path: ['nodes', String(index), 'agent', ...change.path],
+      }))
+    );
+    if (agent.schemaVersion === undefined) {
+      delete migrated.data.schemaVersion;
+    }
+    return { ...node, agent: migrated.data };
+  });
+
+  return { ...result, data: { ...result.data, nodes }, changes };
+}
+
+/**
+ * Helper: Check for a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,111 @@
+/**
+ * Schema versions and the migration steps between them
+ *
+ * To make a breaking change to the agent or workflow schema, bump
+ * `CURRENT_SCHEMA_VERSION` and append a step from the previous version to the
+ * migration list of each affected document kind. Documents written against
+ * any earlier version are then upgraded step by step when validated.
+ */
+
+import type { Migration, MigrationChange } from '../types/migrations.js';
+
+/**
+ * JSON Schema keywords that mark tool parameters as a schema rather than a
+ * bare map of property names to schemas
+ */
+const SCHEMA_KEYWORDS = [
+  '$schema',
+  '$ref',
+  '$defs',
+  'definitions',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'enum',
+  'const',
+  'anyOf',
+  'oneOf',
+  'allOf',
+  'not',
+];
+
+/**
+ * Schema version of the current agent and workflow shapes
+ */
+export const CURRENT_SCHEMA_VERSION = '1.0';
+
+/**
+ * Schema version assumed for documents without a `schemaVersion` field.
+ * Releases up to 0.4 did not version their documents.
+ */
+export const LEGACY_SCHEMA_VERSION = '0.4';
+
+/**
+ * Migration steps for agent configurations, oldest first
+ */
+export const AGENT_MIGRATIONS: readonly Migration[] = [
+  {
+    from: '0.4',
+    to: '1.0',
+    description: 'Introduces the schemaVersion field',
+    // Tool parameters must now be object schemas; 0.4 also accepted a bare
+    // map of property names to schemas
+    migrate: (document, changes) => ({
+      ...document,
+      ...(Array.isArray(document.tools) && {
+        tools: document.tools.map((tool, index) =>
+          wrapParameterMap(tool, ['tools', String(index)], changes)
+        ),
+      }),
+    }),
+  },
+];
+
+/**
+ * Migration steps for workflow configurations, oldest first
+ */
+export const WORKFLOW_MIGRATIONS: readonly Migration[] = [
+  {
+    from: '0.4',
+    to: '1.0',
+    description: 'Introduces the schemaVersion field',
+    migrate: (document) => ({ ...document }),
+  },
+];
+
+/**
+ * Helper: Wrap a tool's bare parameter map in `{ type: 'object', properties }`
+ */
+function wrapParameterMap(
+  tool: unknown,
+  path: string[],
+  changes: MigrationChange[]
+): unknown {
+  const parameters = isRecord(tool) ? tool.parameters : undefined;
+  if (
+    !isRecord(parameters) ||
+    Object.keys(parameters).length === 0 ||
+    typeof parameters.type === 'string' ||
+    SCHEMA_KEYWORDS.some((keyword) => keyword in parameters) ||
+    !Object.values(parameters).every(isRecord)
+  ) {
+    return tool;
+  }
+
+  changes.push({
+    path: [...path, 'parameters'],
+    message: 'Wrapped the parameter map in an object schema',
+  });
+  return {
+    ...(tool as Record<string, unknown>),
+    parameters: { type: 'object', properties: parameters },
+  };
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,105 @@
+/**
+ * Agent checks against the model catalog
+ */
+
+import { defaultModelCatalog } from './catalog.js';
+import type { AgentConfig } from '../types/agent.js';
+import type {
+  ModelCapabilityIssue,
+  ModelCatalog,
+  ModelParameterName,
+} from '../types/models.js';
+
+/**
+ * Checks an agent's parameters and features against its provider and model
+ *
+ * Flags parameters the provider (or, for catalogued models, the model) does
+ * not accept, temperatures above the provider's limit, `maxTokens` above the
+ * model's output limit, tools on models without tool calling, and output
+ * schemas on models with neither JSON mode nor tool calling. Providers
+ * missing from the catalog are not checked, and models missing from it only
+ * get the provider checks.
+ *
+ * @param agent - Agent configuration
+ * @param catalog - Catalog to look the provider and model up in (default: the built-in catalog)
+ * @param path - Path prefix for the reported issues
+ * @returns Issues, with paths into the agent (empty if compatible)
+ *
+ * @example
+ * ```typescript
+ * checkModelCapabilities({
+ *   id: 'writer',
+ *   name: 'Writer',
+ *   provider: 'anthropic',
+ *   model: 'claude-3-5-sonnet-20241022',
+ *   parameters: { presencePenalty: 0.5, maxTokens: 16000 },
+ * });
+ * // [
+ * //   { path: ['parameters', 'presencePenalty'], message: 'presencePenalty is not supported by Anthropic' },
+ * //   { path: ['parameters', 'maxTokens'], message: 'maxTokens 16000 exceeds the 8192 output tokens of model "claude-3-5-sonnet"' },
+ * // ]
+ * ```
+ */
+export function checkModelCapabilities(
+  agent: AgentConfig,
+  catalog: ModelCatalog = defaultModelCatalog,
+  path: string[] = []
+): ModelCapabilityIssue[] {
+  const provider = catalog.getProvider(agent.provider);
+  if (!provider) {
+    return [];
+  }
+
+  const model = catalog.getModel(agent.provider, agent.model);
+  const supported = model?.parameters ?? provider.parameters;
+  const supporter = model?.parameters ? `model "${model.id}"` : provider.name;
+  const parameters = agent.parameters ?? {};
+  const issues: ModelCapabilityIssue[] = [];
+  const fail = (field: string[], message: string) =>
+    issues.push({ path: [...path, ...field], message });
+
+  (Object.keys(parameters) as ModelParameterName[])
+    .filter((name) => parameters[name] !== undefined)
+    .filter((name) => !supported.includes(name))
+    .forEach((name) => {
+      fail(['parameters', name], `${name} is not supported by ${supporter}`);
+    });
+
+  if (
+    provider.maxTemperature !== undefined &&
+    supported.includes('temperature') &&
+    parameters.temperature !== undefined &&
+    parameters.temperature > provider.maxTemperature
+  ) {
+    fail(
+      ['parameters', 'temperature'],
+      `temperature must be <= ${provider.maxTemperature} for ${provider.name}`
+    );
+  }
+
+  if (!model) {
+    return issues;
+  }
+
+  if (
+    model.maxOutputTokens !== undefined &&
+    parameters.maxTokens !== undefined &&
+    parameters.maxTokens > model.maxOutputTokens
+  ) {
+    fail(
+      ['parameters', 'maxTokens'],
+      `maxTokens ${parameters.maxTokens} exceeds the ${model.maxOutputTokens} output tokens of model "${model.id}"`
+    );
+  }
+  if (agent.tools?.length && !model.tools) {
+    fail(['tools'], `Model "${model.id}" does not support tool calling`);
+  }
+  if (agent.outputSchema && !model.jsonMode && !model.tools) {
+    fail(
+      ['outputSchema'],
+      `Model "${model.id}" supports neither JSON mode nor tool calling, so it cannot produce structured output`
+    );
+  }
+
+  return issues;
+}
@@ -0,0 +1,126 @@
+/**
+ * Model catalog: providers and models with the parameters and capabilities
+ * they support
+ */
+
+import {
+  ModelInfoSchema,
+  ProviderInfoSchema,
+} from '../schemas/model.schema.js';
+import { BUILT_IN_PROVIDERS } from './providers.js';
+import type { AIProvider } from '../types/agent.js';
+import type { ModelCatalog, ModelInfo, ProviderInfo } from '../types/models.js';
+
+/**
+ * Creates a model catalog
+ *
+ * Providers and models are validated when they are registered. Registering
+ * a model the catalog already has requires `replace`, so custom entries
+ * cannot silently shadow built-in ones.
+ *
+ * @param options - Catalog options
+ * @param options.includeBuiltIns - Register the built-in providers and models (default: true)
+ * @returns A new model catalog
+ *
+ * @example
+ * ```typescript
+ * const models = createModelCatalog();
+ *
+ * models.registerModel('openai', {
+ *   id: 'gpt-4o-finetune',
+ *   contextWindow: 128000,
+ *   maxOutputTokens: 16384,
+ *   tools: true,
+ *   vision: false,
+ *   jsonMode: true,
+ * });
+ *
+ * const result = validateAgentConfig(agent, { models });
+ * ```
+ */
+export function createModelCatalog(
+  options: { includeBuiltIns?: boolean } = {}
+): ModelCatalog {
+  const { includeBuiltIns = true } = options;
+  const providers = new Map<AIProvider, ProviderInfo>();
+
+  const catalog: ModelCatalog = {
+    registerProvider(provider, registerOptions = {}) {
+      const info = ProviderInfoSchema.parse(provider) as ProviderInfo;
+      if (providers.has(info.id) && !registerOptions.replace) {
+        throw new Error(`Provider "${info.id}" is already registered`);
+      }
+      providers.set(info.id, info);
+    },
+
+    registerModel(providerId, model, registerOptions = {}) {
+      const provider = providers.get(providerId);
+      if (!provider) {
+        throw new Error(`Unknown provider "${providerId}"`);
+      }
+      const info = ModelInfoSchema.parse(model) as ModelInfo;
+      const index = provider.models.findIndex((entry) => entry.id === info.id);
+      if (index >= 0 && !registerOptions.replace) {
+        throw new Error(
+          `Model "${info.id}" is already registered for provider "${providerId}"`
+        );
+      }
+      provider.models =
+        index >= 0
+          ? provider.models.map((entry, i) => (i === index ? info : entry))
+          : [...provider.models, info];
+    },
+
+    getProvider(providerId) {
+      return providers.get(providerId);
+    },
+
+    getModel(providerId, model) {
+      const models = providers.get(providerId)?.models ?? [];
+      const id = resolveModelId(
+        model,
+        models.map((entry) => entry.id)
+      );
+      return models.find((entry) => entry.id === id);
+    },
+
+    listProviders() {
+      return [...providers.values()];
+    },
+  };
+
+  if (includeBuiltIns) {
+    BUILT_IN_PROVIDERS.forEach((provider) =>
+      catalog.registerProvider(provider)
+    );
+  }
+
+  return catalog;
+}
+
+/**
+ * Finds the catalogued model ID an agent's `model` string refers to
+ *
+ * @param model - Model string from an agent
+ * @param ids - Catalogued model IDs
+ * @returns The ID equal to `model`, or else the longest ID that `model`
+ *   extends with `-` (a dated snapshot or variant); undefined if none
+ *
+ * @example
+ * ```typescript
+ * resolveModelId('gpt-4o-mini-2024-07-18', ['gpt-4o', 'gpt-4o-mini']); // 'gpt-4o-mini'
+ * ```
+ */
+export function resolveModelId(
+  model: string,
+  ids: string[]
+): string | undefined {
+  return ids
+    .filter((id) => model === id || model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Default model catalog, with the built-in providers and models
+ */
+export const defaultModelCatalog = createModelCatalog();
@@ -0,0 +1,84 @@
+/**
+ * Model prices for cost estimation
+ */
+
+import { resolveModelId } from './catalog.js';
+import type { AIProvider } from '../types/agent.js';
+import type { ModelPricing, PricingTable } from '../types/estimation.js';
+
+/**
+ * Anthropic list prices; Bedrock charges the same under an `anthropic.` prefix
+ */
+const ANTHROPIC_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+/**
+ * List prices (US dollars per million tokens) used by `estimateWorkflowCost`
+ * when no table is given; pass your own table for negotiated or newer prices
+ */
+export const BUILT_IN_PRICING: PricingTable = {
+  openai: {
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    o1: { input: 15, output: 60 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+  },
+  anthropic: ANTHROPIC_PRICING,
+  google: {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  },
+  mistral: {
+    'mistral-large': { input: 2, output: 6 },
+    'mistral-small': { input: 0.2, output: 0.6 },
+  },
+  cohere: {
+    'command-r-plus': { input: 2.5, output: 10 },
+    'command-r': { input: 0.15, output: 0.6 },
+  },
+  bedrock: Object.fromEntries(
+    Object.entries(ANTHROPIC_PRICING).map(([id, price]) => [
+      `anthropic.${id}`,
+      price,
+    ])
+  ),
+};
+
+/**
+ * Looks up the price of a model
+ *
+ * @param pricing - Pricing table
+ * @param provider - Agent provider
+ * @param model - Agent model; dated snapshots use their base model's price
+ * @returns The model's price, or undefined if the table has none
+ *
+ * @example
+ * ```typescript
+ * getModelPricing(BUILT_IN_PRICING, 'anthropic', 'claude-3-5-sonnet-20241022');
+ * // { input: 3, output: 15 }
+ * ```
+ */
+export function getModelPricing(
+  pricing: PricingTable,
+  provider: AIProvider,
+  model: string
+): ModelPricing | undefined {
+  const prices = pricing[provider] ?? {};
+  const id = resolveModelId(model, Object.keys(prices));
+  return id !== undefined ? prices[id] : undefined;
+}
@@ -0,0 +1,305 @@
+/**
+ * Built-in provider and model capabilities
+ */
+
+import type { ModelParameterName, ProviderInfo } from '../types/models.js';
+
+/**
+ * Every model parameter
+ */
+const ALL_PARAMETERS: ModelParameterName[] = [
+  'temperature',
+  'maxTokens',
+  'topP',
+  'frequencyPenalty',
+  'presencePenalty',
+  'stopSequences',
+];
+
+/**
+ * Parameters without the repetition penalties
+ */
+const SAMPLING_PARAMETERS: ModelParameterName[] = [
+  'temperature',
+  'maxTokens',
+  'topP',
+  'stopSequences',
+];
+
+/**
+ * OpenAI models
+ */
+const OPENAI_MODELS: ProviderInfo['models'] = [
+  {
+    id: 'gpt-4.1',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    tools: true,
+    vision: true,
+    jsonMode: true,
+  },
+  {
+    id: 'gpt-4.1-mini',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    tools: true,
+    vision: true,
+    jsonMode: true,
+  },
+  {
+    id: 'gpt-4o',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    tools: true,
+    vision: true,
+    jsonMode: true,
+  },
+  {
+    id: 'gpt-4o-mini',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    tools: true,
+    vision: true,
+    jsonMode: true,
+  },
+  {
+    id: 'gpt-4-turbo',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    tools: true,
+    vision: true,
+    jsonMode: true,
+  },
+  {
+    id: 'gpt-4',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    tools: true,
+    vision: false,
+    jsonMode: false,
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    tools: true,
+    vision: false,
+    jsonMode: true,
+  },
+  {
+    id: 'o1',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    parameters: ['maxTokens'],
+    tools: true,
+    vision: true,
+    jsonMode: true,
+  },
+  {
+    id: 'o1-mini',
+    contextWindow: 128000,
+    maxOutputTokens: 65536,
+    parameters: ['maxTokens'],
+    tools: false,
+    vision: false,
+    jsonMode: false,
+  },
+  {
+    id: 'o3-mini',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    parameters: ['maxTokens'],
+    tools: true,
+    vision: false,
+    jsonMode: true,
+  },
+];
+
+/**
+ * Anthropic models; Bedrock serves them under an `anthropic.` prefix
+ */
+const ANTHROPIC_MODELS: ProviderInfo['models'] = [
+  {
+    id: 'claude-opus-4',
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    tools: true,
+    vision: true,
+    jsonMode: false,
+  },
+  {
+    id: 'claude-sonnet-4',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    tools: true,
+    vision: true,
+    jsonMode: false,
+  },
+  {
+    id: 'claude-3-7-sonnet',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    tools: true,
+    vision: true,
+    jsonMode: false,
+  },
+  {
+    id: 'claude-3-5-sonnet',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    tools: true,
+    vision: true,
+    jsonMode: false,
+  },
+  {
+    id: 'claude-3-5-haiku',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    tools: true,
+    vision: false,
+    jsonMode: false,
+  },
+  {
+    id: 'claude-3-opus',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    tools: true,
+    vision: true,
+    jsonMode: false,
+  },
+  {
+    id: 'claude-3-haiku',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    tools: true,
+    vision: true,
+    jsonMode: false,
+  },
+];
+
+/**
+ * Providers and models registered by `createModelCatalog`
+ *
+ * Azure OpenAI agents name a deployment rather than a model, so Azure lists
+ * no models; register deployments to have them checked.
+ */
+export const BUILT_IN_PROVIDERS: ProviderInfo[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    parameters: ALL_PARAMETERS,
+    models: OPENAI_MODELS,
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    parameters: SAMPLING_PARAMETERS,
+    maxTemperature: 1,
+    models: ANTHROPIC_MODELS,
+  },
+  {
+    id: 'google',
+    name: 'Google',
+    parameters: ALL_PARAMETERS,
+    models: [
+      {
+        id: 'gemini-2.5-pro',
+        contextWindow: 1048576,
+        maxOutputTokens: 65536,
+        tools: true,
+        vision: true,
+        jsonMode: true,
+      },
+      {
+        id: 'gemini-2.0-flash',
+        contextWindow: 1048576,
+        maxOutputTokens: 8192,
+        tools: true,
+        vision: true,
+        jsonMode: true,
+      },
+      {
+        id: 'gemini-1.5-pro',
+        contextWindow: 2097152,
+        maxOutputTokens: 8192,
+        tools: true,
+        vision: true,
+        jsonMode: true,
+      },
+      {
+        id: 'gemini-1.5-flash',
+        contextWindow: 1048576,
+        maxOutputTokens: 8192,
+        tools: true,
+        vision: true,
+        jsonMode: true,
+      },
+    ],
+  },
+  {
+    id: 'mistral',
+    name: 'Mistral',
+    parameters: ALL_PARAMETERS,
+    models: [
+      {
+        id: 'mistral-large',
+        contextWindow: 131072,
+        tools: true,
+        vision: false,
+        jsonMode: true,
+      },
+      {
+        id: 'mistral-small',
+        contextWindow: 32768,
+        tools: true,
+        vision: false,
+        jsonMode: true,
+      },
+      {
+        id: 'pixtral-large',
+        contextWindow: 131072,
+        tools: true,
+        vision: true,
+        jsonMode: true,
+      },
+    ],
+  },
+  {
+    id: 'cohere',
+    name: 'Cohere',
+    parameters: ALL_PARAMETERS,
+    models: [
+      {
+        id: 'command-r-plus',
+        contextWindow: 128000,
+        maxOutputTokens: 4000,
+        tools: true,
+        vision: false,
+        jsonMode: true,
+      },
+      {
+        id: 'command-r',
+        contextWindow: 128000,
+        maxOutputTokens: 4000,
+        tools: true,
+        vision: false,
+        jsonMode: true,
+      },
+    ],
+  },
+  {
+    id: 'azure-openai',
+    name: 'Azure OpenAI',
+    parameters: ALL_PARAMETERS,
+    models: [],
+  },
+  {
+    id: 'bedrock',
+    name: 'Amazon Bedrock',
+    parameters: SAMPLING_PARAMETERS,
+    models: ANTHROPIC_MODELS.map((model) => ({
+      ...model,
+      id: `anthropic.${model.id}`,
+    })),
+  },
+];
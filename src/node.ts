@@ -0,0 +1,22 @@
+/**
+ * AI Agent Schema SDK: Node.js entry
+ *
+ * Features that read the filesystem, kept out of the main entry so it can be
+ * bundled for browsers and edge runtimes.
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Agent Registry
+// ============================================================================
+
+// Export directory agent registries
+export { createDirectoryAgentRegistry } from './agents/directory-registry.js';
+
+// ============================================================================
+// Secret References
+// ============================================================================
+
+// Export the default secret resolver
+export { createSecretResolver } from './secrets/resolver.js';
@@ -0,0 +1,440 @@
+/**
+ * Local workflow execution engine
+ * Runs a workflow in-process, calling a model provider for agent nodes
+ */
+
+import {
+  getWorkflowTopologicalOrder,
+  validateWorkflowConfigStrict,
+} from '../utils/workflow-validator.js';
+import { evaluateCondition } from '../conditions/evaluator.js';
+import { resolveAgentExtends } from '../agents/inheritance.js';
+import { renderAgentTemplates } from '../templates/template.js';
+import { resolveSecrets } from '../secrets/references.js';
+import { validateJsonValue } from '../json-schema/validate.js';
+import { getLoopBody } from './loops.js';
+import type { AgentConfig } from '../types/agent.js';
+import type { AgentRegistry } from '../types/agent-registry.js';
+import type { JsonSchema } from '../types/json-schema.js';
+import type {
+  WorkflowConfig,
+  WorkflowConnection,
+  WorkflowExecutionContext,
+  WorkflowNode,
+} from '../types/workflow.js';
+import type {
+  WorkflowExecutionOptions,
+  WorkflowExecutionResult,
+  WorkflowExecutionStep,
+} from '../types/runtime.js';
+
+/**
+ * Executes a workflow locally
+ *
+ * Nodes run in `getWorkflowTopologicalOrder` order. A node runs only when one
+ * of its incoming connections was taken; nodes without incoming connections
+ * receive `options.input`. Connections with a `condition` are taken only when
+ * the condition holds (see `evaluateCondition`). Execution stops at the first
+ * `end` node reached.
+ *
+ * Loop nodes iterate over `metadata.items` (a variable name or an array) or,
+ * when unset, over their array input. Outgoing connections with
+ * `sourceHandle: 'loop'` form the loop body (all outgoing connections if none
+ * are marked); every node reachable from them, up to the loop's exit
+ * targets, runs once per item, with the item stored in the
+ * `metadata.itemVariable` variable (default: 'item'). The remaining
+ * connections receive the array of iteration outputs.
+ *
+ * Agent nodes may set `metadata.outputVariable` to store their output in a
+ * workflow variable. Prompt template placeholders in an agent's systemPrompt
+ * and tool descriptions are rendered from the workflow variables before the
+ * agent runs. With `options.secrets`, the agent's secret references are
+ * resolved before it reaches the provider. An agent with an `outputSchema`
+ * must return a matching value (text output is parsed as JSON first); the
+ * parsed value becomes the node's output.
+ *
+ * @param workflow - Workflow configuration to execute
+ * @param options - Execution options, including the model provider
+ * @returns Final context, outputs and executed steps
+ * @throws {ZodError} If the workflow is invalid
+ * @throws {Error} If the workflow has cycles, a required variable is missing
+ *   or a secret reference cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * const provider = createMockProvider({
+ *   responses: { classifier: 'billing' },
+ * });
+ *
+ * const result = await executeWorkflow(workflow, {
+ *   provider,
+ *   input: 'I was charged twice',
+ * });
+ *
+ * console.log(result.context.status, result.output);
+ * ```
+ */
+export async function executeWorkflow(
+  workflow: WorkflowConfig,
+  options: WorkflowExecutionOptions
+): Promise<WorkflowExecutionResult> {
+  const validated = validateWorkflowConfigStrict(workflow);
+  const order = getWorkflowTopologicalOrder(validated);
+
+  if (!order) {
+    throw new Error(
+      `Workflow "${validated.id}" has cycles and cannot be executed`
+    );
+  }
+
+  const {
+    provider,
+    input,
+    agents = [],
+    evaluateCondition: evaluate = evaluateCondition,
+    maxLoopIterations = 100,
+    executionId = generateExecutionId(),
+    onStep,
+    secrets,
+    schemas,
+  } = options;
+
+  const context: WorkflowExecutionContext = {
+    executionId,
+    workflowId: validated.id,
+    variables: resolveVariables(validated, options.variables),
+    startTime: new Date(),
+    status: 'running',
+  };
+
+  const nodes = new Map(validated.nodes.map((node) => [node.id, node]));
+  const outgoing = new Map<string, WorkflowConnection[]>();
+  const targets = new Set<string>();
+  validated.connections.forEach((conn) => {
+    outgoing.set(conn.sourceId, [...(outgoing.get(conn.sourceId) || []), conn]);
+    targets.add(conn.targetId);
+  });
+
+  const outputs: Record<string, unknown> = {};
+  const steps: WorkflowExecutionStep[] = [];
+  let lastOutput: unknown;
+
+  const recordStep = (step: WorkflowExecutionStep) => {
+    steps.push(step);
+    onStep?.(step, context);
+  };
+
+  // Connections whose condition holds for the given source output; lone
+  // identifiers are variables only if declared, as when type-checked
+  const declaredVariables = (validated.variables ?? []).map((v) => v.name);
+  const takeConnections = (
+    connections: WorkflowConnection[],
+    output: unknown
+  ) =>
+    connections.filter(
+      (conn) =>
+        !conn.condition ||
+        evaluate(conn.condition, {
+          variables: context.variables,
+          output,
+          outputs,
+          declaredVariables,
+        })
+    );
+
+  const runAgent = async (node: WorkflowNode, nodeInput: unknown) => {
+    // Placeholders are filled from the variables as they stand at this step
+    const rendered = renderAgentTemplates(resolveAgent(node, agents), {
+      variables: validated.variables ?? [],
+      values: context.variables,
+    });
+    const agent = secrets ? await resolveSecrets(rendered, secrets) : rendered;
+    const response = await provider.generate({
+      nodeId: node.id,
+      agent,
+      input: nodeInput,
+      variables: { ...context.variables },
+    });
+
+    const output = agent.outputSchema
+      ? checkAgentOutput(node.id, response.output, agent.outputSchema, schemas)
+      : response.output;
+
+    Object.assign(context.variables, response.variables);
+    const outputVariable = node.metadata?.outputVariable;
+    if (typeof outputVariable === 'string') {
+      context.variables[outputVariable] = output;
+    }
+
+    return output;
+  };
+
+  const runLoop = async (
+    node: WorkflowNode,
+    nodeInput: unknown,
+    handled: Set<string>
+  ) => {
+    const items = resolveLoopItems(node, nodeInput, context.variables);
+    if (items.length > maxLoopIterations) {
+      throw new Error(
+        `Loop node "${node.id}" has ${items.length} items; maxLoopIterations is ${maxLoopIterations}`
+      );
+    }
+
+    const { connections: bodyConnections, nodeIds: bodyIds } = getLoopBody(
+      node.id,
+      outgoing
+    );
+    const bodyOrder = order.filter((id) => bodyIds.has(id));
+    const itemVariable =
+      typeof node.metadata?.itemVariable === 'string'
+        ? node.metadata.itemVariable
+        : 'item';
+
+    const results: unknown[] = [];
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      context.variables[itemVariable] = item;
+
+      const entry = new Map<string, unknown>(
+        takeConnections(bodyConnections, item).map((conn) => [
+          conn.targetId,
+          item,
+        ])
+      );
+      // An end node inside the body only ends the current iteration
+      results.push(await walk(bodyOrder, entry, index));
+    }
+
+    bodyIds.forEach((id) => handled.add(id));
+    return results;
+  };
+
+  const walk = async (
+    ids: string[],
+    entry: Map<string, unknown>,
+    iteration?: number
+  ): Promise<unknown> => {
+    const inputs = new Map(entry);
+    // Nodes already run by a nested loop
+    const handled = new Set<string>();
+    let output: unknown;
+
+    for (const id of ids) {
+      if (handled.has(id) || !inputs.has(id)) {
+        continue;
+      }
+
+      const node = nodes.get(id)!;
+      const nodeInput = inputs.get(id);
+      context.currentNodeId = id;
+
+      try {
+        switch (node.type) {
+          case 'agent':
+            output = await runAgent(node, nodeInput);
+            break;
+          case 'loop':
+            output = await runLoop(node, nodeInput, handled);
+            break;
+          default:
+            // Triggers, conditions and end nodes pass their input through
+            output = nodeInput;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        recordStep({
+          nodeId: id,
+          type: node.type,
+          status: 'failed',
+          input: nodeInput,
+          error: message,
+          iteration,
+        });
+        throw error;
+      }
+
+      context.currentNodeId = id;
+      outputs[id] = output;
+      lastOutput = output;
+      recordStep({
+        nodeId: id,
+        type: node.type,
+        status: 'completed',
+        input: nodeInput,
+        output,
+        iteration,
+      });
+
+      if (node.type === 'end') {
+        return output;
+      }
+
+      // Loop body connections were already followed by runLoop
+      const connections = outgoing.get(id) || [];
+      const body =
+        node.type === 'loop' ? getLoopBody(id, outgoing).connections : [];
+      const next = connections.filter((conn) => !body.includes(conn));
+      takeConnections(next, output).forEach((conn) => {
+        inputs.set(conn.targetId, output);
+      });
+    }
+
+    return output;
+  };
+
+  const startNodes = new Map<string, unknown>(
+    order.filter((id) => !targets.has(id)).map((id) => [id, input])
+  );
+
+  try {
+    await walk(order, startNodes);
+    context.status = 'completed';
+    context.currentNodeId = undefined;
+    return { context, output: lastOutput, outputs, steps };
+  } catch (error) {
+    context.status = 'failed';
+    return {
+      context,
+      output: lastOutput,
+      outputs,
+      steps,
+      error: {
+        nodeId: context.currentNodeId,
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+/**
+ * Helper: Parse an agent's output and check it against its output schema
+ */
+function checkAgentOutput(
+  nodeId: string,
+  output: unknown,
+  schema: JsonSchema,
+  schemas: Record<string, JsonSchema> | undefined
+): unknown {
+  let value = output;
+  if (typeof output === 'string') {
+    try {
+      value = JSON.parse(output);
+    } catch {
+      throw new Error(
+        `Output of agent node "${nodeId}" is not JSON, but the agent has an output schema`
+      );
+    }
+  }
+
+  const issues = validateJsonValue(value, schema, { schemas });
+  if (issues.length > 0) {
+    const details = issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(
+      `Output of agent node "${nodeId}" does not match its output schema: ${details}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Helper: Apply declared defaults and caller values to workflow variables
+ */
+function resolveVariables(
+  workflow: WorkflowConfig,
+  values: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = {};
+
+  (workflow.variables || []).forEach((variable) => {
+    if (variable.defaultValue !== undefined) {
+      variables[variable.name] = variable.defaultValue;
+    }
+  });
+  Object.assign(variables, values);
+
+  (workflow.variables || []).forEach((variable) => {
+    if (variable.required && variables[variable.name] === undefined) {
+      throw new Error(`Missing required workflow variable "${variable.name}"`);
+    }
+  });
+
+  return variables;
+}
+
+/**
+ * Helper: Resolve an agent node's inline config or `agentId` reference,
+ * flattening agents that extend other provided agents
+ */
+function resolveAgent(
+  node: WorkflowNode,
+  agents: AgentConfig[] | AgentRegistry
+): AgentConfig {
+  const agent =
+    node.agent ||
+    (Array.isArray(agents)
+      ? agents.find((a) => a.id === node.agentId)
+      : node.agentId !== undefined
+        ? agents.get(node.agentId)
+        : undefined);
+  if (!agent) {
+    throw new Error(
+      `Agent "${node.agentId ?? ''}" referenced by node "${node.id}" was not found`
+    );
+  }
+  if (agent.extends === undefined) {
+    return agent;
+  }
+  return resolveAgentExtends(
+    agent,
+    Array.isArray(agents)
+      ? (id: string) => agents.find((a) => a.id === id)
+      : agents
+  ) as AgentConfig;
+}
+
+/**
+ * Helper: Resolve the items a loop node iterates over
+ */
+function resolveLoopItems(
+  node: WorkflowNode,
+  nodeInput: unknown,
+  variables: Record<string, unknown>
+): unknown[] {
+  const source = node.metadata?.items;
+  const items =
+    typeof source === 'string'
+      ? getPath(variables, source)
+      : (source ?? nodeInput);
+
+  if (!Array.isArray(items)) {
+    throw new Error(`Loop node "${node.id}" has no array of items to iterate`);
+  }
+  return items;
+}
+
+/**
+ * Helper: Read a dot-separated path from an object
+ */
+function getPath(source: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      source
+    );
+}
+
+/**
+ * Helper: Generate an execution ID
+ */
+function generateExecutionId(): string {
+  return `exec-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
@@ -0,0 +1,46 @@
+/**
+ * Loop body resolution shared by the executor and the cost estimator
+ */
+
+import type { WorkflowConnection } from '../types/workflow.js';
+
+/**
+ * Finds the body of a loop node
+ *
+ * Outgoing connections marked with `sourceHandle: 'loop'` enter the body; the
+ * other outgoing connections are exits. Without marked connections, every
+ * outgoing connection enters the body. The body is every node reachable from
+ * the body connections without passing the loop node itself or an exit
+ * target, so nodes on the exit path run after the loop, not once per item.
+ *
+ * @param loopId - Loop node ID
+ * @param outgoing - Outgoing connections by source node ID
+ * @returns Body connections and the IDs of the nodes in the body
+ */
+export function getLoopBody(
+  loopId: string,
+  outgoing: Map<string, WorkflowConnection[]>
+): { connections: WorkflowConnection[]; nodeIds: Set<string> } {
+  const all = outgoing.get(loopId) || [];
+  const marked = all.filter((conn) => conn.sourceHandle === 'loop');
+  const connections = marked.length > 0 ? marked : all;
+  const stops = new Set([
+    loopId,
+    ...all
+      .filter((conn) => !connections.includes(conn))
+      .map((conn) => conn.targetId),
+  ]);
+
+  const nodeIds = new Set<string>();
+  const stack = connections.map((conn) => conn.targetId);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (nodeIds.has(id) || stops.has(id)) {
+      continue;
+    }
+    nodeIds.add(id);
+    (outgoing.get(id) || []).forEach((conn) => stack.push(conn.targetId));
+  }
+
+  return { connections, nodeIds };
+}
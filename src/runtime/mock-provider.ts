@@ -0,0 +1,105 @@
+/**
+ * Deterministic mock model provider
+ * Lets workflow logic be tested offline with canned agent responses
+ */
+
+import type {
+  MockModelProvider,
+  MockProviderOptions,
+  MockResponse,
+  ModelRequest,
+  ModelResponse,
+} from '../types/runtime.js';
+
+/**
+ * Creates a mock model provider that answers from canned responses
+ *
+ * Responses are looked up by node ID, then agent ID. An array of responses is
+ * consumed one entry per call, repeating its last entry once exhausted.
+ * Without a matching entry, the provider echoes `[agentId] input`.
+ *
+ * @param options - Canned responses
+ * @returns Mock provider that records every request in `calls`
+ *
+ * @example
+ * ```typescript
+ * const provider = createMockProvider({
+ *   responses: {
+ *     classifier: 'billing',
+ *     reviewer: ['rejected', 'approved'],
+ *     writer: (request) => ({ output: `Draft for ${request.input}` }),
+ *   },
+ * });
+ *
+ * await executeWorkflow(workflow, { provider, input: 'Refund request' });
+ * expect(provider.calls).toHaveLength(3);
+ * ```
+ */
+export function createMockProvider(
+  options: MockProviderOptions = {}
+): MockModelProvider {
+  const { responses = {}, defaultResponse } = options;
+  const callCounts = new Map<string, number>();
+
+  const pickResponse = (request: ModelRequest): MockResponse | undefined => {
+    const key = [request.nodeId, request.agent.id].find((k) =>
+      Object.prototype.hasOwnProperty.call(responses, k)
+    );
+    if (key === undefined) {
+      return defaultResponse;
+    }
+
+    const entry = responses[key];
+    if (!Array.isArray(entry)) {
+      return entry;
+    }
+
+    const count = callCounts.get(key) || 0;
+    callCounts.set(key, count + 1);
+    return entry[Math.min(count, entry.length - 1)];
+  };
+
+  const provider: MockModelProvider = {
+    name: 'mock',
+    calls: [],
+
+    async generate(request) {
+      provider.calls.push(request);
+
+      const response = pickResponse(request);
+      if (response === undefined) {
+        return {
+          output: `[${request.agent.id}] ${formatInput(request.input)}`,
+        };
+      }
+
+      return toModelResponse(
+        typeof response === 'function' ? response(request) : response
+      );
+    },
+
+    reset() {
+      provider.calls = [];
+      callCounts.clear();
+    },
+  };
+
+  return provider;
+}
+
+/**
+ * Helper: Normalize a string response into a model response
+ */
+function toModelResponse(response: string | ModelResponse): ModelResponse {
+  return typeof response === 'string' ? { output: response } : response;
+}
+
+/**
+ * Helper: Render a node input for the echo response
+ */
+function formatInput(input: unknown): string {
+  if (input === undefined) {
+    return '';
+  }
+  return typeof input === 'string' ? input : JSON.stringify(input);
+}
@@ -0,0 +1,127 @@
+/**
+ * Zod schemas for adapter registration and adapter options
+ */
+import { z } from 'zod';
+import type { AgentRegistry } from '../types/agent-registry.js';
+
+/**
+ * Agent registry option schema (any object implementing AgentRegistry)
+ */
+const AgentRegistryOptionSchema = z.custom<AgentRegistry>(
+  (value) =>
+    value !== null &&
+    typeof value === 'object' &&
+    ['register', 'unregister', 'get', 'has', 'list'].every(
+      (method) =>
+        typeof (value as Record<string, unknown>)[method] === 'function'
+    ),
+  'Expected an agent registry'
+);
+
+/**
+ * Adapter capability enum schema
+ */
+export const AdapterCapabilitySchema = z.enum([
+  'agent-export',
+  'workflow-export',
+  'import',
+]);
+
+/**
+ * Adapter registration metadata schema
+ */
+export const AdapterInfoSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9-]*$/,
+      'Adapter name must be lowercase letters, digits and dashes'
+    ),
+  version: z
+    .string()
+    .regex(
+      /^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?$/,
+      'Adapter version must be a semantic version'
+    ),
+  description: z.string().optional(),
+  capabilities: z
+    .array(AdapterCapabilitySchema)
+    .min(1, 'At least one capability is required'),
+});
+
+/**
+ * n8n adapter options schema (export and import)
+ */
+export const N8nAdapterOptionsSchema = z
+  .object({
+    startPosition: z.tuple([z.number(), z.number()]).optional(),
+    nodeSpacing: z.number().positive().optional(),
+    includeCredentials: z.boolean().optional(),
+    workflowSettings: z
+      .object({
+        executionOrder: z.enum(['v0', 'v1']).optional(),
+        saveExecutionProgress: z.boolean().optional(),
+        saveManualExecutions: z.boolean().optional(),
+      })
+      .optional(),
+    workflowId: z.string().min(1).optional(),
+    agents: AgentRegistryOptionSchema.optional(),
+  })
+  .strict();
+
+/**
+ * LangChain adapter options schema (export and import)
+ */
+export const LangChainAdapterOptionsSchema = z
+  .object({
+    agentType: z
+      .enum([
+        'zero-shot-react-description',
+        'react-docstore',
+        'self-ask-with-search',
+        'conversational-react-description',
+        'chat-zero-shot-react-description',
+        'chat-conversational-react-description',
+        'structured-chat-zero-shot-react-description',
+        'openai-functions',
+        'openai-multi-functions',
+      ])
+      .optional(),
+    verbose: z.boolean().optional(),
+    maxIterations: z.number().int().positive().optional(),
+    returnIntermediateSteps: z.boolean().optional(),
+    workflowId: z.string().min(1).optional(),
+    agents: AgentRegistryOptionSchema.optional(),
+  })
+  .strict();
+
+/**
+ * CrewAI adapter options schema (export and import)
+ */
+export const CrewAIAdapterOptionsSchema = z
+  .object({
+    process: z.enum(['sequential', 'hierarchical', 'consensual']).optional(),
+    verbose: z.boolean().optional(),
+    enableMemory: z.boolean().optional(),
+    enableCache: z.boolean().optional(),
+    maxRpm: z.number().int().positive().optional(),
+    workflowId: z.string().min(1).optional(),
+    defaultModel: z.string().min(1).optional(),
+    agents: AgentRegistryOptionSchema.optional(),
+  })
+  .strict();
+
+/**
+ * AutoGen adapter options schema (export and import)
+ */
+export const AutoGenAdapterOptionsSchema = z
+  .object({
+    teamType: z.enum(['round-robin', 'selector', 'graph-flow']).optional(),
+    maxMessages: z.number().int().positive().optional(),
+    reflectOnToolUse: z.boolean().optional(),
+    maxToolIterations: z.number().int().positive().optional(),
+    modelClientStream: z.boolean().optional(),
+    workflowId: z.string().min(1).optional(),
+    agents: AgentRegistryOptionSchema.optional(),
+  })
+  .strict();
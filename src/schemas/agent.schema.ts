@@ -2,6 +2,10 @@
  * Zod schemas for AI Agent validation
  */
 import { z } from 'zod';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/versions.js';
+import { JsonSchemaSchema } from './json-schema.schema.js';
+import { SecretReferenceSchema } from './secret.schema.js';
+import { checkToolArguments } from '../tools/kinds.js';
 
 /**
  * AI Provider enum schema
@@ -27,16 +31,107 @@ export const MemoryConfigSchema = z.object({
 });
 
 /**
- * Tool schema
+ * Fields shared by every tool kind
  */
-export const ToolSchema = z.object({
+const ToolBaseSchema = z.object({
   id: z.string().min(1, 'Tool ID is required'),
   name: z.string().min(1, 'Tool name is required'),
   description: z.string(),
-  parameters: z.record(z.unknown()).optional(),
+  parameters: JsonSchemaSchema.optional(),
+  strict: z.boolean().optional(),
   requiresAuth: z.boolean().optional(),
+  config: z.record(z.unknown()).optional(),
 });
 
+/**
+ * Function tool schema
+ */
+export const FunctionToolSchema = ToolBaseSchema.extend({
+  kind: z.literal('function').optional(),
+});
+
+/**
+ * HTTP tool schema
+ */
+export const HttpToolSchema = ToolBaseSchema.extend({
+  kind: z.literal('http'),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+  url: z
+    .string()
+    .regex(/^https?:\/\/\S+$/, 'URL must start with http:// or https://'),
+  headers: z.record(z.union([z.string(), SecretReferenceSchema])).optional(),
+  body: z.record(z.string().min(1, 'Parameter name is required')).optional(),
+});
+
+/**
+ * MCP tool schema
+ */
+export const McpToolSchema = ToolBaseSchema.extend({
+  kind: z.literal('mcp'),
+  server: z.union([
+    z.object({ url: z.string().url() }).strict(),
+    z
+      .object({
+        command: z.string().min(1, 'Server command is required'),
+        args: z.array(z.string()).optional(),
+      })
+      .strict(),
+  ]),
+  toolName: z.string().min(1, 'MCP tool name is required'),
+});
+
+/**
+ * Code tool schema
+ */
+export const CodeToolSchema = ToolBaseSchema.extend({
+  kind: z.literal('code'),
+  language: z.enum(['python', 'javascript']),
+  code: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+});
+
+/**
+ * Retriever tool schema
+ */
+export const RetrieverToolSchema = ToolBaseSchema.extend({
+  kind: z.literal('retriever'),
+  source: z.object({
+    store: z.string().min(1, 'Vector store is required'),
+    index: z.string().min(1, 'Index is required'),
+    namespace: z.string().optional(),
+    embeddingModel: z.string().optional(),
+  }),
+  topK: z.number().int().positive().optional(),
+});
+
+/**
+ * Tool schema, discriminated by `kind`
+ */
+export const ToolSchema = z
+  .discriminatedUnion(
+    'kind',
+    [
+      FunctionToolSchema,
+      HttpToolSchema,
+      McpToolSchema,
+      CodeToolSchema,
+      RetrieverToolSchema,
+    ],
+    {
+      errorMap: (issue, ctx) => ({
+        message:
+          issue.code === 'invalid_union_discriminator'
+            ? 'Tool kind must be one of function, http, mcp, code, retriever'
+            : ctx.defaultError,
+      }),
+    }
+  )
+  .superRefine((tool, ctx) => {
+    checkToolArguments(tool).forEach(({ path, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+    });
+  });
+
 /**
  * Model parameters schema
  */
@@ -53,7 +148,14 @@ export const ModelParametersSchema = z.object({
  * Core Agent configuration schema
  */
 export const AgentConfigSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION).optional(),
   id: z.string().min(1, 'Agent ID is required'),
+  extends: z
+    .union([
+      z.string().min(1, 'Base agent ID is required'),
+      z.array(z.string().min(1, 'Base agent ID is required')).min(1),
+    ])
+    .optional(),
   name: z.string().min(1, 'Agent name is required'),
   description: z.string().optional(),
   provider: AIProviderSchema,
@@ -62,6 +164,7 @@ export const AgentConfigSchema = z.object({
   parameters: ModelParametersSchema.optional(),
   tools: z.array(ToolSchema).optional(),
   memory: MemoryConfigSchema.optional(),
+  outputSchema: JsonSchemaSchema.optional(),
   connections: z.array(z.string()).optional(),
   metadata: z.record(z.unknown()).optional(),
 });
@@ -0,0 +1,16 @@
+/**
+ * Zod schema for embedded JSON Schema documents
+ */
+import { z } from 'zod';
+import { checkJsonSchema } from '../json-schema/check.js';
+
+/**
+ * JSON Schema document schema; issues are reported at the offending keyword
+ */
+export const JsonSchemaSchema = z
+  .record(z.unknown())
+  .superRefine((schema, ctx) => {
+    checkJsonSchema(schema).forEach(({ path, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+    });
+  });
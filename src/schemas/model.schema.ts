@@ -0,0 +1,34 @@
+/**
+ * Zod schemas for model catalog registration
+ */
+import { z } from 'zod';
+import { AIProviderSchema, ModelParametersSchema } from './agent.schema.js';
+
+/**
+ * Model parameter name schema
+ */
+export const ModelParameterNameSchema = ModelParametersSchema.keyof();
+
+/**
+ * Model capability schema
+ */
+export const ModelInfoSchema = z.object({
+  id: z.string().min(1, 'Model ID is required'),
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  parameters: z.array(ModelParameterNameSchema).optional(),
+  tools: z.boolean(),
+  vision: z.boolean(),
+  jsonMode: z.boolean(),
+});
+
+/**
+ * Provider capability schema
+ */
+export const ProviderInfoSchema = z.object({
+  id: AIProviderSchema,
+  name: z.string().min(1, 'Provider name is required'),
+  parameters: z.array(ModelParameterNameSchema),
+  maxTemperature: z.number().min(0).max(2).optional(),
+  models: z.array(ModelInfoSchema),
+});
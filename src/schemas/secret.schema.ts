@@ -0,0 +1,34 @@
+/**
+ * Zod schema for secret references
+ */
+import { z } from 'zod';
+
+/**
+ * Secret reference schema
+ */
+export const SecretReferenceSchema = z.discriminatedUnion('$secret', [
+  z
+    .object({
+      $secret: z.literal('env'),
+      name: z.string().min(1, 'Environment variable name is required'),
+    })
+    .strict(),
+  z
+    .object({
+      $secret: z.literal('file'),
+      path: z.string().min(1, 'Secret file path is required'),
+    })
+    .strict(),
+  z
+    .object({
+      $secret: z.literal('vault'),
+      key: z.string().min(1, 'Vault key is required'),
+      vault: z.string().min(1).optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * Type inference from Zod schema
+ */
+export type SecretReference = z.infer<typeof SecretReferenceSchema>;
@@ -2,7 +2,12 @@
  * Zod schemas for Workflow validation
  */
 import { z } from 'zod';
-import { AgentConfigSchema } from './agent.schema.js';
+import { CURRENT_SCHEMA_VERSION } from '../migrations/versions.js';
+import {
+  AgentConfigSchema,
+  AIProviderSchema,
+  ModelParametersSchema,
+} from './agent.schema.js';
 
 /**
  * Node position schema
@@ -63,11 +68,33 @@ export const WorkflowVariableSchema = z.object({
   required: z.boolean().optional(),
 });
 
+/**
+ * Environment overlay schema
+ */
+export const WorkflowEnvironmentSchema = z.object({
+  nodes: z
+    .record(
+      z.object({
+        provider: AIProviderSchema.optional(),
+        model: z.string().min(1, 'Model is required').optional(),
+        parameters: ModelParametersSchema.optional(),
+      })
+    )
+    .optional(),
+  trigger: z
+    .object({
+      config: z.record(z.unknown()).optional(),
+    })
+    .optional(),
+  variables: z.record(z.unknown()).optional(),
+});
+
 /**
  * Complete workflow configuration schema
  */
 export const WorkflowConfigSchema = z
   .object({
+    schemaVersion: z.literal(CURRENT_SCHEMA_VERSION).optional(),
     id: z.string().min(1, 'Workflow ID is required'),
     name: z.string().min(1, 'Workflow name is required'),
     description: z.string().optional(),
@@ -78,6 +105,7 @@ export const WorkflowConfigSchema = z
     variables: z.array(WorkflowVariableSchema).optional(),
     tags: z.array(z.string()).optional(),
     metadata: z.record(z.unknown()).optional(),
+    environments: z.record(WorkflowEnvironmentSchema).optional(),
   })
   .refine(
     (workflow) => {
@@ -114,3 +142,4 @@ export type WorkflowConnection = z.infer<typeof WorkflowConnectionSchema>;
 export type WorkflowTrigger = z.infer<typeof WorkflowTriggerSchema>;
 export type WorkflowVariable = z.infer<typeof WorkflowVariableSchema>;
 export type NodePosition = z.infer<typeof NodePositionSchema>;
+export type WorkflowEnvironment = z.infer<typeof WorkflowEnvironmentSchema>;
@@ -0,0 +1,202 @@
+/**
+ * Finds, checks and resolves secret references in agent and workflow
+ * documents
+ */
+
+import { SecretReferenceSchema } from '../schemas/secret.schema.js';
+import type {
+  SecretIssue,
+  SecretReference,
+  SecretReferenceLocation,
+  SecretResolver,
+} from '../types/secrets.js';
+
+/**
+ * Checks whether a value is a well-formed secret reference
+ *
+ * @param value - Value to check
+ * @returns True for `{ $secret: 'env' | 'file' | 'vault', ... }` objects
+ *   that match the secret reference schema
+ *
+ * @example
+ * ```typescript
+ * isSecretReference({ $secret: 'env', name: 'OPENAI_API_KEY' }); // true
+ * isSecretReference('sk-...'); // false
+ * ```
+ */
+export function isSecretReference(value: unknown): value is SecretReference {
+  return SecretReferenceSchema.safeParse(value).success;
+}
+
+/**
+ * Names the secret a reference points to
+ *
+ * @param reference - Secret reference
+ * @returns The environment variable name, the file name (without its
+ *   directory) or the vault key
+ *
+ * @example
+ * ```typescript
+ * getSecretName({ $secret: 'file', path: './secrets/openai.key' }); // 'openai.key'
+ * ```
+ */
+export function getSecretName(reference: SecretReference): string {
+  switch (reference.$secret) {
+    case 'env':
+      return reference.name;
+    case 'file':
+      return fileName(reference.path);
+    case 'vault':
+      return reference.key;
+  }
+}
+
+/**
+ * Lists the well-formed secret references in a document
+ *
+ * @param document - Agent, workflow or any other document
+ * @returns References with their paths, in document order
+ *
+ * @example
+ * ```typescript
+ * findSecretReferences(agent);
+ * // [{ path: ['metadata', 'apiKey'], reference: { $secret: 'vault', key: 'openai' } }]
+ * ```
+ */
+export function findSecretReferences(
+  document: unknown
+): SecretReferenceLocation[] {
+  const found: SecretReferenceLocation[] = [];
+  walk(document, [], (value, path) => {
+    if (isSecretReference(value)) {
+      found.push({ path, reference: value });
+      return true;
+    }
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Checks that every object with a `$secret` key is a well-formed secret
+ * reference
+ *
+ * @param document - Agent, workflow or any other document
+ * @returns Issues located at the malformed references
+ *
+ * @example
+ * ```typescript
+ * checkSecretReferences({ metadata: { apiKey: { $secret: 'env' } } });
+ * // [{ path: ['metadata', 'apiKey', 'name'], message: 'Required' }]
+ * ```
+ */
+export function checkSecretReferences(document: unknown): SecretIssue[] {
+  const issues: SecretIssue[] = [];
+  walk(document, [], (value, path) => {
+    if (!isRecord(value) || !('$secret' in value)) {
+      return false;
+    }
+    const result = SecretReferenceSchema.safeParse(value);
+    if (!result.success) {
+      issues.push(
+        ...result.error.errors.map((issue) => ({
+          path: [...path, ...issue.path.map(String)],
+          message: issue.message,
+        }))
+      );
+    }
+    return true;
+  });
+  return issues;
+}
+
+/**
+ * Replaces the secret references in a document with their values
+ *
+ * @param document - Agent, workflow or any other document
+ * @param resolver - Resolver that reads the secrets
+ * @returns A copy of the document with references replaced by strings
+ * @throws {Error} If a reference cannot be resolved; the message names the
+ *   reference's path
+ *
+ * @example
+ * ```typescript
+ * const resolved = await resolveSecrets(agent, createSecretResolver());
+ * resolved.metadata?.apiKey; // 'sk-...'
+ * ```
+ */
+export async function resolveSecrets<T>(
+  document: T,
+  resolver: SecretResolver
+): Promise<T> {
+  const resolve = async (value: unknown, path: string[]): Promise<unknown> => {
+    if (isSecretReference(value)) {
+      try {
+        return await resolver.resolve(value);
+      } catch (error) {
+        throw new Error(
+          `Cannot resolve secret at ${path.join('.')}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    // Resolved one at a time, so the first failing reference is reported
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const [index, item] of value.entries()) {
+        items.push(await resolve(item, [...path, String(index)]));
+      }
+      return items;
+    }
+    if (isRecord(value)) {
+      const resolved: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = await resolve(item, [...path, key]);
+      }
+      return resolved;
+    }
+    return value;
+  };
+
+  return (await resolve(document, [])) as T;
+}
+
+/**
+ * Helper: Visit every value of a document depth-first; the visitor returns
+ * true to skip a value's children
+ */
+function walk(
+  value: unknown,
+  path: string[],
+  visit: (value: unknown, path: string[]) => boolean
+): void {
+  if (visit(value, path)) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => walk(item, [...path, String(index)], visit));
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([key, item]) =>
+      walk(item, [...path, key], visit)
+    );
+  }
+}
+
+/**
+ * Helper: The last segment of a POSIX or Windows path, without trailing
+ * separators
+ */
+function fileName(path: string): string {
+  return (
+    path
+      .replace(/[\\/]+$/, '')
+      .split(/[\\/]/)
+      .pop() ?? ''
+  );
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,80 @@
+/**
+ * Default secret resolver: environment variables, files and vaults
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type {
+  SecretReference,
+  SecretResolver,
+  SecretResolverOptions,
+} from '../types/secrets.js';
+
+/**
+ * Creates a secret resolver
+ *
+ * `env` references read the given environment, `file` references read a
+ * file relative to `cwd` (trailing newlines trimmed), and `vault` references
+ * look their key up in the named vault. Plug in other secret stores as
+ * vaults, or implement `SecretResolver` directly.
+ *
+ * @param options - Environment, working directory and vaults
+ * @returns Secret resolver
+ *
+ * @example
+ * ```typescript
+ * const secrets = createSecretResolver({
+ *   vaults: { default: (key) => keychain.get(key) },
+ * });
+ *
+ * await secrets.resolve({ $secret: 'env', name: 'OPENAI_API_KEY' });
+ * await secrets.resolve({ $secret: 'vault', key: 'openai-prod' });
+ * ```
+ */
+export function createSecretResolver(
+  options: SecretResolverOptions = {}
+): SecretResolver {
+  const { env = process.env, cwd = process.cwd(), vaults = {} } = options;
+
+  return {
+    async resolve(reference: SecretReference): Promise<string> {
+      switch (reference.$secret) {
+        case 'env': {
+          const value = env[reference.name];
+          if (value === undefined) {
+            throw new Error(
+              `Environment variable "${reference.name}" is not set`
+            );
+          }
+          return value;
+        }
+
+        case 'file':
+          try {
+            const contents = await readFile(
+              resolve(cwd, reference.path),
+              'utf8'
+            );
+            return contents.replace(/\r?\n+$/, '');
+          } catch (error) {
+            throw new Error(
+              `Cannot read secret file "${reference.path}": ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+
+        case 'vault': {
+          const name = reference.vault ?? 'default';
+          const lookup = vaults[name];
+          if (!lookup) {
+            throw new Error(`Vault "${name}" is not configured`);
+          }
+          const value = await lookup(reference.key);
+          if (value === undefined) {
+            throw new Error(`Vault "${name}" has no key "${reference.key}"`);
+          }
+          return value;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Detects literal credentials in agent and workflow documents
+ */
+
+import type { SecretIssue } from '../types/secrets.js';
+
+/**
+ * Well-known API key and private key formats
+ */
+const SECRET_PATTERNS: Array<[label: string, pattern: RegExp]> = [
+  ['an OpenAI or Anthropic API key', /\bsk-[A-Za-z0-9_-]{20,}/],
+  ['an AWS access key', /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/],
+  ['a Google API key', /\bAIza[0-9A-Za-z_-]{35}\b/],
+  ['a GitHub token', /\bgh[pousr]_[A-Za-z0-9]{36,}\b/],
+  ['a Slack token', /\bxox[abprs]-[A-Za-z0-9-]{10,}/],
+  ['a private key', /-----BEGIN [A-Z ]*PRIVATE KEY-----/],
+];
+
+/**
+ * Keys whose string values are credentials (compared lower-cased, without
+ * `-` and `_`)
+ */
+const SECRET_KEYS = new Set([
+  'apikey',
+  'accesskey',
+  'secretkey',
+  'privatekey',
+  'secret',
+  'clientsecret',
+  'password',
+  'token',
+  'accesstoken',
+  'authtoken',
+  'bearertoken',
+  'authorization',
+  'proxyauthorization',
+  'xapikey',
+]);
+
+/**
+ * `{{ name }}` placeholder filled in when a request is made
+ */
+const TEMPLATE_PLACEHOLDER = /\{\{[^{}]*\}\}/;
+
+/**
+ * Finds literal credentials in a document
+ *
+ * Reports strings that look like well-known API keys anywhere in the
+ * document, and any non-empty string stored under a credential key such as
+ * `apiKey`, `token` or `password`. HTTP tool `body` values, which name tool
+ * arguments, and header values with `{{ }}` placeholders are not
+ * credentials. Credentials should be secret references instead.
+ *
+ * @param document - Agent, workflow or any other document
+ * @returns Issues located at the literal credentials
+ *
+ * @example
+ * ```typescript
+ * scanForLiteralSecrets({ metadata: { apiKey: 'sk-...' } });
+ * // [{ path: ['metadata', 'apiKey'], message: 'Literal credential in "apiKey"; use a secret reference' }]
+ * ```
+ */
+export function scanForLiteralSecrets(document: unknown): SecretIssue[] {
+  const issues: SecretIssue[] = [];
+
+  const scan = (value: unknown, path: string[]): void => {
+    if (typeof value === 'string') {
+      const key = path[path.length - 1] ?? '';
+      const match = SECRET_PATTERNS.find(([, pattern]) => pattern.test(value));
+      if (match) {
+        issues.push({
+          path,
+          message: `Value looks like ${match[0]}; use a secret reference`,
+        });
+      } else if (
+        value.trim() &&
+        SECRET_KEYS.has(key.toLowerCase().replace(/[-_]/g, '')) &&
+        !isToolField(path, 'body') &&
+        !(isToolField(path, 'headers') && TEMPLATE_PLACEHOLDER.test(value))
+      ) {
+        issues.push({
+          path,
+          message: `Literal credential in "${key}"; use a secret reference`,
+        });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => scan(item, [...path, String(index)]));
+    } else if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) =>
+        scan(item, [...path, key])
+      );
+    }
+  };
+
+  scan(document, []);
+  return issues;
+}
+
+/**
+ * Helper: Whether a path points into a field of a tool, such as
+ * ['tools', '0', 'body', 'password']
+ */
+function isToolField(path: string[], field: string): boolean {
+  const at = path.length - 4;
+  return (
+    at >= 0 &&
+    path[at] === 'tools' &&
+    /^\d+$/.test(path[at + 1]) &&
+    path[at + 2] === field
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Translates prompt templates to and from the templating of export targets
+ * Shared by the n8n, LangChain and CrewAI adapters
+ */
+
+import { parsePromptTemplate } from './template.js';
+
+/**
+ * Compiles a template, formatting each placeholder and literal text run
+ *
+ * @param template - Template text
+ * @param formatVariable - Returns the target's placeholder for a variable
+ * @param escapeText - Escapes literal text for the target (default: as-is)
+ * @returns Compiled template text
+ *
+ * @example
+ * ```typescript
+ * compileTemplate('Hi {{ name }}', (name) => `<%= ${name} %>`);
+ * // 'Hi <%= name %>'
+ * ```
+ */
+export function compileTemplate(
+  template: string,
+  formatVariable: (name: string) => string,
+  escapeText: (text: string) => string = (text) => text
+): string {
+  return parsePromptTemplate(template)
+    .map((segment) =>
+      segment.type === 'variable'
+        ? formatVariable(segment.name)
+        : escapeText(segment.value)
+    )
+    .join('');
+}
+
+/**
+ * Compiles a template to a Python format string (`{name}`)
+ *
+ * LangChain prompt templates use `str.format` semantics, so literal braces
+ * are doubled; CrewAI only substitutes known input names and takes literal
+ * braces as-is.
+ *
+ * @param template - Template text
+ * @param escapeBraces - Whether to double literal braces (default: true)
+ * @returns Python format string
+ *
+ * @example
+ * ```typescript
+ * compileTemplateToPython('Reply in {{ language }} as {"ok": true}');
+ * // 'Reply in {language} as {{"ok": true}}'
+ * ```
+ */
+export function compileTemplateToPython(
+  template: string,
+  escapeBraces = true
+): string {
+  return compileTemplate(
+    template,
+    (name) => `{${name}}`,
+    escapeBraces ? (text) => text.replace(/[{}]/g, '$&$&') : undefined
+  );
+}
+
+/**
+ * Compiles a template to an n8n expression reading variables from the
+ * incoming item (`={{ $json.name }}`)
+ *
+ * Templates without placeholders are returned unchanged, as plain n8n
+ * parameter values.
+ *
+ * @param template - Template text
+ * @returns n8n parameter value
+ *
+ * @example
+ * ```typescript
+ * compileTemplateToN8n('You help {{ customer }}');
+ * // '=You help {{ $json.customer }}'
+ * ```
+ */
+export function compileTemplateToN8n(template: string): string {
+  const compiled = compileTemplate(template, (name) => `{{ $json.${name} }}`);
+  return compiled === template ? template : `=${compiled}`;
+}
+
+/**
+ * Translates a Python format string back into a template
+ *
+ * @param text - Python format string
+ * @param escapedBraces - Whether literal braces are doubled (default: true)
+ * @returns Template text with `{{ name }}` placeholders
+ *
+ * @example
+ * ```typescript
+ * parseTemplateFromPython('Reply in {language} as {{"ok": true}}');
+ * // 'Reply in {{ language }} as {"ok": true}'
+ * ```
+ */
+export function parseTemplateFromPython(
+  text: string,
+  escapedBraces = true
+): string {
+  const pattern = escapedBraces
+    ? /\{\{|\}\}|\{([A-Za-z_][A-Za-z0-9_]*)\}/g
+    : /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+  return text.replace(pattern, (match, name?: string) =>
+    name ? `{{ ${name} }}` : match[0]
+  );
+}
+
+/**
+ * Translates an n8n parameter value back into a template
+ *
+ * Only expressions that are entirely `{{ $json.name }}` placeholders are
+ * translated; other values are returned unchanged.
+ *
+ * @param value - n8n parameter value
+ * @returns Template text with `{{ name }}` placeholders
+ *
+ * @example
+ * ```typescript
+ * parseTemplateFromN8n('=You help {{ $json.customer }}');
+ * // 'You help {{ customer }}'
+ * ```
+ */
+export function parseTemplateFromN8n(value: string): string {
+  if (!value.startsWith('=')) {
+    return value;
+  }
+  const expressions = value.match(/\{\{.*?\}\}/g) ?? [];
+  const placeholder = /^\{\{\s*\$json\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+  if (!expressions.every((expression) => placeholder.test(expression))) {
+    return value;
+  }
+  return value
+    .slice(1)
+    .replace(
+      /\{\{\s*\$json\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g,
+      (_, name: string) => `{{ ${name} }}`
+    );
+}
@@ -0,0 +1,245 @@
+/**
+ * Prompt templates: `{{ name }}` placeholders in systemPrompt and tool
+ * descriptions, filled from workflow variables
+ */
+
+import type { AgentConfig } from '../types/agent.js';
+import type {
+  TemplateIssue,
+  TemplateRenderOptions,
+  TemplateSegment,
+} from '../types/templates.js';
+import type { WorkflowConfig, WorkflowVariable } from '../types/workflow.js';
+
+/**
+ * A placeholder: a variable name between double braces, with optional spaces
+ */
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Splits a template into literal text and placeholders
+ *
+ * Only `{{ name }}` with a valid variable name is a placeholder; any other
+ * braces are literal text.
+ *
+ * @param template - Template text
+ * @returns Text and variable segments in order
+ *
+ * @example
+ * ```typescript
+ * parsePromptTemplate('Hello {{ customer }}!');
+ * // [{ type: 'text', value: 'Hello ' }, { type: 'variable', name: 'customer' },
+ * //  { type: 'text', value: '!' }]
+ * ```
+ */
+export function parsePromptTemplate(template: string): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let last = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (match.index! > last) {
+      segments.push({ type: 'text', value: template.slice(last, match.index) });
+    }
+    segments.push({ type: 'variable', name: match[1] });
+    last = match.index! + match[0].length;
+  }
+  if (last < template.length) {
+    segments.push({ type: 'text', value: template.slice(last) });
+  }
+
+  return segments;
+}
+
+/**
+ * Lists the variables a template refers to
+ *
+ * @param template - Template text
+ * @returns Variable names in order of first use, without duplicates
+ *
+ * @example
+ * ```typescript
+ * getTemplateVariables('{{ a }} and {{b}} and {{ a }}'); // ['a', 'b']
+ * ```
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = parsePromptTemplate(template).flatMap((segment) =>
+    segment.type === 'variable' ? [segment.name] : []
+  );
+  return [...new Set(names)];
+}
+
+/**
+ * Fills a template's placeholders
+ *
+ * A placeholder takes the caller's value, else the declared variable's
+ * default. Strings are inserted as-is and other values as JSON; an optional
+ * variable without a value renders as an empty string.
+ *
+ * @param template - Template text
+ * @param options - Declared variables and caller values
+ * @returns The rendered text
+ * @throws {Error} If a placeholder names an undeclared variable (when
+ *   `variables` is given) or has no value, a required variable is not
+ *   supplied, or a value does not match its declared type
+ *
+ * @example
+ * ```typescript
+ * renderPromptTemplate('You help {{ customer }} in {{ language }}.', {
+ *   variables: [
+ *     { name: 'customer', type: 'string', required: true },
+ *     { name: 'language', type: 'string', defaultValue: 'English' },
+ *   ],
+ *   values: { customer: 'Acme' },
+ * });
+ * // 'You help Acme in English.'
+ * ```
+ */
+export function renderPromptTemplate(
+  template: string,
+  options: TemplateRenderOptions = {}
+): string {
+  const { variables, values = {} } = options;
+
+  return parsePromptTemplate(template)
+    .map((segment) => {
+      if (segment.type === 'text') {
+        return segment.value;
+      }
+
+      const { name } = segment;
+      const variable = variables?.find((v) => v.name === name);
+      if (variables && !variable) {
+        throw new Error(
+          `Placeholder "{{ ${name} }}" does not refer to a declared variable`
+        );
+      }
+
+      const value = values[name] ?? variable?.defaultValue;
+      if (value === undefined) {
+        if (!variable || variable.required) {
+          throw new Error(`Missing value for required variable "${name}"`);
+        }
+        return '';
+      }
+      if (variable && typeOf(value) !== variable.type) {
+        throw new Error(
+          `Variable "${name}" must be a ${variable.type}, got ${typeOf(value)}`
+        );
+      }
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    })
+    .join('');
+}
+
+/**
+ * Renders the templated fields of an agent: its systemPrompt and tool
+ * descriptions
+ *
+ * @param agent - Agent configuration
+ * @param options - Declared variables and caller values
+ * @returns A copy of the agent with rendered fields
+ * @throws {Error} As `renderPromptTemplate`
+ *
+ * @example
+ * ```typescript
+ * const rendered = renderAgentTemplates(agent, {
+ *   variables: workflow.variables,
+ *   values: { customer: 'Acme' },
+ * });
+ * ```
+ */
+export function renderAgentTemplates(
+  agent: AgentConfig,
+  options: TemplateRenderOptions = {}
+): AgentConfig {
+  return {
+    ...agent,
+    ...(agent.systemPrompt !== undefined && {
+      systemPrompt: renderPromptTemplate(agent.systemPrompt, options),
+    }),
+    ...(agent.tools && {
+      tools: agent.tools.map((tool) => ({
+        ...tool,
+        description: renderPromptTemplate(tool.description, options),
+      })),
+    }),
+  };
+}
+
+/**
+ * Checks that an agent's placeholders refer to declared variables
+ *
+ * @param agent - Agent configuration
+ * @param variables - Declared variables
+ * @param path - Path to the agent, prefixed to issue paths
+ * @returns Issues located at the templated fields
+ *
+ * @example
+ * ```typescript
+ * checkAgentTemplates(agent, [{ name: 'customer', type: 'string' }]);
+ * // [{ path: ['systemPrompt'], message: 'Placeholder "{{ tone }}" does not refer to a declared variable' }]
+ * ```
+ */
+export function checkAgentTemplates(
+  agent: AgentConfig,
+  variables: WorkflowVariable[] = [],
+  path: string[] = []
+): TemplateIssue[] {
+  const declared = new Set(variables.map((v) => v.name));
+  const fields: Array<[string[], string | undefined]> = [
+    [['systemPrompt'], agent.systemPrompt],
+    ...(agent.tools ?? []).map((tool, index): [string[], string] => [
+      ['tools', String(index), 'description'],
+      tool.description,
+    ]),
+  ];
+
+  return fields.flatMap(([fieldPath, template]) =>
+    getTemplateVariables(template ?? '')
+      .filter((name) => !declared.has(name))
+      .map((name) => ({
+        path: [...path, ...fieldPath],
+        message: `Placeholder "{{ ${name} }}" does not refer to a declared variable`,
+      }))
+  );
+}
+
+/**
+ * Checks that the placeholders of a workflow's inline agents refer to
+ * declared workflow variables
+ *
+ * Agents referenced by `agentId` are not checked; resolve them first with
+ * `resolveAgentReferences`.
+ *
+ * @param workflow - Workflow configuration to check
+ * @returns Issues located at `nodes.<index>.agent.<field>`
+ *
+ * @example
+ * ```typescript
+ * const issues = checkWorkflowTemplates(workflow);
+ * issues.forEach((issue) => console.error(issue.path.join('.'), issue.message));
+ * ```
+ */
+export function checkWorkflowTemplates(
+  workflow: WorkflowConfig
+): TemplateIssue[] {
+  return workflow.nodes.flatMap((node, index) =>
+    node.agent
+      ? checkAgentTemplates(node.agent, workflow.variables, [
+          'nodes',
+          String(index),
+          'agent',
+        ])
+      : []
+  );
+}
+
+/**
+ * Helper: A value's type in WorkflowVariable terms
+ */
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === null ? 'null' : typeof value;
+}
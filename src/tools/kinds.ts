@@ -0,0 +1,132 @@
+/**
+ * Tool kind helpers: kind-specific settings and argument references
+ */
+
+import type { Tool, ToolIssue, ToolKind } from '../types/agent.js';
+
+/**
+ * Fields every tool kind has
+ */
+const BASE_FIELDS = [
+  'kind',
+  'id',
+  'name',
+  'description',
+  'parameters',
+  'strict',
+  'requiresAuth',
+  'config',
+];
+
+/**
+ * `{name}` placeholder in an HTTP tool URL template
+ */
+const URL_PLACEHOLDER = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Gets a tool's kind
+ *
+ * @param tool - Tool definition
+ * @returns The tool's `kind`, or 'function' if unset
+ */
+export function getToolKind(tool: Tool): ToolKind {
+  return tool.kind ?? 'function';
+}
+
+/**
+ * Gets the fields specific to a tool's kind
+ *
+ * @param tool - Tool definition
+ * @returns Fields other than `kind`, `id`, `name`, `description`,
+ *   `parameters`, `strict`, `requiresAuth` and `config` (empty for
+ *   function tools)
+ *
+ * @example
+ * ```typescript
+ * getToolSettings({
+ *   kind: 'mcp',
+ *   id: 'files',
+ *   name: 'read_file',
+ *   description: 'Read a file',
+ *   server: { command: 'mcp-server-filesystem' },
+ *   toolName: 'read_file',
+ * });
+ * // { server: { command: 'mcp-server-filesystem' }, toolName: 'read_file' }
+ * ```
+ */
+export function getToolSettings(tool: Tool): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(tool).filter(
+      ([key, value]) => !BASE_FIELDS.includes(key) && value !== undefined
+    )
+  );
+}
+
+/**
+ * Lists the placeholders in an HTTP tool URL template
+ *
+ * @param url - URL template
+ * @returns Argument names, in order of first appearance
+ *
+ * @example
+ * ```typescript
+ * getUrlTemplateVariables('https://api.example.com/orders/{orderId}'); // ['orderId']
+ * ```
+ */
+export function getUrlTemplateVariables(url: string): string[] {
+  return [
+    ...new Set(Array.from(url.matchAll(URL_PLACEHOLDER), (match) => match[1])),
+  ];
+}
+
+/**
+ * Checks that an HTTP tool only reads declared arguments
+ *
+ * URL placeholders and body mappings must name properties of the tool's
+ * `parameters` schema. Other tool kinds have no argument references.
+ *
+ * @param tool - Tool definition
+ * @returns Issues, with paths relative to the tool
+ *
+ * @example
+ * ```typescript
+ * checkToolArguments({
+ *   kind: 'http',
+ *   id: 'orders',
+ *   name: 'get_order',
+ *   description: 'Fetch an order',
+ *   method: 'GET',
+ *   url: 'https://api.example.com/orders/{orderId}',
+ * });
+ * // [{ path: ['url'], message: 'URL placeholder "{orderId}" is not a declared parameter' }]
+ * ```
+ */
+export function checkToolArguments(tool: Tool): ToolIssue[] {
+  if (tool.kind !== 'http') {
+    return [];
+  }
+
+  const properties = tool.parameters?.properties;
+  const declared =
+    properties && typeof properties === 'object' ? Object.keys(properties) : [];
+  const issues: ToolIssue[] = [];
+
+  getUrlTemplateVariables(tool.url)
+    .filter((name) => !declared.includes(name))
+    .forEach((name) => {
+      issues.push({
+        path: ['url'],
+        message: `URL placeholder "{${name}}" is not a declared parameter`,
+      });
+    });
+  Object.entries(tool.body ?? {})
+    .filter(([, argument]) => !declared.includes(argument))
+    .forEach(([field, argument]) => {
+      issues.push({
+        path: ['body', field],
+        message: `Body field "${field}" maps undeclared parameter "${argument}"`,
+      });
+    });
+
+  return issues;
+}
@@ -0,0 +1,207 @@
+/**
+ * Tool parameter schema checks: the restrictions providers place on the
+ * JSON Schemas that describe tool arguments
+ */
+
+import type {
+  AgentConfig,
+  AIProvider,
+  Tool,
+  ToolIssue,
+} from '../types/agent.js';
+
+/**
+ * Providers that call tools through OpenAI function calling
+ */
+const OPENAI_PROVIDERS: AIProvider[] = ['openai', 'azure-openai'];
+
+/**
+ * Keywords combining subschemas, which providers refuse at the root of a
+ * parameter schema
+ */
+const ROOT_COMBINATORS = ['anyOf', 'oneOf', 'allOf', 'not'];
+
+/**
+ * Keywords OpenAI strict mode does not support
+ */
+const STRICT_UNSUPPORTED_KEYWORDS = [
+  'allOf',
+  'not',
+  'if',
+  'then',
+  'else',
+  'dependentRequired',
+  'dependentSchemas',
+  'patternProperties',
+  'propertyNames',
+  'unevaluatedProperties',
+  'minProperties',
+  'maxProperties',
+  'contains',
+  'minContains',
+  'maxContains',
+  'uniqueItems',
+  'unevaluatedItems',
+];
+
+/**
+ * Checks a tool's parameter schema against the rules of a provider
+ *
+ * The schema is assumed to be well-formed JSON Schema (the tool schema
+ * checks that). OpenAI and Azure OpenAI function parameters, and Anthropic
+ * `input_schema`s, must be objects without a combinator at the root. With
+ * `strict: true`, OpenAI additionally requires every object to set
+ * `additionalProperties: false` and list all of its properties in
+ * `required`, and rejects keywords strict mode does not support. Other
+ * providers have no rules here.
+ *
+ * @param tool - Tool definition
+ * @param provider - Provider the tool is called through
+ * @returns Issues, with paths relative to the tool (e.g. ['parameters', 'required'])
+ *
+ * @example
+ * ```typescript
+ * checkToolParameters(
+ *   {
+ *     id: 'lookup',
+ *     name: 'lookup',
+ *     description: 'Look up a customer',
+ *     strict: true,
+ *     parameters: { type: 'object', properties: { email: { type: 'string' } } },
+ *   },
+ *   'openai'
+ * );
+ * // [
+ * //   { path: ['parameters', 'additionalProperties'], message: 'Strict mode requires additionalProperties: false' },
+ * //   { path: ['parameters', 'required'], message: 'Strict mode requires "email" to be required' },
+ * // ]
+ * ```
+ */
+export function checkToolParameters(
+  tool: Tool,
+  provider: AIProvider
+): ToolIssue[] {
+  const issues: ToolIssue[] = [];
+  const openai = OPENAI_PROVIDERS.includes(provider);
+  if (!tool.parameters || !(openai || provider === 'anthropic')) {
+    return issues;
+  }
+
+  const label = openai ? 'Function parameters' : 'Anthropic input_schema';
+  const { parameters } = tool;
+  if (parameters.type !== 'object') {
+    issues.push({
+      path: ['parameters', 'type'],
+      message: `${label} must have type "object"`,
+    });
+  }
+  ROOT_COMBINATORS.filter(
+    (keyword) => parameters[keyword] !== undefined
+  ).forEach((keyword) => {
+    issues.push({
+      path: ['parameters', keyword],
+      message: `${label} must not use ${keyword} at the root`,
+    });
+  });
+
+  if (openai && tool.strict) {
+    checkStrictSchema(parameters, ['parameters'], issues);
+  }
+  return issues;
+}
+
+/**
+ * Checks the parameter schemas of an agent's tools against the rules of its
+ * provider
+ *
+ * @param agent - Agent configuration
+ * @param path - Path prefix for the reported issues
+ * @returns Issues, with paths under `tools` (e.g. ['tools', '0', 'parameters', 'type'])
+ */
+export function checkAgentToolParameters(
+  agent: AgentConfig,
+  path: string[] = []
+): ToolIssue[] {
+  return (agent.tools ?? []).flatMap((tool, index) =>
+    checkToolParameters(tool, agent.provider).map((issue) => ({
+      path: [...path, 'tools', String(index), ...issue.path],
+      message: issue.message,
+    }))
+  );
+}
+
+/**
+ * Helper: Check a (sub)schema against the OpenAI strict mode rules,
+ * collecting issues
+ */
+function checkStrictSchema(
+  schema: unknown,
+  path: string[],
+  issues: ToolIssue[]
+): void {
+  if (!isRecord(schema)) {
+    return;
+  }
+
+  STRICT_UNSUPPORTED_KEYWORDS.filter(
+    (keyword) => schema[keyword] !== undefined
+  ).forEach((keyword) => {
+    issues.push({
+      path: [...path, keyword],
+      message: `Strict mode does not support ${keyword}`,
+    });
+  });
+
+  const types = ([] as unknown[]).concat(schema.type);
+  const properties = isRecord(schema.properties) ? schema.properties : {};
+  if (types.includes('object') || schema.properties !== undefined) {
+    if (schema.additionalProperties !== false) {
+      issues.push({
+        path: [...path, 'additionalProperties'],
+        message: 'Strict mode requires additionalProperties: false',
+      });
+    }
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    Object.keys(properties)
+      .filter((name) => !required.includes(name))
+      .forEach((name) => {
+        issues.push({
+          path: [...path, 'required'],
+          message: `Strict mode requires "${name}" to be required`,
+        });
+      });
+  }
+
+  Object.entries(properties).forEach(([name, subschema]) =>
+    checkStrictSchema(subschema, [...path, 'properties', name], issues)
+  );
+  ['$defs', 'definitions']
+    .filter((keyword) => isRecord(schema[keyword]))
+    .forEach((keyword) =>
+      Object.entries(schema[keyword] as Record<string, unknown>).forEach(
+        ([name, subschema]) =>
+          checkStrictSchema(subschema, [...path, keyword, name], issues)
+      )
+    );
+  ['anyOf', 'prefixItems']
+    .filter((keyword) => Array.isArray(schema[keyword]))
+    .forEach((keyword) =>
+      (schema[keyword] as unknown[]).forEach((subschema, index) =>
+        checkStrictSchema(subschema, [...path, keyword, String(index)], issues)
+      )
+    );
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((subschema, index) =>
+      checkStrictSchema(subschema, [...path, 'items', String(index)], issues)
+    );
+  } else {
+    checkStrictSchema(schema.items, [...path, 'items'], issues);
+  }
+}
+
+/**
+ * Helper: Whether a value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -1,8 +1,13 @@
 /**
  * Type definitions for framework adapters
- * Supports n8n, LangChain, and CrewAI formats
+ * Supports n8n, LangChain, CrewAI and AutoGen formats
  */
 
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { AgentConfig } from './agent.js';
+import type { AgentRegistry } from './agent-registry.js';
+import type { WorkflowConfig } from './workflow.js';
+
 // ============================================================================
 // n8n Types
 // ============================================================================
@@ -65,7 +70,8 @@ export interface N8nConnection {
 export interface N8nWorkflow {
   name: string;
   nodes: N8nNode[];
-  connections: Record<string, { main: N8nConnection[][] }>;
+  // Keyed by node name, then connection type (main, ai_languageModel, ai_tool, ...)
+  connections: Record<string, Record<string, N8nConnection[][]>>;
   settings?: {
     executionOrder?: 'v0' | 'v1';
     saveExecutionProgress?: boolean;
@@ -102,7 +108,10 @@ export interface LangChainTool {
   description: string;
   func?: (input: string) => Promise<string> | string;
   parameters?: Record<string, unknown>;
+  strict?: boolean; // OpenAI strict function calling (bindTools strict)
   returnDirect?: boolean;
+  className?: string; // Tool class, or the MCP client or retriever it wraps
+  init?: Record<string, unknown>; // Constructor arguments for className
 }
 
 /**
@@ -139,6 +148,12 @@ export interface LangChainAgent {
   memory?: LangChainMemory;
   systemMessage?: string;
   humanMessage?: string;
+  structuredOutput?: {
+    // Arguments to llm.withStructuredOutput(schema, { name, method })
+    schema: Record<string, unknown>;
+    name: string;
+    method: 'jsonSchema' | 'functionCalling';
+  };
   verbose?: boolean;
   maxIterations?: number;
   returnIntermediateSteps?: boolean;
@@ -153,6 +168,7 @@ export interface LangGraphNode {
   type: 'agent' | 'tool' | 'llm' | 'prompt' | 'conditional';
   config: Record<string, unknown>;
   next?: string | string[] | Record<string, string>; // Simple, parallel, or conditional
+  router?: string; // Python router returning a key of a conditional `next`
 }
 
 /**
@@ -186,6 +202,17 @@ export interface LangGraphWorkflow {
  */
 export type CrewAIRole = string; // Flexible string for custom roles
 
+/**
+ * CrewAI tool instance
+ */
+export interface CrewAITool {
+  name: string;
+  description: string;
+  className: string; // crewai_tools class, or BaseTool for custom tools
+  argsSchema?: Record<string, unknown>; // JSON Schema of the tool arguments
+  init?: Record<string, unknown>; // Constructor arguments for className
+}
+
 /**
  * CrewAI agent configuration
  */
@@ -194,6 +221,7 @@ export interface CrewAIAgent {
   goal: string;
   backstory: string;
   tools?: string[]; // Tool names
+  toolDefinitions?: CrewAITool[]; // Tool instances behind the names
   llm?: {
     model: string;
     temperature?: number;
@@ -215,12 +243,15 @@ export interface CrewAIAgent {
  * CrewAI task definition
  */
 export interface CrewAITask {
+  id?: string; // Task key in tasks.yaml (the workflow node ID on export)
   description: string;
   expectedOutput: string;
   agent?: string; // Agent role reference
   tools?: string[];
   context?: string[]; // Task IDs that provide context
   async?: boolean;
+  outputJson?: Record<string, unknown>; // JSON Schema of the task output
+  condition?: string; // Python callable for a ConditionalTask
   config?: Record<string, unknown>;
 }
 
@@ -249,6 +280,121 @@ export interface CrewAICrew {
   };
 }
 
+// ============================================================================
+// AutoGen Types
+// ============================================================================
+
+/**
+ * AutoGen model capabilities (`model_info`), required by the OpenAI client
+ * for models it does not know
+ */
+export interface AutoGenModelInfo {
+  vision: boolean;
+  functionCalling: boolean;
+  jsonOutput: boolean;
+  structuredOutput: boolean;
+  family: string; // ModelFamily value, 'unknown' outside OpenAI, Anthropic and Gemini
+}
+
+/**
+ * AutoGen model client configuration
+ */
+export interface AutoGenModelClient {
+  provider: string; // Model client class in autogen_ext.models, e.g. OpenAIChatCompletionClient
+  model: string;
+  azureDeployment?: string; // AzureOpenAIChatCompletionClient deployment name
+  baseUrl?: string; // OpenAI-compatible endpoint of providers without their own client
+  modelInfo?: AutoGenModelInfo;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[]; // stop_sequences for Anthropic clients
+}
+
+/**
+ * AutoGen tool instance
+ */
+export interface AutoGenTool {
+  name: string;
+  description: string;
+  className: string; // FunctionTool, or the autogen_ext tool class or workbench
+  parameters?: Record<string, unknown>; // JSON Schema of the tool arguments
+  strict?: boolean;
+  init?: Record<string, unknown>; // Constructor arguments for className
+}
+
+/**
+ * AutoGen model context, which bounds the messages an agent sends to its model
+ */
+export interface AutoGenModelContext {
+  type: 'unbounded' | 'buffered'; // Unbounded- or BufferedChatCompletionContext
+  bufferSize?: number;
+}
+
+/**
+ * AutoGen AssistantAgent configuration
+ */
+export interface AutoGenAssistantAgent {
+  name: string; // Python identifier, unique within a team
+  description?: string; // Used by selector group chats to pick speakers
+  systemMessage?: string;
+  modelClient: AutoGenModelClient;
+  tools?: AutoGenTool[];
+  modelContext?: AutoGenModelContext;
+  outputContentType?: Record<string, unknown>; // JSON Schema of structured output
+  reflectOnToolUse?: boolean;
+  maxToolIterations?: number;
+  modelClientStream?: boolean;
+}
+
+/**
+ * AutoGen team type
+ * - round-robin: RoundRobinGroupChat, participants speak in turn
+ * - selector: SelectorGroupChat, a model picks the next speaker
+ * - graph-flow: GraphFlow, speakers follow a directed graph
+ */
+export type AutoGenTeamType = 'round-robin' | 'selector' | 'graph-flow';
+
+/**
+ * AutoGen termination condition; `or` combines conditions with `|`
+ */
+export type AutoGenTermination =
+  | { type: 'max-messages'; maxMessages: number } // MaxMessageTermination
+  | { type: 'text-mention'; text: string } // TextMentionTermination
+  | { type: 'source-match'; sources: string[] } // SourceMatchTermination
+  | { type: 'or'; conditions: AutoGenTermination[] };
+
+/**
+ * AutoGen GraphFlow edge
+ */
+export interface AutoGenGraphEdge {
+  source: string; // Agent name
+  target: string; // Agent name
+  condition?: string; // Text the source message must contain, or a Python callable
+  activationCondition?: 'all' | 'any'; // When the target has several incoming edges
+}
+
+/**
+ * AutoGen team configuration
+ */
+export interface AutoGenTeam {
+  name: string;
+  type: AutoGenTeamType;
+  participants: AutoGenAssistantAgent[]; // Speaking order of round-robin teams
+  termination?: AutoGenTermination;
+  maxTurns?: number;
+  // Selector group chats: speakers allowed after each speaker (candidate_func)
+  allowedTransitions?: Record<string, string[]>;
+  selectorModelClient?: AutoGenModelClient;
+  // GraphFlow teams
+  graph?: {
+    edges: AutoGenGraphEdge[];
+    defaultStartNode?: string;
+  };
+}
+
 // ============================================================================
 // Adapter Options
 // ============================================================================
@@ -265,6 +411,8 @@ export interface N8nAdapterOptions {
   includeCredentials?: boolean;
   /** Workflow settings */
   workflowSettings?: N8nWorkflow['settings'];
+  /** Registry that resolves workflow `agentId` references */
+  agents?: AgentRegistry;
 }
 
 /**
@@ -279,6 +427,8 @@ export interface LangChainAdapterOptions {
   maxIterations?: number;
   /** Return intermediate steps */
   returnIntermediateSteps?: boolean;
+  /** Registry that resolves workflow `agentId` references */
+  agents?: AgentRegistry;
 }
 
 /**
@@ -295,4 +445,276 @@ export interface CrewAIAdapterOptions {
   enableCache?: boolean;
   /** Maximum requests per minute */
   maxRpm?: number;
+  /** Registry that resolves workflow `agentId` references */
+  agents?: AgentRegistry;
+}
+
+/**
+ * Options for generating a CrewAI project
+ */
+export interface CrewAIProjectOptions extends CrewAIAdapterOptions {
+  /** Python package name (defaults to a snake_case form of the workflow ID) */
+  packageName?: string;
+}
+
+/**
+ * Options for AutoGen adapter
+ */
+export interface AutoGenAdapterOptions {
+  /** Team type (inferred from the workflow shape if not set) */
+  teamType?: AutoGenTeamType;
+  /** Messages after which the team stops (default: 20) */
+  maxMessages?: number;
+  /** Have agents reflect on tool results before answering */
+  reflectOnToolUse?: boolean;
+  /** Tool call rounds per agent turn */
+  maxToolIterations?: number;
+  /** Stream model output */
+  modelClientStream?: boolean;
+  /** Registry that resolves workflow `agentId` references */
+  agents?: AgentRegistry;
+}
+
+/**
+ * Options for importing n8n workflows
+ */
+export interface N8nImportOptions {
+  /** ID for the imported workflow (defaults to a slug of the n8n name) */
+  workflowId?: string;
+}
+
+/**
+ * Options for importing LangGraph workflows
+ */
+export interface LangGraphImportOptions {
+  /** ID for the imported workflow (defaults to a slug of the graph name) */
+  workflowId?: string;
+}
+
+/**
+ * Options for importing CrewAI crews
+ */
+export interface CrewAIImportOptions {
+  /** ID for the imported workflow (defaults to a slug of the crew name) */
+  workflowId?: string;
+  /** `provider/model` used for agents without an LLM (CrewAI's default) */
+  defaultModel?: string;
+}
+
+/**
+ * Options for importing AutoGen teams
+ */
+export interface AutoGenImportOptions {
+  /** ID for the imported workflow (defaults to a slug of the team name) */
+  workflowId?: string;
+}
+
+// ============================================================================
+// Import Results
+// ============================================================================
+
+/**
+ * Something an import adapter could not map exactly
+ */
+export interface AdapterImportIssue {
+  /** Path to the offending element in the source document */
+  path: string[];
+  /** Human-readable description of what was lost or approximated */
+  message: string;
+}
+
+/**
+ * Result of importing a framework workflow into a WorkflowConfig
+ */
+export interface WorkflowImportResult {
+  /** The rebuilt workflow configuration */
+  workflow: WorkflowConfig;
+  /** Everything that could not be mapped losslessly */
+  issues: AdapterImportIssue[];
+}
+
+// ============================================================================
+// Fidelity Report Types
+// ============================================================================
+
+/**
+ * How a source field fared in a conversion
+ * - dropped: the target format has no place for it
+ * - approximated: mapped to the closest, but not identical, target concept
+ * - defaulted: absent in the source, so the adapter filled in a value
+ */
+export type FidelityIssueKind = 'dropped' | 'approximated' | 'defaulted';
+
+/**
+ * How much a fidelity issue matters
+ * - error: the converted output behaves differently
+ * - warning: configuration was lost or changed
+ * - info: cosmetic or descriptive information was lost
+ */
+export type FidelitySeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single field that did not survive a conversion unchanged
+ */
+export interface FidelityIssue {
+  /** Path to the field in the source agent or workflow */
+  path: string[];
+  kind: FidelityIssueKind;
+  severity: FidelitySeverity;
+  message: string;
+}
+
+/**
+ * Everything dropped, approximated or defaulted in a conversion
+ */
+export interface FidelityReport {
+  /** Adapter that performed the conversion */
+  adapter: string;
+  issues: FidelityIssue[];
+}
+
+/**
+ * Adapter output together with its fidelity report
+ */
+export interface ConversionResult<T> {
+  output: T;
+  report: FidelityReport;
+}
+
+// ============================================================================
+// Adapter Registry Types
+// ============================================================================
+
+/**
+ * Conversion an adapter can perform
+ */
+export type AdapterCapability = 'agent-export' | 'workflow-export' | 'import';
+
+/**
+ * Framework adapter that can be registered with an adapter registry
+ */
+export interface FrameworkAdapter<
+  TAgent = unknown,
+  TWorkflow = unknown,
+  TOptions = Record<string, unknown>,
+> {
+  /** Unique adapter name used to look it up (e.g. 'n8n') */
+  name: string;
+  /** Semantic version of the adapter */
+  version: string;
+  /** Short description of the target framework */
+  description?: string;
+  /** Conversions the adapter supports */
+  capabilities: AdapterCapability[];
+  /** Schema that options are validated against before each conversion */
+  optionsSchema?: ZodType<TOptions, ZodTypeDef, unknown>;
+  /** Required for the 'agent-export' capability */
+  exportAgent?(agent: AgentConfig, options: TOptions): TAgent;
+  /** Required for the 'workflow-export' capability */
+  exportWorkflow?(workflow: WorkflowConfig, options: TOptions): TWorkflow;
+  /** Required for the 'import' capability */
+  importWorkflow?(input: TWorkflow, options: TOptions): WorkflowImportResult;
+  /** Optional: agent export with a fidelity report */
+  exportAgentWithReport?(
+    agent: AgentConfig,
+    options: TOptions
+  ): ConversionResult<TAgent>;
+  /** Optional: workflow export with a fidelity report */
+  exportWorkflowWithReport?(
+    workflow: WorkflowConfig,
+    options: TOptions
+  ): ConversionResult<TWorkflow>;
+}
+
+/**
+ * Public description of a registered adapter
+ */
+export interface AdapterInfo {
+  name: string;
+  version: string;
+  description?: string;
+  capabilities: AdapterCapability[];
+}
+
+/**
+ * Input, output and option types of the built-in adapters
+ */
+export interface BuiltInAdapterTypes {
+  n8n: {
+    agent: N8nNode;
+    workflow: N8nWorkflow;
+    options: N8nAdapterOptions & N8nImportOptions;
+  };
+  langchain: {
+    agent: LangChainAgent;
+    workflow: LangGraphWorkflow;
+    options: LangChainAdapterOptions & LangGraphImportOptions;
+  };
+  crewai: {
+    agent: CrewAIAgent;
+    workflow: CrewAICrew;
+    options: CrewAIAdapterOptions & CrewAIImportOptions;
+  };
+  autogen: {
+    agent: AutoGenAssistantAgent;
+    workflow: AutoGenTeam;
+    options: AutoGenAdapterOptions & AutoGenImportOptions;
+  };
+}
+
+/**
+ * Types for an adapter name (built-in adapters are fully typed)
+ */
+export type AdapterTypes<TName extends string> =
+  TName extends keyof BuiltInAdapterTypes
+    ? BuiltInAdapterTypes[TName]
+    : { agent: unknown; workflow: unknown; options: Record<string, unknown> };
+
+/**
+ * Adapter registry holding named framework adapters
+ */
+export interface AdapterRegistry {
+  /** Register an adapter; throws if the name is taken unless `replace` is set */
+  register<TAgent, TWorkflow, TOptions>(
+    adapter: FrameworkAdapter<TAgent, TWorkflow, TOptions>,
+    options?: { replace?: boolean }
+  ): void;
+  /** Remove an adapter; returns whether it was registered */
+  unregister(name: string): boolean;
+  /** Whether an adapter is registered under this name */
+  has(name: string): boolean;
+  /** Look up a registered adapter */
+  get(name: string): FrameworkAdapter<unknown, unknown, unknown> | undefined;
+  /** Describe every registered adapter, in registration order */
+  list(): AdapterInfo[];
+  /** Convert a workflow with the named adapter */
+  convert<TName extends string>(
+    workflow: WorkflowConfig,
+    adapterName: TName,
+    options?: AdapterTypes<TName>['options']
+  ): AdapterTypes<TName>['workflow'];
+  /** Convert an agent with the named adapter */
+  convertAgent<TName extends string>(
+    agent: AgentConfig,
+    adapterName: TName,
+    options?: AdapterTypes<TName>['options']
+  ): AdapterTypes<TName>['agent'];
+  /** Convert a workflow and report what the conversion lost */
+  convertWithReport<TName extends string>(
+    workflow: WorkflowConfig,
+    adapterName: TName,
+    options?: AdapterTypes<TName>['options']
+  ): ConversionResult<AdapterTypes<TName>['workflow']>;
+  /** Convert an agent and report what the conversion lost */
+  convertAgentWithReport<TName extends string>(
+    agent: AgentConfig,
+    adapterName: TName,
+    options?: AdapterTypes<TName>['options']
+  ): ConversionResult<AdapterTypes<TName>['agent']>;
+  /** Import a framework workflow with the named adapter */
+  importWorkflow<TName extends string>(
+    input: AdapterTypes<TName>['workflow'],
+    adapterName: TName,
+    options?: AdapterTypes<TName>['options']
+  ): WorkflowImportResult;
 }
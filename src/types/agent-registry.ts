@@ -0,0 +1,88 @@
+/**
+ * Type definitions for agent registries
+ * A registry holds a library of validated agents that workflow nodes
+ * reference by `agentId`
+ */
+
+import type { AgentConfig } from './agent.js';
+import type { WorkflowConfig } from './workflow.js';
+
+/**
+ * Options for registering an agent
+ */
+export interface AgentRegisterOptions {
+  /**
+   * Replace an agent already registered under the same ID
+   */
+  replace?: boolean;
+}
+
+/**
+ * A library of validated agent configurations, keyed by agent ID
+ */
+export interface AgentRegistry {
+  /**
+   * Validates and registers an agent
+   * @throws {Error} If the agent is invalid, or its ID is taken and
+   *   `replace` is not set
+   */
+  register(agent: unknown, options?: AgentRegisterOptions): AgentConfig;
+
+  /**
+   * Removes an agent; returns whether it was registered
+   */
+  unregister(id: string): boolean;
+
+  /**
+   * Returns the agent with the given ID, if registered
+   */
+  get(id: string): AgentConfig | undefined;
+
+  /**
+   * Whether an agent with the given ID is registered
+   */
+  has(id: string): boolean;
+
+  /**
+   * Lists registered agents in registration order
+   */
+  list(): AgentConfig[];
+}
+
+/**
+ * An `agentId` reference (or inline agent `extends`) the registry could not
+ * resolve
+ */
+export interface AgentReferenceIssue {
+  /**
+   * Path to the reference (e.g. ['nodes', '2', 'agentId'])
+   */
+  path: string[];
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
+
+/**
+ * Result of resolving a workflow's `agentId` references
+ */
+export interface AgentReferenceResolution {
+  /**
+   * Copy of the workflow with each resolved agent inlined on its node
+   */
+  workflow: WorkflowConfig;
+
+  /**
+   * References that are not in the registry, and inline agents whose
+   * `extends` chain could not be flattened
+   */
+  unresolved: AgentReferenceIssue[];
+}
+
+/**
+ * Where base agents named in `extends` are looked up: a registry, or a
+ * function returning the (possibly unflattened) base agent document
+ */
+export type AgentBaseLookup = AgentRegistry | ((id: string) => unknown);
@@ -2,6 +2,11 @@
  * Core type definitions for AI Agent Schema
  */
 
+import type { AgentRegistry } from './agent-registry.js';
+import type { JsonSchema } from './json-schema.js';
+import type { ModelCatalog } from './models.js';
+import type { SecretReference } from './secrets.js';
+
 /**
  * Supported AI model providers
  */
@@ -36,9 +41,14 @@ export interface MemoryConfig {
 }
 
 /**
- * Tool definition for agent capabilities
+ * Kind of tool (default: 'function')
+ */
+export type ToolKind = 'function' | 'http' | 'mcp' | 'code' | 'retriever';
+
+/**
+ * Fields shared by every tool kind
  */
-export interface Tool {
+export interface ToolBase {
   /**
    * Unique identifier for the tool
    */
@@ -55,14 +65,195 @@ export interface Tool {
   description: string;
 
   /**
-   * JSON Schema for tool parameters
+   * JSON Schema for tool parameters; checked against the JSON Schema
+   * meta-schema and the agent's provider rules
    */
-  parameters?: Record<string, unknown>;
+  parameters?: JsonSchema;
+
+  /**
+   * Whether the provider should enforce the parameter schema exactly
+   * (OpenAI strict mode); requires a strict-compatible schema
+   */
+  strict?: boolean;
 
   /**
    * Whether this tool requires authentication
    */
   requiresAuth?: boolean;
+
+  /**
+   * Tool settings (endpoints, credentials); credentials should be secret
+   * references rather than literal values
+   */
+  config?: Record<string, unknown>;
+}
+
+/**
+ * A function implemented by the host application
+ */
+export interface FunctionTool extends ToolBase {
+  /**
+   * Tool kind; tools without a kind are function tools
+   */
+  kind?: 'function';
+}
+
+/**
+ * HTTP request method
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * An HTTP request made with the tool arguments
+ */
+export interface HttpTool extends ToolBase {
+  kind: 'http';
+
+  /**
+   * Request method
+   */
+  method: HttpMethod;
+
+  /**
+   * URL template; `{name}` placeholders are filled from the tool arguments
+   * (e.g. 'https://api.example.com/orders/{orderId}')
+   */
+  url: string;
+
+  /**
+   * Request headers; values may be secret references
+   */
+  headers?: Record<string, string | SecretReference>;
+
+  /**
+   * Request body fields, each mapped from the named tool argument
+   * (e.g. { query: 'searchTerm' })
+   */
+  body?: Record<string, string>;
+}
+
+/**
+ * MCP server, reached over HTTP or started as a local process
+ */
+export type McpServer =
+  | {
+      /**
+       * Server URL (streamable HTTP or SSE)
+       */
+      url: string;
+    }
+  | {
+      /**
+       * Command that starts the server (stdio transport)
+       */
+      command: string;
+
+      /**
+       * Command arguments
+       */
+      args?: string[];
+    };
+
+/**
+ * A tool provided by an MCP server
+ */
+export interface McpTool extends ToolBase {
+  kind: 'mcp';
+
+  /**
+   * Server that provides the tool
+   */
+  server: McpServer;
+
+  /**
+   * Name of the tool on the server
+   */
+  toolName: string;
+}
+
+/**
+ * Code run in a sandbox
+ */
+export interface CodeTool extends ToolBase {
+  kind: 'code';
+
+  /**
+   * Language of the code
+   */
+  language: 'python' | 'javascript';
+
+  /**
+   * Source run with the tool arguments; without it, the agent writes the
+   * code itself (a code interpreter)
+   */
+  code?: string;
+
+  /**
+   * Maximum run time in milliseconds
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Knowledge source searched by a retriever tool
+ */
+export interface KnowledgeSource {
+  /**
+   * Vector store (e.g. 'pinecone', 'chroma', 'pgvector')
+   */
+  store: string;
+
+  /**
+   * Index or collection name
+   */
+  index: string;
+
+  /**
+   * Namespace within the index
+   */
+  namespace?: string;
+
+  /**
+   * Embedding model the index was built with
+   */
+  embeddingModel?: string;
+}
+
+/**
+ * A search over a knowledge source
+ */
+export interface RetrieverTool extends ToolBase {
+  kind: 'retriever';
+
+  /**
+   * Knowledge source to search
+   */
+  source: KnowledgeSource;
+
+  /**
+   * Number of results to return
+   */
+  topK?: number;
+}
+
+/**
+ * Tool definition for agent capabilities, discriminated by `kind`
+ */
+export type Tool = FunctionTool | HttpTool | McpTool | CodeTool | RetrieverTool;
+
+/**
+ * A tool argument reference that does not name a declared parameter
+ */
+export interface ToolIssue {
+  /**
+   * Path to the reference within the tool (e.g. ['url'])
+   */
+  path: string[];
+
+  /**
+   * Human-readable description
+   */
+  message: string;
 }
 
 /**
@@ -104,11 +295,23 @@ export interface ModelParameters {
  * Core Agent configuration
  */
 export interface AgentConfig {
+  /**
+   * Schema version the document is written against (e.g. '1.0').
+   * Older versions are migrated by the validators.
+   */
+  schemaVersion?: string;
+
   /**
    * Unique identifier for this agent
    */
   id: string;
 
+  /**
+   * ID(s) of base agents this agent extends, merged in order before the
+   * agent's own fields (resolved against an agent registry)
+   */
+  extends?: string | string[];
+
   /**
    * Human-readable name
    */
@@ -149,17 +352,41 @@ export interface AgentConfig {
    */
   memory?: MemoryConfig;
 
+  /**
+   * JSON Schema the agent's output must match, or a reference to one
+   * (e.g. { $ref: 'schemas/answer.json' })
+   */
+  outputSchema?: JsonSchema;
+
   /**
    * IDs of other agents this agent connects to in a workflow
    */
   connections?: string[];
 
   /**
-   * Additional metadata
+   * Additional metadata; `metadata.apiKey` may hold a secret reference to
+   * the provider credential
    */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Options for validating an agent
+ */
+export interface AgentValidationOptions {
+  /**
+   * Registry that the agents named in `extends` are resolved against; the
+   * agent is flattened before validation
+   */
+  agents?: AgentRegistry;
+
+  /**
+   * Catalog the agent's parameters, tools and output schema are checked
+   * against for its provider and model
+   */
+  models?: ModelCatalog;
+}
+
 /**
  * Validation result
  */
@@ -182,6 +409,12 @@ export interface ValidationResult {
     issues?: Array<{
       path: string[];
       message: string;
+      /** Source file, when validated from a loaded document */
+      file?: string;
+      /** Source line (1-based), when validated from a loaded document */
+      line?: number;
+      /** Source column (1-based), when validated from a loaded document */
+      column?: number;
     }>;
   };
 }
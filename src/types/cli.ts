@@ -0,0 +1,108 @@
+/**
+ * Type definitions for the ai-agent-schema command-line tool
+ */
+
+import type { AgentRegistry } from './agent-registry.js';
+import type { LintSeverity } from './lint.js';
+
+/**
+ * Output format for command results
+ */
+export type CliFormat = 'text' | 'json';
+
+/**
+ * Kind of document a file contains
+ */
+export type CliDocumentKind = 'agent' | 'workflow';
+
+/**
+ * Where the CLI writes output and resolves relative paths from
+ */
+export interface CliIO {
+  /**
+   * Writes to standard output
+   */
+  stdout: (text: string) => void;
+
+  /**
+   * Writes to standard error
+   */
+  stderr: (text: string) => void;
+
+  /**
+   * Directory that file arguments and globs are resolved against
+   */
+  cwd: string;
+}
+
+/**
+ * Parsed command-line options shared by all commands
+ */
+export interface CliOptions {
+  /**
+   * Output format (default: 'text')
+   */
+  format: CliFormat;
+
+  /**
+   * Document kind, detected from each file's contents if omitted
+   */
+  kind?: CliDocumentKind;
+
+  /**
+   * Conversion target for `convert`
+   */
+  to?: string;
+
+  /**
+   * Directory to write converted files to for `convert`
+   */
+  outDir?: string;
+
+  /**
+   * Lint rule severities for `lint`
+   */
+  rules?: Record<string, LintSeverity>;
+
+  /**
+   * Registry that workflow `agentId` references and agent `extends` chains
+   * resolve against
+   */
+  agents?: AgentRegistry;
+
+  /**
+   * Environment overlay applied to workflow files before they are checked
+   * or converted
+   */
+  env?: string;
+}
+
+/**
+ * Result of checking one file
+ */
+export interface CliFileReport {
+  /**
+   * File path as given or matched
+   */
+  file: string;
+
+  /**
+   * Kind of document in the file, if it could be read
+   */
+  kind?: CliDocumentKind;
+
+  /**
+   * Whether the file passed
+   */
+  valid: boolean;
+
+  /**
+   * Problems found, located by path within the document
+   */
+  issues: Array<{
+    path: string[];
+    message: string;
+    line?: number;
+    column?: number;
+  }>;
+}
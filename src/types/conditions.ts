@@ -0,0 +1,110 @@
+/**
+ * Type definitions for the workflow condition expression language
+ */
+
+/**
+ * Literal value in a condition expression
+ */
+export interface ConditionLiteral {
+  type: 'literal';
+  value: string | number | boolean | null;
+}
+
+/**
+ * Dotted reference to a workflow variable, the source node's `output`, or
+ * another node's output via `outputs.<nodeId>`
+ */
+export interface ConditionPath {
+  type: 'path';
+  segments: string[];
+}
+
+/**
+ * Logical negation (`!expr`)
+ */
+export interface ConditionNot {
+  type: 'not';
+  operand: ConditionExpression;
+}
+
+/**
+ * Logical conjunction or disjunction (`a && b`, `a || b`)
+ */
+export interface ConditionLogical {
+  type: 'logical';
+  operator: '&&' | '||';
+  left: ConditionExpression;
+  right: ConditionExpression;
+}
+
+/**
+ * Comparison operators
+ */
+export type ConditionComparisonOperator =
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'contains';
+
+/**
+ * Binary comparison (`a == b`, `a contains b`, ...)
+ */
+export interface ConditionComparison {
+  type: 'comparison';
+  operator: ConditionComparisonOperator;
+  left: ConditionExpression;
+  right: ConditionExpression;
+}
+
+/**
+ * Parsed condition expression
+ */
+export type ConditionExpression =
+  | ConditionLiteral
+  | ConditionPath
+  | ConditionNot
+  | ConditionLogical
+  | ConditionComparison;
+
+/**
+ * Static type of a condition expression, based on `WorkflowVariable.type`
+ */
+export type ConditionValueType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null'
+  | 'unknown';
+
+/**
+ * Result of type checking a condition expression
+ */
+export interface ConditionCheckResult {
+  /**
+   * Whether the condition parsed and type checked without errors
+   */
+  valid: boolean;
+
+  /**
+   * Inferred type of the expression
+   */
+  type: ConditionValueType;
+
+  /**
+   * Syntax and type errors
+   */
+  errors: string[];
+}
+
+/**
+ * Problem found in a workflow connection condition
+ */
+export interface ConditionIssue {
+  path: string[];
+  message: string;
+}
@@ -0,0 +1,105 @@
+/**
+ * Type definitions for loading and serializing agent and workflow documents
+ */
+
+/**
+ * Source format of a document
+ */
+export type DocumentFormat = 'yaml' | 'json' | 'json5';
+
+/**
+ * Position in a source document (1-based)
+ */
+export interface SourcePosition {
+  /**
+   * Line number, starting at 1
+   */
+  line: number;
+
+  /**
+   * Column number, starting at 1
+   */
+  column: number;
+}
+
+/**
+ * Position of a value in a named source file
+ */
+export interface SourceLocation extends SourcePosition {
+  /**
+   * File the document was loaded from, if known
+   */
+  file?: string;
+}
+
+/**
+ * Parsed document value with the source position of each path
+ */
+export interface ParsedSource {
+  /**
+   * Parsed value
+   */
+  value: unknown;
+
+  /**
+   * Position of each path, keyed by `pathKey(path)`.
+   * Object members point at their key, array items at their value.
+   */
+  positions: Map<string, SourcePosition>;
+}
+
+/**
+ * Options for loading a document
+ */
+export interface DocumentLoadOptions {
+  /**
+   * Source format (default: detected from `file`, otherwise 'yaml')
+   */
+  format?: DocumentFormat;
+
+  /**
+   * File name reported in source locations
+   */
+  file?: string;
+}
+
+/**
+ * A loaded document with its source locations
+ */
+export interface LoadedDocument {
+  /**
+   * Parsed document data (not yet validated)
+   */
+  data: unknown;
+
+  /**
+   * Format the document was parsed as
+   */
+  format: DocumentFormat;
+
+  /**
+   * File the document was loaded from, if known
+   */
+  file?: string;
+
+  /**
+   * Finds the source location of a path, falling back to the nearest
+   * ancestor for paths that do not exist in the source
+   */
+  locate(path: string[]): SourceLocation | undefined;
+}
+
+/**
+ * Options for serializing a document
+ */
+export interface DocumentSerializeOptions {
+  /**
+   * Output format (default: 'yaml')
+   */
+  format?: Exclude<DocumentFormat, 'json5'>;
+
+  /**
+   * Spaces per indentation level (default: 2)
+   */
+  indent?: number;
+}
@@ -0,0 +1,69 @@
+/**
+ * Type definitions for environment overlays
+ * A workflow declares named environments (e.g. dev, staging, prod) that
+ * patch its base configuration
+ */
+
+import type { AIProvider, ModelParameters } from './agent.js';
+
+/**
+ * Patch for an agent node's inline agent
+ */
+export interface AgentNodeOverlay {
+  /**
+   * Replacement model provider
+   */
+  provider?: AIProvider;
+
+  /**
+   * Replacement model (e.g. 'gpt-4o' in prod, 'gpt-4o-mini' in dev)
+   */
+  model?: string;
+
+  /**
+   * Model parameters, merged key by key over the agent's
+   */
+  parameters?: ModelParameters;
+}
+
+/**
+ * Patch applied to a workflow in one environment
+ */
+export interface WorkflowEnvironment {
+  /**
+   * Agent node patches by node ID
+   */
+  nodes?: Record<string, AgentNodeOverlay>;
+
+  /**
+   * Trigger patch; `config` is merged key by key over the trigger's
+   */
+  trigger?: {
+    config?: Record<string, unknown>;
+  };
+
+  /**
+   * Default values for declared workflow variables, by variable name
+   */
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * A value that differs between two workflow configurations
+ */
+export interface EnvironmentDifference {
+  /**
+   * Path to the value (e.g. ['nodes', '1', 'agent', 'model'])
+   */
+  path: string[];
+
+  /**
+   * Value in the first configuration (`undefined` if unset)
+   */
+  from: unknown;
+
+  /**
+   * Value in the second configuration (`undefined` if unset)
+   */
+  to: unknown;
+}
@@ -0,0 +1,190 @@
+/**
+ * Type definitions for token and cost estimation
+ */
+
+import type { AIProvider } from './agent.js';
+import type { AgentRegistry } from './agent-registry.js';
+import type { ModelCatalog } from './models.js';
+
+/**
+ * Price of a model, in US dollars per million tokens
+ */
+export interface ModelPricing {
+  /**
+   * Price of a million input (prompt) tokens
+   */
+  input: number;
+
+  /**
+   * Price of a million output (completion) tokens
+   */
+  output: number;
+}
+
+/**
+ * Model prices by provider and model ID; model IDs also match dated
+ * snapshots (e.g. 'gpt-4o' prices 'gpt-4o-2024-08-06')
+ */
+export type PricingTable = Partial<
+  Record<AIProvider, Record<string, ModelPricing>>
+>;
+
+/**
+ * Options for estimating a workflow's cost
+ */
+export interface CostEstimateOptions {
+  /**
+   * Model prices (default: the built-in table)
+   */
+  pricing?: PricingTable;
+
+  /**
+   * Catalog for context windows and output limits (default: the built-in
+   * catalog)
+   */
+  models?: ModelCatalog;
+
+  /**
+   * Registry that `agentId` references are resolved in
+   */
+  agents?: AgentRegistry;
+
+  /**
+   * Counts the tokens in a text (default: about four characters per token)
+   */
+  countTokens?: (text: string) => number;
+
+  /**
+   * Tokens each agent call receives on top of its prompt and tools, such as
+   * the user message or the previous node's output (default: 0)
+   */
+  inputTokens?: number;
+
+  /**
+   * Output tokens of agents without `parameters.maxTokens` whose model
+   * limit is unknown (default: 4096)
+   */
+  defaultMaxTokens?: number;
+
+  /**
+   * Iterations per loop in the best case (default: 1)
+   */
+  minLoopIterations?: number;
+
+  /**
+   * Iterations per loop in the worst case (default: 100, the executor's
+   * limit)
+   */
+  maxLoopIterations?: number;
+}
+
+/**
+ * A best-case and worst-case figure
+ */
+export interface EstimateRange {
+  /**
+   * Fewest runs, each producing no output
+   */
+  best: number;
+
+  /**
+   * Most runs, each producing its maximum output
+   */
+  worst: number;
+}
+
+/**
+ * Estimate for one agent node
+ */
+export interface NodeCostEstimate {
+  /**
+   * Node ID
+   */
+  nodeId: string;
+
+  /**
+   * Agent provider
+   */
+  provider: AIProvider;
+
+  /**
+   * Agent model
+   */
+  model: string;
+
+  /**
+   * Tokens in the system prompt
+   */
+  promptTokens: number;
+
+  /**
+   * Tokens in the tool definitions
+   */
+  toolTokens: number;
+
+  /**
+   * Input tokens per call: prompt, tools and `inputTokens`
+   */
+  inputTokens: number;
+
+  /**
+   * Most output tokens per call
+   */
+  maxOutputTokens: number;
+
+  /**
+   * Times the node runs per workflow run
+   */
+  runs: { min: number; max: number };
+
+  /**
+   * Tokens over all runs
+   */
+  tokens: EstimateRange;
+
+  /**
+   * Cost over all runs, in US dollars; absent if the model has no price
+   */
+  cost?: EstimateRange;
+}
+
+/**
+ * A limitation of the estimate, or a node that will not fit its model
+ */
+export interface CostEstimateWarning {
+  /**
+   * Path to the node (e.g. ['nodes', '2'])
+   */
+  path: string[];
+
+  /**
+   * Human-readable description
+   */
+  message: string;
+}
+
+/**
+ * Estimate for a workflow run
+ */
+export interface CostEstimate {
+  /**
+   * Agent node estimates, in workflow order
+   */
+  nodes: NodeCostEstimate[];
+
+  /**
+   * Tokens over all agent nodes
+   */
+  tokens: EstimateRange;
+
+  /**
+   * Cost over the priced agent nodes, in US dollars
+   */
+  cost: EstimateRange;
+
+  /**
+   * Unpriced models, unresolved agents and prompts that exceed their
+   * model's context window
+   */
+  warnings: CostEstimateWarning[];
+}
@@ -0,0 +1,35 @@
+/**
+ * Type definitions for JSON Schema documents
+ * Used for agent output schemas
+ */
+
+/**
+ * JSON Schema object; subschemas may also be `true` or `false`
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A problem found in a JSON Schema, or a value that does not match one
+ */
+export interface JsonSchemaIssue {
+  /**
+   * Path to the offending keyword or value (e.g. ['properties', 'score', 'type'])
+   */
+  path: string[];
+
+  /**
+   * Human-readable description
+   */
+  message: string;
+}
+
+/**
+ * Options for validating a value against a JSON Schema
+ */
+export interface JsonSchemaValidationOptions {
+  /**
+   * Schemas that external `$ref`s resolve against, by URI
+   * (e.g. { 'schemas/answer.json': {...} })
+   */
+  schemas?: Record<string, JsonSchema>;
+}
@@ -0,0 +1,105 @@
+/**
+ * Type definitions for the workflow linter
+ */
+
+import type { WorkflowConfig } from './workflow.js';
+
+/**
+ * Severity a rule is configured with; 'off' disables it
+ */
+export type LintSeverity = 'error' | 'warn' | 'off';
+
+/**
+ * Problem found by a rule, before its severity is applied
+ */
+export interface LintIssue {
+  /**
+   * Path to the offending node, connection or field (e.g. ['nodes', '2'])
+   */
+  path: string[];
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
+
+/**
+ * A named lint rule
+ */
+export interface LintRule {
+  /**
+   * Unique rule name in kebab-case (e.g. 'single-trigger')
+   */
+  name: string;
+
+  /**
+   * What the rule checks
+   */
+  description: string;
+
+  /**
+   * Severity used when the rule is not configured
+   */
+  defaultSeverity: Exclude<LintSeverity, 'off'>;
+
+  /**
+   * Returns the problems found in a workflow
+   */
+  check(workflow: WorkflowConfig): LintIssue[];
+}
+
+/**
+ * Problem reported by the linter
+ */
+export interface LintDiagnostic extends LintIssue {
+  /**
+   * Name of the rule that reported the problem
+   */
+  rule: string;
+
+  /**
+   * Configured severity of the rule
+   */
+  severity: Exclude<LintSeverity, 'off'>;
+}
+
+/**
+ * Options for linting a workflow
+ */
+export interface LintOptions {
+  /**
+   * Severity overrides by rule name
+   */
+  rules?: Record<string, LintSeverity>;
+
+  /**
+   * Additional rules to run after the built-in rules
+   */
+  customRules?: LintRule[];
+}
+
+/**
+ * Result of linting a workflow
+ */
+export interface LintResult {
+  /**
+   * Whether no rule reported an error
+   */
+  valid: boolean;
+
+  /**
+   * Problems found, in rule order
+   */
+  diagnostics: LintDiagnostic[];
+
+  /**
+   * Number of diagnostics with severity 'error'
+   */
+  errorCount: number;
+
+  /**
+   * Number of diagnostics with severity 'warn'
+   */
+  warningCount: number;
+}
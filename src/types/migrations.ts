@@ -0,0 +1,72 @@
+/**
+ * Type definitions for schema versioning and migrations
+ */
+
+/**
+ * A change made to a document while migrating it
+ */
+export interface MigrationChange {
+  /**
+   * Path to the changed field
+   */
+  path: string[];
+
+  /**
+   * Description of the change
+   */
+  message: string;
+}
+
+/**
+ * A single migration step between two schema versions
+ */
+export interface Migration {
+  /**
+   * Schema version the step upgrades from
+   */
+  from: string;
+
+  /**
+   * Schema version the step upgrades to
+   */
+  to: string;
+
+  /**
+   * Summary of what the step changes
+   */
+  description: string;
+
+  /**
+   * Upgrades a document, recording each change made.
+   * Must not mutate the input document.
+   */
+  migrate: (
+    document: Record<string, unknown>,
+    changes: MigrationChange[]
+  ) => Record<string, unknown>;
+}
+
+/**
+ * Result of migrating a document to the current schema version
+ */
+export interface MigrationResult {
+  /**
+   * Upgraded document (not yet validated)
+   */
+  data: Record<string, unknown>;
+
+  /**
+   * Schema version the document declared (or the legacy version if none)
+   */
+  fromVersion: string;
+
+  /**
+   * Schema version the document was upgraded to
+   */
+  toVersion: string;
+
+  /**
+   * Changes made, in the order they were applied
+   */
+  changes: MigrationChange[];
+}
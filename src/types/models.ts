@@ -0,0 +1,153 @@
+/**
+ * Type definitions for the provider and model capability catalog
+ * The catalog records what each provider's models accept, so agents can be
+ * checked against the model they run on
+ */
+
+import type { AIProvider, ModelParameters } from './agent.js';
+
+/**
+ * Name of a model parameter (e.g. 'temperature', 'presencePenalty')
+ */
+export type ModelParameterName = keyof ModelParameters;
+
+/**
+ * What a model supports
+ */
+export interface ModelInfo {
+  /**
+   * Model ID; also matches dated snapshots and suffixed variants
+   * (e.g. 'gpt-4o' matches 'gpt-4o-2024-08-06')
+   */
+  id: string;
+
+  /**
+   * Context window, in tokens
+   */
+  contextWindow: number;
+
+  /**
+   * Most tokens the model generates per response, if limited below the
+   * context window
+   */
+  maxOutputTokens?: number;
+
+  /**
+   * Parameters the model accepts; defaults to the provider's parameters
+   * (e.g. reasoning models accept fewer)
+   */
+  parameters?: ModelParameterName[];
+
+  /**
+   * Whether the model supports tool (function) calling
+   */
+  tools: boolean;
+
+  /**
+   * Whether the model accepts image input
+   */
+  vision: boolean;
+
+  /**
+   * Whether the model can be constrained to JSON output
+   */
+  jsonMode: boolean;
+}
+
+/**
+ * What a provider's API accepts, and the models it serves
+ */
+export interface ProviderInfo {
+  /**
+   * Provider ID, as used in `AgentConfig.provider`
+   */
+  id: AIProvider;
+
+  /**
+   * Display name (e.g. 'Anthropic')
+   */
+  name: string;
+
+  /**
+   * Parameters the provider's API accepts
+   */
+  parameters: ModelParameterName[];
+
+  /**
+   * Highest temperature the provider accepts, if below the schema's 2
+   */
+  maxTemperature?: number;
+
+  /**
+   * Known models
+   */
+  models: ModelInfo[];
+}
+
+/**
+ * Options for registering a provider or model
+ */
+export interface ModelRegisterOptions {
+  /**
+   * Replace a provider or model already registered under the same ID
+   */
+  replace?: boolean;
+}
+
+/**
+ * Providers and models with their capabilities
+ */
+export interface ModelCatalog {
+  /**
+   * Validates and registers a provider with its models
+   * @throws {Error} If the provider is already registered and `replace` is
+   *   not set
+   */
+  registerProvider(
+    provider: ProviderInfo,
+    options?: ModelRegisterOptions
+  ): void;
+
+  /**
+   * Validates and registers a model with a registered provider
+   * @throws {Error} If the provider is unknown, or the model is already
+   *   registered and `replace` is not set
+   */
+  registerModel(
+    provider: AIProvider,
+    model: ModelInfo,
+    options?: ModelRegisterOptions
+  ): void;
+
+  /**
+   * Returns a provider, if registered
+   */
+  getProvider(provider: AIProvider): ProviderInfo | undefined;
+
+  /**
+   * Returns the model an agent's `model` string refers to: the model with
+   * that ID, or else the one with the longest ID the string extends with
+   * `-` (e.g. 'claude-3-5-sonnet-20241022' resolves to 'claude-3-5-sonnet')
+   */
+  getModel(provider: AIProvider, model: string): ModelInfo | undefined;
+
+  /**
+   * Lists registered providers in registration order
+   */
+  listProviders(): ProviderInfo[];
+}
+
+/**
+ * A setting of an agent its provider or model does not support
+ */
+export interface ModelCapabilityIssue {
+  /**
+   * Path to the offending field (e.g. ['parameters', 'presencePenalty'])
+   */
+  path: string[];
+
+  /**
+   * Human-readable description
+   */
+  message: string;
+}
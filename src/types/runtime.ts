@@ -0,0 +1,273 @@
+/**
+ * Runtime type definitions for local workflow execution
+ */
+
+import type { AgentConfig } from './agent.js';
+import type { AgentRegistry } from './agent-registry.js';
+import type { JsonSchema } from './json-schema.js';
+import type { SecretResolver } from './secrets.js';
+import type { WorkflowExecutionContext, WorkflowNode } from './workflow.js';
+
+/**
+ * Request sent to a model provider for an agent node
+ */
+export interface ModelRequest {
+  /**
+   * ID of the workflow node being executed
+   */
+  nodeId: string;
+
+  /**
+   * Resolved agent configuration for the node
+   */
+  agent: AgentConfig;
+
+  /**
+   * Input for the node (output of the node that activated it)
+   */
+  input: unknown;
+
+  /**
+   * Snapshot of the workflow variables at call time
+   */
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Response returned by a model provider
+ */
+export interface ModelResponse {
+  /**
+   * Node output, passed as input to the next nodes
+   */
+  output: unknown;
+
+  /**
+   * Variables to merge into the execution context
+   */
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Pluggable model provider used to run agent nodes
+ */
+export interface ModelProvider {
+  /**
+   * Provider name (e.g. 'mock')
+   */
+  name: string;
+
+  /**
+   * Generates a response for an agent node
+   */
+  generate(request: ModelRequest): Promise<ModelResponse>;
+}
+
+/**
+ * Values a connection condition is evaluated against
+ */
+export interface ConditionScope {
+  /**
+   * Current workflow variables
+   */
+  variables: Record<string, unknown>;
+
+  /**
+   * Output of the connection's source node
+   */
+  output: unknown;
+
+  /**
+   * Outputs of the nodes executed so far, by node ID
+   */
+  outputs?: Record<string, unknown>;
+
+  /**
+   * Names of the declared workflow variables. A lone identifier that names
+   * one is a variable, even when unset; without this list, the keys of
+   * `variables` decide.
+   */
+  declaredVariables?: string[];
+}
+
+/**
+ * Evaluates a connection condition
+ */
+export type ConditionEvaluator = (
+  condition: string,
+  scope: ConditionScope
+) => boolean;
+
+/**
+ * Record of a single node execution
+ */
+export interface WorkflowExecutionStep {
+  /**
+   * Executed node ID
+   */
+  nodeId: string;
+
+  /**
+   * Executed node type
+   */
+  type: WorkflowNode['type'];
+
+  /**
+   * Outcome of the node
+   */
+  status: 'completed' | 'failed';
+
+  /**
+   * Input the node received
+   */
+  input: unknown;
+
+  /**
+   * Output the node produced (if completed)
+   */
+  output?: unknown;
+
+  /**
+   * Error message (if failed)
+   */
+  error?: string;
+
+  /**
+   * Zero-based iteration index when run inside a loop body
+   */
+  iteration?: number;
+}
+
+/**
+ * Options for executing a workflow
+ */
+export interface WorkflowExecutionOptions {
+  /**
+   * Provider used to run agent nodes
+   */
+  provider: ModelProvider;
+
+  /**
+   * Input passed to the workflow's start nodes
+   */
+  input?: unknown;
+
+  /**
+   * Values for workflow variables (override declared defaults)
+   */
+  variables?: Record<string, unknown>;
+
+  /**
+   * Agents (or an agent registry) that `agentId` references resolve against
+   */
+  agents?: AgentConfig[] | AgentRegistry;
+
+  /**
+   * Resolver for secret references in agent configs; when set, agents reach
+   * the provider with their references replaced by secret values
+   */
+  secrets?: SecretResolver;
+
+  /**
+   * Schemas that external `$ref`s in agent output schemas resolve against,
+   * by URI
+   */
+  schemas?: Record<string, JsonSchema>;
+
+  /**
+   * Custom connection condition evaluator (default: evaluateCondition)
+   */
+  evaluateCondition?: ConditionEvaluator;
+
+  /**
+   * Maximum iterations per loop node (default: 100)
+   */
+  maxLoopIterations?: number;
+
+  /**
+   * Execution ID (default: generated)
+   */
+  executionId?: string;
+
+  /**
+   * Called after every node execution
+   */
+  onStep?: (
+    step: WorkflowExecutionStep,
+    context: WorkflowExecutionContext
+  ) => void;
+}
+
+/**
+ * Result of executing a workflow
+ */
+export interface WorkflowExecutionResult {
+  /**
+   * Final execution context
+   */
+  context: WorkflowExecutionContext;
+
+  /**
+   * Output of the last executed node
+   */
+  output: unknown;
+
+  /**
+   * Latest output of each executed node
+   */
+  outputs: Record<string, unknown>;
+
+  /**
+   * Executed nodes in order
+   */
+  steps: WorkflowExecutionStep[];
+
+  /**
+   * Failure details (if status is 'failed')
+   */
+  error?: {
+    nodeId?: string;
+    message: string;
+  };
+}
+
+/**
+ * Canned mock response: a fixed output, a full response, or a function of the
+ * request
+ */
+export type MockResponse =
+  | string
+  | ModelResponse
+  | ((request: ModelRequest) => string | ModelResponse);
+
+/**
+ * Options for the mock model provider
+ */
+export interface MockProviderOptions {
+  /**
+   * Responses keyed by node ID or agent ID (node ID wins). An array is
+   * consumed one entry per call, repeating the last entry.
+   */
+  responses?: Record<string, MockResponse | MockResponse[]>;
+
+  /**
+   * Response for agents without an entry in `responses`
+   * (default: echoes the agent ID and input)
+   */
+  defaultResponse?: MockResponse;
+}
+
+/**
+ * Deterministic model provider that records every request
+ */
+export interface MockModelProvider extends ModelProvider {
+  /**
+   * Requests received, in call order
+   */
+  calls: ModelRequest[];
+
+  /**
+   * Clears recorded calls and response sequences
+   */
+  reset(): void;
+}
@@ -0,0 +1,122 @@
+/**
+ * Type definitions for secret references
+ * References stand in for credentials in tool configs, agent metadata and
+ * trigger config, and are resolved at run time
+ */
+
+/**
+ * A secret read from an environment variable
+ */
+export interface EnvSecretReference {
+  $secret: 'env';
+
+  /**
+   * Environment variable name (e.g. 'OPENAI_API_KEY')
+   */
+  name: string;
+}
+
+/**
+ * A secret read from a file (trailing newlines are trimmed)
+ */
+export interface FileSecretReference {
+  $secret: 'file';
+
+  /**
+   * File path, relative to the resolver's working directory
+   */
+  path: string;
+}
+
+/**
+ * A secret read from a named key in a vault
+ */
+export interface VaultSecretReference {
+  $secret: 'vault';
+
+  /**
+   * Key of the secret in the vault
+   */
+  key: string;
+
+  /**
+   * Vault name (default: 'default')
+   */
+  vault?: string;
+}
+
+/**
+ * Reference to a secret, in place of a literal credential
+ */
+export type SecretReference =
+  | EnvSecretReference
+  | FileSecretReference
+  | VaultSecretReference;
+
+/**
+ * Resolves secret references to their values
+ */
+export interface SecretResolver {
+  /**
+   * Returns the secret's value
+   * @throws {Error} If the secret cannot be found
+   */
+  resolve(reference: SecretReference): Promise<string>;
+}
+
+/**
+ * Looks a key up in a vault; `undefined` means the key does not exist
+ */
+export type VaultLookup = (
+  key: string
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Options for createSecretResolver
+ */
+export interface SecretResolverOptions {
+  /**
+   * Environment for `env` references (default: process.env)
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Directory `file` references are relative to (default: process.cwd())
+   */
+  cwd?: string;
+
+  /**
+   * Vaults for `vault` references, by name
+   */
+  vaults?: Record<string, VaultLookup>;
+}
+
+/**
+ * A malformed secret reference or a literal secret found in a document
+ */
+export interface SecretIssue {
+  /**
+   * Path to the offending value (e.g. ['metadata', 'apiKey'])
+   */
+  path: string[];
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
+
+/**
+ * A secret reference and where it appears in a document
+ */
+export interface SecretReferenceLocation {
+  /**
+   * Path to the reference (e.g. ['tools', '0', 'config', 'token'])
+   */
+  path: string[];
+
+  /**
+   * The reference
+   */
+  reference: SecretReference;
+}
@@ -0,0 +1,44 @@
+/**
+ * Type definitions for prompt templates
+ * Placeholders are written `{{ name }}` in systemPrompt and tool descriptions
+ */
+
+import type { WorkflowVariable } from './workflow.js';
+
+/**
+ * Literal text or a placeholder in a parsed template
+ */
+export type TemplateSegment =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string };
+
+/**
+ * Values a template is rendered with
+ */
+export interface TemplateRenderOptions {
+  /**
+   * Declared variables; when given, every placeholder must name one, and
+   * their types, defaults and `required` flags apply
+   */
+  variables?: WorkflowVariable[];
+
+  /**
+   * Caller-supplied values by variable name (override defaults)
+   */
+  values?: Record<string, unknown>;
+}
+
+/**
+ * A placeholder that does not refer to a declared variable
+ */
+export interface TemplateIssue {
+  /**
+   * Path to the templated field (e.g. ['nodes', '1', 'agent', 'systemPrompt'])
+   */
+  path: string[];
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
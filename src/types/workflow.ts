@@ -3,6 +3,9 @@
  */
 
 import type { AgentConfig } from './agent.js';
+import type { AgentRegistry } from './agent-registry.js';
+import type { WorkflowEnvironment } from './environments.js';
+import type { ModelCatalog } from './models.js';
 
 /**
  * Node position in a visual workflow editor
@@ -157,6 +160,12 @@ export interface WorkflowVariable {
  * Complete workflow configuration
  */
 export interface WorkflowConfig {
+  /**
+   * Schema version the document is written against (e.g. '1.0').
+   * Older versions are migrated by the validators.
+   */
+  schemaVersion?: string;
+
   /**
    * Unique identifier for the workflow
    */
@@ -206,6 +215,27 @@ export interface WorkflowConfig {
    * Additional workflow metadata
    */
   metadata?: Record<string, unknown>;
+
+  /**
+   * Named environment overlays (e.g. dev, staging, prod), applied with
+   * `resolveEnvironment`
+   */
+  environments?: Record<string, WorkflowEnvironment>;
+}
+
+/**
+ * Options for validating a workflow
+ */
+export interface WorkflowValidationOptions {
+  /**
+   * Registry that every agent node's `agentId` reference must resolve in
+   */
+  agents?: AgentRegistry;
+
+  /**
+   * Catalog inline agents are checked against for their provider and model
+   */
+  models?: ModelCatalog;
 }
 
 /**
@@ -230,6 +260,12 @@ export interface WorkflowValidationResult {
     issues?: Array<{
       path: string[];
       message: string;
+      /** Source file, when validated from a loaded document */
+      file?: string;
+      /** Source line (1-based), when validated from a loaded document */
+      line?: number;
+      /** Source column (1-based), when validated from a loaded document */
+      column?: number;
     }>;
   };
 }
@@ -0,0 +1,163 @@
+/**
+ * Utilities for adapter fidelity reports
+ */
+import { resolveAgentExtends } from '../agents/inheritance.js';
+import { getTemplateVariables } from '../templates/template.js';
+import type { AgentConfig } from '../types/agent.js';
+import type { AgentRegistry } from '../types/agent-registry.js';
+import type {
+  FidelityIssue,
+  FidelityReport,
+  FidelitySeverity,
+} from '../types/adapters.js';
+
+const SEVERITY_RANK: Record<FidelitySeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+};
+
+/**
+ * Checks whether a fidelity report contains issues at or above a severity
+ *
+ * @param report - Fidelity report from a `...WithReport` conversion
+ * @param minimumSeverity - Lowest severity that counts (default: 'error')
+ * @returns True if any issue is at least as severe as `minimumSeverity`
+ *
+ * @example
+ * ```typescript
+ * const { output, report } = mapWorkflowToCrewWithReport(workflow);
+ * if (hasFidelityIssues(report, 'warning')) {
+ *   process.exitCode = 1;
+ * }
+ * ```
+ */
+export function hasFidelityIssues(
+  report: FidelityReport,
+  minimumSeverity: FidelitySeverity = 'error'
+): boolean {
+  return report.issues.some(
+    (issue) => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[minimumSeverity]
+  );
+}
+
+/**
+ * Re-roots fidelity issues under a parent path
+ * (e.g. agent issues under `nodes.2.agent` in a workflow report)
+ */
+export function prefixFidelityIssues(
+  issues: FidelityIssue[],
+  prefix: string[]
+): FidelityIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    path: [...prefix, ...issue.path],
+  }));
+}
+
+/**
+ * Records a `defaulted` issue for each model parameter the agent leaves
+ * unset but the adapter fills in
+ */
+export function recordDefaultedParameters(
+  issues: FidelityIssue[],
+  parameters: object | undefined,
+  defaults: Record<string, unknown>
+): void {
+  const record = (parameters || {}) as Record<string, unknown>;
+  Object.entries(defaults).forEach(([key, value]) => {
+    if (record[key] === undefined) {
+      issues.push({
+        path: ['parameters', key],
+        kind: 'defaulted',
+        severity: 'info',
+        message: `Not set; defaulted to ${JSON.stringify(value)}`,
+      });
+    }
+  });
+}
+
+/**
+ * Records a `dropped` issue for each listed field that is set on the source
+ */
+export function recordDroppedFields(
+  issues: FidelityIssue[],
+  source: object | undefined,
+  fields: Array<[key: string, severity: FidelitySeverity, message: string]>,
+  path: string[] = []
+): void {
+  const record = (source || {}) as Record<string, unknown>;
+  fields.forEach(([key, severity, message]) => {
+    const value = record[key];
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+      issues.push({
+        path: [...path, key],
+        kind: 'dropped',
+        severity,
+        message,
+      });
+    }
+  });
+}
+
+/**
+ * Flattens an agent's `extends` chain before export; without a registry, or
+ * if a base agent cannot be resolved, only the agent's own fields are
+ * exported and `extends` is reported as dropped
+ */
+export function flattenAgentForExport(
+  agent: AgentConfig,
+  agents: AgentRegistry | undefined
+): { agent: AgentConfig; issues: FidelityIssue[] } {
+  if (agent.extends === undefined) {
+    return { agent, issues: [] };
+  }
+
+  let reason = 'Base agents are not merged without an agent registry';
+  if (agents) {
+    try {
+      return {
+        agent: resolveAgentExtends(agent, agents) as AgentConfig,
+        issues: [],
+      };
+    } catch (error) {
+      reason = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return {
+    agent,
+    issues: [
+      {
+        path: ['extends'],
+        kind: 'dropped',
+        severity: 'error',
+        message: `${reason}; only the agent's own fields are exported`,
+      },
+    ],
+  };
+}
+
+/**
+ * Records an `approximated` issue for each agent field with prompt template
+ * placeholders, explaining how the target fills them in (or that it does not)
+ */
+export function recordTemplatedFields(
+  issues: FidelityIssue[],
+  agent: AgentConfig,
+  message: string,
+  severity: FidelitySeverity = 'info'
+): void {
+  const fields: Array<[string[], string | undefined]> = [
+    [['systemPrompt'], agent.systemPrompt],
+    ...(agent.tools ?? []).map((tool, index): [string[], string] => [
+      ['tools', String(index), 'description'],
+      tool.description,
+    ]),
+  ];
+  fields.forEach(([path, template]) => {
+    if (template && getTemplateVariables(template).length > 0) {
+      issues.push({ path, kind: 'approximated', severity, message });
+    }
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * Identifier helpers shared by the import adapters
+ */
+
+/**
+ * Converts a display name into an identifier
+ *
+ * @param value - Display name to convert
+ * @returns Lowercase, dash-separated identifier (empty if nothing usable)
+ *
+ * @example
+ * ```ts
+ * slugify('Customer Support Agent'); // 'customer-support-agent'
+ * ```
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Makes an ID unique within a set by appending a numeric suffix,
+ * and records it in the set
+ *
+ * @param base - Preferred ID
+ * @param used - IDs already taken (updated in place)
+ * @returns `base`, or `base-2`, `base-3`, ... if taken
+ */
+export function uniqueId(base: string, used: Set<string>): string {
+  let id = base;
+  let suffix = 2;
+  while (used.has(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  used.add(id);
+  return id;
+}
@@ -2,14 +2,33 @@
  * Validation utilities for AI Agent configurations
  */
 import { ZodError } from 'zod';
+import { migrateAgentConfig } from '../migrations/migrate.js';
+import { resolveAgentExtends } from '../agents/inheritance.js';
 import { AgentConfigSchema } from '../schemas/agent.schema.js';
+import { checkSecretReferences } from '../secrets/references.js';
+import { scanForLiteralSecrets } from '../secrets/scanner.js';
+import { checkAgentToolParameters } from '../tools/parameters.js';
+import { checkModelCapabilities } from '../models/capabilities.js';
 import type { AgentConfig } from '../types/agent.js';
-import type { ValidationResult } from '../types/agent.js';
+import type {
+  AgentValidationOptions,
+  ValidationResult,
+} from '../types/agent.js';
 
 /**
  * Validates an agent configuration against the schema
  *
+ * Documents written against an older schema version are migrated first, so
+ * the returned data always has the current shape. With `options.agents`, an
+ * agent that `extends` base agents is flattened before it is validated.
+ * Malformed secret references and literal credentials (API keys, or strings
+ * under keys such as `apiKey` and `password`) are rejected, as are tool
+ * parameter schemas that break the JSON Schema meta-schema or the rules of
+ * the agent's provider. With `options.models`, parameters and features the
+ * agent's provider or model does not support are rejected too.
+ *
  * @param config - The agent configuration to validate
+ * @param options - Validation options
  * @returns Validation result with success status and data or error
  *
  * @example
@@ -28,9 +47,15 @@ import type { ValidationResult } from '../types/agent.js';
  * }
  * ```
  */
-export function validateAgentConfig(config: unknown): ValidationResult {
+export function validateAgentConfig(
+  config: unknown,
+  options: AgentValidationOptions = {}
+): ValidationResult {
   try {
-    const validatedData = AgentConfigSchema.parse(config);
+    const validatedData = AgentConfigSchema.parse(
+      inherit(upgrade(config), options)
+    );
+    checkAgent(validatedData as AgentConfig, options);
     return {
       success: true,
       data: validatedData as AgentConfig,
@@ -61,9 +86,16 @@ export function validateAgentConfig(config: unknown): ValidationResult {
 /**
  * Validates an agent configuration and throws on failure
  *
+ * Documents written against an older schema version are migrated first.
+ *
  * @param config - The agent configuration to validate
+ * @param options - Validation options
  * @returns The validated agent configuration
- * @throws {ZodError} If validation fails
+ * @throws {ZodError} If validation fails, including literal credentials,
+ *   tool parameter schemas the provider refuses, settings the model catalog
+ *   rules out when `options.models` is set, and unknown base agents and
+ *   inheritance cycles when `options.agents` is set
+ * @throws {Error} If the document's schema version is unsupported
  *
  * @example
  * ```ts
@@ -80,8 +112,15 @@ export function validateAgentConfig(config: unknown): ValidationResult {
  * }
  * ```
  */
-export function validateAgentConfigStrict(config: unknown): AgentConfig {
-  return AgentConfigSchema.parse(config) as AgentConfig;
+export function validateAgentConfigStrict(
+  config: unknown,
+  options: AgentValidationOptions = {}
+): AgentConfig {
+  const agent = AgentConfigSchema.parse(
+    inherit(upgrade(config), options)
+  ) as AgentConfig;
+  checkAgent(agent, options);
+  return agent;
 }
 
 /**
@@ -129,3 +168,51 @@ export function validatePartialAgentConfig(
     };
   }
 }
+
+/**
+ * Helper: Upgrade object documents to the current schema version, leaving
+ * anything else for the schema to reject
+ */
+function upgrade(config: unknown): unknown {
+  return config !== null && typeof config === 'object' && !Array.isArray(config)
+    ? migrateAgentConfig(config).data
+    : config;
+}
+
+/**
+ * Helper: Flatten an agent's `extends` chain when a registry is given,
+ * reporting unknown bases and cycles as a ZodError on `extends`
+ */
+function inherit(config: unknown, options: AgentValidationOptions): unknown {
+  if (!options.agents) {
+    return config;
+  }
+  try {
+    return resolveAgentExtends(config, options.agents);
+  } catch (error) {
+    throw new ZodError([
+      {
+        code: 'custom',
+        path: ['extends'],
+        message: error instanceof Error ? error.message : String(error),
+      },
+    ]);
+  }
+}
+
+/**
+ * Helper: Throw a ZodError listing malformed secret references, literal
+ * credentials, tool parameter schemas the provider refuses and, with a
+ * model catalog, settings the provider or model does not support
+ */
+function checkAgent(agent: AgentConfig, options: AgentValidationOptions): void {
+  const issues = [
+    ...checkSecretReferences(agent),
+    ...scanForLiteralSecrets(agent),
+    ...checkAgentToolParameters(agent),
+    ...(options.models ? checkModelCapabilities(agent, options.models) : []),
+  ];
+  if (issues.length > 0) {
+    throw new ZodError(issues.map((issue) => ({ code: 'custom', ...issue })));
+  }
+}
@@ -2,14 +2,37 @@
  * Validation utilities for Workflow configurations
  */
 import { ZodError } from 'zod';
+import { migrateWorkflowConfig } from '../migrations/migrate.js';
+import { resolveAgentReferences } from '../agents/references.js';
+import { checkWorkflowTemplates } from '../templates/template.js';
+import { checkSecretReferences } from '../secrets/references.js';
+import { scanForLiteralSecrets } from '../secrets/scanner.js';
+import { checkAgentToolParameters } from '../tools/parameters.js';
+import { checkModelCapabilities } from '../models/capabilities.js';
 import { WorkflowConfigSchema } from '../schemas/workflow.schema.js';
 import type { WorkflowConfig } from '../types/workflow.js';
-import type { WorkflowValidationResult } from '../types/workflow.js';
+import type {
+  WorkflowValidationOptions,
+  WorkflowValidationResult,
+} from '../types/workflow.js';
 
 /**
  * Validates a workflow configuration against the schema
  *
+ * Documents written against an older schema version are migrated first, so
+ * the returned data always has the current shape. Every `{{ name }}`
+ * placeholder in an agent's systemPrompt or tool descriptions must refer to
+ * a declared workflow variable. With `options.agents`, every `agentId`
+ * reference of a node without an inline agent must resolve in the registry,
+ * and the placeholders of the agents it resolves to are checked too.
+ * Malformed secret references and literal credentials (API keys, or strings
+ * under keys such as `apiKey` and `password`) are rejected, as are inline
+ * agents' tool parameter schemas that break the rules of their provider.
+ * With `options.models`, inline agents are also checked against the
+ * parameters and features of their provider and model.
+ *
  * @param config - The workflow configuration to validate
+ * @param options - Validation options
  * @returns Validation result with success status and data or error
  *
  * @example
@@ -29,10 +52,12 @@ import type { WorkflowValidationResult } from '../types/workflow.js';
  * ```
  */
 export function validateWorkflowConfig(
-  config: unknown
+  config: unknown,
+  options: WorkflowValidationOptions = {}
 ): WorkflowValidationResult {
   try {
-    const validatedData = WorkflowConfigSchema.parse(config);
+    const validatedData = WorkflowConfigSchema.parse(upgrade(config));
+    checkWorkflowReferences(validatedData as WorkflowConfig, options);
     return {
       success: true,
       data: validatedData as WorkflowConfig,
@@ -63,9 +88,15 @@ export function validateWorkflowConfig(
 /**
  * Validates a workflow configuration and throws on failure
  *
+ * Documents written against an older schema version are migrated first.
+ *
  * @param config - The workflow configuration to validate
+ * @param options - Validation options
  * @returns The validated workflow configuration
- * @throws {ZodError} If validation fails
+ * @throws {ZodError} If validation fails, including undeclared template
+ *   placeholders, literal credentials and unresolved `agentId` references
+ *   when `options.agents` is set
+ * @throws {Error} If the document's schema version is unsupported
  *
  * @example
  * ```ts
@@ -82,8 +113,15 @@ export function validateWorkflowConfig(
  * }
  * ```
  */
-export function validateWorkflowConfigStrict(config: unknown): WorkflowConfig {
-  return WorkflowConfigSchema.parse(config) as WorkflowConfig;
+export function validateWorkflowConfigStrict(
+  config: unknown,
+  options: WorkflowValidationOptions = {}
+): WorkflowConfig {
+  const workflow = WorkflowConfigSchema.parse(
+    upgrade(config)
+  ) as WorkflowConfig;
+  checkWorkflowReferences(workflow, options);
+  return workflow;
 }
 
 /**
@@ -238,3 +276,48 @@ export function findDisconnectedNodes(workflow: WorkflowConfig): string[] {
     .map((node) => node.id)
     .filter((id) => !connectedNodes.has(id));
 }
+
+/**
+ * Helper: Upgrade object documents to the current schema version, leaving
+ * anything else for the schema to reject
+ */
+function upgrade(config: unknown): unknown {
+  return config !== null && typeof config === 'object' && !Array.isArray(config)
+    ? migrateWorkflowConfig(config).data
+    : config;
+}
+
+/**
+ * Helper: Throw a ZodError listing `agentId` references the registry cannot
+ * resolve, template placeholders that name undeclared variables, malformed
+ * secret references, literal credentials, tool parameter schemas the
+ * provider refuses and settings the model catalog rules out
+ */
+function checkWorkflowReferences(
+  workflow: WorkflowConfig,
+  options: WorkflowValidationOptions
+): void {
+  const { workflow: resolved, unresolved } = options.agents
+    ? resolveAgentReferences(workflow, options.agents)
+    : { workflow, unresolved: [] };
+  const issues = [
+    ...unresolved,
+    ...checkWorkflowTemplates(resolved),
+    ...checkSecretReferences(workflow),
+    ...scanForLiteralSecrets(workflow),
+    ...workflow.nodes.flatMap((node, index) => {
+      const path = ['nodes', String(index), 'agent'];
+      return node.agent
+        ? [
+            ...checkAgentToolParameters(node.agent, path),
+            ...(options.models
+              ? checkModelCapabilities(node.agent, options.models, path)
+              : []),
+          ]
+        : [];
+    }),
+  ];
+  if (issues.length > 0) {
+    throw new ZodError(issues.map((issue) => ({ code: 'custom', ...issue })));
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Tests for agent inheritance via `extends`
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  mergeAgentConfigs,
+  resolveAgentExtends,
+} from '../src/agents/inheritance';
+import { createAgentRegistry } from '../src/agents/registry';
+import { createDirectoryAgentRegistry } from '../src/agents/directory-registry';
+import { resolveAgentReferences } from '../src/agents/references';
+import {
+  validateAgentConfig,
+  validateAgentConfigStrict,
+} from '../src/utils/validator';
+import { mapAgentToCrewAgentWithReport } from '../src/adapters/crewai.adapter';
+import { mapAgentToLangChainWithReport } from '../src/adapters/langchain.adapter';
+import { mapWorkflowToN8nWithReport } from '../src/adapters/n8n.adapter';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const base: AgentConfig = {
+  id: 'researcher',
+  name: 'Researcher',
+  provider: 'openai',
+  model: 'gpt-4',
+  systemPrompt: 'You research topics',
+  parameters: { temperature: 0.7, maxTokens: 2000 },
+  tools: [
+    { id: 'search', name: 'web_search', description: 'Search the web' },
+    { id: 'fetch', name: 'fetch_page', description: 'Fetch a page' },
+  ],
+  metadata: { team: 'research', tier: 'standard' },
+};
+
+describe('mergeAgentConfigs', () => {
+  it('should merge tools by id, merge objects and override scalars', () => {
+    const merged = mergeAgentConfigs(base as never, {
+      id: 'cautious',
+      systemPrompt: 'You research carefully',
+      parameters: { temperature: 0.1 },
+      tools: [
+        {
+          id: 'search',
+          description: 'Search trusted sources',
+          parameters: { type: 'object' },
+        },
+        { id: 'cite', name: 'cite', description: 'Format citations' },
+      ],
+      metadata: { tier: 'premium' },
+    });
+
+    expect(merged).toEqual({
+      id: 'cautious',
+      name: 'Researcher',
+      provider: 'openai',
+      model: 'gpt-4',
+      systemPrompt: 'You research carefully',
+      parameters: { temperature: 0.1, maxTokens: 2000 },
+      tools: [
+        {
+          id: 'search',
+          name: 'web_search',
+          description: 'Search trusted sources',
+          parameters: { type: 'object' },
+        },
+        { id: 'fetch', name: 'fetch_page', description: 'Fetch a page' },
+        { id: 'cite', name: 'cite', description: 'Format citations' },
+      ],
+      metadata: { team: 'research', tier: 'premium' },
+    });
+  });
+
+  it('should replace tools whose kind changes', () => {
+    const merged = mergeAgentConfigs(
+      {
+        id: 'a',
+        tools: [
+          {
+            id: 'search',
+            name: 'search',
+            description: 'Web',
+            kind: 'http',
+            url: 'https://example.com/search',
+            method: 'GET',
+          },
+        ],
+      },
+      {
+        id: 'b',
+        tools: [
+          {
+            id: 'search',
+            name: 'search',
+            description: 'Docs',
+            kind: 'mcp',
+            server: { transport: 'stdio', command: 'docs-mcp' },
+          },
+        ],
+      }
+    );
+
+    expect(merged.tools).toEqual([
+      {
+        id: 'search',
+        name: 'search',
+        description: 'Docs',
+        kind: 'mcp',
+        server: { transport: 'stdio', command: 'docs-mcp' },
+      },
+    ]);
+  });
+
+  it('should not inherit id, schemaVersion or extends', () => {
+    expect(
+      mergeAgentConfigs(
+        { id: 'a', schemaVersion: '1.0', extends: 'z', name: 'A' },
+        { name: 'B' }
+      )
+    ).toEqual({ name: 'B' });
+  });
+});
+
+describe('resolveAgentExtends', () => {
+  const lookup = (agents: Record<string, unknown>) => (id: string) =>
+    agents[id];
+
+  it('should flatten chains and merge several bases in order', () => {
+    const agents = {
+      researcher: base,
+      fast: { id: 'fast', extends: 'researcher', model: 'gpt-4o-mini' },
+      quiet: { id: 'quiet', parameters: { maxTokens: 500 } },
+    };
+
+    const agent = resolveAgentExtends(
+      {
+        id: 'summarizer',
+        extends: ['fast', 'quiet'],
+        name: 'Summarizer',
+      },
+      lookup(agents)
+    ) as AgentConfig;
+
+    expect(agent.id).toBe('summarizer');
+    expect(agent.name).toBe('Summarizer');
+    expect(agent.model).toBe('gpt-4o-mini');
+    expect(agent.parameters).toEqual({ temperature: 0.7, maxTokens: 500 });
+    expect(agent.extends).toBeUndefined();
+    expect(agent.tools).toHaveLength(2);
+  });
+
+  it('should return agents without extends unchanged', () => {
+    expect(resolveAgentExtends(base, () => undefined)).toBe(base);
+  });
+
+  it('should reject unknown bases and inheritance cycles', () => {
+    expect(() =>
+      resolveAgentExtends({ id: 'a', extends: 'missing' }, () => undefined)
+    ).toThrow('Agent "a" extends unknown agent "missing"');
+
+    const cyclic = {
+      a: { id: 'a', extends: 'b' },
+      b: { id: 'b', extends: ['researcher', 'c'] },
+      c: { id: 'c', extends: 'a' },
+      researcher: base,
+    };
+    expect(() => resolveAgentExtends(cyclic.a, lookup(cyclic))).toThrow(
+      'Agent inheritance cycle: a -> b -> c -> a'
+    );
+    expect(() =>
+      resolveAgentExtends({ id: 'self', extends: 'self' }, () => ({}))
+    ).toThrow('Agent inheritance cycle: self -> self');
+  });
+
+  it('should allow diamond-shaped inheritance', () => {
+    const agents = {
+      researcher: base,
+      left: { id: 'left', extends: 'researcher' },
+      right: { id: 'right', extends: 'researcher' },
+    };
+    expect(
+      (
+        resolveAgentExtends(
+          { id: 'both', extends: ['left', 'right'] },
+          lookup(agents)
+        ) as AgentConfig
+      ).model
+    ).toBe('gpt-4');
+  });
+});
+
+describe('validation with extends', () => {
+  const agents = createAgentRegistry([base]);
+  const derived = {
+    id: 'cautious',
+    extends: 'researcher',
+    parameters: { temperature: 0.1 },
+  };
+
+  it('should flatten the chain before validating', () => {
+    const result = validateAgentConfig(derived, { agents });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      id: 'cautious',
+      name: 'Researcher',
+      parameters: { temperature: 0.1, maxTokens: 2000 },
+      schemaVersion: '1.0',
+    });
+    expect(result.data?.extends).toBeUndefined();
+    expect(validateAgentConfigStrict(derived, { agents }).model).toBe('gpt-4');
+  });
+
+  it('should report unknown bases on extends', () => {
+    expect(
+      validateAgentConfig({ ...derived, extends: 'writer' }, { agents })
+    ).toEqual({
+      success: false,
+      error: {
+        message: 'Validation failed',
+        issues: [
+          {
+            path: ['extends'],
+            message: 'Agent "cautious" extends unknown agent "writer"',
+          },
+        ],
+      },
+    });
+  });
+
+  it('should validate extends as-is without a registry', () => {
+    expect(validateAgentConfig(derived).success).toBe(false);
+    expect(
+      validateAgentConfig({ ...base, id: 'copy', extends: ['researcher'] }).data
+        ?.extends
+    ).toEqual(['researcher']);
+  });
+
+  it('should flatten agents registered in a registry', () => {
+    const registry = createAgentRegistry([base, derived]);
+    expect(registry.get('cautious')?.tools).toEqual(base.tools);
+  });
+});
+
+describe('createDirectoryAgentRegistry with extends', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-agent-schema-extends-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve bases from files in any order', () => {
+    writeFileSync(
+      join(dir, 'a-cautious.yaml'),
+      'id: cautious\nextends: researcher\nparameters:\n  temperature: 0.1\n'
+    );
+    writeFileSync(join(dir, 'researcher.json'), JSON.stringify(base));
+
+    const registry = createDirectoryAgentRegistry(dir);
+
+    expect(registry.get('cautious')).toMatchObject({
+      name: 'Researcher',
+      parameters: { temperature: 0.1, maxTokens: 2000 },
+    });
+  });
+
+  it('should report inheritance cycles with the file name', () => {
+    writeFileSync(join(dir, 'a.yaml'), 'id: a\nextends: b\n');
+    writeFileSync(join(dir, 'b.yaml'), 'id: b\nextends: a\n');
+
+    expect(() => createDirectoryAgentRegistry(dir)).toThrow(
+      `${join(dir, 'a.yaml')}: Agent inheritance cycle: a -> b -> a`
+    );
+  });
+});
+
+describe('adapters with extends', () => {
+  const agents = createAgentRegistry([base]);
+  const derived: AgentConfig = {
+    ...base,
+    id: 'fast',
+    extends: 'researcher',
+    model: 'gpt-4o-mini',
+    tools: undefined,
+    metadata: undefined,
+  };
+
+  it('should export the flattened agent with a registry', () => {
+    const { output, report } = mapAgentToLangChainWithReport(derived, {
+      agents,
+    });
+
+    expect(output.llm.modelName).toBe('openai/gpt-4o-mini');
+    expect(output.tools.map((tool) => tool.name)).toEqual([
+      'web_search',
+      'fetch_page',
+    ]);
+    expect(report.issues.some((issue) => issue.path[0] === 'extends')).toBe(
+      false
+    );
+  });
+
+  it('should report extends as dropped without a registry', () => {
+    const { output, report } = mapAgentToCrewAgentWithReport(derived);
+
+    expect(output.tools).toBeUndefined();
+    expect(report.issues).toContainEqual({
+      path: ['extends'],
+      kind: 'dropped',
+      severity: 'error',
+      message:
+        "Base agents are not merged without an agent registry; only the agent's own fields are exported",
+    });
+  });
+
+  it('should flatten inline workflow agents', () => {
+    const workflow: WorkflowConfig = {
+      id: 'wf',
+      name: 'Workflow',
+      nodes: [
+        { id: 'fast', type: 'agent', agent: derived },
+        {
+          id: 'broken',
+          type: 'agent',
+          agent: { ...derived, id: 'broken', extends: 'missing' },
+        },
+      ],
+      connections: [],
+    };
+
+    const { workflow: resolved, unresolved } = resolveAgentReferences(
+      workflow,
+      agents
+    );
+    expect(resolved.nodes[0].agent?.tools).toEqual(base.tools);
+    expect(unresolved).toEqual([
+      {
+        path: ['nodes', '1', 'agent', 'extends'],
+        message: 'Agent "broken" extends unknown agent "missing"',
+      },
+    ]);
+
+    const { output, report } = mapWorkflowToN8nWithReport(workflow, {
+      agents,
+    });
+    expect(output.nodes[0].parameters.tools).toHaveLength(2);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        path: ['nodes', '1', 'agent', 'extends'],
+        severity: 'error',
+      })
+    );
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Tests for agent registries and agentId resolution
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createAgentRegistry } from '../src/agents/registry';
+import { createDirectoryAgentRegistry } from '../src/agents/directory-registry';
+import { resolveAgentReferences } from '../src/agents/references';
+import {
+  validateWorkflowConfig,
+  validateWorkflowConfigStrict,
+} from '../src/utils/workflow-validator';
+import { mapWorkflowToCrewWithReport } from '../src/adapters/crewai.adapter';
+import { mapWorkflowToLangGraphWithReport } from '../src/adapters/langchain.adapter';
+import { mapWorkflowToN8nWithReport } from '../src/adapters/n8n.adapter';
+import { convertWithReport } from '../src/adapters/registry';
+import { executeWorkflow } from '../src/runtime/executor';
+import { createMockProvider } from '../src/runtime/mock-provider';
+import { runCli } from '../src/cli/run';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+import type { CliIO } from '../src/types/cli';
+
+const researcher: AgentConfig = {
+  id: 'researcher',
+  name: 'Researcher',
+  provider: 'openai',
+  model: 'gpt-4',
+  systemPrompt: 'You research topics',
+};
+
+const writer: AgentConfig = {
+  id: 'writer',
+  name: 'Writer',
+  provider: 'anthropic',
+  model: 'claude-3-5-sonnet-20241022',
+};
+
+const workflow: WorkflowConfig = {
+  id: 'pipeline',
+  name: 'Pipeline',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'research', type: 'agent', agentId: 'researcher' },
+    { id: 'write', type: 'agent', agentId: 'writer' },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'research' },
+    { id: 'c2', sourceId: 'research', targetId: 'write' },
+    { id: 'c3', sourceId: 'write', targetId: 'done' },
+  ],
+};
+
+describe('createAgentRegistry', () => {
+  it('should register, look up and remove validated agents', () => {
+    const registry = createAgentRegistry([researcher]);
+
+    expect(registry.register(writer)).toEqual({
+      ...writer,
+      schemaVersion: '1.0',
+    });
+    expect(registry.has('writer')).toBe(true);
+    expect(registry.get('researcher')?.schemaVersion).toBe('1.0');
+    expect(registry.list().map((agent) => agent.id)).toEqual([
+      'researcher',
+      'writer',
+    ]);
+
+    expect(registry.unregister('writer')).toBe(true);
+    expect(registry.unregister('writer')).toBe(false);
+    expect(registry.get('writer')).toBeUndefined();
+  });
+
+  it('should reject invalid agents and duplicate IDs', () => {
+    const registry = createAgentRegistry([researcher]);
+
+    expect(() => registry.register({ ...writer, model: '' })).toThrow(
+      'Invalid agent "writer": model: Model is required'
+    );
+    expect(() => registry.register({ name: 'No ID' })).toThrow(
+      /^Invalid agent: id: /
+    );
+    expect(() => registry.register(researcher)).toThrow(
+      'Agent "researcher" is already registered'
+    );
+
+    registry.register(
+      { ...researcher, name: 'Senior Researcher' },
+      {
+        replace: true,
+      }
+    );
+    expect(registry.get('researcher')?.name).toBe('Senior Researcher');
+  });
+});
+
+describe('createDirectoryAgentRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-agent-schema-agents-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load YAML, JSON and JSON5 agent files', () => {
+    writeFileSync(
+      join(dir, 'researcher.yaml'),
+      'id: researcher\nname: Researcher\nprovider: openai\nmodel: gpt-4\n'
+    );
+    writeFileSync(join(dir, 'writer.json'), JSON.stringify(writer));
+    writeFileSync(
+      join(dir, 'editor.json5'),
+      "{ id: 'editor', name: 'Editor', provider: 'openai', model: 'gpt-4o' }"
+    );
+    writeFileSync(join(dir, 'README.md'), '# Agents');
+    mkdirSync(join(dir, 'drafts.json'));
+
+    const registry = createDirectoryAgentRegistry(dir);
+
+    expect(registry.list().map((agent) => agent.id)).toEqual([
+      'editor',
+      'researcher',
+      'writer',
+    ]);
+  });
+
+  it('should name the file of an invalid or duplicate agent', () => {
+    writeFileSync(
+      join(dir, 'a.yaml'),
+      'id: researcher\nname: Researcher\nprovider: nobody\nmodel: gpt-4\n'
+    );
+    expect(() => createDirectoryAgentRegistry(dir)).toThrow(
+      `${join(dir, 'a.yaml')}: Invalid agent "researcher": provider (line 3, column 1): `
+    );
+
+    writeFileSync(join(dir, 'a.yaml'), JSON.stringify(researcher));
+    writeFileSync(join(dir, 'b.json'), JSON.stringify(researcher));
+    expect(() => createDirectoryAgentRegistry(dir)).toThrow(
+      `${join(dir, 'b.json')}: Agent "researcher" is already registered`
+    );
+  });
+});
+
+describe('resolveAgentReferences', () => {
+  it('should inline registered agents and report unresolved references', () => {
+    const registry = createAgentRegistry([researcher]);
+    const inline = { ...writer, name: 'Inline Writer' };
+    const input: WorkflowConfig = {
+      ...workflow,
+      nodes: [
+        ...workflow.nodes,
+        { id: 'inline', type: 'agent', agentId: 'writer', agent: inline },
+      ],
+    };
+
+    const { workflow: resolved, unresolved } = resolveAgentReferences(
+      input,
+      registry
+    );
+
+    expect(resolved.nodes[1]).toEqual({
+      id: 'research',
+      type: 'agent',
+      agentId: 'researcher',
+      agent: registry.get('researcher'),
+    });
+    expect(resolved.nodes[2]).toBe(input.nodes[2]);
+    expect(resolved.nodes[4].agent).toBe(inline);
+    expect(input.nodes[1].agent).toBeUndefined();
+    expect(unresolved).toEqual([
+      {
+        path: ['nodes', '2', 'agentId'],
+        message:
+          'Agent "writer" referenced by node "write" is not in the agent registry',
+      },
+    ]);
+  });
+});
+
+describe('workflow validation with an agent registry', () => {
+  it('should report agentId references missing from the registry', () => {
+    const agents = createAgentRegistry([researcher]);
+
+    expect(validateWorkflowConfig(workflow).success).toBe(true);
+    expect(validateWorkflowConfig(workflow, { agents })).toEqual({
+      success: false,
+      error: {
+        message: 'Workflow validation failed',
+        issues: [
+          {
+            path: ['nodes', '2', 'agentId'],
+            message:
+              'Agent "writer" referenced by node "write" is not in the agent registry',
+          },
+        ],
+      },
+    });
+    expect(() => validateWorkflowConfigStrict(workflow, { agents })).toThrow(
+      'is not in the agent registry'
+    );
+
+    agents.register(writer);
+    expect(validateWorkflowConfig(workflow, { agents }).success).toBe(true);
+  });
+});
+
+describe('adapters with an agent registry', () => {
+  const agents = createAgentRegistry([researcher, writer]);
+
+  it('should create CrewAI agents and tasks for referenced agents', () => {
+    const { output, report } = mapWorkflowToCrewWithReport(workflow, {
+      agents,
+    });
+
+    expect(output.agents.map((agent) => agent.role)).toEqual([
+      'Researcher',
+      'Writer',
+    ]);
+    expect(output.tasks.map((task) => task.agent)).toEqual([
+      'Researcher',
+      'Writer',
+    ]);
+    expect(report.issues.filter((issue) => issue.severity === 'error')).toEqual(
+      []
+    );
+  });
+
+  it('should export full LangGraph and n8n agent configs', () => {
+    const graph = mapWorkflowToLangGraphWithReport(workflow, { agents });
+    expect(graph.output.nodes.research.config).toMatchObject({
+      llm: { modelName: 'openai/gpt-4' },
+      systemMessage: 'You research topics',
+    });
+    expect(
+      graph.report.issues.some((issue) => issue.path.includes('agentId'))
+    ).toBe(false);
+
+    const n8n = mapWorkflowToN8nWithReport(workflow, { agents });
+    expect(n8n.output.nodes.map((node) => node.name)).toEqual([
+      'Trigger start',
+      'Researcher',
+      'Writer',
+      'End done',
+    ]);
+    expect(n8n.output.nodes[1].parameters.model).toBe('gpt-4');
+  });
+
+  it('should give n8n nodes sharing a registered agent their own names', () => {
+    const review: WorkflowConfig = {
+      id: 'review',
+      name: 'Review',
+      nodes: [
+        { id: 'draft', type: 'agent', agentId: 'writer' },
+        { id: 'revise', type: 'agent', agentId: 'writer' },
+      ],
+      connections: [{ id: 'c1', sourceId: 'draft', targetId: 'revise' }],
+    };
+
+    const { output } = mapWorkflowToN8nWithReport(review, { agents });
+    expect(output.nodes.map((node) => node.name)).toEqual([
+      'Writer',
+      'Writer-2',
+    ]);
+    expect(output.connections).toEqual({
+      Writer: { main: [[{ node: 'Writer-2', type: 'main', index: 0 }]] },
+    });
+  });
+
+  it('should report references missing from the registry as errors', () => {
+    const partial = createAgentRegistry([researcher]);
+    const message = 'Agent "writer" is not in the agent registry';
+
+    const crew = mapWorkflowToCrewWithReport(workflow, { agents: partial });
+    expect(crew.report.issues).toContainEqual(
+      expect.objectContaining({
+        path: ['nodes', '2'],
+        severity: 'error',
+        message: `${message}; no CrewAI agent or task is created`,
+      })
+    );
+
+    const graph = mapWorkflowToLangGraphWithReport(workflow, {
+      agents: partial,
+    });
+    expect(graph.output.nodes.write.config).toEqual({ agentId: 'writer' });
+    expect(graph.report.issues).toContainEqual(
+      expect.objectContaining({
+        path: ['nodes', '2', 'agentId'],
+        severity: 'error',
+        message: `${message}; exported as an unresolved { agentId } stub config`,
+      })
+    );
+
+    const n8n = mapWorkflowToN8nWithReport(workflow, { agents: partial });
+    expect(n8n.report.issues).toContainEqual(
+      expect.objectContaining({
+        path: ['nodes', '2', 'agentId'],
+        severity: 'error',
+      })
+    );
+  });
+
+  it('should accept a registry through the adapter registry options', () => {
+    const { output } = convertWithReport(workflow, 'crewai', { agents });
+    expect(output.tasks).toHaveLength(2);
+
+    expect(() =>
+      convertWithReport(workflow, 'crewai', {
+        agents: [researcher] as never,
+      })
+    ).toThrow('Expected an agent registry');
+  });
+});
+
+describe('executeWorkflow with an agent registry', () => {
+  it('should resolve agentId references from the registry', async () => {
+    const result = await executeWorkflow(workflow, {
+      provider: createMockProvider(),
+      input: 'Agents',
+      agents: createAgentRegistry([researcher, writer]),
+    });
+
+    expect(result.context.status).toBe('completed');
+    expect(result.output).toBe('[writer] [researcher] Agents');
+  });
+});
+
+describe('CLI --agents', () => {
+  let cwd: string;
+  let io: CliIO & { out: string; err: string };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'ai-agent-schema-cli-agents-'));
+    mkdirSync(join(cwd, 'agents'));
+    writeFileSync(
+      join(cwd, 'agents', 'researcher.json'),
+      JSON.stringify(researcher)
+    );
+    writeFileSync(
+      join(cwd, 'workflow.json'),
+      JSON.stringify(workflow, null, 2)
+    );
+    io = {
+      cwd,
+      out: '',
+      err: '',
+      stdout: (text) => (io.out += text),
+      stderr: (text) => (io.err += text),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should validate agentId references against an agent directory', () => {
+    expect(runCli(['validate', 'workflow.json'], io)).toBe(0);
+
+    io.out = '';
+    expect(
+      runCli(['validate', 'workflow.json', '--agents', 'agents'], io)
+    ).toBe(1);
+    expect(io.out).toContain(
+      'nodes.2.agentId (line 17, column 7): Agent "writer" referenced by node "write" is not in the agent registry'
+    );
+
+    writeFileSync(join(cwd, 'agents', 'writer.json'), JSON.stringify(writer));
+    expect(
+      runCli(['validate', 'workflow.json', '--agents', 'agents'], io)
+    ).toBe(0);
+  });
+
+  it('should fail when the agent directory cannot be loaded', () => {
+    writeFileSync(join(cwd, 'agents', 'broken.json'), '{');
+
+    expect(
+      runCli(['validate', 'workflow.json', '--agents', 'agents'], io)
+    ).toBe(1);
+    expect(io.err).toMatch(/^error: .*broken\.json: Invalid JSON/);
+  });
+});
@@ -0,0 +1,535 @@
+/**
+ * Tests for AutoGen adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mapAgentToAutoGen,
+  mapAgentToAutoGenWithReport,
+  mapWorkflowToAutoGen,
+  mapWorkflowToAutoGenWithReport,
+  mapAutoGenAgentToAgent,
+  mapAutoGenTeamToWorkflow,
+  compileConditionToAutoGen,
+} from '../src/adapters/autogen.adapter';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+import type { AutoGenTeam } from '../src/types/adapters';
+
+const researcher: AgentConfig = {
+  id: 'researcher',
+  name: 'Researcher',
+  description: 'Finds sources',
+  provider: 'openai',
+  model: 'gpt-4o',
+  systemPrompt: 'You research topics thoroughly',
+  parameters: { temperature: 0.2, maxTokens: 2000 },
+};
+
+const writer: AgentConfig = {
+  id: 'writer',
+  name: 'Writer',
+  provider: 'anthropic',
+  model: 'claude-3-5-sonnet',
+  systemPrompt: 'You write articles',
+};
+
+const pipeline: WorkflowConfig = {
+  id: 'article',
+  name: 'Article Pipeline',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'research', type: 'agent', agent: researcher },
+    { id: 'write', type: 'agent', agent: writer },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'research' },
+    { id: 'c2', sourceId: 'research', targetId: 'write' },
+    { id: 'c3', sourceId: 'write', targetId: 'done' },
+  ],
+};
+
+const review: WorkflowConfig = {
+  id: 'review',
+  name: 'Review Loop',
+  variables: [{ name: 'approved', type: 'boolean' }],
+  nodes: [
+    { id: 'write', type: 'agent', agent: writer },
+    { id: 'critic', type: 'agent', agent: { ...researcher, id: 'critic' } },
+    { id: 'check', type: 'condition' },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'write', targetId: 'critic' },
+    { id: 'c2', sourceId: 'critic', targetId: 'check' },
+    {
+      id: 'c3',
+      sourceId: 'check',
+      targetId: 'write',
+      condition: 'approved == false',
+    },
+    {
+      id: 'c4',
+      sourceId: 'check',
+      targetId: 'done',
+      condition: 'approved == true',
+    },
+  ],
+};
+
+describe('AutoGen Adapter', () => {
+  describe('mapAgentToAutoGen', () => {
+    it('should convert an agent to an AssistantAgent', () => {
+      expect(mapAgentToAutoGen(researcher)).toEqual({
+        name: 'researcher',
+        description: 'Finds sources',
+        systemMessage: 'You research topics thoroughly',
+        modelClient: {
+          provider: 'OpenAIChatCompletionClient',
+          model: 'gpt-4o',
+          temperature: 0.2,
+          maxTokens: 2000,
+        },
+      });
+    });
+
+    it('should pick the model client for each provider', () => {
+      const azure = mapAgentToAutoGen({
+        ...writer,
+        provider: 'azure-openai',
+        model: 'prod-gpt4o',
+      });
+      expect(azure.modelClient).toMatchObject({
+        provider: 'AzureOpenAIChatCompletionClient',
+        azureDeployment: 'prod-gpt4o',
+      });
+
+      const gemini = mapAgentToAutoGen({
+        ...writer,
+        provider: 'google',
+        model: 'gemini-1.5-pro',
+      });
+      expect(gemini.modelClient).toMatchObject({
+        provider: 'OpenAIChatCompletionClient',
+        baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai/',
+      });
+      expect(gemini.modelClient.modelInfo).toBeUndefined();
+
+      const local = mapAgentToAutoGen({
+        ...writer,
+        provider: 'custom',
+        model: 'llama3',
+      });
+      expect(local.modelClient.modelInfo).toEqual({
+        vision: false,
+        functionCalling: true,
+        jsonOutput: false,
+        structuredOutput: false,
+        family: 'unknown',
+      });
+    });
+
+    it('should map tools to AutoGen tool classes', () => {
+      const { tools } = mapAgentToAutoGen({
+        ...writer,
+        tools: [
+          { id: 'search', name: 'search', description: 'Search the web' },
+          {
+            id: 'orders',
+            name: 'get_order',
+            description: 'Fetch an order',
+            kind: 'http',
+            method: 'GET',
+            url: 'https://api.example.com:8443/orders/{id}',
+          },
+          {
+            id: 'files',
+            name: 'files',
+            description: 'File access',
+            kind: 'mcp',
+            server: { command: 'npx', args: ['mcp-files'] },
+            toolName: 'read_file',
+          },
+          {
+            id: 'python',
+            name: 'python',
+            description: 'Run Python',
+            kind: 'code',
+            language: 'python',
+          },
+        ],
+      });
+
+      expect(tools?.map((t) => t.className)).toEqual([
+        'FunctionTool',
+        'HttpTool',
+        'McpWorkbench',
+        'PythonCodeExecutionTool',
+      ]);
+      expect(tools?.[1].init).toEqual({
+        scheme: 'https',
+        host: 'api.example.com',
+        port: 8443,
+        path: '/orders/{id}',
+        method: 'GET',
+      });
+      expect(tools?.[2].init).toEqual({
+        serverParams: {
+          type: 'StdioServerParams',
+          command: 'npx',
+          args: ['mcp-files'],
+        },
+        toolName: 'read_file',
+      });
+    });
+
+    it('should map memory to a model context', () => {
+      expect(
+        mapAgentToAutoGen({
+          ...writer,
+          memory: { type: 'buffer', maxMessages: 10 },
+        }).modelContext
+      ).toEqual({ type: 'buffered', bufferSize: 10 });
+      expect(
+        mapAgentToAutoGen({ ...writer, memory: { type: 'summary' } })
+          .modelContext
+      ).toEqual({ type: 'unbounded' });
+    });
+  });
+
+  describe('mapAgentToAutoGenWithReport', () => {
+    it('should report defaulted, dropped and approximated fields', () => {
+      const { output, report } = mapAgentToAutoGenWithReport({
+        ...writer,
+        id: 'lead-writer',
+        parameters: { frequencyPenalty: 0.5 },
+        memory: { type: 'vector', persistent: true },
+      });
+
+      expect(output.name).toBe('lead_writer');
+      expect(output.description).toBe('Writer');
+      expect(output.modelClient.frequencyPenalty).toBeUndefined();
+      expect(report.adapter).toBe('autogen');
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ path: ['id'], kind: 'approximated' }),
+          expect.objectContaining({
+            path: ['parameters', 'temperature'],
+            kind: 'defaulted',
+          }),
+          expect.objectContaining({
+            path: ['parameters', 'frequencyPenalty'],
+            kind: 'dropped',
+            severity: 'warning',
+          }),
+          expect.objectContaining({
+            path: ['memory', 'persistent'],
+            kind: 'dropped',
+          }),
+          expect.objectContaining({
+            path: ['memory', 'type'],
+            kind: 'approximated',
+            severity: 'warning',
+          }),
+        ])
+      );
+    });
+
+    it('should report placeholders AutoGen keeps as written', () => {
+      const { output, report } = mapAgentToAutoGenWithReport({
+        ...writer,
+        systemPrompt: 'You write for {{ tier }} customers',
+      });
+
+      expect(output.systemMessage).toBe('You write for {{ tier }} customers');
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          path: ['systemPrompt'],
+          kind: 'approximated',
+          severity: 'warning',
+        })
+      );
+    });
+  });
+
+  describe('mapWorkflowToAutoGen', () => {
+    it('should export a chain as a round-robin team', () => {
+      const team = mapWorkflowToAutoGen(pipeline);
+
+      expect(team.name).toBe('Article Pipeline');
+      expect(team.type).toBe('round-robin');
+      expect(team.participants.map((p) => p.name)).toEqual([
+        'research',
+        'write',
+      ]);
+      expect(team.termination).toEqual({
+        type: 'or',
+        conditions: [
+          { type: 'source-match', sources: ['write'] },
+          { type: 'max-messages', maxMessages: 20 },
+        ],
+      });
+      expect(team.graph).toBeUndefined();
+    });
+
+    it('should order round-robin speakers along the connections', () => {
+      const team = mapWorkflowToAutoGen({
+        ...pipeline,
+        nodes: [...pipeline.nodes].reverse(),
+      });
+
+      expect(team.participants.map((p) => p.name)).toEqual([
+        'research',
+        'write',
+      ]);
+    });
+
+    it('should export branching workflows as a GraphFlow', () => {
+      const team = mapWorkflowToAutoGen(review, { maxMessages: 12 });
+
+      expect(team.type).toBe('graph-flow');
+      expect(team.graph).toEqual({
+        edges: [
+          { source: 'write', target: 'critic' },
+          {
+            source: 'critic',
+            target: 'write',
+            condition:
+              'lambda message: json.loads(message.to_text()).get("approved") == False',
+          },
+        ],
+        defaultStartNode: 'write',
+      });
+      expect(team.termination).toEqual({
+        type: 'max-messages',
+        maxMessages: 12,
+      });
+    });
+
+    it('should export selector teams with allowed transitions', () => {
+      const { output, report } = mapWorkflowToAutoGenWithReport(review, {
+        teamType: 'selector',
+      });
+
+      expect(output.allowedTransitions).toEqual({
+        write: ['critic'],
+        critic: ['write'],
+      });
+      expect(output.selectorModelClient).toEqual(
+        output.participants[0].modelClient
+      );
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          path: ['connections', '2', 'condition'],
+          kind: 'approximated',
+        })
+      );
+    });
+
+    it('should report nodes and fields AutoGen cannot represent', () => {
+      const { report } = mapWorkflowToAutoGenWithReport({
+        ...review,
+        nodes: [
+          ...review.nodes,
+          { id: 'missing', type: 'agent', agentId: 'ghost' },
+        ],
+      });
+
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            path: ['nodes', '2'],
+            kind: 'dropped',
+          }),
+          expect.objectContaining({
+            path: ['nodes', '4'],
+            kind: 'dropped',
+            severity: 'error',
+          }),
+          expect.objectContaining({
+            path: ['connections', '3'],
+            kind: 'approximated',
+            severity: 'warning',
+          }),
+          expect.objectContaining({ path: ['variables'], kind: 'dropped' }),
+        ])
+      );
+    });
+
+    it('should fill prompt placeholders with variable defaults', () => {
+      const { output, report } = mapWorkflowToAutoGenWithReport({
+        ...pipeline,
+        variables: [
+          { name: 'tier', type: 'string', defaultValue: 'gold' },
+          { name: 'customer', type: 'string', required: true },
+        ],
+        nodes: [
+          { id: 'start', type: 'trigger' },
+          {
+            id: 'research',
+            type: 'agent',
+            agent: {
+              ...researcher,
+              systemPrompt: 'You support {{ tier }} customers',
+            },
+          },
+          {
+            id: 'write',
+            type: 'agent',
+            agent: { ...writer, systemPrompt: 'You write to {{ customer }}' },
+          },
+          { id: 'done', type: 'end' },
+        ],
+      });
+
+      expect(output.participants.map((p) => p.systemMessage)).toEqual([
+        'You support gold customers',
+        'You write to {{ customer }}',
+      ]);
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            path: ['nodes', '1', 'agent', 'systemPrompt'],
+            kind: 'approximated',
+            severity: 'info',
+          }),
+          expect.objectContaining({
+            path: ['nodes', '2', 'agent', 'systemPrompt'],
+            kind: 'approximated',
+            severity: 'warning',
+          }),
+        ])
+      );
+    });
+  });
+
+  describe('compileConditionToAutoGen', () => {
+    it('should read message text and JSON content', () => {
+      expect(compileConditionToAutoGen('output contains "APPROVE"')).toBe(
+        'lambda message: "APPROVE" in (message.to_text() or ())'
+      );
+      expect(compileConditionToAutoGen('output.score > 0.5')).toBe(
+        'lambda message: isinstance(json.loads(message.to_text()).get("score"), (int, float)) and json.loads(message.to_text()).get("score") > 0.5'
+      );
+    });
+
+    it('should reject outputs of other nodes', () => {
+      expect(() =>
+        compileConditionToAutoGen('outputs.research == "x"')
+      ).toThrow('not available to AutoGen edge conditions');
+    });
+  });
+
+  describe('mapAutoGenAgentToAgent', () => {
+    it('should convert an AssistantAgent back to an agent', () => {
+      expect(
+        mapAutoGenAgentToAgent({
+          name: 'Support Bot',
+          description: 'Answers customers',
+          systemMessage: 'Be helpful',
+          modelClient: {
+            provider: 'OpenAIChatCompletionClient',
+            model: 'mistral-large-latest',
+            baseUrl: 'https://api.mistral.ai/v1',
+            stop: ['END'],
+          },
+          modelContext: { type: 'buffered', bufferSize: 5 },
+          reflectOnToolUse: true,
+        })
+      ).toEqual({
+        id: 'support-bot',
+        name: 'Support Bot',
+        description: 'Answers customers',
+        provider: 'mistral',
+        model: 'mistral-large-latest',
+        systemPrompt: 'Be helpful',
+        parameters: { stopSequences: ['END'] },
+        memory: { type: 'buffer', maxMessages: 5 },
+        metadata: { autoGen: { reflectOnToolUse: true } },
+      });
+    });
+
+    it('should round-trip agents through the export', () => {
+      const agent: AgentConfig = {
+        ...writer,
+        tools: [
+          {
+            id: 'orders',
+            name: 'orders',
+            description: 'Fetch orders',
+            kind: 'http',
+            method: 'POST',
+            url: 'https://api.example.com/orders',
+          },
+        ],
+      };
+
+      const imported = mapAutoGenAgentToAgent(mapAgentToAutoGen(agent));
+
+      expect(imported.provider).toBe('anthropic');
+      expect(imported.tools).toEqual(agent.tools);
+    });
+  });
+
+  describe('mapAutoGenTeamToWorkflow', () => {
+    it('should import a round-robin team as a chain', () => {
+      const { workflow, issues } = mapAutoGenTeamToWorkflow(
+        mapWorkflowToAutoGen(pipeline)
+      );
+
+      expect(issues).toEqual([]);
+      expect(workflow.id).toBe('article-pipeline');
+      expect(workflow.nodes.map((n) => `${n.type}:${n.id}`)).toEqual([
+        'agent:research',
+        'agent:write',
+        'end:end',
+      ]);
+      expect(
+        workflow.connections.map((c) => `${c.sourceId}->${c.targetId}`)
+      ).toEqual(['research->write', 'write->end']);
+      expect(workflow.metadata?.autoGen).toMatchObject({
+        teamType: 'round-robin',
+      });
+    });
+
+    it('should import graph edges and report what it cannot map', () => {
+      const team: AutoGenTeam = {
+        name: 'Review',
+        type: 'graph-flow',
+        participants: [
+          mapAgentToAutoGen(writer),
+          mapAgentToAutoGen({ ...researcher, id: 'critic' }),
+        ],
+        graph: {
+          edges: [
+            { source: 'writer', target: 'critic' },
+            { source: 'critic', target: 'writer', condition: 'REVISE' },
+            {
+              source: 'critic',
+              target: 'writer',
+              condition: 'lambda message: len(message.to_text()) > 10',
+            },
+            { source: 'critic', target: 'editor' },
+          ],
+        },
+        termination: { type: 'text-mention', text: 'APPROVE' },
+      };
+
+      const { workflow, issues } = mapAutoGenTeamToWorkflow(team, {
+        workflowId: 'imported',
+      });
+
+      expect(workflow.id).toBe('imported');
+      expect(workflow.connections[1].condition).toBe(
+        'output contains "REVISE"'
+      );
+      expect(workflow.connections[2].condition).toBeUndefined();
+      expect(issues.map((i) => i.path.join('.'))).toEqual([
+        'graph.edges.2.condition',
+        'graph.edges.3.target',
+        'termination',
+      ]);
+    });
+  });
+});
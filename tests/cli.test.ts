@@ -0,0 +1,293 @@
+/**
+ * Tests for the ai-agent-schema command-line tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  mkdtempSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from '../src/cli/run';
+import { expandFilePatterns, globToRegExp } from '../src/cli/files';
+import type { CliIO } from '../src/types/cli';
+
+const agent = {
+  id: 'researcher',
+  name: 'Researcher',
+  provider: 'openai',
+  model: 'gpt-4',
+};
+
+const workflow = {
+  id: 'wf',
+  name: 'Workflow',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'research', type: 'agent', agent },
+    { id: 'done', type: 'end' },
+    { id: 'orphan', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'research' },
+    { id: 'c2', sourceId: 'research', targetId: 'done' },
+  ],
+};
+
+describe('runCli', () => {
+  let cwd: string;
+  let io: CliIO & { out: string; err: string };
+
+  const write = (file: string, content: unknown) => {
+    writeFileSync(join(cwd, file), JSON.stringify(content, null, 2));
+  };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'ai-agent-schema-cli-'));
+    mkdirSync(join(cwd, 'configs', 'nested'), { recursive: true });
+    write('configs/agent.json', agent);
+    write('configs/nested/workflow.json', workflow);
+    io = {
+      cwd,
+      out: '',
+      err: '',
+      stdout: (text) => (io.out += text),
+      stderr: (text) => (io.err += text),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should validate files and globs', () => {
+    expect(runCli(['validate', 'configs/**/*.json'], io)).toBe(0);
+    expect(io.out).toBe(
+      [
+        '✓ configs/agent.json (agent)',
+        '✓ configs/nested/workflow.json (workflow)',
+        '2 files checked, 0 failed',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should print issue paths and exit 1 for invalid files', () => {
+    write('bad.json', { ...agent, provider: 'unknown', model: '' });
+    writeFileSync(join(cwd, 'broken.json'), '{');
+
+    expect(runCli(['validate', 'bad.json', 'broken.json'], io)).toBe(1);
+    expect(io.out).toContain(
+      '✗ bad.json (agent)\n    provider (line 4, column 3): '
+    );
+    expect(io.out).toContain('    model (line 5, column 3): Model is required');
+    expect(io.out).toContain('✗ broken.json\n    (root): Invalid JSON');
+    expect(io.out).toContain('2 files checked, 2 failed');
+  });
+
+  it('should validate YAML and JSON5 files', () => {
+    writeFileSync(
+      join(cwd, 'agent.yaml'),
+      'id: writer\nname: Writer\nprovider: openai\nmodel: gpt-4\n'
+    );
+    writeFileSync(
+      join(cwd, 'agent.json5'),
+      "{\n  // no model\n  id: 'writer', name: 'Writer', provider: 'openai',\n}\n"
+    );
+
+    expect(runCli(['validate', 'agent.yaml', 'agent.json5'], io)).toBe(1);
+    expect(io.out).toContain('✓ agent.yaml (agent)');
+    expect(io.out).toContain(
+      '✗ agent.json5 (agent)\n    model (line 1, column 1): Required'
+    );
+  });
+
+  it('should print JSON reports', () => {
+    write('bad.json', { ...workflow, nodes: [], connections: [] });
+
+    expect(
+      runCli(
+        ['validate', 'bad.json', '--format', 'json', '--kind', 'workflow'],
+        io
+      )
+    ).toBe(1);
+    expect(JSON.parse(io.out)).toEqual([
+      {
+        file: 'bad.json',
+        kind: 'workflow',
+        valid: false,
+        issues: [
+          {
+            path: ['nodes'],
+            message: 'At least one node is required',
+            line: 4,
+            column: 3,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should convert a file to stdout', () => {
+    expect(
+      runCli(['convert', 'configs/nested/workflow.json', '--to', 'crewai'], io)
+    ).toBe(0);
+    expect(JSON.parse(io.out).agents[0].role).toBeDefined();
+  });
+
+  it('should convert several files to an output directory', () => {
+    expect(
+      runCli(
+        [
+          'convert',
+          'configs/**/*.json',
+          '--to',
+          'langgraph',
+          '--out-dir',
+          'out',
+        ],
+        io
+      )
+    ).toBe(0);
+    expect(io.out).toContain(
+      '✓ configs/agent.json -> out/configs/agent.langgraph.json'
+    );
+
+    const graph = JSON.parse(
+      readFileSync(
+        join(cwd, 'out', 'configs', 'nested', 'workflow.langgraph.json'),
+        'utf-8'
+      )
+    );
+    expect(graph.entryPoint).toBeDefined();
+  });
+
+  it('should keep inputs that share a base name apart in the output directory', () => {
+    mkdirSync(join(cwd, 'a'));
+    mkdirSync(join(cwd, 'b'));
+    write('a/wf.json', workflow);
+    write('b/wf.json', { ...workflow, name: 'Other' });
+    write('b/wf.json5', workflow);
+
+    expect(
+      runCli(['convert', '{a,b}/wf.*', '--to', 'n8n', '--out-dir', 'out'], io)
+    ).toBe(1);
+    expect(io.out).toContain('✓ a/wf.json -> out/a/wf.n8n.json');
+    expect(io.out).toContain('✓ b/wf.json -> out/b/wf.n8n.json');
+    expect(io.err).toContain(
+      'out/b/wf.n8n.json is already written for b/wf.json'
+    );
+    expect(
+      JSON.parse(readFileSync(join(cwd, 'out', 'b', 'wf.n8n.json'), 'utf-8'))
+        .name
+    ).toBe('Other');
+  });
+
+  it('should print JSON schemas', () => {
+    expect(runCli(['schema', 'workflow'], io)).toBe(0);
+    expect(JSON.parse(io.out).definitions.WorkflowConfig).toBeDefined();
+  });
+
+  it('should report workflow graphs', () => {
+    expect(runCli(['graph', 'configs/nested/workflow.json'], io)).toBe(0);
+    expect(io.out).toBe(
+      [
+        '✓ configs/nested/workflow.json',
+        '    cycles: none',
+        '    order: start -> orphan -> research -> done',
+        '    disconnected: orphan',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should fail graphs with cycles', () => {
+    write('cycle.json', {
+      ...workflow,
+      connections: [
+        ...workflow.connections,
+        { id: 'c3', sourceId: 'done', targetId: 'research' },
+      ],
+    });
+
+    expect(runCli(['graph', 'cycle.json', '--format', 'json'], io)).toBe(1);
+    expect(JSON.parse(io.out)[0]).toMatchObject({
+      valid: false,
+      hasCycles: true,
+      order: null,
+    });
+  });
+
+  it('should lint workflows with rule overrides', () => {
+    expect(runCli(['lint', 'configs/nested/workflow.json'], io)).toBe(0);
+    expect(io.out).toBe(
+      [
+        '✓ configs/nested/workflow.json (workflow)',
+        '    warn: nodes.3 (line 23, column 5): Node "orphan" is not reachable from the trigger [unreachable-node]',
+        '1 file linted, 0 errors, 1 warning',
+        '',
+      ].join('\n')
+    );
+
+    io.out = '';
+    expect(
+      runCli(
+        [
+          'lint',
+          'configs/nested/workflow.json',
+          '--rule',
+          'unreachable-node=error',
+          '--format',
+          'json',
+        ],
+        io
+      )
+    ).toBe(1);
+    expect(JSON.parse(io.out)[0].diagnostics[0]).toMatchObject({
+      rule: 'unreachable-node',
+      severity: 'error',
+      line: 23,
+    });
+    expect(
+      runCli(['lint', 'configs/agent.json', '--rule', 'nope=off'], io)
+    ).toBe(2);
+  });
+
+  it('should exit 2 on usage errors', () => {
+    expect(runCli([], io)).toBe(2);
+    expect(runCli(['deploy', 'a.json'], io)).toBe(2);
+    expect(runCli(['validate', 'missing/*.json'], io)).toBe(2);
+    expect(
+      runCli(['convert', 'configs/agent.json', '--to', 'toString'], io)
+    ).toBe(2);
+    expect(runCli(['convert', 'configs/**/*.json', '--to', 'n8n'], io)).toBe(2);
+    expect(runCli(['validate', '--unknown'], io)).toBe(2);
+    expect(io.err).toContain('error: No files match: missing/*.json');
+    expect(io.err).toContain('converting several files requires --out-dir');
+  });
+});
+
+describe('globToRegExp', () => {
+  it('should match stars, globstars, classes and braces', () => {
+    expect(globToRegExp('*.json').test('a.json')).toBe(true);
+    expect(globToRegExp('*.json').test('dir/a.json')).toBe(false);
+    expect(globToRegExp('a/**/*.json').test('a/b.json')).toBe(true);
+    expect(globToRegExp('a/**/*.json').test('a/b/c/d.json')).toBe(true);
+    expect(globToRegExp('agent-[12].{json,yaml}').test('agent-2.yaml')).toBe(
+      true
+    );
+    expect(globToRegExp('a.json').test('axjson')).toBe(false);
+  });
+});
+
+describe('expandFilePatterns', () => {
+  it('should reject missing files', () => {
+    expect(() => expandFilePatterns(['nope.json'], tmpdir())).toThrow(
+      'File not found: nope.json'
+    );
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Tests for the condition expression language
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCondition, expandRouteLabel } from '../src/conditions/parser';
+import {
+  checkCondition,
+  checkWorkflowConditions,
+} from '../src/conditions/type-checker';
+import { evaluateCondition } from '../src/conditions/evaluator';
+import {
+  compileConditionToPython,
+  pythonDictPath,
+} from '../src/conditions/python';
+import {
+  compileConditionToTypeScript,
+  typeScriptPropertyPath,
+} from '../src/conditions/typescript';
+import type { WorkflowConfig, WorkflowVariable } from '../src/types/workflow';
+
+describe('parseCondition', () => {
+  it('should parse with precedence: ! over && over ||', () => {
+    expect(parseCondition("!done && score > 0.5 || tier == 'gold'")).toEqual({
+      type: 'logical',
+      operator: '||',
+      left: {
+        type: 'logical',
+        operator: '&&',
+        left: { type: 'not', operand: { type: 'path', segments: ['done'] } },
+        right: {
+          type: 'comparison',
+          operator: '>',
+          left: { type: 'path', segments: ['score'] },
+          right: { type: 'literal', value: 0.5 },
+        },
+      },
+      right: {
+        type: 'comparison',
+        operator: '==',
+        left: { type: 'path', segments: ['tier'] },
+        right: { type: 'literal', value: 'gold' },
+      },
+    });
+  });
+
+  it('should parse literals, paths and contains', () => {
+    expect(parseCondition('outputs.review-1.tags contains "it\\"s"')).toEqual({
+      type: 'comparison',
+      operator: 'contains',
+      left: { type: 'path', segments: ['outputs', 'review-1', 'tags'] },
+      right: { type: 'literal', value: 'it"s' },
+    });
+    expect(parseCondition('count != -1')).toMatchObject({
+      right: { type: 'literal', value: -1 },
+    });
+    expect(parseCondition('(null)')).toEqual({ type: 'literal', value: null });
+  });
+
+  it('should reject invalid and unsafe expressions', () => {
+    expect(() => parseCondition('score >')).toThrow(
+      'Invalid condition "score >": expected a value at end of expression'
+    );
+    expect(() => parseCondition('a b')).toThrow('unexpected "b" at position 2');
+    expect(() => parseCondition("name == 'open")).toThrow(
+      'unterminated string at position 8'
+    );
+    expect(() => parseCondition('user.__proto__.admin')).toThrow(
+      'property "__proto__" is not allowed'
+    );
+    expect(() => parseCondition('run()')).toThrow('unexpected "("');
+    expect(() => parseCondition('a + b')).toThrow('unexpected "+"');
+    expect(() => parseCondition('!'.repeat(40) + 'a')).toThrow(
+      'nesting deeper than 32 levels'
+    );
+  });
+});
+
+describe('expandRouteLabel', () => {
+  it('should expand lone identifiers that are not variables', () => {
+    expect(expandRouteLabel(parseCondition('approved'), () => false)).toEqual(
+      parseCondition("output == 'approved'")
+    );
+    expect(expandRouteLabel(parseCondition('approved'), () => true)).toEqual(
+      parseCondition('approved')
+    );
+    expect(expandRouteLabel(parseCondition('output'), () => false)).toEqual(
+      parseCondition('output')
+    );
+  });
+});
+
+describe('checkCondition', () => {
+  const variables: WorkflowVariable[] = [
+    { name: 'score', type: 'number' },
+    { name: 'status', type: 'string' },
+    { name: 'tags', type: 'array' },
+    { name: 'user', type: 'object' },
+  ];
+
+  it('should accept well-typed conditions', () => {
+    expect(
+      checkCondition(
+        "score >= 0.8 && tags contains 'vip' && user.tier == 'gold' && tags.length > 0 && output != null",
+        variables
+      )
+    ).toEqual({ valid: true, type: 'boolean', errors: [] });
+    expect(checkCondition('score', variables)).toEqual({
+      valid: true,
+      type: 'number',
+      errors: [],
+    });
+  });
+
+  it('should report type errors', () => {
+    expect(checkCondition("score > 'high'", variables).errors).toEqual([
+      'Cannot compare number with string using ">"',
+    ]);
+    expect(checkCondition('status == 3', variables).errors).toEqual([
+      'Cannot compare string with number using "=="',
+    ]);
+    expect(checkCondition('score contains 1', variables).errors).toEqual([
+      '"contains" requires a string or array, got number',
+    ]);
+    expect(checkCondition('status.length > missing', variables).errors).toEqual(
+      ['Unknown variable "missing"']
+    );
+    expect(checkCondition('score.value', variables).errors).toEqual([
+      'Cannot read "value" of number variable "score"',
+    ]);
+  });
+
+  it('should report syntax errors and allow route labels', () => {
+    expect(checkCondition('score >', variables)).toMatchObject({
+      valid: false,
+      type: 'unknown',
+    });
+    expect(checkCondition('approved', variables).valid).toBe(true);
+  });
+});
+
+describe('checkWorkflowConditions', () => {
+  it('should locate issues by connection', () => {
+    const workflow: WorkflowConfig = {
+      id: 'wf',
+      name: 'Workflow',
+      nodes: [
+        { id: 'a', type: 'trigger' },
+        { id: 'b', type: 'end' },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'a', targetId: 'b', condition: 'count > 1' },
+        { id: 'c2', sourceId: 'a', targetId: 'b', condition: "count == '1'" },
+      ],
+      variables: [{ name: 'count', type: 'number' }],
+    };
+
+    expect(checkWorkflowConditions(workflow)).toEqual([
+      {
+        path: ['connections', '1', 'condition'],
+        message: 'Cannot compare number with string using "=="',
+      },
+    ]);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const scope = {
+    variables: { score: 0.9, tags: ['vip'], user: { tier: 'gold' }, empty: '' },
+    output: 'approved',
+    outputs: { review: { ok: true } },
+  };
+
+  it('should evaluate against variables and outputs', () => {
+    expect(evaluateCondition("score > 0.8 && user.tier == 'gold'", scope)).toBe(
+      true
+    );
+    expect(evaluateCondition("tags contains 'vip'", scope)).toBe(true);
+    expect(evaluateCondition('outputs.review.ok && !empty', scope)).toBe(true);
+    expect(evaluateCondition('tags.length == 1', scope)).toBe(true);
+    expect(evaluateCondition('missing.value == null', scope)).toBe(true);
+    expect(evaluateCondition("score > 'high'", scope)).toBe(false);
+  });
+
+  it('should treat lone unknown identifiers as route labels', () => {
+    expect(evaluateCondition('approved', scope)).toBe(true);
+    expect(evaluateCondition('rejected', scope)).toBe(false);
+    expect(evaluateCondition('empty', scope)).toBe(false);
+  });
+
+  it('should decide route labels from declared variables when given', () => {
+    const unset = { output: 'flag', variables: {} };
+    expect(evaluateCondition('flag', unset)).toBe(true);
+    expect(
+      evaluateCondition('flag', { ...unset, declaredVariables: ['flag'] })
+    ).toBe(false);
+  });
+
+  it('should not expose prototype properties', () => {
+    expect(evaluateCondition('user.toString', scope)).toBe(false);
+    expect(evaluateCondition('user.hasOwnProperty', scope)).toBe(false);
+  });
+});
+
+describe('compileConditionToPython', () => {
+  const compile = (condition: string) =>
+    compileConditionToPython(parseCondition(condition), (segments) =>
+      pythonDictPath('state', segments)
+    );
+
+  it('should guard ordering comparisons against missing values', () => {
+    expect(compile('score > 0.8')).toBe(
+      'isinstance(state.get("score"), (int, float)) and state.get("score") > 0.8'
+    );
+    expect(compile("'b' <= name")).toBe(
+      'isinstance(state.get("name"), str) and "b" <= state.get("name")'
+    );
+    expect(compile('low < high')).toBe(
+      '(isinstance(state.get("low"), (int, float)) and isinstance(state.get("high"), (int, float)) or isinstance(state.get("low"), str) and isinstance(state.get("high"), str)) and state.get("low") < state.get("high")'
+    );
+    expect(compile('status == "ok"')).toBe('state.get("status") == "ok"');
+  });
+});
+
+describe('compileConditionToTypeScript', () => {
+  const compile = (condition: string) =>
+    compileConditionToTypeScript(parseCondition(condition), (segments) =>
+      typeScriptPropertyPath('values', segments)
+    );
+
+  it('should guard ordering comparisons like the evaluator', () => {
+    expect(compile('score > 3')).toBe(
+      'typeof values.score === "number" && values.score > 3'
+    );
+    expect(compile("'b' <= name")).toBe(
+      'typeof values.name === "string" && "b" <= values.name'
+    );
+    expect(compile('low < high')).toBe(
+      '(typeof values.low === "number" && typeof values.high === "number" || typeof values.low === "string" && typeof values.high === "string") && values.low < values.high'
+    );
+    expect(compile('status == "ok"')).toBe('values.status === "ok"');
+
+    const route = new Function('values', `return ${compile('score > 3')}`);
+    const values = { score: '10' };
+    expect(route(values)).toBe(false);
+    expect(
+      evaluateCondition('score > 3', { output: undefined, variables: values })
+    ).toBe(false);
+  });
+});
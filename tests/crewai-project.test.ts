@@ -0,0 +1,383 @@
+/**
+ * Tests for CrewAI project generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from 'yaml';
+import {
+  generateCrewAIProject,
+  generateCrewAIProjectWithReport,
+} from '../src/codegen/crewai-project';
+import { toPydanticModel, toPythonClassName } from '../src/codegen/python';
+import { mapCrewToWorkflow } from '../src/adapters/crewai.adapter';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const agent = (id: string, extra: Partial<AgentConfig> = {}): AgentConfig => ({
+  id,
+  name: `${id[0].toUpperCase()}${id.slice(1)}`,
+  provider: 'openai',
+  model: 'gpt-4o',
+  ...extra,
+});
+
+const workflow: WorkflowConfig = {
+  id: 'research-crew',
+  name: 'Research Crew',
+  variables: [{ name: 'topic', type: 'string', defaultValue: 'AI agents' }],
+  nodes: [
+    {
+      id: 'researcher',
+      type: 'agent',
+      agent: agent('researcher', {
+        systemPrompt: 'Research {{ topic }}',
+        tools: [
+          {
+            id: 'search',
+            name: 'web-search',
+            description: 'Search the web',
+            parameters: {
+              type: 'object',
+              properties: { query: { type: 'string' } },
+              required: ['query'],
+            },
+          },
+        ],
+      }),
+    },
+    {
+      id: 'writer',
+      type: 'agent',
+      agent: agent('writer', {
+        outputSchema: {
+          type: 'object',
+          properties: { title: { type: 'string' } },
+          required: ['title'],
+        },
+      }),
+    },
+  ],
+  connections: [{ id: 'c1', sourceId: 'researcher', targetId: 'writer' }],
+};
+
+describe('generateCrewAIProject', () => {
+  it('should write the crewai create crew layout', () => {
+    expect(Object.keys(generateCrewAIProject(workflow))).toEqual([
+      'pyproject.toml',
+      'src/research_crew/__init__.py',
+      'src/research_crew/config/agents.yaml',
+      'src/research_crew/config/tasks.yaml',
+      'src/research_crew/crew.py',
+      'src/research_crew/main.py',
+      'src/research_crew/tools/__init__.py',
+      'src/research_crew/tools/custom_tool.py',
+    ]);
+
+    const files = generateCrewAIProject(workflow, { packageName: 'crew_app' });
+    expect(files['pyproject.toml']).toContain('run_crew = "crew_app.main:run"');
+    expect(files['src/crew_app/main.py']).toBe(
+      [
+        'from crew_app.crew import ResearchCrew',
+        '',
+        '',
+        'def run():',
+        '    inputs = {"topic": "AI agents"}',
+        '    return ResearchCrew().crew().kickoff(inputs=inputs)',
+        '',
+        '',
+        'if __name__ == "__main__":',
+        '    print(run().raw)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should give variables without a default an input of their type', () => {
+    const mainPy = generateCrewAIProject({
+      ...workflow,
+      variables: [
+        { name: 'topic', type: 'string' },
+        { name: 'limit', type: 'number' },
+        { name: 'draft', type: 'boolean' },
+        { name: 'tags', type: 'array' },
+        { name: 'meta', type: 'object' },
+      ],
+    })['src/research_crew/main.py'];
+
+    expect(mainPy).toContain(
+      '    inputs = {"topic": "", "limit": 0, "draft": False, "tags": [], "meta": {}}'
+    );
+  });
+
+  it('should key agents and tasks by node ID and wire task context', () => {
+    const files = generateCrewAIProject(workflow, { process: 'sequential' });
+
+    expect(parse(files['src/research_crew/config/agents.yaml'])).toEqual({
+      researcher: {
+        role: 'Researcher',
+        goal: 'Research {topic}',
+        backstory: 'Research {topic}',
+        verbose: false,
+        allow_delegation: true,
+        max_iter: 15,
+        cache: true,
+      },
+      writer: expect.objectContaining({ role: 'Writer' }),
+    });
+    expect(parse(files['src/research_crew/config/tasks.yaml'])).toEqual({
+      researcher_task: {
+        description: 'Research {topic}',
+        expected_output: 'Results from Researcher',
+        agent: 'researcher',
+      },
+      writer_task: {
+        description: 'Execute task 2',
+        expected_output: 'A JSON object matching the output schema',
+        agent: 'writer',
+        context: ['researcher_task'],
+      },
+    });
+  });
+
+  it('should take task context from agents before condition nodes', () => {
+    const routed: WorkflowConfig = {
+      id: 'support',
+      name: 'Support',
+      nodes: [
+        { id: 'classify', type: 'agent', agent: agent('classify') },
+        { id: 'route', type: 'condition' },
+        { id: 'billing', type: 'agent', agent: agent('billing') },
+        { id: 'tech', type: 'agent', agent: agent('tech') },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'classify', targetId: 'route' },
+        {
+          id: 'c2',
+          sourceId: 'route',
+          targetId: 'billing',
+          condition: 'billing',
+        },
+        { id: 'c3', sourceId: 'route', targetId: 'tech', condition: 'tech' },
+      ],
+    };
+    const tasks = parse(
+      generateCrewAIProject(routed)['src/support/config/tasks.yaml']
+    ) as Record<string, Record<string, unknown>>;
+
+    expect(tasks.classify_task.context).toBeUndefined();
+    expect(tasks.billing_task.context).toEqual(['classify_task']);
+    expect(tasks.tech_task.context).toEqual(['classify_task']);
+  });
+
+  it('should not mark the tasks of hierarchical crews async', () => {
+    const tasks = parse(
+      generateCrewAIProject(workflow, { process: 'hierarchical' })[
+        'src/research_crew/config/tasks.yaml'
+      ]
+    ) as Record<string, Record<string, unknown>>;
+
+    Object.values(tasks).forEach((task) =>
+      expect(task).not.toHaveProperty('async_execution')
+    );
+  });
+
+  it('should generate the crew class', () => {
+    const crewPy = generateCrewAIProject(workflow, { process: 'sequential' })[
+      'src/research_crew/crew.py'
+    ];
+
+    expect(crewPy).toContain(
+      [
+        'from crewai import Agent, Crew, LLM, Process, Task',
+        'from crewai.project import CrewBase, agent, crew, task',
+        'from pydantic import BaseModel',
+        '',
+        'from .tools.custom_tool import WebSearchTool',
+        '',
+        '',
+        'class WriterOutput(BaseModel):',
+        '    title: str',
+        '',
+        '',
+        '@CrewBase',
+        'class ResearchCrew:',
+      ].join('\n')
+    );
+    expect(crewPy).toContain(
+      [
+        '    @agent',
+        '    def researcher(self) -> Agent:',
+        '        return Agent(',
+        '            config=self.agents_config["researcher"],',
+        '            llm=LLM(model="openai/gpt-4o", temperature=0.7, max_tokens=1000),',
+        '            tools=[WebSearchTool()],',
+        '        )',
+      ].join('\n')
+    );
+    expect(crewPy).toContain(
+      [
+        '    @task',
+        '    def writer_task(self) -> Task:',
+        '        return Task(',
+        '            config=self.tasks_config["writer_task"],',
+        '            output_json=WriterOutput,',
+        '        )',
+      ].join('\n')
+    );
+    expect(crewPy).toContain('            process=Process.sequential,\n');
+    expect(crewPy).not.toContain('manager_llm');
+  });
+
+  it('should give hierarchical crews a manager LLM', () => {
+    const crewPy = generateCrewAIProject({
+      ...workflow,
+      nodes: [
+        {
+          id: 'manager',
+          type: 'agent',
+          agent: agent('manager', {
+            provider: 'anthropic',
+            model: 'claude-3-5-sonnet',
+          }),
+          metadata: { crewAIManager: true },
+        },
+        ...workflow.nodes,
+      ],
+      connections: [
+        { id: 'm1', sourceId: 'manager', targetId: 'researcher' },
+        { id: 'm2', sourceId: 'manager', targetId: 'writer' },
+      ],
+    })['src/research_crew/crew.py'];
+
+    expect(crewPy).toContain('            process=Process.hierarchical,\n');
+    expect(crewPy).toContain(
+      '            manager_llm=LLM(model="anthropic/claude-3-5-sonnet", temperature=0.7, max_tokens=1000),\n'
+    );
+    expect(crewPy).not.toContain('def manager(');
+  });
+
+  it('should generate conditional tasks and placeholder tools', () => {
+    const { output: files, report } = generateCrewAIProjectWithReport(
+      {
+        ...workflow,
+        variables: [{ name: 'approved', type: 'boolean' }],
+        connections: [
+          {
+            id: 'c1',
+            sourceId: 'researcher',
+            targetId: 'writer',
+            condition: 'approved == true',
+          },
+        ],
+      },
+      { process: 'consensual' }
+    );
+
+    expect(files['src/research_crew/crew.py']).toContain(
+      [
+        '    def writer_task(self) -> ConditionalTask:',
+        '        return ConditionalTask(',
+        '            config=self.tasks_config["writer_task"],',
+        '            output_json=WriterOutput,',
+        '            condition=lambda output: (output.json_dict or {}).get("approved") == True,',
+        '        )',
+      ].join('\n')
+    );
+    expect(files['src/research_crew/tools/custom_tool.py']).toBe(
+      [
+        'from crewai.tools import BaseTool',
+        'from pydantic import BaseModel',
+        '',
+        '',
+        'class WebSearchToolInput(BaseModel):',
+        '    query: str',
+        '',
+        '',
+        'class WebSearchTool(BaseTool):',
+        '    name: str = "web-search"',
+        '    description: str = "Search the web"',
+        '    args_schema: type[BaseModel] = WebSearchToolInput',
+        '',
+        '    def _run(self, **kwargs) -> str:',
+        '        raise NotImplementedError("Implement the \\"web-search\\" tool")',
+        '',
+      ].join('\n')
+    );
+    expect(report.issues).toContainEqual({
+      path: ['process'],
+      kind: 'approximated',
+      severity: 'warning',
+      message: 'CrewAI has no consensual process; the crew runs sequentially',
+    });
+  });
+
+  it('should import task context that references task IDs', () => {
+    const { workflow: imported, issues } = mapCrewToWorkflow({
+      name: 'Crew',
+      agents: [
+        {
+          role: 'Researcher',
+          goal: 'Research',
+          backstory: 'Researcher',
+          llm: { model: 'openai/gpt-4o' },
+        },
+        {
+          role: 'Writer',
+          goal: 'Write',
+          backstory: 'Writer',
+          llm: { model: 'openai/gpt-4o' },
+        },
+      ],
+      tasks: [
+        {
+          id: 'research',
+          description: 'Research',
+          expectedOutput: 'Notes',
+          agent: 'Researcher',
+        },
+        {
+          id: 'write',
+          description: 'Write',
+          expectedOutput: 'Post',
+          agent: 'Writer',
+          context: ['research'],
+        },
+      ],
+      process: 'sequential',
+    });
+
+    expect(issues).toEqual([]);
+    expect(
+      imported.connections.map((conn) => [conn.sourceId, conn.targetId])
+    ).toEqual([['researcher', 'writer']]);
+  });
+});
+
+describe('Python model helpers', () => {
+  it('should make PascalCase class names', () => {
+    const used = new Set(['Agent']);
+    expect(toPythonClassName('web-search_tool', used)).toBe('WebSearchTool');
+    expect(toPythonClassName('agent', used)).toBe('Agent2');
+  });
+
+  it('should convert object schemas to Pydantic models', () => {
+    expect(
+      toPydanticModel('Review', {
+        type: 'object',
+        properties: {
+          score: { type: 'number', description: 'Quality score' },
+          tags: { type: 'array', items: { type: 'string' } },
+          'next-step': { enum: ['publish', 'revise'] },
+        },
+        required: ['score'],
+      })
+    ).toBe(
+      [
+        'class Review(BaseModel):',
+        '    score: float = Field(description="Quality score")',
+        '    tags: list[str] | None = None',
+        '    next_step: Literal["publish", "revise"] | None = Field(default=None, alias="next-step")',
+      ].join('\n')
+    );
+  });
+});
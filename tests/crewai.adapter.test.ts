@@ -6,9 +6,14 @@ import { describe, it, expect } from 'vitest';
 import {
   mapAgentToCrewAgent,
   mapWorkflowToCrew,
+  mapWorkflowToCrewWithReport,
+  mapCrewAgentToAgent,
+  mapCrewToWorkflow,
+  compileConditionToCrewAI,
 } from '../src/adapters/crewai.adapter';
 import type { AgentConfig } from '../src/types/agent';
 import type { WorkflowConfig } from '../src/types/workflow';
+import type { CrewAICrew } from '../src/types/adapters';
 
 describe('CrewAI Adapter', () => {
   describe('mapAgentToCrewAgent', () => {
@@ -417,4 +422,384 @@ describe('CrewAI Adapter', () => {
       expect(crew.tasks.length).toBe(0);
     });
   });
+
+  describe('mapCrewAgentToAgent', () => {
+    it('should round-trip an exported agent', () => {
+      const agent: AgentConfig = {
+        id: 'research-specialist',
+        name: 'Research Specialist',
+        description: 'Expert in conducting research',
+        provider: 'azure-openai',
+        model: 'gpt-4',
+        systemPrompt: 'Find reliable sources',
+        parameters: { temperature: 0.3, maxTokens: 2000, topP: 0.9 },
+      };
+
+      const imported = mapCrewAgentToAgent(mapAgentToCrewAgent(agent));
+
+      expect(imported).toMatchObject(agent);
+      expect(imported.metadata?.crewAI).toEqual({
+        allowDelegation: true,
+        maxIter: 15,
+      });
+    });
+
+    it('should drop generated goal and backstory text', () => {
+      const imported = mapCrewAgentToAgent(
+        mapAgentToCrewAgent({
+          id: 'writer',
+          name: 'Writer',
+          provider: 'openai',
+          model: 'gpt-4',
+        })
+      );
+
+      expect(imported.systemPrompt).toBeUndefined();
+      expect(imported.description).toBeUndefined();
+    });
+
+    it('should map tools, memory and default model', () => {
+      const imported = mapCrewAgentToAgent(
+        {
+          role: 'Analyst',
+          goal: 'Analyse data',
+          backstory: 'Former statistician',
+          tools: ['SerperDevTool'],
+          memory: false,
+        },
+        { defaultModel: 'anthropic/claude-3-haiku' }
+      );
+
+      expect(imported).toEqual({
+        id: 'analyst',
+        name: 'Analyst',
+        description: 'Former statistician',
+        systemPrompt: 'Analyse data',
+        provider: 'anthropic',
+        model: 'claude-3-haiku',
+        tools: [
+          { id: 'SerperDevTool', name: 'SerperDevTool', description: '' },
+        ],
+        memory: { type: 'none' },
+      });
+    });
+  });
+
+  describe('mapCrewToWorkflow', () => {
+    const researcher = {
+      role: 'Researcher',
+      goal: 'Research topics',
+      backstory: 'Curious',
+      llm: { model: 'openai/gpt-4' },
+    };
+    const writer = {
+      role: 'Writer',
+      goal: 'Write articles',
+      backstory: 'Eloquent',
+      llm: { model: 'openai/gpt-4' },
+    };
+    const editor = {
+      role: 'Editor',
+      goal: 'Edit articles',
+      backstory: 'Meticulous',
+      llm: { model: 'openai/gpt-4' },
+    };
+
+    it('should turn task context into connections', () => {
+      const crew: CrewAICrew = {
+        name: 'Content Crew',
+        agents: [researcher, writer, editor],
+        tasks: [
+          {
+            description: 'Research',
+            expectedOutput: 'Notes',
+            agent: 'Researcher',
+          },
+          {
+            description: 'Write',
+            expectedOutput: 'Draft',
+            agent: 'Writer',
+            context: ['researcher'],
+          },
+          {
+            description: 'Edit',
+            expectedOutput: 'Article',
+            agent: 'Editor',
+            context: ['Researcher', 'writer'],
+          },
+        ],
+        process: 'sequential',
+      };
+
+      const { workflow, issues } = mapCrewToWorkflow(crew);
+
+      expect(issues).toEqual([]);
+      expect(workflow.id).toBe('content-crew');
+      expect(workflow.nodes.map((n) => n.id)).toEqual([
+        'researcher',
+        'writer',
+        'editor',
+      ]);
+      expect(workflow.nodes[1].metadata?.crewAITask).toEqual({
+        description: 'Write',
+        expectedOutput: 'Draft',
+      });
+      expect(workflow.connections.map((c) => [c.sourceId, c.targetId])).toEqual(
+        [
+          ['researcher', 'writer'],
+          ['researcher', 'editor'],
+          ['writer', 'editor'],
+        ]
+      );
+    });
+
+    it('should chain tasks without context in sequential crews', () => {
+      const crew: CrewAICrew = {
+        name: 'Pipeline',
+        agents: [researcher, writer],
+        tasks: [
+          {
+            description: 'Research',
+            expectedOutput: 'Notes',
+            agent: 'Researcher',
+          },
+          { description: 'Write', expectedOutput: 'Draft', agent: 'Writer' },
+        ],
+      };
+
+      const { workflow } = mapCrewToWorkflow(crew);
+
+      expect(workflow.connections).toEqual([
+        { id: 'researcher-writer', sourceId: 'researcher', targetId: 'writer' },
+      ]);
+    });
+
+    it('should add a manager node for hierarchical crews', () => {
+      const crew: CrewAICrew = {
+        name: 'Managed Crew',
+        agents: [researcher, writer],
+        tasks: [
+          {
+            description: 'Research',
+            expectedOutput: 'Notes',
+            agent: 'Researcher',
+          },
+          { description: 'Write', expectedOutput: 'Draft', agent: 'Writer' },
+        ],
+        process: 'hierarchical',
+        manager: { llm: { model: 'anthropic/claude-3-opus' } },
+      };
+
+      const { workflow, issues } = mapCrewToWorkflow(crew);
+
+      expect(issues).toEqual([]);
+      expect(workflow.nodes[0]).toMatchObject({
+        id: 'manager',
+        type: 'agent',
+        agent: { provider: 'anthropic', model: 'claude-3-opus' },
+        metadata: { crewAIManager: true },
+      });
+      expect(
+        workflow.connections.map((c) => [c.sourceId, c.targetId, c.label])
+      ).toEqual([
+        ['manager', 'researcher', 'delegates'],
+        ['manager', 'writer', 'delegates'],
+      ]);
+
+      const reExported = mapWorkflowToCrew(workflow);
+      expect(reExported.process).toBe('hierarchical');
+      expect(reExported.agents.map((a) => a.role)).toEqual([
+        'Researcher',
+        'Writer',
+      ]);
+      expect(reExported.manager?.llm?.model).toBe('anthropic/claude-3-opus');
+      expect(reExported.tasks.every((t) => t.context?.length === 0)).toBe(true);
+    });
+
+    it('should report unresolved references', () => {
+      const crew: CrewAICrew = {
+        name: 'Broken',
+        agents: [researcher, { role: 'Idle', goal: 'Wait', backstory: '' }],
+        tasks: [
+          {
+            description: 'Research',
+            expectedOutput: 'Notes',
+            agent: 'Researcher',
+          },
+          { description: 'Orphan', expectedOutput: 'Nothing', agent: 'Ghost' },
+          {
+            description: 'Review',
+            expectedOutput: 'Notes',
+            agent: 'Researcher',
+            context: ['unknown'],
+          },
+        ],
+      };
+
+      const { workflow, issues } = mapCrewToWorkflow(crew);
+
+      expect(workflow.nodes.map((n) => n.id)).toEqual([
+        'researcher',
+        'researcher-2',
+        'idle',
+      ]);
+      expect(issues.map((i) => i.path.join('.'))).toEqual([
+        'agents.1.llm',
+        'tasks.1.agent',
+        'agents.1',
+        'tasks.2.context.0',
+      ]);
+    });
+  });
+
+  describe('mapWorkflowToCrewWithReport', () => {
+    it('should report nodes and connections CrewAI cannot represent', () => {
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Research',
+        nodes: [
+          { id: 'start', type: 'trigger' },
+          {
+            id: 'researcher',
+            type: 'agent',
+            agent: {
+              id: 'researcher',
+              name: 'Researcher',
+              provider: 'openai',
+              model: 'gpt-4',
+            },
+          },
+          { id: 'writer', type: 'agent', agentId: 'writer-agent' },
+        ],
+        connections: [
+          { id: 'c1', sourceId: 'start', targetId: 'researcher' },
+          { id: 'c2', sourceId: 'researcher', targetId: 'writer' },
+        ],
+      };
+
+      const { output, report } = mapWorkflowToCrewWithReport(workflow, {
+        process: 'sequential',
+      });
+
+      expect(output).toEqual(
+        mapWorkflowToCrew(workflow, { process: 'sequential' })
+      );
+      expect(report.adapter).toBe('crewai');
+      const issues = report.issues.map((i) => [
+        i.path.join('.'),
+        i.kind,
+        i.severity,
+      ]);
+      expect(issues).toContainEqual(['nodes.0', 'dropped', 'info']);
+      expect(issues).toContainEqual(['nodes.2', 'dropped', 'error']);
+      expect(issues).toContainEqual(['connections.0', 'dropped', 'warning']);
+      expect(issues).not.toContainEqual(['process', 'defaulted', 'info']);
+    });
+  });
+
+  describe('compileConditionToCrewAI', () => {
+    it('should compile conditions over the previous task output', () => {
+      expect(
+        compileConditionToCrewAI("output contains 'APPROVED' || retry", [
+          'retry',
+        ])
+      ).toBe(
+        'lambda output: ("APPROVED" in (output.raw or ())) or (output.json_dict or {}).get("retry")'
+      );
+      expect(() => compileConditionToCrewAI('outputs.review')).toThrow(
+        '"outputs.review" is not available to CrewAI task conditions'
+      );
+    });
+
+    it('should make tasks with only conditional inputs conditional', () => {
+      const agent = (id: string) => ({
+        id,
+        name: id,
+        provider: 'openai' as const,
+        model: 'gpt-4',
+      });
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Review',
+        nodes: [
+          { id: 'writer', type: 'agent', agent: agent('writer') },
+          { id: 'editor', type: 'agent', agent: agent('editor') },
+        ],
+        connections: [
+          {
+            id: 'c1',
+            sourceId: 'writer',
+            targetId: 'editor',
+            condition: 'needs_edit',
+          },
+        ],
+      };
+
+      const { output, report } = mapWorkflowToCrewWithReport(workflow, {
+        process: 'sequential',
+      });
+
+      expect(output.tasks[0].condition).toBeUndefined();
+      expect(output.tasks[1].condition).toBe(
+        'lambda output: output.raw == "needs_edit"'
+      );
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          path: ['connections', '0', 'condition'],
+          kind: 'approximated',
+        })
+      );
+    });
+
+    it('should compile conditions on condition node branches', () => {
+      const agent = (id: string) => ({
+        id,
+        name: id,
+        provider: 'openai' as const,
+        model: 'gpt-4',
+      });
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Triage',
+        nodes: [
+          { id: 'triage', type: 'agent', agent: agent('triage') },
+          { id: 'route', type: 'condition' },
+          { id: 'billing', type: 'agent', agent: agent('billing') },
+          { id: 'support', type: 'agent', agent: agent('support') },
+        ],
+        connections: [
+          { id: 'c1', sourceId: 'triage', targetId: 'route' },
+          {
+            id: 'c2',
+            sourceId: 'route',
+            targetId: 'billing',
+            condition: "output contains 'invoice'",
+          },
+          {
+            id: 'c3',
+            sourceId: 'route',
+            targetId: 'support',
+            condition: "!(output contains 'invoice')",
+          },
+        ],
+      };
+
+      const { output, report } = mapWorkflowToCrewWithReport(workflow, {
+        process: 'sequential',
+      });
+
+      expect(output.tasks.map((t) => t.condition)).toEqual([
+        undefined,
+        'lambda output: "invoice" in (output.raw or ())',
+        'lambda output: not ("invoice" in (output.raw or ()))',
+      ]);
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          path: ['connections', '1', 'condition'],
+          kind: 'approximated',
+          severity: 'info',
+        })
+      );
+    });
+  });
 });
@@ -0,0 +1,294 @@
+/**
+ * Tests for document loading, source locations and serialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseJson, parseJson5 } from '../src/documents/json5';
+import { parseYaml } from '../src/documents/yaml';
+import { pathKey } from '../src/documents/positions';
+import {
+  detectDocumentFormat,
+  loadDocument,
+  validateAgentDocument,
+  validateWorkflowDocument,
+} from '../src/documents/loader';
+import {
+  serializeAgentConfig,
+  serializeWorkflowConfig,
+} from '../src/documents/serializer';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+describe('parseJson5', () => {
+  it('should parse JSON5 syntax', () => {
+    const source = `{
+      // comment
+      unquoted: 'single',
+      "double": "esc\\"aped\\u0041",
+      hex: 0x1F, half: .5, plus: +1, inf: -Infinity,
+      list: [1, 2, /* inline */ 3,],
+      multi: 'line \\
+continued',
+    }`;
+
+    expect(parseJson5(source).value).toEqual({
+      unquoted: 'single',
+      double: 'esc"apedA',
+      hex: 31,
+      half: 0.5,
+      plus: 1,
+      inf: -Infinity,
+      list: [1, 2, 3],
+      multi: 'line continued',
+    });
+  });
+
+  it('should record key and item positions', () => {
+    const { positions } = parseJson5(
+      '{\n  "tools": [\n    { "id": "a" }\n  ]\n}'
+    );
+
+    expect(positions.get(pathKey([]))).toEqual({ line: 1, column: 1 });
+    expect(positions.get(pathKey(['tools']))).toEqual({ line: 2, column: 3 });
+    expect(positions.get(pathKey(['tools', 0]))).toEqual({
+      line: 3,
+      column: 5,
+    });
+    expect(positions.get(pathKey(['tools', 0, 'id']))).toEqual({
+      line: 3,
+      column: 7,
+    });
+  });
+
+  it('should report errors with positions', () => {
+    expect(() => parseJson5('{\n  a: 1\n  b: 2\n}')).toThrow(
+      'Invalid JSON5 at line 3, column 3: expected "," or "}" but found "b"'
+    );
+    expect(() => parseJson5('[1, 2', 'JSON')).toThrow(
+      'Invalid JSON at end of input: expected "," or "]" but found end of input'
+    );
+    expect(() => parseJson5("{ a: 'open }")).toThrow(
+      'at line 1, column 6: unterminated string'
+    );
+    expect(() => parseJson5('nulls')).toThrow('unexpected "n"');
+  });
+
+  it('should not let __proto__ keys change the prototype', () => {
+    const { value } = parseJson5('{ "__proto__": { "admin": true } }');
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect((value as Record<string, unknown>).admin).toBeUndefined();
+  });
+});
+
+describe('parseJson', () => {
+  it('should parse JSON and reject JSON5-only syntax', () => {
+    expect(parseJson('{ "a": [1, -2.5e3, "x\\n"], "b": null }').value).toEqual({
+      a: [1, -2500, 'x\n'],
+      b: null,
+    });
+
+    expect(() => parseJson('{ "a": 1 // note\n}')).toThrow(
+      'Invalid JSON at line 1, column 10: comments are not allowed'
+    );
+    expect(() => parseJson('{ a: 1 }')).toThrow(
+      'Invalid JSON at line 1, column 3: expected a property name but found "a"'
+    );
+    expect(() => parseJson("{ 'a': 1 }")).toThrow(
+      'Invalid JSON at line 1, column 3: single-quoted strings are not allowed'
+    );
+    expect(() => parseJson('[1, 2,\n]')).toThrow(
+      'Invalid JSON at line 1, column 6: trailing commas are not allowed'
+    );
+    expect(() => parseJson('[0x1F]')).toThrow('unexpected "0"');
+    expect(() => parseJson('[+1]')).toThrow('unexpected "+"');
+    expect(() => parseJson('[Infinity]')).toThrow('unexpected "I"');
+    expect(() => parseJson('["\\x41"]')).toThrow('invalid escape "\\x"');
+  });
+});
+
+describe('parseYaml', () => {
+  it('should parse YAML and record positions', () => {
+    const { value, positions } = parseYaml(
+      'id: agent1\ntools:\n  - id: search\n    name: Search\n'
+    );
+
+    expect(value).toEqual({
+      id: 'agent1',
+      tools: [{ id: 'search', name: 'Search' }],
+    });
+    expect(positions.get(pathKey(['tools', 0]))).toEqual({
+      line: 3,
+      column: 5,
+    });
+    expect(positions.get(pathKey(['tools', 0, 'name']))).toEqual({
+      line: 4,
+      column: 5,
+    });
+  });
+
+  it('should reject invalid YAML', () => {
+    expect(() => parseYaml('a: 1\na: 2\n')).toThrow(
+      'Invalid YAML: Map keys must be unique at line 2, column 1'
+    );
+  });
+});
+
+describe('loadDocument', () => {
+  it('should detect formats from file extensions', () => {
+    expect(detectDocumentFormat('agent.yml')).toBe('yaml');
+    expect(detectDocumentFormat('agent.JSON')).toBe('json');
+    expect(detectDocumentFormat('dir.v2/agent.json5')).toBe('json5');
+    expect(detectDocumentFormat('agent')).toBe('yaml');
+  });
+
+  it('should parse .json files strictly and .json5 files as JSON5', () => {
+    const source = "{ id: 'agent1', }";
+
+    expect(loadDocument(source, { file: 'agent.json5' }).data).toEqual({
+      id: 'agent1',
+    });
+    expect(() => loadDocument(source, { file: 'agent.json' })).toThrow(
+      'Invalid JSON at line 1, column 3'
+    );
+  });
+
+  it('should locate paths, falling back to the nearest ancestor', () => {
+    const document = loadDocument('id: a\nparameters:\n  temperature: 3\n', {
+      file: 'agent.yaml',
+    });
+
+    expect(document.format).toBe('yaml');
+    expect(document.locate(['parameters', 'temperature'])).toEqual({
+      file: 'agent.yaml',
+      line: 3,
+      column: 3,
+    });
+    expect(document.locate(['parameters', 'topP'])).toEqual({
+      file: 'agent.yaml',
+      line: 2,
+      column: 1,
+    });
+  });
+});
+
+describe('validateAgentDocument', () => {
+  it('should attach file, line and column to issues', () => {
+    const result = validateAgentDocument(
+      [
+        'id: researcher',
+        'name: Researcher',
+        'provider: openai',
+        'model: gpt-4',
+        'parameters:',
+        '  temperature: 3',
+      ].join('\n'),
+      { file: 'researcher.yaml' }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual([
+      {
+        path: ['parameters', 'temperature'],
+        message: 'Number must be less than or equal to 2',
+        file: 'researcher.yaml',
+        line: 6,
+        column: 3,
+      },
+    ]);
+  });
+
+  it('should return upgraded data for valid documents', () => {
+    const result = validateAgentDocument(
+      "{ id: 'a', name: 'A', provider: 'openai', model: 'gpt-4' }",
+      { format: 'json5' }
+    );
+    expect(result.data?.schemaVersion).toBe('1.0');
+  });
+
+  it('should report parse errors as issues', () => {
+    const result = validateWorkflowDocument('{', { file: 'workflow.json' });
+
+    expect(result).toEqual({
+      success: false,
+      error: {
+        message: 'Failed to parse document',
+        issues: [
+          {
+            path: [],
+            message:
+              'Invalid JSON at end of input: expected a property name but found end of input',
+            file: 'workflow.json',
+          },
+        ],
+      },
+    });
+  });
+});
+
+describe('serializers', () => {
+  it('should write agents to YAML in schema key order', () => {
+    const agent: AgentConfig = {
+      metadata: { owner: 'team' },
+      tools: [{ description: 'Search the web', name: 'Search', id: 'search' }],
+      model: 'gpt-4',
+      provider: 'openai',
+      systemPrompt: 'You are helpful.\nCite sources.',
+      name: 'Researcher',
+      id: 'researcher',
+    };
+
+    expect(serializeAgentConfig(agent)).toBe(
+      [
+        'schemaVersion: "1.0"',
+        'id: researcher',
+        'name: Researcher',
+        'provider: openai',
+        'model: gpt-4',
+        'systemPrompt: |-',
+        '  You are helpful.',
+        '  Cite sources.',
+        'tools:',
+        '  - id: search',
+        '    name: Search',
+        '    description: Search the web',
+        'metadata:',
+        '  owner: team',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should round-trip workflows through YAML and JSON', () => {
+    const workflow: WorkflowConfig = {
+      nodes: [
+        { type: 'trigger', id: 'start' },
+        {
+          agent: { model: 'gpt-4', provider: 'openai', name: 'A', id: 'a' },
+          type: 'agent',
+          id: 'a',
+        },
+      ],
+      connections: [{ targetId: 'a', sourceId: 'start', id: 'c1' }],
+      name: 'Workflow',
+      id: 'wf',
+    };
+
+    const yaml = serializeWorkflowConfig(workflow);
+    expect(
+      yaml.startsWith(
+        'schemaVersion: "1.0"\nid: wf\nname: Workflow\nnodes:\n  - id: start\n'
+      )
+    ).toBe(true);
+    expect(validateWorkflowDocument(yaml).data).toEqual({
+      ...workflow,
+      schemaVersion: '1.0',
+    });
+
+    const json = serializeWorkflowConfig(workflow, { format: 'json' });
+    expect(Object.keys(JSON.parse(json).connections[0])).toEqual([
+      'id',
+      'sourceId',
+      'targetId',
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for the package entry points
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import * as main from '../src/index';
+import * as node from '../src/node';
+
+const SRC = join(__dirname, '../src');
+
+/**
+ * Helper: Relative and Node.js built-in modules a source file imports,
+ * followed transitively through relative imports
+ */
+function collectImports(file: string, seen = new Set<string>()): Set<string> {
+  if (seen.has(file)) {
+    return seen;
+  }
+  seen.add(file);
+  const source = readFileSync(file, 'utf-8');
+  for (const [, specifier] of source.matchAll(
+    /^(?:import|export)\s[^;]*?from\s+'([^']+)'/gm
+  )) {
+    if (specifier.startsWith('.')) {
+      collectImports(
+        join(dirname(file), specifier.replace(/\.js$/, '.ts')),
+        seen
+      );
+    } else {
+      seen.add(specifier);
+    }
+  }
+  return seen;
+}
+
+describe('entry points', () => {
+  it('should keep Node.js built-ins out of the main entry', () => {
+    const imports = [...collectImports(join(SRC, 'index.ts'))];
+    expect(
+      imports.filter((specifier) => specifier.startsWith('node:'))
+    ).toEqual([]);
+  });
+
+  it('should export filesystem features from the Node.js entry', () => {
+    expect(Object.keys(node).sort()).toEqual([
+      'createDirectoryAgentRegistry',
+      'createSecretResolver',
+    ]);
+    expect(main).not.toHaveProperty('createDirectoryAgentRegistry');
+    expect(main).not.toHaveProperty('createSecretResolver');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for environment overlays
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  diffEnvironments,
+  diffWorkflows,
+  resolveEnvironment,
+} from '../src/environments/overlay';
+import { createAgentRegistry } from '../src/agents/registry';
+import {
+  validateWorkflowConfig,
+  validateWorkflowConfigStrict,
+} from '../src/utils/workflow-validator';
+import { mapWorkflowToN8nWithReport } from '../src/adapters/n8n.adapter';
+import { runCli } from '../src/cli/run';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const workflow: WorkflowConfig = {
+  id: 'support',
+  name: 'Support',
+  trigger: {
+    type: 'webhook',
+    config: { webhookUrl: 'https://dev.example.com/hooks/support' },
+  },
+  variables: [{ name: 'tier', type: 'string', defaultValue: 'free' }],
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    {
+      id: 'writer',
+      type: 'agent',
+      agent: {
+        id: 'writer',
+        name: 'Writer',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        parameters: { temperature: 0.7, maxTokens: 500 },
+      },
+    },
+    { id: 'reviewer', type: 'agent', agentId: 'reviewer' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'writer' },
+    { id: 'c2', sourceId: 'writer', targetId: 'reviewer' },
+  ],
+  environments: {
+    dev: {},
+    prod: {
+      nodes: {
+        writer: { model: 'gpt-4o', parameters: { temperature: 0.2 } },
+      },
+      trigger: {
+        config: { webhookUrl: 'https://api.example.com/hooks/support' },
+      },
+      variables: { tier: 'enterprise' },
+    },
+  },
+};
+
+describe('resolveEnvironment', () => {
+  it('should apply node, trigger and variable patches', () => {
+    const prod = resolveEnvironment(workflow, 'prod');
+
+    expect(prod.environments).toBeUndefined();
+    expect(prod.nodes[1].agent).toMatchObject({
+      model: 'gpt-4o',
+      provider: 'openai',
+      parameters: { temperature: 0.2, maxTokens: 500 },
+    });
+    expect(prod.trigger?.config?.webhookUrl).toBe(
+      'https://api.example.com/hooks/support'
+    );
+    expect(prod.variables).toEqual([
+      { name: 'tier', type: 'string', defaultValue: 'enterprise' },
+    ]);
+    expect(workflow.nodes[1].agent?.model).toBe('gpt-4o-mini');
+  });
+
+  it('should patch agentId nodes resolved from a registry', () => {
+    const agents = createAgentRegistry([
+      { id: 'reviewer', name: 'Reviewer', provider: 'anthropic', model: 'x' },
+    ]);
+    const patched: WorkflowConfig = {
+      ...workflow,
+      environments: { prod: { nodes: { reviewer: { model: 'y' } } } },
+    };
+
+    expect(() => resolveEnvironment(patched, 'prod')).toThrow(
+      'Environment "prod" patches node "reviewer", which has no inline agent; pass an agent registry to resolve its agentId'
+    );
+    expect(
+      resolveEnvironment(patched, 'prod', { agents }).nodes[2].agent?.model
+    ).toBe('y');
+  });
+
+  it('should reject unknown environments, nodes and variables', () => {
+    expect(() => resolveEnvironment(workflow, 'staging')).toThrow(
+      'Unknown environment "staging"; declared environments: dev, prod'
+    );
+    expect(() =>
+      resolveEnvironment(
+        { ...workflow, environments: { qa: { nodes: { ghost: {} } } } },
+        'qa'
+      )
+    ).toThrow('Environment "qa" patches unknown node "ghost"');
+    expect(() =>
+      resolveEnvironment(
+        { ...workflow, environments: { qa: { variables: { region: 'eu' } } } },
+        'qa'
+      )
+    ).toThrow('Environment "qa" sets undeclared variable "region"');
+  });
+
+  it('should validate the patched workflow', () => {
+    expect(() =>
+      resolveEnvironment(
+        {
+          ...workflow,
+          environments: {
+            qa: { trigger: { config: { webhookUrl: 'not a url' } } },
+          },
+        },
+        'qa'
+      )
+    ).toThrow('Invalid url');
+  });
+
+  it('should validate overlays as part of the workflow', () => {
+    const result = validateWorkflowConfig({
+      ...workflow,
+      environments: { qa: { nodes: { writer: { provider: 'acme' } } } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues?.[0].path).toEqual([
+      'environments',
+      'qa',
+      'nodes',
+      'writer',
+      'provider',
+    ]);
+  });
+});
+
+describe('diffEnvironments', () => {
+  it('should list the values that differ between environments', () => {
+    expect(diffEnvironments(workflow, 'dev', 'prod')).toEqual([
+      {
+        path: ['nodes', '1', 'agent', 'model'],
+        from: 'gpt-4o-mini',
+        to: 'gpt-4o',
+      },
+      {
+        path: ['nodes', '1', 'agent', 'parameters', 'temperature'],
+        from: 0.7,
+        to: 0.2,
+      },
+      {
+        path: ['trigger', 'config', 'webhookUrl'],
+        from: 'https://dev.example.com/hooks/support',
+        to: 'https://api.example.com/hooks/support',
+      },
+      {
+        path: ['variables', '0', 'defaultValue'],
+        from: 'free',
+        to: 'enterprise',
+      },
+    ]);
+    expect(diffEnvironments(workflow, 'prod', 'prod')).toEqual([]);
+  });
+
+  it('should compare an environment with the base workflow', () => {
+    const base = validateWorkflowConfigStrict({
+      ...workflow,
+      environments: undefined,
+    });
+    expect(diffWorkflows(base, resolveEnvironment(workflow, 'dev'))).toEqual(
+      []
+    );
+  });
+});
+
+describe('environments in export and the CLI', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'ai-agent-schema-env-'));
+    writeFileSync(join(cwd, 'workflow.json'), JSON.stringify(workflow));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should report overlays as dropped by adapters', () => {
+    expect(mapWorkflowToN8nWithReport(workflow).report.issues).toContainEqual(
+      expect.objectContaining({ path: ['environments'], kind: 'dropped' })
+    );
+  });
+
+  it('should convert the resolved environment with --env', () => {
+    let out = '';
+    const io = {
+      cwd,
+      stdout: (text: string) => (out += text),
+      stderr: () => undefined,
+    };
+
+    expect(
+      runCli(['convert', 'workflow.json', '--to', 'n8n', '--env', 'prod'], io)
+    ).toBe(0);
+    expect(out).toContain('"model": "gpt-4o"');
+
+    out = '';
+    expect(runCli(['validate', 'workflow.json', '--env', 'qa'], io)).toBe(1);
+    expect(out).toContain('Unknown environment "qa"');
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for token and cost estimation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateAgentCost,
+  estimateTokens,
+  estimateWorkflowCost,
+} from '../src/estimation/cost';
+import { getModelPricing, BUILT_IN_PRICING } from '../src/models/pricing';
+import { createModelCatalog } from '../src/models/catalog';
+import { createAgentRegistry } from '../src/agents/registry';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const writer: AgentConfig = {
+  id: 'writer',
+  name: 'Writer',
+  provider: 'openai',
+  model: 'gpt-4o-2024-08-06',
+  systemPrompt: 'x'.repeat(400),
+  parameters: { maxTokens: 1000 },
+};
+
+const reviewer: AgentConfig = {
+  id: 'reviewer',
+  name: 'Reviewer',
+  provider: 'anthropic',
+  model: 'claude-3-5-haiku-20241022',
+  systemPrompt: 'x'.repeat(200),
+  tools: [{ id: 'lookup', name: 'lookup', description: 'Look up' }],
+};
+
+const workflow: WorkflowConfig = {
+  id: 'wf',
+  name: 'Workflow',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'each', type: 'loop' },
+    { id: 'writer', type: 'agent', agent: writer },
+    { id: 'reviewer', type: 'agent', agentId: 'reviewer' },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'each' },
+    { id: 'c2', sourceId: 'each', targetId: 'writer', sourceHandle: 'loop' },
+    { id: 'c3', sourceId: 'each', targetId: 'reviewer', condition: 'strict' },
+    { id: 'c4', sourceId: 'reviewer', targetId: 'done' },
+  ],
+};
+
+describe('estimateTokens', () => {
+  it('should approximate four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('You are a helpful assistant.')).toBe(7);
+  });
+});
+
+describe('getModelPricing', () => {
+  it('should price dated snapshots and Bedrock models', () => {
+    expect(
+      getModelPricing(
+        BUILT_IN_PRICING,
+        'anthropic',
+        'claude-3-5-sonnet-20241022'
+      )
+    ).toEqual({ input: 3, output: 15 });
+    expect(
+      getModelPricing(
+        BUILT_IN_PRICING,
+        'bedrock',
+        'anthropic.claude-3-haiku-20240307-v1:0'
+      )
+    ).toEqual({ input: 0.25, output: 1.25 });
+    expect(
+      getModelPricing(BUILT_IN_PRICING, 'custom', 'llama')
+    ).toBeUndefined();
+  });
+});
+
+describe('estimateAgentCost', () => {
+  it('should price the prompt, tools and maximum output', () => {
+    const estimate = estimateAgentCost(reviewer, { inputTokens: 50 });
+    const [node] = estimate.nodes;
+
+    expect(node).toMatchObject({
+      nodeId: 'reviewer',
+      promptTokens: 50,
+      toolTokens: estimateTokens(
+        JSON.stringify({
+          name: 'lookup',
+          description: 'Look up',
+          parameters: {},
+        })
+      ),
+      maxOutputTokens: 8192,
+      runs: { min: 1, max: 1 },
+    });
+    expect(node.inputTokens).toBe(100 + node.toolTokens);
+    expect(estimate.cost.best).toBeCloseTo((node.inputTokens * 0.8) / 1e6);
+    expect(estimate.cost.worst).toBeCloseTo(
+      (node.inputTokens * 0.8 + 8192 * 4) / 1e6
+    );
+    expect(estimate.warnings).toEqual([]);
+  });
+
+  it('should use a custom token counter and pricing table', () => {
+    const estimate = estimateAgentCost(
+      { ...writer, provider: 'custom', model: 'llama-3' },
+      {
+        countTokens: (text) => text.split(' ').length,
+        pricing: { custom: { 'llama-3': { input: 1, output: 2 } } },
+      }
+    );
+    expect(estimate.tokens).toEqual({ best: 1, worst: 1001 });
+    expect(estimate.cost.worst).toBeCloseTo(2001 / 1e6);
+  });
+
+  it('should warn about unpriced models and oversized prompts', () => {
+    const models = createModelCatalog({ includeBuiltIns: false });
+    models.registerProvider({
+      id: 'custom',
+      name: 'Local',
+      parameters: ['maxTokens'],
+      models: [
+        {
+          id: 'tiny',
+          contextWindow: 50,
+          tools: false,
+          vision: false,
+          jsonMode: false,
+        },
+      ],
+    });
+    const estimate = estimateAgentCost(
+      { ...writer, provider: 'custom', model: 'tiny' },
+      { models }
+    );
+
+    expect(estimate.cost).toEqual({ best: 0, worst: 0 });
+    expect(estimate.warnings).toEqual([
+      {
+        path: [],
+        message:
+          'Node "writer" sends 100 input tokens per call, more than the 50-token context window of model "tiny"',
+      },
+      {
+        path: [],
+        message:
+          'No price for custom model "tiny"; node "writer" is left out of the cost',
+      },
+    ]);
+  });
+});
+
+describe('estimateWorkflowCost', () => {
+  it('should bound runs by loops and conditions', () => {
+    const estimate = estimateWorkflowCost(workflow, {
+      agents: createAgentRegistry([reviewer]),
+      maxLoopIterations: 5,
+    });
+
+    expect(
+      estimate.nodes.map(({ nodeId, runs }) => ({ nodeId, runs }))
+    ).toEqual([
+      { nodeId: 'writer', runs: { min: 1, max: 5 } },
+      { nodeId: 'reviewer', runs: { min: 0, max: 1 } },
+    ]);
+
+    const [writerNode, reviewerNode] = estimate.nodes;
+    expect(estimate.tokens).toEqual({
+      best: 100,
+      worst:
+        5 * (100 + 1000) +
+        reviewerNode.inputTokens +
+        reviewerNode.maxOutputTokens,
+    });
+    expect(estimate.cost.best).toBeCloseTo(writerNode.cost!.best);
+    expect(estimate.cost.worst).toBeCloseTo(
+      writerNode.cost!.worst + reviewerNode.cost!.worst
+    );
+    expect(writerNode.cost!.worst).toBeCloseTo(
+      (5 * (100 * 2.5 + 1000 * 10)) / 1e6
+    );
+  });
+
+  it('should multiply nested loops and skip nodes after an end node', () => {
+    const nested: WorkflowConfig = {
+      id: 'nested',
+      name: 'Nested',
+      nodes: [
+        { id: 'outer', type: 'loop' },
+        { id: 'inner', type: 'loop' },
+        { id: 'writer', type: 'agent', agent: writer },
+        { id: 'done', type: 'end' },
+        { id: 'after', type: 'agent', agent: writer },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'outer', targetId: 'inner' },
+        { id: 'c2', sourceId: 'inner', targetId: 'writer' },
+        { id: 'c3', sourceId: 'writer', targetId: 'done' },
+        { id: 'c4', sourceId: 'done', targetId: 'after' },
+      ],
+    };
+    const estimate = estimateWorkflowCost(nested, {
+      minLoopIterations: 2,
+      maxLoopIterations: 3,
+    });
+
+    expect(estimate.nodes.map((node) => node.runs)).toEqual([
+      { min: 4, max: 9 },
+      { min: 0, max: 0 },
+    ]);
+  });
+
+  it('should not multiply nodes on a loop exit path', () => {
+    const joined: WorkflowConfig = {
+      id: 'joined',
+      name: 'Joined',
+      nodes: [
+        { id: 'each', type: 'loop' },
+        { id: 'writer', type: 'agent', agent: writer },
+        { id: 'summary', type: 'agent', agent: writer },
+      ],
+      connections: [
+        {
+          id: 'c1',
+          sourceId: 'each',
+          targetId: 'writer',
+          sourceHandle: 'loop',
+        },
+        { id: 'c2', sourceId: 'writer', targetId: 'summary' },
+        { id: 'c3', sourceId: 'each', targetId: 'summary' },
+      ],
+    };
+    const estimate = estimateWorkflowCost(joined, { maxLoopIterations: 3 });
+
+    expect(
+      estimate.nodes.map(({ nodeId, runs }) => ({ nodeId, runs }))
+    ).toEqual([
+      { nodeId: 'writer', runs: { min: 1, max: 3 } },
+      { nodeId: 'summary', runs: { min: 1, max: 1 } },
+    ]);
+  });
+
+  it('should warn about unresolved agents and reject cycles', () => {
+    expect(estimateWorkflowCost(workflow).warnings).toEqual([
+      {
+        path: ['nodes', '3'],
+        message:
+          'Agent "reviewer" of node "reviewer" was not resolved; the node is not estimated',
+      },
+    ]);
+
+    expect(() =>
+      estimateWorkflowCost({
+        ...workflow,
+        connections: [
+          ...workflow.connections,
+          { id: 'c5', sourceId: 'writer', targetId: 'each' },
+        ],
+      })
+    ).toThrow('Workflow "wf" has cycles and cannot be estimated');
+  });
+});
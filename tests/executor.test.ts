@@ -0,0 +1,339 @@
+/**
+ * Tests for the local workflow executor and mock provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import { executeWorkflow } from '../src/runtime/executor';
+import { createMockProvider } from '../src/runtime/mock-provider';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const agent = (id: string): AgentConfig => ({
+  id,
+  name: id,
+  provider: 'openai',
+  model: 'gpt-4',
+});
+
+const routingWorkflow: WorkflowConfig = {
+  id: 'support',
+  name: 'Support',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'classify', type: 'agent', agent: agent('classifier') },
+    { id: 'check', type: 'condition' },
+    { id: 'billing', type: 'agent', agent: agent('billing-agent') },
+    { id: 'general', type: 'agent', agentId: 'general-agent' },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'classify' },
+    { id: 'c2', sourceId: 'classify', targetId: 'check' },
+    {
+      id: 'c3',
+      sourceId: 'check',
+      targetId: 'billing',
+      condition: 'billing',
+    },
+    {
+      id: 'c4',
+      sourceId: 'check',
+      targetId: 'general',
+      condition: 'general',
+    },
+    { id: 'c5', sourceId: 'billing', targetId: 'done' },
+    { id: 'c6', sourceId: 'general', targetId: 'done' },
+  ],
+};
+
+describe('executeWorkflow', () => {
+  it('should route on connection conditions', async () => {
+    const provider = createMockProvider({
+      responses: { classifier: 'billing', 'billing-agent': 'Refund issued' },
+    });
+
+    const result = await executeWorkflow(routingWorkflow, {
+      provider,
+      input: 'I was charged twice',
+      agents: [agent('general-agent')],
+      executionId: 'exec-1',
+    });
+
+    expect(result.context).toMatchObject({
+      executionId: 'exec-1',
+      workflowId: 'support',
+      status: 'completed',
+    });
+    expect(result.context.currentNodeId).toBeUndefined();
+    expect(result.steps.map((s) => s.nodeId)).toEqual([
+      'start',
+      'classify',
+      'check',
+      'billing',
+      'done',
+    ]);
+    expect(result.output).toBe('Refund issued');
+    expect(provider.calls.map((c) => c.input)).toEqual([
+      'I was charged twice',
+      'billing',
+    ]);
+  });
+
+  it('should resolve agentId references and fail on unknown agents', async () => {
+    const provider = createMockProvider({
+      responses: { classifier: 'general' },
+    });
+
+    const resolved = await executeWorkflow(routingWorkflow, {
+      provider,
+      input: 'Hello',
+      agents: [agent('general-agent')],
+    });
+    expect(resolved.output).toBe('[general-agent] general');
+
+    const failed = await executeWorkflow(routingWorkflow, {
+      provider,
+      input: 'Hello',
+    });
+    expect(failed.context.status).toBe('failed');
+    expect(failed.context.currentNodeId).toBe('general');
+    expect(failed.error).toEqual({
+      nodeId: 'general',
+      message:
+        'Agent "general-agent" referenced by node "general" was not found',
+    });
+    expect(failed.steps[failed.steps.length - 1].status).toBe('failed');
+  });
+
+  it('should iterate loop nodes over a variable', async () => {
+    const workflow: WorkflowConfig = {
+      id: 'batch',
+      name: 'Batch',
+      nodes: [
+        { id: 'start', type: 'trigger' },
+        { id: 'each', type: 'loop', metadata: { items: 'tickets' } },
+        {
+          id: 'summarize',
+          type: 'agent',
+          agent: agent('summarizer'),
+          metadata: { outputVariable: 'lastSummary' },
+        },
+        { id: 'report', type: 'agent', agent: agent('reporter') },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'start', targetId: 'each' },
+        {
+          id: 'c2',
+          sourceId: 'each',
+          targetId: 'summarize',
+          sourceHandle: 'loop',
+        },
+        { id: 'c3', sourceId: 'each', targetId: 'report' },
+      ],
+      variables: [{ name: 'tickets', type: 'array', required: true }],
+    };
+    const provider = createMockProvider({
+      responses: {
+        summarizer: (request) => `Summary of ${request.input}`,
+        reporter: (request) => ({
+          output: (request.input as string[]).join('; '),
+        }),
+      },
+    });
+
+    const result = await executeWorkflow(workflow, {
+      provider,
+      variables: { tickets: ['T1', 'T2'] },
+    });
+
+    expect(result.context.status).toBe('completed');
+    expect(result.steps.map((s) => [s.nodeId, s.iteration ?? null])).toEqual([
+      ['start', null],
+      ['summarize', 0],
+      ['summarize', 1],
+      ['each', null],
+      ['report', null],
+    ]);
+    expect(result.output).toBe('Summary of T1; Summary of T2');
+    expect(result.context.variables).toMatchObject({
+      item: 'T2',
+      lastSummary: 'Summary of T2',
+    });
+  });
+
+  it('should run exit-path nodes after the loop, not per item', async () => {
+    const workflow: WorkflowConfig = {
+      id: 'batch',
+      name: 'Batch',
+      nodes: [
+        { id: 'start', type: 'trigger' },
+        { id: 'each', type: 'loop', metadata: { items: 'tickets' } },
+        { id: 'summarize', type: 'agent', agent: agent('summarizer') },
+        { id: 'report', type: 'agent', agent: agent('reporter') },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'start', targetId: 'each' },
+        {
+          id: 'c2',
+          sourceId: 'each',
+          targetId: 'summarize',
+          sourceHandle: 'loop',
+        },
+        { id: 'c3', sourceId: 'summarize', targetId: 'report' },
+        { id: 'c4', sourceId: 'each', targetId: 'report' },
+      ],
+      variables: [{ name: 'tickets', type: 'array', required: true }],
+    };
+
+    const result = await executeWorkflow(workflow, {
+      provider: createMockProvider(),
+      variables: { tickets: ['T1', 'T2'] },
+    });
+
+    expect(result.context.status).toBe('completed');
+    expect(result.steps.map((s) => [s.nodeId, s.iteration ?? null])).toEqual([
+      ['start', null],
+      ['summarize', 0],
+      ['summarize', 1],
+      ['each', null],
+      ['report', null],
+    ]);
+  });
+
+  it('should flatten agents that extend agents given as an array', async () => {
+    const workflow: WorkflowConfig = {
+      id: 'single',
+      name: 'Single',
+      nodes: [{ id: 'write', type: 'agent', agentId: 'cautious' }],
+      connections: [],
+    };
+    const models: unknown[] = [];
+    const provider = createMockProvider({
+      responses: {
+        cautious: (request) => {
+          models.push(request.agent.model);
+          return 'ok';
+        },
+      },
+    });
+
+    const result = await executeWorkflow(workflow, {
+      provider,
+      input: 'Hello',
+      agents: [
+        agent('writer'),
+        { id: 'cautious', extends: 'writer' } as AgentConfig,
+      ],
+    });
+
+    expect(result.context.status).toBe('completed');
+    expect(models).toEqual(['gpt-4']);
+  });
+
+  it('should read declared but unset variables in conditions', async () => {
+    const workflow: WorkflowConfig = {
+      id: 'flagged',
+      name: 'Flagged',
+      nodes: [
+        { id: 'start', type: 'trigger' },
+        { id: 'check', type: 'condition' },
+        { id: 'flagged', type: 'agent', agent: agent('flagger') },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'start', targetId: 'check' },
+        { id: 'c2', sourceId: 'check', targetId: 'flagged', condition: 'flag' },
+      ],
+      variables: [{ name: 'flag', type: 'boolean' }],
+    };
+
+    const result = await executeWorkflow(workflow, {
+      provider: createMockProvider(),
+      input: 'flag',
+    });
+
+    expect(result.steps.map((s) => s.nodeId)).toEqual(['start', 'check']);
+  });
+
+  it('should stop at the first end node', async () => {
+    const workflow: WorkflowConfig = {
+      id: 'stop',
+      name: 'Stop',
+      nodes: [
+        { id: 'start', type: 'trigger' },
+        { id: 'done', type: 'end' },
+        { id: 'after', type: 'agent', agent: agent('late') },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'start', targetId: 'done' },
+        { id: 'c2', sourceId: 'start', targetId: 'after' },
+      ],
+    };
+    const provider = createMockProvider();
+
+    const result = await executeWorkflow(workflow, { provider });
+
+    expect(result.steps.map((s) => s.nodeId)).toEqual(['start', 'done']);
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('should reject invalid, cyclic and under-specified workflows', async () => {
+    const provider = createMockProvider();
+
+    await expect(
+      executeWorkflow({ id: 'x' } as WorkflowConfig, { provider })
+    ).rejects.toThrow(ZodError);
+    await expect(
+      executeWorkflow(
+        {
+          id: 'cycle',
+          name: 'Cycle',
+          nodes: [
+            { id: 'a', type: 'trigger' },
+            { id: 'b', type: 'end' },
+          ],
+          connections: [
+            { id: 'c1', sourceId: 'a', targetId: 'b' },
+            { id: 'c2', sourceId: 'b', targetId: 'a' },
+          ],
+        },
+        { provider }
+      )
+    ).rejects.toThrow('Workflow "cycle" has cycles and cannot be executed');
+    await expect(
+      executeWorkflow(
+        {
+          id: 'vars',
+          name: 'Vars',
+          nodes: [{ id: 'a', type: 'trigger' }],
+          connections: [],
+          variables: [{ name: 'topic', type: 'string', required: true }],
+        },
+        { provider }
+      )
+    ).rejects.toThrow('Missing required workflow variable "topic"');
+  });
+});
+
+describe('createMockProvider', () => {
+  it('should consume response sequences and reset', async () => {
+    const provider = createMockProvider({
+      responses: { reviewer: ['rejected', 'approved'] },
+    });
+    const request = {
+      nodeId: 'review',
+      agent: agent('reviewer'),
+      input: 'draft',
+      variables: {},
+    };
+
+    expect((await provider.generate(request)).output).toBe('rejected');
+    expect((await provider.generate(request)).output).toBe('approved');
+    expect((await provider.generate(request)).output).toBe('approved');
+    expect(provider.calls).toHaveLength(3);
+
+    provider.reset();
+    expect(provider.calls).toHaveLength(0);
+    expect((await provider.generate(request)).output).toBe('rejected');
+  });
+});
@@ -6,9 +6,14 @@ import { describe, it, expect } from 'vitest';
 import {
   mapAgentToLangChain,
   mapWorkflowToLangGraph,
+  mapAgentToLangChainWithReport,
+  mapWorkflowToLangGraphWithReport,
+  mapLangGraphToWorkflow,
+  compileConditionToLangGraphRouter,
 } from '../src/adapters/langchain.adapter';
 import type { AgentConfig } from '../src/types/agent';
 import type { WorkflowConfig } from '../src/types/workflow';
+import type { LangGraphWorkflow } from '../src/types/adapters';
 
 describe('LangChain Adapter', () => {
   describe('mapAgentToLangChain', () => {
@@ -329,7 +334,324 @@ describe('LangChain Adapter', () => {
       const lgWorkflow = mapWorkflowToLangGraph(workflow);
 
       expect(lgWorkflow.nodes['loop'].type).toBe('tool');
-      expect((lgWorkflow.nodes['loop'].config as any).name).toBe('loop');
+      expect(lgWorkflow.nodes['loop'].config.name).toBe('loop');
+    });
+  });
+
+  describe('mapLangGraphToWorkflow', () => {
+    it('should round-trip an exported workflow', () => {
+      const workflow: WorkflowConfig = {
+        id: 'research',
+        name: 'Research Pipeline',
+        nodes: [
+          { id: 'start', type: 'trigger' },
+          {
+            id: 'researcher',
+            type: 'agent',
+            agent: {
+              id: 'researcher',
+              name: 'researcher',
+              provider: 'anthropic',
+              model: 'claude-3-opus',
+              systemPrompt: 'Research the topic',
+              tools: [{ id: 'search', name: 'search', description: 'Search' }],
+              memory: { type: 'vector', maxMessages: 20 },
+            },
+          },
+          { id: 'review', type: 'condition' },
+          { id: 'writer', type: 'agent', agentId: 'writer-agent' },
+          { id: 'loop', type: 'loop' },
+          { id: 'end', type: 'end' },
+        ],
+        connections: [
+          { id: 'c1', sourceId: 'start', targetId: 'researcher' },
+          { id: 'c2', sourceId: 'researcher', targetId: 'review' },
+          {
+            id: 'c3',
+            sourceId: 'review',
+            targetId: 'writer',
+            condition: 'approved',
+          },
+          {
+            id: 'c4',
+            sourceId: 'review',
+            targetId: 'loop',
+            condition: 'rejected',
+          },
+          { id: 'c5', sourceId: 'writer', targetId: 'end' },
+        ],
+        variables: [{ name: 'topic', type: 'string', defaultValue: 'AI' }],
+      };
+
+      const lgWorkflow = mapWorkflowToLangGraph(workflow);
+      const { workflow: imported, issues } = mapLangGraphToWorkflow(lgWorkflow);
+
+      expect(issues).toEqual([]);
+      expect(imported.nodes.map((n) => [n.id, n.type])).toEqual(
+        workflow.nodes.map((n) => [n.id, n.type])
+      );
+      expect(imported.nodes[1].agent).toMatchObject({
+        provider: 'anthropic',
+        model: 'claude-3-opus',
+        systemPrompt: 'Research the topic',
+        memory: { type: 'vector', maxMessages: 20 },
+      });
+      expect(imported.nodes[3].agentId).toBe('writer-agent');
+      expect(imported.variables).toEqual(workflow.variables);
+      expect(
+        imported.connections.map((c) => [c.sourceId, c.targetId, c.condition])
+      ).toEqual(
+        workflow.connections.map((c) => [c.sourceId, c.targetId, c.condition])
+      );
+
+      const reExported = mapWorkflowToLangGraph(imported);
+      expect(reExported.entryPoint).toBe(lgWorkflow.entryPoint);
+      expect(reExported.edges).toEqual(lgWorkflow.edges);
+      expect(
+        Object.fromEntries(
+          Object.entries(reExported.nodes).map(([id, n]) => [id, n.next])
+        )
+      ).toEqual(
+        Object.fromEntries(
+          Object.entries(lgWorkflow.nodes).map(([id, n]) => [id, n.next])
+        )
+      );
+    });
+
+    it('should route conditional next records through a condition node', () => {
+      const lgWorkflow: LangGraphWorkflow = {
+        name: 'Support Graph',
+        entryPoint: 'classify',
+        nodes: {
+          classify: {
+            id: 'classify',
+            type: 'agent',
+            config: { agentId: 'classifier' },
+            next: { billing: 'billing', default: 'general' },
+          },
+          billing: { id: 'billing', type: 'agent', config: { agentId: 'b' } },
+          general: { id: 'general', type: 'agent', config: { agentId: 'g' } },
+        },
+        edges: [],
+        state: { schema: {}, default: {} },
+      };
+
+      const { workflow, issues } = mapLangGraphToWorkflow(lgWorkflow);
+
+      expect(issues).toEqual([]);
+      expect(workflow.id).toBe('support-graph');
+      expect(workflow.nodes.map((n) => [n.id, n.type])).toEqual([
+        ['classify', 'agent'],
+        ['billing', 'agent'],
+        ['general', 'agent'],
+        ['classify-router', 'condition'],
+      ]);
+      expect(
+        workflow.connections.map((c) => [
+          c.sourceId,
+          c.targetId,
+          c.condition,
+          c.label,
+        ])
+      ).toEqual([
+        ['classify', 'classify-router', undefined, undefined],
+        ['classify-router', 'billing', 'billing', 'billing'],
+        ['classify-router', 'general', undefined, 'default'],
+      ]);
+
+      const reExported = mapWorkflowToLangGraph(workflow);
+      expect(Object.keys(reExported.nodes)).toEqual([
+        'classify',
+        'billing',
+        'general',
+      ]);
+      expect(reExported.nodes.classify.next).toEqual(
+        lgWorkflow.nodes.classify.next
+      );
+    });
+
+    it('should report unsupported nodes and state types', () => {
+      const lgWorkflow: LangGraphWorkflow = {
+        name: 'Tools',
+        entryPoint: 'fetch',
+        nodes: {
+          fetch: {
+            id: 'fetch',
+            type: 'tool',
+            config: { name: 'http_get' },
+            next: 'answer',
+          },
+          answer: {
+            id: 'answer',
+            type: 'llm',
+            config: { llm: { modelName: 'gpt-4o' } },
+          },
+        },
+        edges: [{ source: 'answer', target: 'missing' }],
+        state: {
+          schema: { messages: 'list', count: { type: 'number' } },
+          default: { count: 0 },
+        },
+      };
+
+      const { workflow, issues } = mapLangGraphToWorkflow(lgWorkflow);
+
+      expect(workflow.nodes[0]).toEqual({
+        id: 'fetch',
+        type: 'condition',
+        metadata: {
+          langGraphNode: {
+            id: 'fetch',
+            type: 'tool',
+            config: { name: 'http_get' },
+          },
+        },
+      });
+      expect(workflow.nodes[1].agent).toMatchObject({
+        provider: 'custom',
+        model: 'gpt-4o',
+      });
+      expect(workflow.variables).toEqual([
+        { name: 'messages', type: 'object' },
+        { name: 'count', type: 'number', defaultValue: 0 },
+      ]);
+      expect(issues.map((i) => i.path.join('.'))).toEqual([
+        'nodes.fetch',
+        'nodes.answer.config.llm.modelName',
+        'edges.0',
+        'state.schema.messages',
+      ]);
+    });
+  });
+
+  describe('mapWorkflowToLangGraphWithReport', () => {
+    it('should report approximated memory and defaulted parameters', () => {
+      const agent: AgentConfig = {
+        id: 'agent1',
+        name: 'Agent',
+        provider: 'openai',
+        model: 'gpt-4',
+        memory: { type: 'vector', persistent: true },
+      };
+
+      const { output, report } = mapAgentToLangChainWithReport(agent);
+
+      expect(output).toEqual(mapAgentToLangChain(agent));
+      expect(report.adapter).toBe('langchain');
+      const issues = report.issues.map((i) => [
+        i.path.join('.'),
+        i.kind,
+        i.severity,
+      ]);
+      expect(issues).toContainEqual(['memory.type', 'approximated', 'warning']);
+      expect(issues).toContainEqual([
+        'memory.persistent',
+        'dropped',
+        'warning',
+      ]);
+      expect(issues).toContainEqual([
+        'parameters.temperature',
+        'defaulted',
+        'info',
+      ]);
+    });
+
+    it('should report dropped fields and unreachable routes', () => {
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Routing',
+        nodes: [
+          {
+            id: 'writer',
+            type: 'agent',
+            agent: {
+              id: 'writer',
+              name: 'Writer',
+              provider: 'openai',
+              model: 'gpt-4',
+              parameters: { stopSequences: ['END'] },
+            },
+          },
+          { id: 'check', type: 'condition' },
+          { id: 'a', type: 'end' },
+          { id: 'b', type: 'end' },
+        ],
+        connections: [
+          { id: 'c1', sourceId: 'writer', targetId: 'check' },
+          { id: 'c2', sourceId: 'check', targetId: 'a', condition: 'ok' },
+          { id: 'c3', sourceId: 'check', targetId: 'b', condition: 'ok' },
+        ],
+        trigger: { type: 'manual' },
+      };
+
+      const { output, report } = mapWorkflowToLangGraphWithReport(workflow);
+      const issues = report.issues.map((i) => [
+        i.path.join('.'),
+        i.kind,
+        i.severity,
+      ]);
+
+      expect(output.nodes.check.next).toEqual({ ok: 'b' });
+      expect(issues).toContainEqual([
+        'nodes.0.agent.parameters.stopSequences',
+        'dropped',
+        'warning',
+      ]);
+      expect(issues).toContainEqual(['connections.1', 'dropped', 'error']);
+      expect(issues).toContainEqual(['trigger', 'dropped', 'warning']);
+    });
+  });
+
+  describe('compileConditionToLangGraphRouter', () => {
+    it('should compile route conditions into a router lambda', () => {
+      expect(
+        compileConditionToLangGraphRouter(
+          ["score >= 0.8 && !(tags contains 'spam')", 'approved', undefined],
+          ['score', 'tags']
+        )
+      ).toBe(
+        'lambda state: "score >= 0.8 && !(tags contains \'spam\')" if (isinstance(state.get("score"), (int, float)) and state.get("score") >= 0.8) and (not ("spam" in (state.get("tags") or ()))) else "approved" if state.get("output") == "approved" else "default"'
+      );
+      expect(compileConditionToLangGraphRouter(['outputs.review.ok'])).toBe(
+        'lambda state: "outputs.review.ok" if ((state.get("outputs") or {}).get("review") or {}).get("ok") else "__end__"'
+      );
+    });
+
+    it('should attach routers to nodes with conditional routes', () => {
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Routing',
+        nodes: [
+          { id: 'check', type: 'condition' },
+          { id: 'writer', type: 'agent', agentId: 'writer' },
+          { id: 'done', type: 'end' },
+        ],
+        connections: [
+          {
+            id: 'c1',
+            sourceId: 'check',
+            targetId: 'done',
+            condition: 'count > 3',
+          },
+          {
+            id: 'c2',
+            sourceId: 'writer',
+            targetId: 'done',
+            condition: 'approved',
+          },
+        ],
+        variables: [{ name: 'count', type: 'number' }],
+      };
+
+      const graph = mapWorkflowToLangGraph(workflow);
+
+      expect(graph.nodes.check.next).toEqual({ 'count > 3': 'done' });
+      expect(graph.nodes.check.config.condition).toBe(
+        'lambda state: "count > 3" if isinstance(state.get("count"), (int, float)) and state.get("count") > 3 else "__end__"'
+      );
+      expect(graph.nodes.writer.router).toBe(
+        'lambda state: "approved" if state.get("output") == "approved" else "__end__"'
+      );
     });
   });
 });
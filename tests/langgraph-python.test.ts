@@ -0,0 +1,357 @@
+/**
+ * Tests for LangGraph Python code generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateLangGraphPython,
+  generateLangGraphPythonWithReport,
+} from '../src/codegen/langgraph-python';
+import { toPythonIdentifier, toPythonLiteral } from '../src/codegen/python';
+import { createAgentRegistry } from '../src/agents/registry';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const writer: AgentConfig = {
+  id: 'writer',
+  name: 'Writer',
+  provider: 'openai',
+  model: 'gpt-4o',
+  systemPrompt: 'Write about {{ topic }}',
+  parameters: { temperature: 0.5, maxTokens: 800 },
+};
+
+const linear: WorkflowConfig = {
+  id: 'blog',
+  name: 'Blog Post',
+  variables: [{ name: 'topic', type: 'string', defaultValue: 'agents' }],
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'writer', type: 'agent', agent: writer },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'writer' },
+    { id: 'c2', sourceId: 'writer', targetId: 'done' },
+  ],
+};
+
+const routed: WorkflowConfig = {
+  id: 'support',
+  name: 'Support',
+  variables: [
+    { name: 'score', type: 'number' },
+    { name: 'tags', type: 'array' },
+  ],
+  nodes: [
+    { id: 'triage', type: 'agent', agent: { ...writer, id: 'triage' } },
+    { id: 'check', type: 'condition' },
+    { id: 'escalate', type: 'agent', agentId: 'escalation' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'triage', targetId: 'check' },
+    {
+      id: 'c2',
+      sourceId: 'check',
+      targetId: 'escalate',
+      condition: 'score > 0.8 && tags contains "vip"',
+    },
+  ],
+};
+
+describe('generateLangGraphPython', () => {
+  it('should generate a complete module', () => {
+    expect(generateLangGraphPython(linear)).toBe(
+      `# Blog Post
+# LangGraph application generated from workflow "blog"
+
+import operator
+from typing import Annotated, Any, TypedDict
+
+from langchain_openai import ChatOpenAI
+from langgraph.checkpoint.memory import MemorySaver
+from langgraph.graph import END, START, StateGraph
+from langgraph.prebuilt import create_react_agent
+
+
+class State(TypedDict, total=False):
+    topic: str
+    input: str
+    output: str
+    outputs: Annotated[dict[str, Any], operator.or_]
+
+
+DEFAULT_STATE: State = {"topic": "agents", "input": "", "output": "", "outputs": {}}
+
+
+writer_model = ChatOpenAI(model="gpt-4o", temperature=0.5, max_tokens=800, timeout=60, max_retries=2)
+WRITER_PROMPT = "Write about {topic}"
+writer_agent = create_react_agent(
+    writer_model,
+    tools=[],
+)
+
+
+def start_node(state: State) -> dict[str, Any]:
+    return {}
+
+
+def writer_node(state: State) -> dict[str, Any]:
+    messages = [
+        ("system", WRITER_PROMPT.format_map(state)),
+        ("user", state.get("output") or state.get("input", "")),
+    ]
+    result = writer_agent.invoke({"messages": messages})
+    output = result["messages"][-1].content
+    return {"output": output, "outputs": {"writer": output}}
+
+
+def done_node(state: State) -> dict[str, Any]:
+    return {}
+
+
+builder = StateGraph(State)
+builder.add_node("start", start_node)
+builder.add_node("writer", writer_node)
+builder.add_node("done", done_node)
+builder.add_edge(START, "start")
+builder.add_edge("start", "writer")
+builder.add_edge("writer", "done")
+builder.add_edge("done", END)
+
+checkpointer = MemorySaver()
+
+graph = builder.compile(checkpointer=checkpointer)
+
+
+if __name__ == "__main__":
+    result = graph.invoke(
+        {**DEFAULT_STATE, "input": input("> ")},
+        {"configurable": {"thread_id": "main"}},
+    )
+    print(result["output"])
+`
+    );
+  });
+
+  it('should compile conditional edges into router functions', () => {
+    const source = generateLangGraphPython(routed);
+
+    expect(source).toContain('    tags: list[Any]\n');
+    expect(source).toContain(
+      [
+        'def route_check(state: State) -> str:',
+        '    if (isinstance(state.get("score"), (int, float)) and state.get("score") > 0.8) and ("vip" in (state.get("tags") or ())):',
+        '        return "score > 0.8 && tags contains \\"vip\\""',
+        '    return "__end__"',
+      ].join('\n')
+    );
+    expect(source).toContain(
+      'builder.add_conditional_edges("check", route_check, {"score > 0.8 && tags contains \\"vip\\"": "escalate", "__end__": END})'
+    );
+  });
+
+  it('should stub unresolved agents and resolve them through a registry', () => {
+    const { output, report } = generateLangGraphPythonWithReport(routed);
+
+    expect(output).toContain(
+      'raise NotImplementedError("Agent \\"escalation\\" was not resolved; pass an agent registry to the generator")'
+    );
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: ['nodes', '2', 'agentId'] })
+    );
+
+    const resolved = generateLangGraphPython(routed, {
+      agents: createAgentRegistry([
+        {
+          ...writer,
+          id: 'escalation',
+          provider: 'anthropic',
+          model: 'claude-3-5-haiku',
+        },
+      ]),
+    });
+    expect(resolved).toContain(
+      'escalate_model = ChatAnthropic(model="claude-3-5-haiku", temperature=0.5, max_tokens=800, timeout=60, max_retries=2)'
+    );
+    expect(resolved).toContain('from langchain_anthropic import ChatAnthropic');
+  });
+
+  it('should refuse loop nodes with an error', () => {
+    const workflow: WorkflowConfig = {
+      id: 'batch',
+      name: 'Batch',
+      nodes: [
+        { id: 'each', type: 'loop', metadata: { items: 'tickets' } },
+        { id: 'writer', type: 'agent', agent: writer },
+        { id: 'done', type: 'end' },
+      ],
+      connections: [
+        {
+          id: 'c1',
+          sourceId: 'each',
+          targetId: 'writer',
+          sourceHandle: 'loop',
+        },
+        { id: 'c2', sourceId: 'each', targetId: 'done' },
+      ],
+    };
+    const { output, report } = generateLangGraphPythonWithReport(workflow);
+
+    expect(output).toContain(
+      '    raise NotImplementedError("Loop \\"each\\" is not supported by the generated graph")'
+    );
+    expect(report.issues).toContainEqual({
+      path: ['nodes', '0'],
+      kind: 'dropped',
+      severity: 'error',
+      message:
+        'Loop not generated; the node raises NotImplementedError instead of running its body and exit paths at once',
+    });
+  });
+
+  it('should construct chat models per provider', () => {
+    const source = generateLangGraphPython({
+      ...linear,
+      nodes: [
+        {
+          id: 'azure',
+          type: 'agent',
+          agent: {
+            ...writer,
+            provider: 'azure-openai',
+            model: 'prod-gpt4o',
+            parameters: { frequencyPenalty: 0.5 },
+          },
+        },
+        {
+          id: 'bedrock',
+          type: 'agent',
+          agent: {
+            ...writer,
+            provider: 'bedrock',
+            model: 'anthropic.claude-3-haiku-20240307-v1:0',
+          },
+        },
+        {
+          id: 'local',
+          type: 'agent',
+          agent: { ...writer, provider: 'custom', model: 'ollama:llama3' },
+        },
+      ],
+      connections: [],
+    });
+
+    expect(source).toContain(
+      'azure_model = AzureChatOpenAI(azure_deployment="prod-gpt4o", temperature=0.7, max_tokens=1000, frequency_penalty=0.5, timeout=60, max_retries=2)'
+    );
+    expect(source).toContain(
+      'bedrock_model = ChatBedrockConverse(model="anthropic.claude-3-haiku-20240307-v1:0", temperature=0.5, max_tokens=800)'
+    );
+    expect(source).toContain('local_model = init_chat_model("ollama:llama3")');
+  });
+
+  it('should emit one stub per tool and structured output schemas', () => {
+    const lookup = {
+      id: 'lookup',
+      name: 'lookup-order',
+      description: 'Look up an order',
+      parameters: {
+        type: 'object',
+        properties: { orderId: { type: 'string' } },
+        required: ['orderId'],
+      },
+    };
+    const agent: AgentConfig = {
+      ...writer,
+      tools: [
+        lookup,
+        {
+          kind: 'code',
+          id: 'repl',
+          name: 'python',
+          description: 'Run code',
+          language: 'python',
+        },
+      ],
+      outputSchema: {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+      },
+    };
+    const source = generateLangGraphPython({
+      ...linear,
+      nodes: [
+        { id: 'first', type: 'agent', agent },
+        { id: 'second', type: 'agent', agent: { ...writer, tools: [lookup] } },
+      ],
+      connections: [],
+    });
+
+    expect(source.match(/@tool\(/g)).toHaveLength(1);
+    expect(source).toContain(
+      [
+        '@tool("lookup-order", description="Look up an order", args_schema={"type": "object", "properties": {"orderId": {"type": "string"}}, "required": ["orderId"]})',
+        'def lookup_order(**kwargs: Any) -> str:',
+        '    raise NotImplementedError("Implement the \\"lookup-order\\" tool")',
+      ].join('\n')
+    );
+    expect(source).toContain(
+      'python = PythonREPLTool(name="python", description="Run code")'
+    );
+    expect(source).toContain('    tools=[lookup_order, python],\n');
+    expect(source).toContain('    tools=[lookup_order],\n');
+    expect(source).toContain(
+      '    response_format={"title": "writer", "type": "object", "properties": {"title": {"type": "string"}}},\n'
+    );
+    expect(source).toContain(
+      '    return {"output": json.dumps(response), "outputs": {"first": response}}'
+    );
+  });
+
+  it('should set up the configured checkpointer', () => {
+    const withCheckpointer = (checkpointer: Record<string, unknown>) =>
+      generateLangGraphPython({
+        ...linear,
+        metadata: { langGraph: { checkpointer } },
+      });
+
+    const sqlite = withCheckpointer({
+      type: 'sqlite',
+      config: { path: 'state.db' },
+    });
+    expect(sqlite).toContain('import sqlite3\n');
+    expect(sqlite).toContain(
+      'checkpointer = SqliteSaver(sqlite3.connect("state.db", check_same_thread=False))'
+    );
+
+    const postgres = withCheckpointer({ type: 'postgres' });
+    expect(postgres).toContain('import os\n');
+    expect(postgres).toContain(
+      'checkpointer = PostgresSaver(Connection.connect(os.environ["DATABASE_URL"], autocommit=True, prepare_threshold=0))\ncheckpointer.setup()'
+    );
+  });
+
+  it('should generate the same module for the same input', () => {
+    expect(generateLangGraphPython(routed)).toBe(
+      generateLangGraphPython(structuredClone(routed))
+    );
+  });
+});
+
+describe('Python source helpers', () => {
+  it('should render Python literals', () => {
+    expect(
+      toPythonLiteral({ a: [1, 'two', true], b: null, c: undefined })
+    ).toBe('{"a": [1, "two", True], "b": None}');
+  });
+
+  it('should make unique Python identifiers', () => {
+    const used = new Set<string>();
+    expect(toPythonIdentifier('web-search', used)).toBe('web_search');
+    expect(toPythonIdentifier('Web Search', used)).toBe('web_search_2');
+    expect(toPythonIdentifier('fetchURL', used)).toBe('fetch_url');
+    expect(toPythonIdentifier('class', used)).toBe('class_');
+    expect(toPythonIdentifier('3d', used)).toBe('_3d');
+  });
+});
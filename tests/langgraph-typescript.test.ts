@@ -0,0 +1,352 @@
+/**
+ * Tests for LangGraph.js TypeScript code generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateLangGraphTypeScript,
+  generateLangGraphTypeScriptWithReport,
+} from '../src/codegen/langgraph-typescript';
+import { toTypeScriptIdentifier, toZodSchema } from '../src/codegen/typescript';
+import { createAgentRegistry } from '../src/agents/registry';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const writer: AgentConfig = {
+  id: 'writer',
+  name: 'Writer',
+  provider: 'openai',
+  model: 'gpt-4o',
+  systemPrompt: 'Write about {{ topic }}',
+  parameters: { temperature: 0.5, maxTokens: 800 },
+};
+
+const linear: WorkflowConfig = {
+  id: 'blog',
+  name: 'Blog Post',
+  variables: [{ name: 'topic', type: 'string', defaultValue: 'agents' }],
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'writer', type: 'agent', agent: writer },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'writer' },
+    { id: 'c2', sourceId: 'writer', targetId: 'done' },
+  ],
+};
+
+const routed: WorkflowConfig = {
+  id: 'support',
+  name: 'Support',
+  variables: [
+    { name: 'score', type: 'number' },
+    { name: 'tags', type: 'array' },
+  ],
+  nodes: [
+    { id: 'triage', type: 'agent', agent: { ...writer, id: 'triage' } },
+    { id: 'check', type: 'condition' },
+    { id: 'escalate', type: 'agent', agentId: 'escalation' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'triage', targetId: 'check' },
+    {
+      id: 'c2',
+      sourceId: 'check',
+      targetId: 'escalate',
+      condition: 'score > 0.8 && tags contains "vip"',
+    },
+  ],
+};
+
+describe('generateLangGraphTypeScript', () => {
+  it('should generate a complete module', () => {
+    expect(generateLangGraphTypeScript(linear)).toBe(
+      `// Blog Post
+// LangGraph.js application generated from workflow "blog"
+
+import { PromptTemplate } from "@langchain/core/prompts";
+import { Annotation, END, MemorySaver, START, StateGraph } from "@langchain/langgraph";
+import { createReactAgent } from "@langchain/langgraph/prebuilt";
+import { ChatOpenAI } from "@langchain/openai";
+
+const StateAnnotation = Annotation.Root({
+  topic: Annotation<string>({ reducer: (_left, right) => right, default: () => "agents" }),
+  input: Annotation<string>({ reducer: (_left, right) => right, default: () => "" }),
+  output: Annotation<string>({ reducer: (_left, right) => right, default: () => "" }),
+  outputs: Annotation<Record<string, unknown>>({ reducer: (left, right) => ({ ...left, ...right }), default: () => ({}) }),
+});
+
+type State = typeof StateAnnotation.State;
+type Update = typeof StateAnnotation.Update;
+
+const writerModel = new ChatOpenAI({ model: "gpt-4o", temperature: 0.5, maxTokens: 800, timeout: 60000, maxRetries: 2 });
+const WRITER_PROMPT = "Write about {topic}";
+const writerAgent = createReactAgent({
+  llm: writerModel,
+  tools: [],
+});
+
+async function startNode(): Promise<Update> {
+  return {};
+}
+
+async function writerNode(state: State): Promise<Update> {
+  const result = await writerAgent.invoke({
+    messages: [
+      { role: "system", content: await PromptTemplate.fromTemplate(WRITER_PROMPT).format(state) },
+      { role: "user", content: state.output || state.input },
+    ],
+  });
+  const output = result.messages[result.messages.length - 1].text;
+  return { output, outputs: { writer: output } };
+}
+
+async function doneNode(): Promise<Update> {
+  return {};
+}
+
+const builder = new StateGraph(StateAnnotation)
+  .addNode("start", startNode)
+  .addNode("writer", writerNode)
+  .addNode("done", doneNode)
+  .addEdge(START, "start")
+  .addEdge("start", "writer")
+  .addEdge("writer", "done")
+  .addEdge("done", END);
+
+const checkpointer = new MemorySaver();
+
+export const graph = builder.compile({ checkpointer });
+`
+    );
+  });
+
+  it('should compile conditional edges into router functions', () => {
+    const source = generateLangGraphTypeScript(routed);
+
+    expect(source).toContain('  tags: Annotation<unknown[]>,\n');
+    expect(source).toContain(
+      [
+        'function routeCheck(state: State): string {',
+        '  const values: Record<string, any> = state;',
+        '  if ((typeof values.score === "number" && values.score > 0.8) && (values.tags ?? []).includes("vip")) {',
+        '    return "score > 0.8 && tags contains \\"vip\\"";',
+        '  }',
+        '  return END;',
+        '}',
+      ].join('\n')
+    );
+    expect(source).toContain(
+      '  .addConditionalEdges("check", routeCheck, { "score > 0.8 && tags contains \\"vip\\"": "escalate", [END]: END })'
+    );
+  });
+
+  it('should stub unresolved agents and resolve them through a registry', () => {
+    const { output, report } = generateLangGraphTypeScriptWithReport(routed);
+
+    expect(output).toContain(
+      '  throw new Error("Agent \\"escalation\\" was not resolved; pass an agent registry to the generator");'
+    );
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: ['nodes', '2', 'agentId'] })
+    );
+
+    const resolved = generateLangGraphTypeScript(routed, {
+      agents: createAgentRegistry([
+        {
+          ...writer,
+          id: 'escalation',
+          provider: 'anthropic',
+          model: 'claude-3-5-haiku',
+        },
+      ]),
+    });
+    expect(resolved).toContain(
+      'const escalateModel = new ChatAnthropic({ model: "claude-3-5-haiku", temperature: 0.5, maxTokens: 800, maxRetries: 2 });'
+    );
+    expect(resolved).toContain(
+      'import { ChatAnthropic } from "@langchain/anthropic";'
+    );
+  });
+
+  it('should refuse loop nodes with an error', () => {
+    const workflow: WorkflowConfig = {
+      id: 'batch',
+      name: 'Batch',
+      nodes: [
+        { id: 'each', type: 'loop', metadata: { items: 'tickets' } },
+        { id: 'writer', type: 'agent', agent: writer },
+        { id: 'done', type: 'end' },
+      ],
+      connections: [
+        {
+          id: 'c1',
+          sourceId: 'each',
+          targetId: 'writer',
+          sourceHandle: 'loop',
+        },
+        { id: 'c2', sourceId: 'each', targetId: 'done' },
+      ],
+    };
+    const { output, report } = generateLangGraphTypeScriptWithReport(workflow);
+
+    expect(output).toContain(
+      '  throw new Error("Loop \\"each\\" is not supported by the generated graph");'
+    );
+    expect(report.issues).toContainEqual({
+      path: ['nodes', '0'],
+      kind: 'dropped',
+      severity: 'error',
+      message:
+        'Loop not generated; the node throws instead of running its body and exit paths at once',
+    });
+  });
+
+  it('should construct chat models per provider', () => {
+    const source = generateLangGraphTypeScript({
+      ...linear,
+      nodes: [
+        {
+          id: 'azure',
+          type: 'agent',
+          agent: {
+            ...writer,
+            provider: 'azure-openai',
+            model: 'prod-gpt4o',
+            parameters: { frequencyPenalty: 0.5 },
+          },
+        },
+        {
+          id: 'gemini',
+          type: 'agent',
+          agent: { ...writer, provider: 'google', model: 'gemini-1.5-pro' },
+        },
+        {
+          id: 'local',
+          type: 'agent',
+          agent: { ...writer, provider: 'custom', model: 'ollama:llama3' },
+        },
+      ],
+      connections: [],
+    });
+
+    expect(source).toContain(
+      'const azureModel = new AzureChatOpenAI({ azureOpenAIApiDeploymentName: "prod-gpt4o", temperature: 0.7, maxTokens: 1000, frequencyPenalty: 0.5, timeout: 60000, maxRetries: 2 });'
+    );
+    expect(source).toContain(
+      'const geminiModel = new ChatGoogleGenerativeAI({ model: "gemini-1.5-pro", temperature: 0.5, maxOutputTokens: 800, maxRetries: 2 });'
+    );
+    expect(source).toContain(
+      'const localModel = await initChatModel("ollama:llama3");'
+    );
+    expect(source).toContain(
+      'import { initChatModel } from "langchain/chat_models/universal";'
+    );
+  });
+
+  it('should emit one tool per name with zod schemas and structured output', () => {
+    const lookup = {
+      id: 'lookup',
+      name: 'lookup-order',
+      description: 'Look up an order',
+      parameters: {
+        type: 'object',
+        properties: { orderId: { type: 'string' } },
+        required: ['orderId'],
+      },
+    };
+    const agent: AgentConfig = {
+      ...writer,
+      tools: [lookup],
+      outputSchema: {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+      },
+    };
+    const source = generateLangGraphTypeScript({
+      ...linear,
+      nodes: [
+        { id: 'first', type: 'agent', agent },
+        { id: 'second', type: 'agent', agent: { ...writer, tools: [lookup] } },
+      ],
+      connections: [],
+    });
+
+    expect(source.match(/= tool\(/g)).toHaveLength(1);
+    expect(source).toContain(
+      [
+        'const lookupOrder = tool(',
+        '  async () => {',
+        '    throw new Error("Implement the \\"lookup-order\\" tool");',
+        '  },',
+        '  {',
+        '    name: "lookup-order",',
+        '    description: "Look up an order",',
+        '    schema: z.object({ orderId: z.string() }),',
+        '  }',
+        ');',
+      ].join('\n')
+    );
+    expect(source).toContain('import { z } from "zod";');
+    expect(source.match(/ {2}tools: \[lookupOrder\],\n/g)).toHaveLength(2);
+    expect(source).toContain(
+      '  responseFormat: z.object({ title: z.string().optional() }),\n'
+    );
+    expect(source).toContain(
+      '  return { output: JSON.stringify(response), outputs: { first: response } };'
+    );
+  });
+
+  it('should set up the configured checkpointer', () => {
+    const withCheckpointer = (checkpointer: Record<string, unknown>) =>
+      generateLangGraphTypeScript({
+        ...linear,
+        metadata: { langGraph: { checkpointer } },
+      });
+
+    expect(
+      withCheckpointer({ type: 'sqlite', config: { path: 'state.db' } })
+    ).toContain('const checkpointer = SqliteSaver.fromConnString("state.db");');
+    expect(withCheckpointer({ type: 'postgres' })).toContain(
+      'const checkpointer = PostgresSaver.fromConnString(process.env.DATABASE_URL!);\nawait checkpointer.setup();'
+    );
+  });
+
+  it('should generate the same module for the same input', () => {
+    expect(generateLangGraphTypeScript(routed)).toBe(
+      generateLangGraphTypeScript(structuredClone(routed))
+    );
+  });
+});
+
+describe('TypeScript source helpers', () => {
+  it('should convert JSON Schemas to zod', () => {
+    expect(
+      toZodSchema({
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, description: 'Max results' },
+          sort: { enum: ['asc', 'desc'] },
+          'page-token': { type: ['string', 'null'] },
+          filters: {
+            type: 'object',
+            additionalProperties: { type: 'boolean' },
+          },
+        },
+        required: ['limit'],
+      })
+    ).toBe(
+      'z.object({ limit: z.number().int().min(1).describe("Max results"), sort: z.enum(["asc", "desc"]).optional(), "page-token": z.string().nullable().optional(), filters: z.record(z.string(), z.boolean()).optional() })'
+    );
+  });
+
+  it('should make unique camelCase identifiers', () => {
+    const used = new Set<string>();
+    expect(toTypeScriptIdentifier('web-search', used)).toBe('webSearch');
+    expect(toTypeScriptIdentifier('Web Search', used)).toBe('webSearch2');
+    expect(toTypeScriptIdentifier('fetch_URL', used)).toBe('fetchUrl');
+    expect(toTypeScriptIdentifier('default', used)).toBe('default_');
+    expect(toTypeScriptIdentifier('3d', used)).toBe('_3d');
+  });
+});
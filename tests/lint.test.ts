@@ -0,0 +1,268 @@
+/**
+ * Tests for the workflow linter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLintRules, lintWorkflow } from '../src/lint/linter';
+import type { LintRule } from '../src/types/lint';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const agent = {
+  id: 'a',
+  name: 'A',
+  provider: 'openai' as const,
+  model: 'gpt-4',
+};
+
+const workflow: WorkflowConfig = {
+  id: 'wf',
+  name: 'Workflow',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'classify', type: 'condition' },
+    { id: 'billing', type: 'agent', agent },
+    { id: 'support', type: 'agent', agent },
+    { id: 'done', type: 'end' },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'classify' },
+    {
+      id: 'c2',
+      sourceId: 'classify',
+      targetId: 'billing',
+      condition: 'billing',
+    },
+    {
+      id: 'c3',
+      sourceId: 'classify',
+      targetId: 'support',
+      condition: 'support',
+    },
+    { id: 'c4', sourceId: 'billing', targetId: 'done' },
+    { id: 'c5', sourceId: 'support', targetId: 'done' },
+  ],
+};
+
+const rulesReported = (wf: WorkflowConfig) =>
+  lintWorkflow(wf).diagnostics.map((d) => d.rule);
+
+describe('lintWorkflow', () => {
+  it('should pass a well-formed workflow', () => {
+    expect(lintWorkflow(workflow)).toEqual({
+      valid: true,
+      diagnostics: [],
+      errorCount: 0,
+      warningCount: 0,
+    });
+  });
+
+  it('should report duplicate node and connection IDs', () => {
+    const result = lintWorkflow({
+      ...workflow,
+      nodes: [...workflow.nodes, { id: 'done', type: 'end' }],
+      connections: [
+        ...workflow.connections,
+        { id: 'c1', sourceId: 'support', targetId: 'done' },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      {
+        rule: 'unique-node-ids',
+        severity: 'error',
+        path: ['nodes', '5', 'id'],
+        message: 'Node ID "done" is already used by nodes.4',
+      },
+      {
+        rule: 'unique-connection-ids',
+        severity: 'error',
+        path: ['connections', '5', 'id'],
+        message: 'Connection ID "c1" is already used by connections.0',
+      },
+    ]);
+  });
+
+  it('should report extra triggers and unreachable nodes', () => {
+    const result = lintWorkflow({
+      ...workflow,
+      nodes: [
+        ...workflow.nodes,
+        { id: 'webhook', type: 'trigger' },
+        { id: 'orphan', type: 'agent', agent },
+      ],
+    });
+
+    expect(result.diagnostics).toEqual([
+      {
+        rule: 'single-trigger',
+        severity: 'error',
+        path: ['nodes', '5'],
+        message:
+          'Trigger node "webhook" is redundant; "start" is already the trigger',
+      },
+      {
+        rule: 'unreachable-node',
+        severity: 'warn',
+        path: ['nodes', '6'],
+        message: 'Node "orphan" is not reachable from the trigger',
+      },
+    ]);
+    expect(result.errorCount).toBe(1);
+    expect(result.warningCount).toBe(1);
+  });
+
+  it('should report cycles and missing end nodes', () => {
+    const result = lintWorkflow({
+      ...workflow,
+      nodes: workflow.nodes.filter((node) => node.id !== 'done'),
+      connections: [
+        ...workflow.connections.slice(0, 3),
+        { id: 'back', sourceId: 'billing', targetId: 'classify' },
+      ],
+    });
+
+    expect(result.diagnostics.map((d) => [d.rule, d.message])).toEqual([
+      [
+        'no-cycles',
+        'Connection "back" from "billing" to "classify" creates a cycle',
+      ],
+      ['reachable-end', 'Workflow has no end node'],
+    ]);
+  });
+
+  it('should report unreachable end nodes', () => {
+    expect(
+      rulesReported({
+        ...workflow,
+        connections: workflow.connections.slice(0, 3),
+      })
+    ).toEqual(['unreachable-node', 'reachable-end']);
+  });
+
+  it('should report condition nodes and conditions that do not branch', () => {
+    const result = lintWorkflow({
+      ...workflow,
+      connections: [
+        workflow.connections[0],
+        workflow.connections[1],
+        { id: 'c3', sourceId: 'billing', targetId: 'support', condition: 'ok' },
+        { id: 'c4', sourceId: 'support', targetId: 'done' },
+      ],
+    });
+
+    expect(result.diagnostics).toEqual([
+      {
+        rule: 'condition-branches',
+        severity: 'warn',
+        path: ['nodes', '1'],
+        message:
+          'Condition node "classify" has 1 outgoing connection; expected at least 2',
+      },
+      {
+        rule: 'condition-on-branch',
+        severity: 'warn',
+        path: ['connections', '1', 'condition'],
+        message:
+          'Connection "c2" has a condition but is the only connection leaving "classify"',
+      },
+      {
+        rule: 'condition-on-branch',
+        severity: 'warn',
+        path: ['connections', '2', 'condition'],
+        message:
+          'Connection "c3" has a condition but is the only connection leaving "billing"',
+      },
+    ]);
+  });
+
+  it('should require loops to have an exit connection', () => {
+    const loop: WorkflowConfig = {
+      id: 'loop',
+      name: 'Loop',
+      nodes: [
+        { id: 'start', type: 'trigger' },
+        { id: 'each', type: 'loop' },
+        { id: 'work', type: 'agent', agent },
+        { id: 'done', type: 'end' },
+      ],
+      connections: [
+        { id: 'c1', sourceId: 'start', targetId: 'each' },
+        { id: 'c2', sourceId: 'each', targetId: 'work', sourceHandle: 'loop' },
+        { id: 'c3', sourceId: 'each', targetId: 'done' },
+      ],
+    };
+
+    expect(rulesReported(loop)).toEqual([]);
+    expect(
+      rulesReported({ ...loop, connections: loop.connections.slice(0, 2) })
+    ).toEqual(['unreachable-node', 'reachable-end', 'loop-exit']);
+
+    const unmarked = lintWorkflow({
+      ...loop,
+      connections: loop.connections.map(
+        ({ sourceHandle: _handle, ...conn }) => conn
+      ),
+    });
+    expect(unmarked.valid).toBe(true);
+    expect(unmarked.diagnostics).toEqual([
+      {
+        rule: 'loop-body-handle',
+        severity: 'warn',
+        path: ['nodes', '1'],
+        message:
+          'Loop node "each" has no connection with sourceHandle "loop"; all 2 outgoing connections are treated as its body',
+      },
+    ]);
+  });
+
+  it('should apply severity overrides', () => {
+    const broken = {
+      ...workflow,
+      connections: workflow.connections.slice(0, 3),
+    };
+    const result = lintWorkflow(broken, {
+      rules: { 'unreachable-node': 'off', 'reachable-end': 'error' },
+    });
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ rule: 'reachable-end', severity: 'error' }),
+    ]);
+    expect(result.valid).toBe(false);
+    expect(() =>
+      lintWorkflow(workflow, { rules: { 'no-such-rule': 'warn' } })
+    ).toThrow('Unknown lint rule "no-such-rule"');
+  });
+
+  it('should run custom rules', () => {
+    const maxNodes: LintRule = {
+      name: 'max-nodes',
+      description: 'Workflows must have at most 3 nodes',
+      defaultSeverity: 'warn',
+      check: (wf) =>
+        wf.nodes.length > 3
+          ? [{ path: ['nodes'], message: `${wf.nodes.length} nodes` }]
+          : [],
+    };
+
+    expect(
+      lintWorkflow(workflow, { customRules: [maxNodes] }).diagnostics
+    ).toEqual([
+      {
+        rule: 'max-nodes',
+        severity: 'warn',
+        path: ['nodes'],
+        message: '5 nodes',
+      },
+    ]);
+    expect(
+      lintWorkflow(workflow, {
+        customRules: [maxNodes],
+        rules: { 'max-nodes': 'off' },
+      }).diagnostics
+    ).toEqual([]);
+    expect(() => getLintRules([{ ...maxNodes, name: 'no-cycles' }])).toThrow(
+      'Lint rule "no-cycles" is already defined'
+    );
+  });
+});
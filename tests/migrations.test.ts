@@ -0,0 +1,252 @@
+/**
+ * Tests for schema versioning and migrations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  migrateDocument,
+  migrateAgentConfig,
+  migrateWorkflowConfig,
+  getSupportedSchemaVersions,
+} from '../src/migrations/migrate';
+import {
+  AGENT_MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+} from '../src/migrations/versions';
+import {
+  validateAgentConfig,
+  validateAgentConfigStrict,
+} from '../src/utils/validator';
+import { validateWorkflowConfigStrict } from '../src/utils/workflow-validator';
+import type { Migration } from '../src/types/migrations';
+
+const agent = {
+  id: 'agent1',
+  name: 'Test Agent',
+  provider: 'openai',
+  model: 'gpt-4',
+};
+
+describe('migrateAgentConfig', () => {
+  it('should upgrade unversioned documents from the legacy version', () => {
+    const result = migrateAgentConfig(agent);
+
+    expect(result).toEqual({
+      data: { ...agent, schemaVersion: CURRENT_SCHEMA_VERSION },
+      fromVersion: '0.4',
+      toVersion: '1.0',
+      changes: [
+        {
+          path: ['schemaVersion'],
+          message:
+            'Upgraded from 0.4 to 1.0: Introduces the schemaVersion field',
+        },
+      ],
+    });
+    expect(agent).not.toHaveProperty('schemaVersion');
+  });
+
+  it('should wrap bare tool parameter maps in object schemas', () => {
+    const legacy = {
+      ...agent,
+      tools: [
+        {
+          id: 'search',
+          name: 'search',
+          description: 'Search',
+          parameters: { query: { type: 'string' } },
+        },
+        {
+          id: 'lookup',
+          name: 'lookup',
+          description: 'Lookup',
+          parameters: { type: 'object', properties: {} },
+        },
+      ],
+    };
+
+    const result = migrateAgentConfig(legacy);
+    expect(result.data.tools).toEqual([
+      {
+        ...legacy.tools[0],
+        parameters: {
+          type: 'object',
+          properties: { query: { type: 'string' } },
+        },
+      },
+      legacy.tools[1],
+    ]);
+    expect(result.changes[0]).toEqual({
+      path: ['tools', '0', 'parameters'],
+      message: 'Wrapped the parameter map in an object schema',
+    });
+    expect(validateAgentConfig(legacy).success).toBe(true);
+    expect(
+      validateAgentConfig({ ...legacy, schemaVersion: '1.0' }).success
+    ).toBe(false);
+  });
+
+  it('should leave current documents unchanged', () => {
+    const current = { ...agent, schemaVersion: '1.0' };
+    expect(migrateAgentConfig(current)).toEqual({
+      data: current,
+      fromVersion: '1.0',
+      toVersion: '1.0',
+      changes: [],
+    });
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() =>
+      migrateAgentConfig({ ...agent, schemaVersion: '2.0' })
+    ).toThrow(
+      'Unsupported schema version "2.0"; supported versions are 0.4, 1.0'
+    );
+    expect(() => migrateAgentConfig({ ...agent, schemaVersion: 1 })).toThrow(
+      'Invalid schema version: expected a string'
+    );
+    expect(() => migrateAgentConfig([agent])).toThrow('expected an object');
+  });
+});
+
+describe('migrateWorkflowConfig', () => {
+  it('should upgrade unversioned workflows', () => {
+    const workflow = {
+      id: 'wf',
+      name: 'Workflow',
+      nodes: [{ id: 'a', type: 'trigger' }],
+      connections: [],
+    };
+
+    const result = migrateWorkflowConfig(workflow);
+    expect(result.fromVersion).toBe('0.4');
+    expect(result.data.schemaVersion).toBe('1.0');
+  });
+
+  it('should upgrade inline agents from their own or the workflow version', () => {
+    const workflow = {
+      id: 'wf',
+      name: 'Workflow',
+      nodes: [
+        { id: 'a', type: 'agent', agent },
+        { id: 'b', type: 'agent', agent: { ...agent, schemaVersion: '0.4' } },
+      ],
+      connections: [],
+      schemaVersion: '1.0',
+    };
+
+    const result = migrateWorkflowConfig(workflow);
+    expect(result.data.nodes).toEqual([
+      { id: 'a', type: 'agent', agent },
+      { id: 'b', type: 'agent', agent: { ...agent, schemaVersion: '1.0' } },
+    ]);
+    expect(result.changes).toEqual([
+      {
+        path: ['nodes', '1', 'agent', 'schemaVersion'],
+        message: 'Upgraded from 0.4 to 1.0: Introduces the schemaVersion field',
+      },
+    ]);
+    expect(
+      migrateWorkflowConfig({
+        ...workflow,
+        schemaVersion: undefined,
+      }).changes.map((change) => change.path.join('.'))
+    ).toEqual([
+      'schemaVersion',
+      'nodes.0.agent.schemaVersion',
+      'nodes.1.agent.schemaVersion',
+    ]);
+    expect(() =>
+      migrateWorkflowConfig({
+        ...workflow,
+        nodes: [
+          { id: 'a', type: 'agent', agent: { ...agent, schemaVersion: '9.0' } },
+        ],
+      })
+    ).toThrow(
+      'Cannot migrate the agent of node "a": Unsupported schema version "9.0"'
+    );
+  });
+});
+
+describe('migrateDocument', () => {
+  const migrations: Migration[] = [
+    {
+      from: '1.0',
+      to: '1.1',
+      description: 'Renames model to modelId',
+      migrate: ({ model, ...rest }, changes) => {
+        changes.push({ path: ['model'], message: 'Renamed to modelId' });
+        return { ...rest, modelId: model };
+      },
+    },
+    {
+      from: '1.1',
+      to: '2.0',
+      description: 'Wraps modelId in a model object',
+      migrate: ({ modelId, ...rest }) => ({ ...rest, model: { id: modelId } }),
+    },
+  ];
+
+  it('should apply steps in sequence and record changes', () => {
+    const result = migrateDocument(
+      { ...agent, schemaVersion: '1.0' },
+      migrations,
+      '2.0'
+    );
+
+    expect(result.data).toEqual({
+      id: 'agent1',
+      name: 'Test Agent',
+      provider: 'openai',
+      model: { id: 'gpt-4' },
+      schemaVersion: '2.0',
+    });
+    expect(result.changes.map((change) => change.message)).toEqual([
+      'Renamed to modelId',
+      'Upgraded from 1.0 to 1.1: Renames model to modelId',
+      'Upgraded from 1.1 to 2.0: Wraps modelId in a model object',
+    ]);
+  });
+
+  it('should list versions that reach the target', () => {
+    expect(getSupportedSchemaVersions(migrations, '2.0')).toEqual([
+      '1.0',
+      '1.1',
+      '2.0',
+    ]);
+    expect(getSupportedSchemaVersions(migrations, '1.1')).toEqual([
+      '1.0',
+      '1.1',
+    ]);
+    expect(getSupportedSchemaVersions(AGENT_MIGRATIONS)).toEqual([
+      '0.4',
+      '1.0',
+    ]);
+  });
+});
+
+describe('validators with schema versions', () => {
+  it('should return upgraded configurations', () => {
+    expect(validateAgentConfigStrict(agent).schemaVersion).toBe('1.0');
+    expect(
+      validateWorkflowConfigStrict({
+        schemaVersion: '0.4',
+        id: 'wf',
+        name: 'Workflow',
+        nodes: [{ id: 'a', type: 'agent', agent }],
+        connections: [],
+      }).schemaVersion
+    ).toBe('1.0');
+  });
+
+  it('should report unsupported versions', () => {
+    expect(validateAgentConfig({ ...agent, schemaVersion: '9.0' })).toEqual({
+      success: false,
+      error: {
+        message:
+          'Unsupported schema version "9.0"; supported versions are 0.4, 1.0',
+      },
+    });
+  });
+});
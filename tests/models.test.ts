@@ -0,0 +1,180 @@
+/**
+ * Tests for the model capability catalog
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createModelCatalog } from '../src/models/catalog';
+import { checkModelCapabilities } from '../src/models/capabilities';
+import { validateAgentConfig } from '../src/utils/validator';
+import { validateWorkflowConfig } from '../src/utils/workflow-validator';
+import type { AgentConfig } from '../src/types/agent';
+
+const agent: AgentConfig = {
+  id: 'writer',
+  name: 'Writer',
+  provider: 'anthropic',
+  model: 'claude-3-5-sonnet-20241022',
+  parameters: { temperature: 0.7, maxTokens: 4096 },
+};
+
+const lookup = { id: 'lookup', name: 'lookup', description: 'Look up' };
+
+describe('createModelCatalog', () => {
+  it('should resolve dated snapshots to the longest matching model', () => {
+    const models = createModelCatalog();
+
+    expect(models.getModel('anthropic', agent.model)?.id).toBe(
+      'claude-3-5-sonnet'
+    );
+    expect(models.getModel('openai', 'gpt-4o-mini-2024-07-18')?.id).toBe(
+      'gpt-4o-mini'
+    );
+    expect(
+      models.getModel('bedrock', 'anthropic.claude-3-haiku-20240307-v1:0')
+        ?.maxOutputTokens
+    ).toBe(4096);
+    expect(models.getModel('openai', 'gpt-4omni')).toBeUndefined();
+    expect(models.getProvider('custom')).toBeUndefined();
+  });
+
+  it('should register and replace models', () => {
+    const models = createModelCatalog({ includeBuiltIns: false });
+    models.registerProvider({
+      id: 'custom',
+      name: 'Local',
+      parameters: ['temperature', 'maxTokens'],
+      models: [],
+    });
+    const model = {
+      id: 'llama-3',
+      contextWindow: 8192,
+      tools: false,
+      vision: false,
+      jsonMode: true,
+    };
+    models.registerModel('custom', model);
+
+    expect(() => models.registerModel('custom', model)).toThrow(
+      'Model "llama-3" is already registered for provider "custom"'
+    );
+    models.registerModel(
+      'custom',
+      { ...model, tools: true },
+      { replace: true }
+    );
+    expect(models.getModel('custom', 'llama-3-8b')?.tools).toBe(true);
+    expect(() => models.registerModel('openai', model)).toThrow(
+      'Unknown provider "openai"'
+    );
+    expect(() =>
+      models.registerModel('custom', { ...model, contextWindow: 0 })
+    ).toThrow();
+    expect(models.listProviders().map((provider) => provider.id)).toEqual([
+      'custom',
+    ]);
+  });
+});
+
+describe('checkModelCapabilities', () => {
+  it('should accept supported settings', () => {
+    expect(checkModelCapabilities(agent)).toEqual([]);
+    expect(checkModelCapabilities({ ...agent, model: 'claude-9' })).toEqual([]);
+  });
+
+  it('should flag parameters the provider or model does not accept', () => {
+    expect(
+      checkModelCapabilities({
+        ...agent,
+        parameters: { temperature: 1.5, presencePenalty: 0.5, maxTokens: 9000 },
+      })
+    ).toEqual([
+      {
+        path: ['parameters', 'presencePenalty'],
+        message: 'presencePenalty is not supported by Anthropic',
+      },
+      {
+        path: ['parameters', 'temperature'],
+        message: 'temperature must be <= 1 for Anthropic',
+      },
+      {
+        path: ['parameters', 'maxTokens'],
+        message:
+          'maxTokens 9000 exceeds the 8192 output tokens of model "claude-3-5-sonnet"',
+      },
+    ]);
+    expect(
+      checkModelCapabilities({
+        ...agent,
+        provider: 'openai',
+        model: 'o3-mini',
+        parameters: { temperature: 1, maxTokens: 1000 },
+      })
+    ).toEqual([
+      {
+        path: ['parameters', 'temperature'],
+        message: 'temperature is not supported by model "o3-mini"',
+      },
+    ]);
+  });
+
+  it('should flag tools and output schemas the model cannot use', () => {
+    expect(
+      checkModelCapabilities({
+        ...agent,
+        provider: 'openai',
+        model: 'o1-mini',
+        parameters: undefined,
+        tools: [lookup],
+        outputSchema: { type: 'object' },
+      })
+    ).toEqual([
+      {
+        path: ['tools'],
+        message: 'Model "o1-mini" does not support tool calling',
+      },
+      {
+        path: ['outputSchema'],
+        message:
+          'Model "o1-mini" supports neither JSON mode nor tool calling, so it cannot produce structured output',
+      },
+    ]);
+  });
+});
+
+describe('model catalog in validation', () => {
+  const invalid = { ...agent, parameters: { frequencyPenalty: 1 } };
+
+  it('should only check agents when a catalog is given', () => {
+    expect(validateAgentConfig(invalid).success).toBe(true);
+    expect(
+      validateAgentConfig(invalid, { models: createModelCatalog() }).error
+        ?.issues
+    ).toEqual([
+      {
+        path: ['parameters', 'frequencyPenalty'],
+        message: 'frequencyPenalty is not supported by Anthropic',
+      },
+    ]);
+  });
+
+  it('should check inline workflow agents', () => {
+    const result = validateWorkflowConfig(
+      {
+        id: 'wf',
+        name: 'Workflow',
+        nodes: [
+          { id: 'start', type: 'trigger' },
+          { id: 'writer', type: 'agent', agent: invalid },
+        ],
+        connections: [{ id: 'c1', sourceId: 'start', targetId: 'writer' }],
+      },
+      { models: createModelCatalog() }
+    );
+    expect(result.error?.issues).toEqual([
+      {
+        path: ['nodes', '1', 'agent', 'parameters', 'frequencyPenalty'],
+        message: 'frequencyPenalty is not supported by Anthropic',
+      },
+    ]);
+  });
+});
@@ -3,12 +3,19 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
 import {
   mapAgentToN8nNode,
   mapWorkflowToN8n,
+  mapAgentToN8nNodeWithReport,
+  mapWorkflowToN8nWithReport,
+  mapN8nToWorkflow,
+  compileConditionToN8n,
 } from '../src/adapters/n8n.adapter';
 import type { AgentConfig } from '../src/types/agent';
 import type { WorkflowConfig } from '../src/types/workflow';
+import type { N8nWorkflow } from '../src/types/adapters';
 
 describe('n8n Adapter', () => {
   describe('mapAgentToN8nNode', () => {
@@ -337,4 +344,514 @@ describe('n8n Adapter', () => {
       expect(n8nWorkflow.nodes.some((n) => n.position[0] > 100)).toBe(true);
     });
   });
+
+  describe('mapN8nToWorkflow', () => {
+    it('should round-trip an exported workflow', () => {
+      const workflow: WorkflowConfig = {
+        id: 'support',
+        name: 'Support Workflow',
+        trigger: {
+          type: 'webhook',
+          config: { webhookUrl: 'https://example.com/hooks/support' },
+        },
+        nodes: [
+          { id: 'start', type: 'trigger' },
+          {
+            id: 'triage',
+            type: 'agent',
+            agent: {
+              id: 'triage',
+              name: 'Triage Agent',
+              provider: 'anthropic',
+              model: 'claude-3-opus',
+              systemPrompt: 'Route tickets',
+              parameters: { temperature: 0.2, maxTokens: 500, topP: 1 },
+              tools: [
+                { id: 'lookup', name: 'lookup', description: 'Find user' },
+              ],
+              memory: { type: 'buffer', maxMessages: 5 },
+            },
+          },
+          { id: 'check', type: 'condition' },
+          { id: 'loop', type: 'loop' },
+          { id: 'escalate', type: 'agent', agentId: 'escalation-agent' },
+          { id: 'done', type: 'end' },
+        ],
+        connections: [
+          { id: 'c1', sourceId: 'start', targetId: 'triage' },
+          { id: 'c2', sourceId: 'triage', targetId: 'check' },
+          { id: 'c3', sourceId: 'check', targetId: 'loop' },
+          { id: 'c4', sourceId: 'loop', targetId: 'escalate' },
+          { id: 'c5', sourceId: 'escalate', targetId: 'done' },
+        ],
+        tags: ['support'],
+      };
+
+      const { workflow: imported, issues } = mapN8nToWorkflow(
+        mapWorkflowToN8n(workflow)
+      );
+
+      expect(issues).toEqual([]);
+      expect(imported.name).toBe('Support Workflow');
+      expect(imported.tags).toEqual(['support']);
+      expect(imported.trigger).toEqual(workflow.trigger);
+      expect(imported.nodes.map((n) => [n.id, n.type])).toEqual([
+        ['start', 'trigger'],
+        ['triage', 'agent'],
+        ['check', 'condition'],
+        ['loop', 'loop'],
+        ['escalate', 'agent'],
+        ['done', 'end'],
+      ]);
+      expect(imported.nodes[1].agent).toEqual(workflow.nodes[1].agent);
+      expect(imported.nodes[4].agentId).toBe('escalation-agent');
+      expect(imported.connections.map((c) => [c.sourceId, c.targetId])).toEqual(
+        workflow.connections.map((c) => [c.sourceId, c.targetId])
+      );
+      expect(imported.nodes.every((n) => n.position)).toBe(true);
+    });
+
+    it('should label IF node outputs as true/false conditions', () => {
+      const n8nWorkflow: N8nWorkflow = {
+        name: 'Branching',
+        nodes: [
+          {
+            name: 'Check',
+            type: 'n8n-nodes-base.if',
+            typeVersion: 1,
+            position: [0, 0],
+            parameters: { conditions: { boolean: [] } },
+          },
+          {
+            name: 'Yes',
+            type: 'n8n-nodes-base.noOp',
+            typeVersion: 1,
+            position: [200, 0],
+            parameters: {},
+          },
+          {
+            name: 'No',
+            type: 'n8n-nodes-base.noOp',
+            typeVersion: 1,
+            position: [200, 100],
+            parameters: {},
+          },
+        ],
+        connections: {
+          Check: {
+            main: [
+              [{ node: 'Yes', type: 'main', index: 0 }],
+              [{ node: 'No', type: 'main', index: 0 }],
+            ],
+          },
+        },
+      };
+
+      const { workflow, issues } = mapN8nToWorkflow(n8nWorkflow);
+
+      expect(issues).toEqual([]);
+      expect(workflow.id).toBe('branching');
+      expect(workflow.nodes[0].metadata?.n8nParameters).toEqual({
+        conditions: { boolean: [] },
+      });
+      expect(workflow.connections).toEqual([
+        {
+          id: 'check-yes',
+          sourceId: 'check',
+          targetId: 'yes',
+          condition: 'true',
+          label: 'true',
+        },
+        {
+          id: 'check-no',
+          sourceId: 'check',
+          targetId: 'no',
+          condition: 'false',
+          label: 'false',
+        },
+      ]);
+    });
+
+    it('should keep unknown nodes in metadata and report them', () => {
+      const httpNode = {
+        name: 'HTTP Request',
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4,
+        position: [200, 0] as [number, number],
+        parameters: { url: 'https://api.example.com' },
+      };
+      const n8nWorkflow: N8nWorkflow = {
+        name: 'Fetch',
+        nodes: [
+          {
+            name: 'Start',
+            type: 'n8n-nodes-base.manualTrigger',
+            typeVersion: 1,
+            position: [0, 0],
+            parameters: {},
+          },
+          httpNode,
+        ],
+        connections: {
+          Start: { main: [[{ node: 'HTTP Request', type: 'main', index: 0 }]] },
+        },
+      };
+
+      const { workflow, issues } = mapN8nToWorkflow(n8nWorkflow);
+
+      expect(workflow.nodes[1].metadata?.n8nNode).toEqual(httpNode);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].path).toEqual(['nodes', '1']);
+
+      const reExported = mapWorkflowToN8n(workflow);
+      expect(reExported.nodes[1]).toMatchObject({
+        name: 'HTTP Request',
+        type: 'n8n-nodes-base.httpRequest',
+        parameters: { url: 'https://api.example.com' },
+      });
+      expect(reExported.connections['Trigger start'].main[0][0].node).toBe(
+        'HTTP Request'
+      );
+    });
+
+    it('should infer provider from credentials and report unmapped data', () => {
+      const n8nWorkflow: N8nWorkflow = {
+        name: 'Agents',
+        nodes: [
+          {
+            name: 'Writer',
+            type: '@n8n/n8n-nodes-langchain.agent',
+            typeVersion: 1,
+            position: [0, 0],
+            parameters: { model: 'gpt-4o', memory: { type: 'graph' } },
+            credentials: { openAiApi: { id: '7', name: 'OpenAI' } },
+          },
+          {
+            name: 'Hook',
+            type: 'n8n-nodes-base.webhook',
+            typeVersion: 1,
+            position: [0, 0],
+            parameters: { path: 'incoming' },
+          },
+        ],
+        connections: {
+          Hook: { main: [[{ node: 'Missing', type: 'main', index: 0 }]] },
+        },
+      };
+
+      const { workflow, issues } = mapN8nToWorkflow(n8nWorkflow, {
+        workflowId: 'agents',
+      });
+
+      expect(workflow.id).toBe('agents');
+      expect(workflow.nodes[0].agent).toMatchObject({
+        id: 'writer',
+        name: 'Writer',
+        provider: 'openai',
+        model: 'gpt-4o',
+      });
+      expect(workflow.trigger).toEqual({
+        type: 'webhook',
+        config: { path: 'incoming' },
+      });
+      expect(issues.map((i) => i.path.join('.'))).toEqual([
+        'nodes.0.parameters.memory',
+        'nodes.1.parameters.path',
+        'connections.Hook.main.0.0',
+      ]);
+    });
+
+    it('should rebuild agents from the sub-nodes of an n8n AI Agent export', () => {
+      const exported = JSON.parse(
+        readFileSync(join(__dirname, 'fixtures/n8n-ai-agent.json'), 'utf-8')
+      ) as N8nWorkflow;
+
+      const { workflow, issues } = mapN8nToWorkflow(exported);
+
+      expect(workflow.nodes.map((n) => [n.id, n.type])).toEqual([
+        ['when-chat-message-received', 'trigger'],
+        ['ai-agent', 'agent'],
+        ['edit-fields', 'condition'],
+        ['slack', 'end'],
+      ]);
+      expect(workflow.nodes[1].agent).toEqual({
+        id: 'ai-agent',
+        name: 'AI Agent',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        systemPrompt:
+          'You are a support agent for Acme. Answer billing questions using the tools.',
+        parameters: { temperature: 0.2, maxTokens: 800 },
+        memory: { type: 'buffer', maxMessages: 10 },
+        tools: [
+          {
+            id: 'Invoices',
+            name: 'Invoices',
+            description: 'Look up the invoices of a customer',
+            kind: 'http',
+            method: 'GET',
+            url: 'https://billing.acme.example/api/invoices',
+          },
+          { id: 'Calculator', name: 'Calculator', description: '' },
+        ],
+      });
+      expect(workflow.connections.map((c) => [c.sourceId, c.targetId])).toEqual(
+        [
+          ['when-chat-message-received', 'ai-agent'],
+          ['ai-agent', 'edit-fields'],
+          ['edit-fields', 'slack'],
+        ]
+      );
+      expect(issues.map((i) => i.path.join('.'))).toEqual([
+        'nodes.5',
+        'nodes.6',
+        'nodes.7',
+      ]);
+    });
+
+    it('should keep the outputs of unknown nodes through a round trip', () => {
+      const node = (name: string, type: string) => ({
+        name,
+        type,
+        typeVersion: 1,
+        position: [0, 0] as [number, number],
+        parameters: {},
+      });
+      const n8nWorkflow: N8nWorkflow = {
+        name: 'Routing',
+        nodes: [
+          node('Route', 'n8n-nodes-base.switch'),
+          node('End First', 'n8n-nodes-base.noOp'),
+          node('End Second', 'n8n-nodes-base.noOp'),
+        ],
+        connections: {
+          Route: {
+            main: [
+              [{ node: 'End First', type: 'main', index: 0 }],
+              [{ node: 'End Second', type: 'main', index: 0 }],
+            ],
+          },
+        },
+      };
+
+      const { workflow } = mapN8nToWorkflow(n8nWorkflow);
+      const { output, report } = mapWorkflowToN8nWithReport(workflow);
+
+      expect(output.connections.Route.main).toEqual(
+        n8nWorkflow.connections.Route.main
+      );
+      expect(
+        report.issues.filter((i) => i.path.includes('sourceHandle'))
+      ).toEqual([]);
+    });
+  });
+
+  describe('mapWorkflowToN8nWithReport', () => {
+    it('should report defaulted agent parameters and placeholder credentials', () => {
+      const { output, report } = mapAgentToN8nNodeWithReport({
+        id: 'agent1',
+        name: 'Agent',
+        provider: 'openai',
+        model: 'gpt-4',
+        parameters: { temperature: 0.2, stopSequences: ['END'] },
+      });
+
+      expect(output).toEqual(
+        mapAgentToN8nNode({
+          id: 'agent1',
+          name: 'Agent',
+          provider: 'openai',
+          model: 'gpt-4',
+          parameters: { temperature: 0.2, stopSequences: ['END'] },
+        })
+      );
+      expect(report.adapter).toBe('n8n');
+      expect(
+        report.issues.map((i) => [i.path.join('.'), i.kind, i.severity])
+      ).toEqual([
+        ['parameters.stopSequences', 'dropped', 'warning'],
+        ['parameters.maxTokens', 'defaulted', 'info'],
+        ['parameters.topP', 'defaulted', 'info'],
+        ['provider', 'defaulted', 'warning'],
+      ]);
+    });
+
+    it('should report approximated conditions and skipped connections', () => {
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Routing',
+        nodes: [
+          { id: 'start', type: 'trigger' },
+          { id: 'check', type: 'condition' },
+          { id: 'done', type: 'end' },
+        ],
+        connections: [
+          {
+            id: 'c1',
+            sourceId: 'start',
+            targetId: 'check',
+            condition: 'count > 1',
+          },
+          { id: 'c2', sourceId: 'check', targetId: 'done' },
+          { id: 'c3', sourceId: 'check', targetId: 'missing' },
+        ],
+        variables: [{ name: 'count', type: 'number' }],
+      };
+
+      const { report } = mapWorkflowToN8nWithReport(workflow);
+      const issues = report.issues.map((i) => [
+        i.path.join('.'),
+        i.kind,
+        i.severity,
+      ]);
+
+      expect(issues).toContainEqual(['nodes.0', 'defaulted', 'info']);
+      expect(issues).toContainEqual(['nodes.1', 'approximated', 'warning']);
+      expect(issues).toContainEqual([
+        'connections.0.condition',
+        'approximated',
+        'warning',
+      ]);
+      expect(issues).toContainEqual(['connections.2', 'dropped', 'error']);
+      expect(issues).toContainEqual(['variables', 'dropped', 'warning']);
+    });
+  });
+
+  describe('compileConditionToN8n', () => {
+    it('should compile comparison chains into native If rules', () => {
+      expect(
+        compileConditionToN8n("status == 'approved' && 0.8 < score", [
+          'status',
+          'score',
+        ])
+      ).toEqual({
+        conditions: {
+          string: [
+            {
+              value1: '={{ $json.status }}',
+              operation: 'equal',
+              value2: 'approved',
+            },
+          ],
+          number: [
+            {
+              value1: '={{ $json.score }}',
+              operation: 'larger',
+              value2: 0.8,
+            },
+          ],
+        },
+        combineOperation: 'all',
+      });
+    });
+
+    it('should fall back to a boolean n8n expression', () => {
+      expect(
+        compileConditionToN8n(
+          "!(tags contains 'urgent') || outputs.review.score >= 3",
+          ['tags'],
+          { review: 'Reviewer' }
+        )
+      ).toEqual({
+        conditions: {
+          boolean: [
+            {
+              value1:
+                '={{ (!(($json.tags ?? []).includes("urgent")) || ($("Reviewer").item.json.output?.score >= 3)) }}',
+              value2: true,
+            },
+          ],
+        },
+        combineOperation: 'all',
+      });
+    });
+
+    it('should quote non-identifier keys and test bare paths for truthiness', () => {
+      expect(
+        compileConditionToN8n('retry-count > 2 && outputs.review.my-key', [
+          'retry-count',
+        ])
+      ).toEqual({
+        conditions: {
+          number: [
+            {
+              value1: '={{ $json["retry-count"] }}',
+              operation: 'larger',
+              value2: 2,
+            },
+          ],
+          boolean: [
+            {
+              value1:
+                '={{ Boolean($("review").item.json.output?.["my-key"]) }}',
+              operation: 'equal',
+              value2: true,
+            },
+          ],
+        },
+        combineOperation: 'all',
+      });
+      expect(
+        compileConditionToN8n('!done || (flagged && score > 1)', [
+          'done',
+          'flagged',
+          'score',
+        ])
+      ).toEqual({
+        conditions: {
+          boolean: [
+            {
+              value1:
+                '={{ (!($json.done) || (Boolean($json.flagged) && ($json.score > 1))) }}',
+              value2: true,
+            },
+          ],
+        },
+        combineOperation: 'all',
+      });
+    });
+
+    it('should wire condition nodes to the true and false outputs', () => {
+      const workflow: WorkflowConfig = {
+        id: 'wf',
+        name: 'Routing',
+        nodes: [
+          { id: 'check', type: 'condition' },
+          { id: 'yes', type: 'end' },
+          { id: 'no', type: 'end' },
+        ],
+        connections: [
+          {
+            id: 'c1',
+            sourceId: 'check',
+            targetId: 'yes',
+            condition: 'approved',
+          },
+          { id: 'c2', sourceId: 'check', targetId: 'no' },
+        ],
+      };
+
+      const { output, report } = mapWorkflowToN8nWithReport(workflow);
+
+      expect(output.nodes[0].parameters).toEqual({
+        conditions: {
+          string: [
+            {
+              value1: '={{ $json.output }}',
+              operation: 'equal',
+              value2: 'approved',
+            },
+          ],
+        },
+        combineOperation: 'all',
+      });
+      expect(output.connections['Condition check'].main).toEqual([
+        [{ node: 'End yes', type: 'main', index: 0 }],
+        [{ node: 'End no', type: 'main', index: 0 }],
+      ]);
+      expect(report.issues.map((i) => i.path.join('.'))).not.toContain(
+        'connections.0.condition'
+      );
+    });
+  });
 });
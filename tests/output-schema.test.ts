@@ -0,0 +1,278 @@
+/**
+ * Tests for agent output schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkJsonSchema } from '../src/json-schema/check';
+import { validateJsonValue } from '../src/json-schema/validate';
+import { validateAgentConfig } from '../src/utils/validator';
+import { resolveAgentExtends } from '../src/agents/inheritance';
+import { executeWorkflow } from '../src/runtime/executor';
+import { createMockProvider } from '../src/runtime/mock-provider';
+import {
+  mapAgentToN8nNodeWithReport,
+  mapN8nToWorkflow,
+  mapWorkflowToN8n,
+} from '../src/adapters/n8n.adapter';
+import {
+  mapAgentToLangChain,
+  mapLangGraphToWorkflow,
+  mapWorkflowToLangGraph,
+} from '../src/adapters/langchain.adapter';
+import {
+  mapAgentToCrewAgentWithReport,
+  mapCrewToWorkflow,
+  mapWorkflowToCrewWithReport,
+} from '../src/adapters/crewai.adapter';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+
+const triage = {
+  type: 'object',
+  description: 'Ticket triage',
+  properties: {
+    category: { enum: ['billing', 'technical', 'other'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+  },
+  required: ['category'],
+  additionalProperties: false,
+  $defs: { tag: { type: 'string', minLength: 1 } },
+};
+
+const agent: AgentConfig = {
+  id: 'triage',
+  name: 'Triage',
+  provider: 'openai',
+  model: 'gpt-4o',
+  outputSchema: triage,
+};
+
+const workflow: WorkflowConfig = {
+  id: 'support',
+  name: 'Support',
+  nodes: [{ id: 'triage', type: 'agent', agent }],
+  connections: [],
+};
+
+describe('checkJsonSchema', () => {
+  it('should accept well-formed schemas', () => {
+    expect(checkJsonSchema(triage)).toEqual([]);
+    expect(
+      checkJsonSchema({ $ref: 'schemas/triage.json', items: [true, {}] })
+    ).toEqual([]);
+  });
+
+  it('should report malformed keywords at their path', () => {
+    expect(
+      checkJsonSchema({
+        type: 'object',
+        properties: {
+          score: { type: 'float' },
+          code: { type: 'string', pattern: '(' },
+        },
+        required: 'score',
+        anyOf: [],
+        minItems: -1,
+        items: { $ref: '#/$defs/missing' },
+      })
+    ).toEqual([
+      {
+        path: ['items', '$ref'],
+        message: 'Reference "#/$defs/missing" does not point into the schema',
+      },
+      {
+        path: ['properties', 'score', 'type'],
+        message:
+          'Unknown type "float"; expected one of string, number, integer, boolean, object, array, null',
+      },
+      {
+        path: ['properties', 'code', 'pattern'],
+        message: 'Invalid regular expression "("',
+      },
+      {
+        path: ['anyOf'],
+        message: 'anyOf must be a non-empty array of schemas',
+      },
+      {
+        path: ['required'],
+        message: 'required must be an array of property names',
+      },
+      {
+        path: ['minItems'],
+        message: 'minItems must be a non-negative integer',
+      },
+    ]);
+  });
+
+  it('should make agent validation reject invalid output schemas', () => {
+    expect(validateAgentConfig(agent).success).toBe(true);
+
+    const result = validateAgentConfig({
+      ...agent,
+      outputSchema: {
+        type: 'object',
+        properties: { score: { type: 'float' } },
+      },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues?.[0].path).toEqual([
+      'outputSchema',
+      'properties',
+      'score',
+      'type',
+    ]);
+  });
+});
+
+describe('validateJsonValue', () => {
+  it('should report values that do not match', () => {
+    expect(
+      validateJsonValue({ category: 'billing', confidence: 0.9 }, triage)
+    ).toEqual([]);
+    expect(
+      validateJsonValue(
+        { category: 'refund', confidence: 2, tags: [''], extra: true },
+        triage
+      )
+    ).toEqual([
+      {
+        path: ['category'],
+        message: 'Must be one of "billing", "technical", "other"',
+      },
+      { path: ['confidence'], message: 'Must be <= 1' },
+      { path: ['tags', '0'], message: 'Must be at least 1 characters' },
+      { path: ['extra'], message: 'Property is not allowed' },
+    ]);
+    expect(validateJsonValue([], triage)).toEqual([
+      { path: [], message: 'Expected object, got array' },
+    ]);
+  });
+
+  it('should combine subschemas and resolve external references', () => {
+    const schema = {
+      oneOf: [{ type: 'integer' }, { type: 'number', multipleOf: 0.5 }],
+    };
+    expect(validateJsonValue(1.5, schema)).toEqual([]);
+    expect(validateJsonValue(2, schema)).toEqual([
+      {
+        path: [],
+        message: 'Must match exactly one schema in oneOf; matched 2',
+      },
+    ]);
+
+    const ref = { $ref: 'schemas/triage.json' };
+    expect(validateJsonValue({}, ref)).toEqual([
+      { path: [], message: 'Unresolved reference "schemas/triage.json"' },
+    ]);
+    expect(
+      validateJsonValue({ tags: [1] }, ref, {
+        schemas: { 'schemas/triage.json': triage },
+      })
+    ).toEqual([
+      { path: ['category'], message: 'Required property is missing' },
+      { path: ['tags', '0'], message: 'Expected string, got number' },
+    ]);
+  });
+});
+
+describe('output schemas in execution', () => {
+  it('should parse and validate agent output', async () => {
+    const provider = createMockProvider({
+      responses: { triage: '{"category":"billing","confidence":0.8}' },
+    });
+    const result = await executeWorkflow(workflow, { provider });
+
+    expect(result.output).toEqual({ category: 'billing', confidence: 0.8 });
+  });
+
+  it('should fail the run on output that does not match', async () => {
+    const result = await executeWorkflow(workflow, {
+      provider: createMockProvider({ responses: { triage: 'billing' } }),
+    });
+    expect(result.context.status).toBe('failed');
+    expect(result.error?.message).toBe(
+      'Output of agent node "triage" is not JSON, but the agent has an output schema'
+    );
+
+    const mismatch = await executeWorkflow(workflow, {
+      provider: createMockProvider({
+        responses: { triage: { output: { category: 'refund' } } },
+      }),
+    });
+    expect(mismatch.error).toEqual({
+      nodeId: 'triage',
+      message:
+        'Output of agent node "triage" does not match its output schema: category: Must be one of "billing", "technical", "other"',
+    });
+  });
+});
+
+describe('output schemas in adapters', () => {
+  it('should export an OpenAI response_format to n8n', () => {
+    const { output, report } = mapAgentToN8nNodeWithReport(agent);
+    expect(output.parameters.responseFormat).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'triage', schema: triage },
+    });
+    expect(
+      report.issues.some((issue) => issue.path[0] === 'outputSchema')
+    ).toBe(false);
+
+    expect(
+      mapAgentToN8nNodeWithReport({ ...agent, provider: 'anthropic' }).report
+        .issues
+    ).toContainEqual(
+      expect.objectContaining({ path: ['outputSchema'], kind: 'approximated' })
+    );
+
+    const { workflow: imported } = mapN8nToWorkflow(mapWorkflowToN8n(workflow));
+    expect(imported.nodes[0].agent?.outputSchema).toEqual(triage);
+  });
+
+  it('should export withStructuredOutput arguments to LangChain', () => {
+    expect(mapAgentToLangChain(agent).structuredOutput).toEqual({
+      schema: triage,
+      name: 'triage',
+      method: 'jsonSchema',
+    });
+    expect(
+      mapAgentToLangChain({ ...agent, provider: 'anthropic' }).structuredOutput
+        ?.method
+    ).toBe('functionCalling');
+
+    const { workflow: imported } = mapLangGraphToWorkflow(
+      mapWorkflowToLangGraph(workflow)
+    );
+    expect(
+      imported.nodes.find((node) => node.id === 'triage')?.agent?.outputSchema
+    ).toEqual(triage);
+  });
+
+  it('should set the CrewAI task output_json', () => {
+    expect(mapAgentToCrewAgentWithReport(agent).report.issues).toContainEqual(
+      expect.objectContaining({ path: ['outputSchema'], kind: 'dropped' })
+    );
+
+    const { output: crew, report } = mapWorkflowToCrewWithReport(workflow);
+    expect(crew.tasks[0]).toMatchObject({
+      outputJson: triage,
+      expectedOutput:
+        'A JSON object matching the output schema (Ticket triage)',
+    });
+    expect(
+      report.issues.some((issue) => issue.path.includes('outputSchema'))
+    ).toBe(false);
+
+    const { workflow: imported } = mapCrewToWorkflow(crew);
+    expect(imported.nodes[0].agent?.outputSchema).toEqual(triage);
+  });
+
+  it('should replace an inherited output schema as a whole', () => {
+    const flattened = resolveAgentExtends(
+      { id: 'strict', extends: 'triage', outputSchema: { type: 'string' } },
+      (id) => (id === 'triage' ? agent : undefined)
+    ) as AgentConfig;
+    expect(flattened.outputSchema).toEqual({ type: 'string' });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for the adapter registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z, ZodError } from 'zod';
+import {
+  createAdapterRegistry,
+  convert,
+  convertAgent,
+  convertWithReport,
+  importWorkflow,
+  listAdapters,
+} from '../src/adapters/registry';
+import { mapWorkflowToN8n } from '../src/adapters/n8n.adapter';
+import { hasFidelityIssues } from '../src/utils/fidelity';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig } from '../src/types/workflow';
+import type { FrameworkAdapter } from '../src/types/adapters';
+
+const agent: AgentConfig = {
+  id: 'agent1',
+  name: 'Research Agent',
+  provider: 'openai',
+  model: 'gpt-4',
+};
+
+const workflow: WorkflowConfig = {
+  id: 'workflow1',
+  name: 'Research Workflow',
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'research', type: 'agent', agent },
+  ],
+  connections: [{ id: 'c1', sourceId: 'start', targetId: 'research' }],
+};
+
+const runtimeAdapter: FrameworkAdapter<
+  { agent: string },
+  { steps: string[] },
+  { prefix: string }
+> = {
+  name: 'my-runtime',
+  version: '2.1.0',
+  description: 'Internal runtime',
+  capabilities: ['agent-export', 'workflow-export'],
+  optionsSchema: z.object({ prefix: z.string().default('step') }),
+  exportAgent: (a) => ({ agent: a.id }),
+  exportWorkflow: (w, options) => ({
+    steps: w.nodes.map((n) => `${options.prefix}:${n.id}`),
+  }),
+};
+
+describe('Adapter Registry', () => {
+  describe('built-in adapters', () => {
+    it('should register n8n, LangChain, CrewAI and AutoGen by default', () => {
+      expect(listAdapters().map((a) => a.name)).toEqual([
+        'n8n',
+        'langchain',
+        'crewai',
+        'autogen',
+      ]);
+      expect(listAdapters()[0]).toEqual({
+        name: 'n8n',
+        version: '1.0.0',
+        description: 'n8n workflow automation',
+        capabilities: ['agent-export', 'workflow-export', 'import'],
+      });
+    });
+
+    it('should convert through the same functions as the direct exports', () => {
+      expect(convert(workflow, 'n8n', { nodeSpacing: 300 })).toEqual(
+        mapWorkflowToN8n(workflow, { nodeSpacing: 300 })
+      );
+      expect(convert(workflow, 'crewai').agents).toHaveLength(1);
+      expect(convert(workflow, 'langchain').entryPoint).toBe('start');
+      expect(convertAgent(agent, 'langchain').llm.modelName).toBe(
+        'openai/gpt-4'
+      );
+    });
+
+    it('should import through the registry', () => {
+      const n8nWorkflow = convert(workflow, 'n8n');
+      const { workflow: imported } = importWorkflow(n8nWorkflow, 'n8n', {
+        workflowId: 'imported',
+      });
+
+      expect(imported.id).toBe('imported');
+      expect(imported.nodes).toHaveLength(2);
+    });
+
+    it('should validate options against the adapter schema', () => {
+      expect(() => convert(workflow, 'n8n', { nodeSpacing: -1 })).toThrow(
+        ZodError
+      );
+      expect(() =>
+        convert(workflow, 'crewai', { unknownOption: true } as never)
+      ).toThrow(ZodError);
+    });
+  });
+
+  describe('createAdapterRegistry', () => {
+    it('should register and convert with a custom adapter', () => {
+      const registry = createAdapterRegistry();
+      registry.register(runtimeAdapter);
+
+      expect(registry.has('my-runtime')).toBe(true);
+      expect(registry.convert(workflow, 'my-runtime')).toEqual({
+        steps: ['step:start', 'step:research'],
+      });
+      expect(registry.convertAgent(agent, 'my-runtime')).toEqual({
+        agent: 'agent1',
+      });
+    });
+
+    it('should start empty without built-ins', () => {
+      const registry = createAdapterRegistry({ includeBuiltIns: false });
+
+      expect(registry.list()).toEqual([]);
+      expect(() => registry.convert(workflow, 'n8n')).toThrow(
+        'Unknown adapter "n8n". Registered adapters: none'
+      );
+    });
+
+    it('should reject duplicate names unless replacing', () => {
+      const registry = createAdapterRegistry({ includeBuiltIns: false });
+      registry.register(runtimeAdapter);
+
+      expect(() => registry.register(runtimeAdapter)).toThrow(
+        'Adapter "my-runtime" is already registered'
+      );
+
+      registry.register(
+        { ...runtimeAdapter, version: '3.0.0' },
+        { replace: true }
+      );
+      expect(registry.list()[0].version).toBe('3.0.0');
+    });
+
+    it('should reject invalid registrations', () => {
+      const registry = createAdapterRegistry({ includeBuiltIns: false });
+
+      expect(() =>
+        registry.register({ ...runtimeAdapter, name: 'My Runtime' })
+      ).toThrow(ZodError);
+      expect(() =>
+        registry.register({ ...runtimeAdapter, version: 'latest' })
+      ).toThrow(ZodError);
+      expect(() =>
+        registry.register({
+          ...runtimeAdapter,
+          capabilities: ['import'],
+        })
+      ).toThrow(
+        'Adapter "my-runtime" declares import but does not implement importWorkflow()'
+      );
+    });
+
+    it('should reject conversions the adapter does not support', () => {
+      const registry = createAdapterRegistry({ includeBuiltIns: false });
+      registry.register(runtimeAdapter);
+
+      expect(() => registry.importWorkflow({}, 'my-runtime')).toThrow(
+        'Adapter "my-runtime" does not support import'
+      );
+    });
+
+    it('should unregister adapters', () => {
+      const registry = createAdapterRegistry();
+
+      expect(registry.unregister('crewai')).toBe(true);
+      expect(registry.unregister('crewai')).toBe(false);
+      expect(registry.get('crewai')).toBeUndefined();
+    });
+  });
+
+  describe('convertWithReport', () => {
+    it('should return the conversion and its fidelity report', () => {
+      const { output, report } = convertWithReport(workflow, 'n8n');
+
+      expect(output).toEqual(mapWorkflowToN8n(workflow));
+      expect(report.adapter).toBe('n8n');
+      expect(hasFidelityIssues(report)).toBe(false);
+      expect(hasFidelityIssues(report, 'warning')).toBe(true);
+    });
+
+    it('should reject adapters without fidelity reports', () => {
+      const registry = createAdapterRegistry({ includeBuiltIns: false });
+      registry.register(runtimeAdapter);
+
+      expect(() => registry.convertWithReport(workflow, 'my-runtime')).toThrow(
+        'Adapter "my-runtime" does not provide fidelity reports'
+      );
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Tests for prompt templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkWorkflowTemplates,
+  getTemplateVariables,
+  parsePromptTemplate,
+  renderAgentTemplates,
+  renderPromptTemplate,
+} from '../src/templates/template';
+import {
+  compileTemplateToN8n,
+  compileTemplateToPython,
+  parseTemplateFromN8n,
+  parseTemplateFromPython,
+} from '../src/templates/compile';
+import { validateWorkflowConfig } from '../src/utils/workflow-validator';
+import { executeWorkflow } from '../src/runtime/executor';
+import { createMockProvider } from '../src/runtime/mock-provider';
+import {
+  mapAgentToN8nNodeWithReport,
+  mapN8nToWorkflow,
+  mapWorkflowToN8n,
+} from '../src/adapters/n8n.adapter';
+import {
+  mapAgentToLangChain,
+  mapAgentToLangChainWithReport,
+  mapLangGraphToWorkflow,
+  mapWorkflowToLangGraph,
+} from '../src/adapters/langchain.adapter';
+import {
+  mapAgentToCrewAgent,
+  mapAgentToCrewAgentWithReport,
+  mapCrewAgentToAgent,
+} from '../src/adapters/crewai.adapter';
+import type { AgentConfig } from '../src/types/agent';
+import type { WorkflowConfig, WorkflowVariable } from '../src/types/workflow';
+
+const variables: WorkflowVariable[] = [
+  { name: 'customer', type: 'string', required: true },
+  { name: 'language', type: 'string', defaultValue: 'English' },
+  { name: 'limit', type: 'number' },
+];
+
+const agent: AgentConfig = {
+  id: 'support',
+  name: 'Support',
+  provider: 'openai',
+  model: 'gpt-4',
+  systemPrompt:
+    'You help {{ customer }} in {{language}}. Reply as {"ok": true}',
+  tools: [
+    {
+      id: 'lookup',
+      name: 'lookup',
+      description: 'Look up orders for {{ customer }}',
+    },
+  ],
+};
+
+const workflow: WorkflowConfig = {
+  id: 'support-flow',
+  name: 'Support',
+  variables,
+  nodes: [
+    { id: 'start', type: 'trigger' },
+    { id: 'support', type: 'agent', agent },
+  ],
+  connections: [{ id: 'c1', sourceId: 'start', targetId: 'support' }],
+};
+
+describe('parsePromptTemplate', () => {
+  it('should split text and placeholders, leaving other braces literal', () => {
+    expect(parsePromptTemplate('Hi {{ name }}, {x} {{ not valid }}')).toEqual([
+      { type: 'text', value: 'Hi ' },
+      { type: 'variable', name: 'name' },
+      { type: 'text', value: ', {x} {{ not valid }}' },
+    ]);
+    expect(getTemplateVariables('{{ a }} {{b}} {{ a }}')).toEqual(['a', 'b']);
+  });
+});
+
+describe('renderPromptTemplate', () => {
+  it('should fill values and defaults', () => {
+    expect(
+      renderPromptTemplate(agent.systemPrompt!, {
+        variables,
+        values: { customer: 'Acme' },
+      })
+    ).toBe('You help Acme in English. Reply as {"ok": true}');
+    expect(
+      renderPromptTemplate('Top {{ limit }} of {{ tags }}', {
+        values: { limit: 3, tags: ['a'] },
+      })
+    ).toBe('Top 3 of ["a"]');
+    expect(renderPromptTemplate('Max {{ limit }}.', { variables })).toBe(
+      'Max .'
+    );
+  });
+
+  it('should reject undeclared, missing and mistyped variables', () => {
+    expect(() =>
+      renderPromptTemplate('{{ tone }}', { variables, values: { tone: 'x' } })
+    ).toThrow('Placeholder "{{ tone }}" does not refer to a declared variable');
+    expect(() => renderPromptTemplate('{{ customer }}', { variables })).toThrow(
+      'Missing value for required variable "customer"'
+    );
+    expect(() => renderPromptTemplate('{{ tone }}')).toThrow(
+      'Missing value for required variable "tone"'
+    );
+    expect(() =>
+      renderPromptTemplate('{{ limit }}', { variables, values: { limit: '3' } })
+    ).toThrow('Variable "limit" must be a number, got string');
+  });
+
+  it('should render agent system prompts and tool descriptions', () => {
+    const rendered = renderAgentTemplates(agent, {
+      variables,
+      values: { customer: 'Acme' },
+    });
+    expect(rendered.systemPrompt).toContain('You help Acme');
+    expect(rendered.tools?.[0].description).toBe('Look up orders for Acme');
+  });
+});
+
+describe('template checks', () => {
+  it('should report placeholders that name undeclared variables', () => {
+    const broken: WorkflowConfig = {
+      ...workflow,
+      variables: [{ name: 'language', type: 'string' }],
+    };
+
+    expect(checkWorkflowTemplates(workflow)).toEqual([]);
+    expect(checkWorkflowTemplates(broken)).toEqual([
+      {
+        path: ['nodes', '1', 'agent', 'systemPrompt'],
+        message:
+          'Placeholder "{{ customer }}" does not refer to a declared variable',
+      },
+      {
+        path: ['nodes', '1', 'agent', 'tools', '0', 'description'],
+        message:
+          'Placeholder "{{ customer }}" does not refer to a declared variable',
+      },
+    ]);
+    expect(validateWorkflowConfig(broken).error?.issues).toHaveLength(2);
+    expect(validateWorkflowConfig(workflow).success).toBe(true);
+  });
+});
+
+describe('executeWorkflow with templates', () => {
+  it('should render agent prompts from workflow variables', async () => {
+    const prompts: string[] = [];
+    const provider = createMockProvider();
+    const result = await executeWorkflow(workflow, {
+      provider: {
+        name: 'recording',
+        async generate(request) {
+          prompts.push(request.agent.systemPrompt!);
+          return provider.generate(request);
+        },
+      },
+      input: 'Where is my order?',
+      variables: { customer: 'Acme', language: 'French' },
+    });
+
+    expect(result.context.status).toBe('completed');
+    expect(prompts).toEqual(['You help Acme in French. Reply as {"ok": true}']);
+  });
+});
+
+describe('template translation', () => {
+  it('should compile to and parse from Python format strings', () => {
+    const python = compileTemplateToPython(agent.systemPrompt!);
+    expect(python).toBe(
+      'You help {customer} in {language}. Reply as {{"ok": true}}'
+    );
+    expect(parseTemplateFromPython(python)).toBe(
+      'You help {{ customer }} in {{ language }}. Reply as {"ok": true}'
+    );
+    expect(compileTemplateToPython('{{ a }} {b}', false)).toBe('{a} {b}');
+  });
+
+  it('should compile to and parse from n8n expressions', () => {
+    expect(compileTemplateToN8n('Hi {{ name }}')).toBe('=Hi {{ $json.name }}');
+    expect(compileTemplateToN8n('No placeholders')).toBe('No placeholders');
+    expect(parseTemplateFromN8n('=Hi {{ $json.name }}')).toBe('Hi {{ name }}');
+    expect(parseTemplateFromN8n('={{ $json.a + 1 }}')).toBe(
+      '={{ $json.a + 1 }}'
+    );
+  });
+
+  it('should translate placeholders in n8n exports and imports', () => {
+    const { output, report } = mapAgentToN8nNodeWithReport(agent);
+    expect(output.parameters.systemPrompt).toBe(
+      '=You help {{ $json.customer }} in {{ $json.language }}. Reply as {"ok": true}'
+    );
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        path: ['tools', '0', 'description'],
+        kind: 'approximated',
+      })
+    );
+
+    const { workflow: imported } = mapN8nToWorkflow(mapWorkflowToN8n(workflow));
+    const importedAgent = imported.nodes.find((n) => n.type === 'agent')!.agent;
+    expect(importedAgent?.systemPrompt).toBe(
+      'You help {{ customer }} in {{ language }}. Reply as {"ok": true}'
+    );
+    expect(importedAgent?.tools?.[0].description).toBe(
+      'Look up orders for {{ customer }}'
+    );
+  });
+
+  it('should translate placeholders in LangChain exports and imports', () => {
+    const lcAgent = mapAgentToLangChain(agent);
+    expect(lcAgent.systemMessage).toBe(
+      'You help {customer} in {language}. Reply as {{"ok": true}}'
+    );
+    expect(lcAgent.tools[0].description).toBe('Look up orders for {customer}');
+    expect(
+      mapAgentToLangChainWithReport(agent).report.issues.filter(
+        (issue) => issue.kind === 'approximated'
+      )
+    ).toHaveLength(2);
+
+    const { workflow: imported } = mapLangGraphToWorkflow(
+      mapWorkflowToLangGraph(workflow)
+    );
+    expect(
+      imported.nodes.find((n) => n.type === 'agent')?.agent?.systemPrompt
+    ).toBe('You help {{ customer }} in {{ language }}. Reply as {"ok": true}');
+  });
+
+  it('should translate placeholders in CrewAI exports and imports', () => {
+    const crewAgent = mapAgentToCrewAgent(agent);
+    expect(crewAgent.goal).toBe(
+      'You help {customer} in {language}. Reply as {"ok": true}'
+    );
+    expect(mapCrewAgentToAgent(crewAgent).systemPrompt).toBe(
+      'You help {{ customer }} in {{ language }}. Reply as {"ok": true}'
+    );
+  });
+
+  it('should report literal braces CrewAI would read as kickoff inputs', () => {
+    const { report } = mapAgentToCrewAgentWithReport({
+      ...agent,
+      systemPrompt: 'You help {{ customer }}. Reply as {answer} or {"ok": 1}',
+      description: 'Fills {slots}',
+    });
+
+    expect(report.issues.filter((issue) => issue.severity === 'error')).toEqual(
+      [
+        expect.objectContaining({
+          path: ['systemPrompt'],
+          message: expect.stringContaining('{answer}'),
+        }),
+        expect.objectContaining({
+          path: ['description'],
+          message: expect.stringContaining('{slots}'),
+        }),
+      ]
+    );
+    expect(
+      mapAgentToCrewAgentWithReport(agent).report.issues.some(
+        (issue) => issue.severity === 'error'
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for tool parameter schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkAgentToolParameters,
+  checkToolParameters,
+} from '../src/tools/parameters';
+import { validateAgentConfig } from '../src/utils/validator';
+import { validateWorkflowConfig } from '../src/utils/workflow-validator';
+import {
+  mapAgentToLangChain,
+  mapLangGraphToWorkflow,
+  mapWorkflowToLangGraph,
+} from '../src/adapters/langchain.adapter';
+import { mapAgentToCrewAgentWithReport } from '../src/adapters/crewai.adapter';
+import type { AgentConfig, Tool } from '../src/types/agent';
+
+const lookup: Tool = {
+  id: 'lookup',
+  name: 'lookup',
+  description: 'Look up a customer',
+  strict: true,
+  parameters: {
+    type: 'object',
+    properties: {
+      email: { type: 'string' },
+      address: {
+        type: 'object',
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+        additionalProperties: false,
+      },
+    },
+    required: ['email', 'address'],
+    additionalProperties: false,
+  },
+};
+
+const agent: AgentConfig = {
+  id: 'support',
+  name: 'Support',
+  provider: 'openai',
+  model: 'gpt-4o',
+  tools: [lookup],
+};
+
+describe('tool parameter schemas', () => {
+  it('should reject malformed schemas at the offending keyword', () => {
+    const result = validateAgentConfig({
+      ...agent,
+      provider: 'custom',
+      tools: [
+        {
+          ...lookup,
+          parameters: {
+            type: 'object',
+            properties: { email: { type: 'text' } },
+            required: 'email',
+          },
+        },
+      ],
+    });
+
+    expect(result.error?.issues).toEqual([
+      {
+        path: ['tools', '0', 'parameters', 'properties', 'email', 'type'],
+        message:
+          'Unknown type "text"; expected one of string, number, integer, boolean, object, array, null',
+      },
+      {
+        path: ['tools', '0', 'parameters', 'required'],
+        message: 'required must be an array of property names',
+      },
+    ]);
+  });
+
+  it('should accept strict-compatible schemas', () => {
+    expect(checkToolParameters(lookup, 'openai')).toEqual([]);
+    expect(validateAgentConfig(agent).success).toBe(true);
+  });
+
+  it('should apply OpenAI strict mode rules to nested objects', () => {
+    const tool: Tool = {
+      ...lookup,
+      parameters: {
+        type: 'object',
+        properties: {
+          email: { type: 'string' },
+          tags: {
+            type: 'array',
+            items: { type: 'object', properties: { name: { type: 'string' } } },
+            uniqueItems: true,
+          },
+        },
+        required: ['email'],
+        additionalProperties: false,
+      },
+    };
+
+    expect(checkToolParameters(tool, 'azure-openai')).toEqual([
+      {
+        path: ['parameters', 'required'],
+        message: 'Strict mode requires "tags" to be required',
+      },
+      {
+        path: ['parameters', 'properties', 'tags', 'uniqueItems'],
+        message: 'Strict mode does not support uniqueItems',
+      },
+      {
+        path: [
+          'parameters',
+          'properties',
+          'tags',
+          'items',
+          'additionalProperties',
+        ],
+        message: 'Strict mode requires additionalProperties: false',
+      },
+      {
+        path: ['parameters', 'properties', 'tags', 'items', 'required'],
+        message: 'Strict mode requires "name" to be required',
+      },
+    ]);
+    expect(checkToolParameters({ ...tool, strict: false }, 'openai')).toEqual(
+      []
+    );
+  });
+
+  it('should require an object at the root for OpenAI and Anthropic', () => {
+    const tool: Tool = {
+      ...lookup,
+      strict: undefined,
+      parameters: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+    };
+
+    expect(checkToolParameters(tool, 'anthropic')).toEqual([
+      {
+        path: ['parameters', 'type'],
+        message: 'Anthropic input_schema must have type "object"',
+      },
+      {
+        path: ['parameters', 'anyOf'],
+        message: 'Anthropic input_schema must not use anyOf at the root',
+      },
+    ]);
+    expect(checkToolParameters(tool, 'openai')[0].message).toBe(
+      'Function parameters must have type "object"'
+    );
+    expect(checkToolParameters(tool, 'mistral')).toEqual([]);
+  });
+
+  it('should report provider rules in validation results', () => {
+    const tools = [{ id: 'noop', name: 'noop', description: '' }, lookup];
+    const loose = { ...agent, provider: 'anthropic' as const, tools };
+    const broken = {
+      ...loose,
+      tools: [tools[0], { ...lookup, parameters: { type: 'string' } }],
+    };
+
+    expect(validateAgentConfig(loose).success).toBe(true);
+    expect(validateAgentConfig(broken).error?.issues).toEqual([
+      {
+        path: ['tools', '1', 'parameters', 'type'],
+        message: 'Anthropic input_schema must have type "object"',
+      },
+    ]);
+    expect(checkAgentToolParameters(broken, ['agent'])[0].path).toEqual([
+      'agent',
+      'tools',
+      '1',
+      'parameters',
+      'type',
+    ]);
+
+    const workflow = validateWorkflowConfig({
+      id: 'wf',
+      name: 'Workflow',
+      nodes: [{ id: 'support', type: 'agent', agent: broken }],
+      connections: [],
+    });
+    expect(workflow.error?.issues?.[0].path).toEqual([
+      'nodes',
+      '0',
+      'agent',
+      'tools',
+      '1',
+      'parameters',
+      'type',
+    ]);
+  });
+});
+
+describe('tool strict mode in adapters', () => {
+  it('should pass strict to LangChain and report it dropped for CrewAI', () => {
+    const langchain = mapAgentToLangChain(agent);
+    expect(langchain.tools[0].strict).toBe(true);
+    const { workflow } = mapLangGraphToWorkflow(
+      mapWorkflowToLangGraph({
+        id: 'wf',
+        name: 'Workflow',
+        nodes: [{ id: 'support', type: 'agent', agent }],
+        connections: [],
+      })
+    );
+    expect(
+      workflow.nodes.find((node) => node.id === 'support')?.agent?.tools?.[0]
+        .strict
+    ).toBe(true);
+
+    expect(mapAgentToCrewAgentWithReport(agent).report.issues).toContainEqual(
+      expect.objectContaining({
+        path: ['tools', '0', 'strict'],
+        kind: 'dropped',
+      })
+    );
+  });
+});
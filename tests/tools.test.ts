@@ -0,0 +1,301 @@
+/**
+ * Tests for tool kinds
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkToolArguments,
+  getToolKind,
+  getToolSettings,
+  getUrlTemplateVariables,
+} from '../src/tools/kinds';
+import { validateAgentConfig } from '../src/utils/validator';
+import { serializeAgentConfig } from '../src/documents/serializer';
+import {
+  mapAgentToN8nNodeWithReport,
+  mapN8nToWorkflow,
+  mapWorkflowToN8n,
+} from '../src/adapters/n8n.adapter';
+import {
+  mapAgentToLangChainWithReport,
+  mapLangGraphToWorkflow,
+  mapWorkflowToLangGraph,
+} from '../src/adapters/langchain.adapter';
+import {
+  mapAgentToCrewAgentWithReport,
+  mapCrewAgentToAgent,
+} from '../src/adapters/crewai.adapter';
+import type { AgentConfig, Tool } from '../src/types/agent';
+
+const tools: Tool[] = [
+  {
+    id: 'lookup',
+    name: 'lookup',
+    description: 'Look up a customer',
+    parameters: {
+      type: 'object',
+      properties: { email: { type: 'string' } },
+    },
+  },
+  {
+    kind: 'http',
+    id: 'orders',
+    name: 'get_order',
+    description: 'Fetch an order',
+    parameters: {
+      type: 'object',
+      properties: { orderId: { type: 'string' }, fields: { type: 'string' } },
+    },
+    method: 'POST',
+    url: 'https://api.example.com/orders/{orderId}',
+    headers: { Authorization: { $secret: 'env', name: 'ORDERS_TOKEN' } },
+    body: { select: 'fields' },
+  },
+  {
+    kind: 'mcp',
+    id: 'files',
+    name: 'read_file',
+    description: 'Read a file',
+    server: { url: 'https://mcp.example.com/sse' },
+    toolName: 'read_file',
+  },
+  {
+    kind: 'code',
+    id: 'python',
+    name: 'python',
+    description: 'Run Python',
+    language: 'python',
+    timeoutMs: 5000,
+  },
+  {
+    kind: 'retriever',
+    id: 'docs',
+    name: 'search_docs',
+    description: 'Search the handbook',
+    source: { store: 'pinecone', index: 'handbook' },
+    topK: 4,
+  },
+];
+
+const agent: AgentConfig = {
+  id: 'support',
+  name: 'Support',
+  provider: 'openai',
+  model: 'gpt-4o',
+  tools,
+};
+
+const workflow = {
+  id: 'wf',
+  name: 'Workflow',
+  nodes: [{ id: 'support', type: 'agent' as const, agent }],
+  connections: [],
+};
+
+describe('tool kinds', () => {
+  it('should validate every kind and default to function', () => {
+    expect(validateAgentConfig(agent).success).toBe(true);
+    expect(tools.map(getToolKind)).toEqual([
+      'function',
+      'http',
+      'mcp',
+      'code',
+      'retriever',
+    ]);
+    expect(getToolSettings(tools[2])).toEqual({
+      server: { url: 'https://mcp.example.com/sse' },
+      toolName: 'read_file',
+    });
+  });
+
+  it('should reject unknown kinds and incomplete settings', () => {
+    const result = validateAgentConfig({
+      ...agent,
+      tools: [
+        { id: 'a', name: 'a', description: '', kind: 'shell' },
+        { ...tools[2], server: { url: 'not a url' }, toolName: '' },
+      ],
+    });
+
+    expect(result.error?.issues).toEqual([
+      {
+        path: ['tools', '0', 'kind'],
+        message:
+          'Tool kind must be one of function, http, mcp, code, retriever',
+      },
+      { path: ['tools', '1', 'server', 'url'], message: 'Invalid url' },
+      {
+        path: ['tools', '1', 'toolName'],
+        message: 'MCP tool name is required',
+      },
+    ]);
+  });
+
+  it('should check HTTP tool argument references', () => {
+    expect(getUrlTemplateVariables('https://x.dev/{a}/{b}?q={a}')).toEqual([
+      'a',
+      'b',
+    ]);
+    expect(checkToolArguments(tools[1])).toEqual([]);
+    expect(
+      checkToolArguments({
+        ...(tools[1] as Extract<Tool, { kind: 'http' }>),
+        url: 'https://api.example.com/orders/{id}',
+        body: { select: 'columns' },
+      })
+    ).toEqual([
+      {
+        path: ['url'],
+        message: 'URL placeholder "{id}" is not a declared parameter',
+      },
+      {
+        path: ['body', 'select'],
+        message: 'Body field "select" maps undeclared parameter "columns"',
+      },
+    ]);
+  });
+
+  it('should refuse literal credentials in HTTP headers', () => {
+    const result = validateAgentConfig({
+      ...agent,
+      tools: [{ ...tools[1], headers: { Authorization: 'Bearer abc' } }],
+    });
+    expect(result.error?.issues?.[0].path).toEqual([
+      'tools',
+      '0',
+      'headers',
+      'Authorization',
+    ]);
+  });
+
+  it('should serialize kind-specific fields in schema order', () => {
+    expect(
+      serializeAgentConfig({
+        ...agent,
+        tools: [
+          {
+            toolName: 'read_file',
+            server: { url: 'https://mcp.example.com/sse' },
+            kind: 'mcp',
+            description: 'Read a file',
+            name: 'read_file',
+            id: 'files',
+          },
+        ],
+      })
+    ).toContain(
+      [
+        '  - id: files',
+        '    name: read_file',
+        '    description: Read a file',
+        '    kind: mcp',
+        '    server:',
+        '      url: https://mcp.example.com/sse',
+        '    toolName: read_file',
+      ].join('\n')
+    );
+  });
+});
+
+describe('tool kinds in adapters', () => {
+  it('should emit n8n tool node types and import them back', () => {
+    const { output, report } = mapAgentToN8nNodeWithReport(agent);
+    const n8nTools = output.parameters.tools as Array<Record<string, unknown>>;
+
+    expect(n8nTools.map((tool) => tool.type)).toEqual([
+      undefined,
+      'n8n-nodes-langchain.toolHttpRequest',
+      'n8n-nodes-langchain.mcpClientTool',
+      'n8n-nodes-langchain.toolCode',
+      'n8n-nodes-langchain.toolVectorStore',
+    ]);
+    expect(n8nTools[1].headers).toEqual({
+      Authorization: '={{ $env.ORDERS_TOKEN }}',
+    });
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: ['tools', '3'], severity: 'error' })
+    );
+
+    const { workflow: imported } = mapN8nToWorkflow(mapWorkflowToN8n(workflow));
+    expect(imported.nodes[0].agent?.tools?.map(getToolKind)).toEqual([
+      'function',
+      'http',
+      'mcp',
+      'code',
+      'retriever',
+    ]);
+    expect(imported.nodes[0].agent?.tools?.[2]).toEqual({
+      ...tools[2],
+      id: 'read_file',
+    });
+  });
+
+  it('should emit LangChain tool classes and import them back', () => {
+    const { output, report } = mapAgentToLangChainWithReport(agent);
+
+    expect(output.tools.map((tool) => tool.className)).toEqual([
+      'StructuredTool',
+      'RequestsPostTool',
+      'MultiServerMCPClient',
+      'PythonREPLTool',
+      'VectorStoreRetriever',
+    ]);
+    expect(output.tools[2].init).toEqual({
+      connections: {
+        files: {
+          transport: 'streamable_http',
+          url: 'https://mcp.example.com/sse',
+        },
+      },
+      toolName: 'read_file',
+    });
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: ['tools', '3', 'timeoutMs'] })
+    );
+
+    const { workflow: imported } = mapLangGraphToWorkflow(
+      mapWorkflowToLangGraph(workflow)
+    );
+    const importedTools = imported.nodes.find((node) => node.id === 'support')
+      ?.agent?.tools;
+    expect(importedTools?.slice(1)).toEqual([
+      { ...tools[1], id: 'get_order' },
+      { ...tools[2], id: 'read_file' },
+      { ...tools[3], timeoutMs: undefined },
+      { ...tools[4], id: 'search_docs' },
+    ]);
+  });
+
+  it('should emit CrewAI tool instances and import them back', () => {
+    const { output, report } = mapAgentToCrewAgentWithReport(agent);
+
+    expect(output.tools).toEqual([
+      'lookup',
+      'get_order',
+      'read_file',
+      'python',
+      'search_docs',
+    ]);
+    expect(output.toolDefinitions?.map((tool) => tool.className)).toEqual([
+      'BaseTool',
+      'BaseTool',
+      'MCPServerAdapter',
+      'CodeInterpreterTool',
+      'RagTool',
+    ]);
+    expect(output.toolDefinitions?.[0].argsSchema).toEqual(tools[0].parameters);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: ['tools', '1'], kind: 'approximated' })
+    );
+
+    const imported = mapCrewAgentToAgent(output);
+    expect(imported.tools?.map(getToolKind)).toEqual([
+      'function',
+      'http',
+      'mcp',
+      'code',
+      'retriever',
+    ]);
+    expect(imported.tools?.[4]).toEqual({ ...tools[4], id: 'search_docs' });
+  });
+});
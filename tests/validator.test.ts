@@ -20,7 +20,7 @@ describe('validateAgentConfig', () => {
 
     const result = validateAgentConfig(config);
     expect(result.success).toBe(true);
-    expect(result.data).toEqual(config);
+    expect(result.data).toEqual({ ...config, schemaVersion: '1.0' });
   });
 
   it('should validate a complete valid config', () => {
@@ -55,7 +55,7 @@ describe('validateAgentConfig', () => {
 
     const result = validateAgentConfig(config);
     expect(result.success).toBe(true);
-    expect(result.data).toEqual(config);
+    expect(result.data).toEqual({ ...config, schemaVersion: '1.0' });
   });
 
   it('should fail validation for missing required fields', () => {
@@ -135,7 +135,7 @@ describe('validateAgentConfigStrict', () => {
     };
 
     const validated = validateAgentConfigStrict(config);
-    expect(validated).toEqual(config);
+    expect(validated).toEqual({ ...config, schemaVersion: '1.0' });
   });
 
   it('should throw on validation failure', () => {
@@ -28,7 +28,7 @@ describe('validateWorkflowConfig', () => {
 
     const result = validateWorkflowConfig(workflow);
     expect(result.success).toBe(true);
-    expect(result.data).toEqual(workflow);
+    expect(result.data).toEqual({ ...workflow, schemaVersion: '1.0' });
   });
 
   it('should validate a complete workflow with multiple nodes', () => {
@@ -221,7 +221,7 @@ describe('validateWorkflowConfigStrict', () => {
     };
 
     const validated = validateWorkflowConfigStrict(workflow);
-    expect(validated).toEqual(workflow);
+    expect(validated).toEqual({ ...workflow, schemaVersion: '1.0' });
   });
 
   it('should throw on validation failure', () => {